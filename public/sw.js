@@ -0,0 +1,36 @@
+// Service worker for Web Push notifications. The server sends JSON:
+// { title, body, url, tag }
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: "Mzansi Market", body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || "Mzansi Market", {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url || "/dashboard" },
+    })
+  );
+});
+
+// Open the notification's link, reusing an open tab where there is one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+
+  const url = new URL(event.notification.data?.url || "/dashboard", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url === url);
+      if (open) return open.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,33 @@
+/**
+ * Open a ledger account for every wallet, carrying over the balance it held
+ * before the ledger existed, so reconciliation compares like with like. Run
+ * once after deploying the ledger; wallets already opened are skipped, so it
+ * is safe to run again:
+ *
+ *   npm run db:backfill-ledger
+ */
+import { prisma } from "@/lib/prisma";
+import { postOpeningBalance } from "@/lib/payments/ledger";
+
+async function main() {
+  const wallets = await prisma.wallet.findMany({ select: { userId: true } });
+  let opened = 0;
+
+  for (const wallet of wallets) {
+    const result = await prisma.$transaction((tx) => postOpeningBalance(tx, wallet.userId));
+
+    if (result) {
+      opened++;
+      console.log(`Opened wallet of user ${wallet.userId} with R${result.amount.toFixed(2)}`);
+    }
+  }
+
+  console.log(`Opened ${opened} of ${wallets.length} wallets`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Ledger backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
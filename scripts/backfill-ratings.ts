@@ -0,0 +1,81 @@
+/**
+ * Recompute every shop and service rating, sub-rating average and ranking
+ * score from verified reviews. Run after deploying rating changes, or whenever
+ * stored ratings look out of step with the reviews:
+ *
+ *   npm run db:backfill-ratings
+ *
+ * Reviews left before they were tied to bookings are unverified, so they
+ * would stop counting. Each one is first linked to a completed booking its
+ * writer had with the same provider, and verified, if there is a booking
+ * without a review of its own. Legacy reviews with no such booking stay
+ * unverified and drop out of the ratings.
+ */
+import { prisma } from "@/lib/prisma";
+import { refreshServiceRating, refreshShopRating } from "@/lib/reviews/ratings";
+
+async function verifyLegacyReviews() {
+  const reviews = await prisma.review.findMany({
+    where: { isVerified: false, appointmentId: null, orderId: null, receiverId: { not: null } },
+    select: { id: true, senderId: true, receiverId: true, serviceId: true, createdAt: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let verified = 0;
+
+  for (const review of reviews) {
+    const appointment = await prisma.appointment.findFirst({
+      where: {
+        requesterId: review.senderId,
+        providerId: review.receiverId!,
+        status: "COMPLETED",
+        date: { lte: review.createdAt },
+        review: null,
+        ...(review.serviceId && { serviceId: review.serviceId }),
+      },
+      select: { id: true, serviceId: true },
+      orderBy: { date: "desc" },
+    });
+
+    if (!appointment) continue;
+
+    await prisma.review.update({
+      where: { id: review.id },
+      data: {
+        appointmentId: appointment.id,
+        serviceId: review.serviceId ?? appointment.serviceId,
+        isVerified: true,
+      },
+    });
+    verified++;
+  }
+
+  console.log(`Verified ${verified} of ${reviews.length} legacy reviews against completed bookings`);
+}
+
+async function main() {
+  await verifyLegacyReviews();
+
+  const shops = await prisma.shop.findMany({ select: { userId: true } });
+
+  for (const shop of shops) {
+    await refreshShopRating(shop.userId);
+  }
+
+  console.log(`Recomputed ratings for ${shops.length} shops`);
+
+  const services = await prisma.service.findMany({ select: { id: true } });
+
+  for (const service of services) {
+    await refreshServiceRating(service.id);
+  }
+
+  console.log(`Recomputed ratings for ${services.length} services`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Rating backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
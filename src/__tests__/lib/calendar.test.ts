@@ -0,0 +1,94 @@
+import {
+  buildIcsEvent,
+  describeReminderOffset,
+  getReminderTimes,
+  MAX_REMINDER_MINUTES,
+} from "@/lib/bookings/calendar";
+
+describe("getReminderTimes", () => {
+  const start = new Date("2025-03-12T08:00:00Z");
+
+  it("sends each reminder the given minutes before the start, soonest first", () => {
+    const now = new Date("2025-03-10T09:00:00Z");
+    const times = getReminderTimes(start, [120, 1440], now);
+
+    expect(times).toEqual([
+      { minutesBefore: 1440, sendAt: new Date("2025-03-11T08:00:00Z") },
+      { minutesBefore: 120, sendAt: new Date("2025-03-12T06:00:00Z") },
+    ]);
+  });
+
+  it("drops reminders whose time has already passed", () => {
+    const now = new Date("2025-03-11T12:00:00Z");
+    const times = getReminderTimes(start, [1440, 120], now);
+
+    expect(times.map((t) => t.minutesBefore)).toEqual([120]);
+  });
+
+  it("sends duplicate offsets once", () => {
+    const now = new Date("2025-03-01T00:00:00Z");
+    expect(getReminderTimes(start, [120, 120], now)).toHaveLength(1);
+  });
+
+  it("ignores offsets that are zero, negative or too far out", () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    const times = getReminderTimes(start, [0, -60, MAX_REMINDER_MINUTES + 1], now);
+
+    expect(times).toEqual([]);
+  });
+});
+
+describe("describeReminderOffset", () => {
+  it("uses the largest whole unit", () => {
+    expect(describeReminderOffset(1440)).toBe("1 day");
+    expect(describeReminderOffset(2880)).toBe("2 days");
+    expect(describeReminderOffset(120)).toBe("2 hours");
+    expect(describeReminderOffset(60)).toBe("1 hour");
+    expect(describeReminderOffset(90)).toBe("90 minutes");
+  });
+});
+
+describe("buildIcsEvent", () => {
+  const event = {
+    uid: "booking-1@example.com",
+    start: new Date("2025-03-12T08:00:00Z"),
+    durationMinutes: 90,
+    summary: "Haircut with Sipho's Barbers",
+  };
+  const now = new Date("2025-03-10T09:15:30.123Z");
+
+  it("writes a single event with UTC start and end times", () => {
+    const ics = buildIcsEvent(event, now);
+
+    expect(ics).toContain("BEGIN:VEVENT\r\n");
+    expect(ics).toContain("UID:booking-1@example.com\r\n");
+    expect(ics).toContain("DTSTAMP:20250310T091530Z\r\n");
+    expect(ics).toContain("DTSTART:20250312T080000Z\r\n");
+    expect(ics).toContain("DTEND:20250312T093000Z\r\n");
+    expect(ics).toContain("METHOD:PUBLISH\r\n");
+    expect(ics).toContain("STATUS:CONFIRMED\r\n");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("escapes commas, semicolons and newlines in text", () => {
+    const ics = buildIcsEvent({ ...event, location: "12 Main Rd, Cape Town; Unit 4\nGate B" }, now);
+
+    expect(ics).toContain("LOCATION:12 Main Rd\\, Cape Town\\; Unit 4\\nGate B\r\n");
+  });
+
+  it("folds long lines", () => {
+    const ics = buildIcsEvent({ ...event, description: "x".repeat(200) }, now);
+
+    for (const line of ics.split("\r\n")) {
+      expect(line.length).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toContain("\r\n x");
+  });
+
+  it("marks a cancelled booking as cancelled", () => {
+    const ics = buildIcsEvent({ ...event, cancelled: true }, now);
+
+    expect(ics).toContain("METHOD:CANCEL\r\n");
+    expect(ics).toContain("STATUS:CANCELLED\r\n");
+  });
+});
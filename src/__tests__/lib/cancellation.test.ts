@@ -0,0 +1,141 @@
+import {
+  calculateCancellationFee,
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  getAppointmentStart,
+  getCancellationFeeBase,
+  hasAppointmentStarted,
+  resolveCancellationPolicy,
+} from "@/lib/payments/cancellation";
+
+const policy = {
+  freeCancellationHours: 24,
+  lateCancelFeePercent: 50,
+  noShowFeePercent: 100,
+};
+
+describe("resolveCancellationPolicy", () => {
+  it("falls back to the default policy", () => {
+    expect(resolveCancellationPolicy(null, null)).toEqual(DEFAULT_CANCELLATION_POLICY);
+  });
+
+  it("lets the service override the shop setting by setting", () => {
+    const resolved = resolveCancellationPolicy(
+      { freeCancellationHours: null, lateCancelFeePercent: 25, noShowFeePercent: null },
+      { freeCancellationHours: 48, lateCancelFeePercent: 10, noShowFeePercent: 80 }
+    );
+    expect(resolved).toEqual({
+      freeCancellationHours: 48,
+      lateCancelFeePercent: 25,
+      noShowFeePercent: 80,
+    });
+  });
+
+  it("reads decimal values", () => {
+    const resolved = resolveCancellationPolicy(null, {
+      lateCancelFeePercent: { toString: () => "12.5" },
+    });
+    expect(resolved.lateCancelFeePercent).toBe(12.5);
+  });
+});
+
+describe("getAppointmentStart", () => {
+  it("combines the date with the local time slot", () => {
+    expect(getAppointmentStart("2025-03-10", "14:30").toISOString()).toBe(
+      "2025-03-10T12:30:00.000Z"
+    );
+  });
+
+  it("uses the date alone when the time is missing", () => {
+    expect(getAppointmentStart("2025-03-10", "").toISOString()).toBe("2025-03-10T00:00:00.000Z");
+  });
+});
+
+describe("hasAppointmentStarted", () => {
+  it("is false until the booked time", () => {
+    expect(hasAppointmentStarted("2025-03-10", "14:30", new Date("2025-03-10T12:29:00Z"))).toBe(false);
+  });
+
+  it("is true from the booked time on", () => {
+    expect(hasAppointmentStarted("2025-03-10", "14:30", new Date("2025-03-10T12:30:00Z"))).toBe(true);
+    expect(hasAppointmentStarted("2025-03-10", "14:30", new Date("2025-03-12T08:00:00Z"))).toBe(true);
+  });
+});
+
+describe("calculateCancellationFee", () => {
+  const start = new Date("2025-03-10T12:00:00Z");
+
+  it("refunds in full inside the free-cancellation window", () => {
+    const now = new Date("2025-03-09T11:00:00Z"); // 25 hours before
+    expect(calculateCancellationFee(policy, 540, "CANCELLED", start, now)).toEqual({
+      fee: 0,
+      refund: 540,
+      feePercent: 0,
+      late: false,
+    });
+  });
+
+  it("charges the late fee after the window closes", () => {
+    const now = new Date("2025-03-10T08:00:00Z"); // 4 hours before
+    const result = calculateCancellationFee(policy, 540, "CANCELLED", start, now);
+    expect(result.fee).toBe(270);
+    expect(result.refund).toBe(270);
+    expect(result.late).toBe(true);
+  });
+
+  it("charges the no-show fee regardless of timing", () => {
+    const result = calculateCancellationFee(policy, 540, "NO_SHOW", start, new Date(0));
+    expect(result.fee).toBe(540);
+    expect(result.refund).toBe(0);
+  });
+
+  it("keeps the fee and refund adding up to the amount", () => {
+    const result = calculateCancellationFee(
+      { ...policy, lateCancelFeePercent: 33.33 },
+      99.99,
+      "CANCELLED",
+      start,
+      start
+    );
+    expect(Math.round((result.fee + result.refund) * 100)).toBe(9999);
+  });
+
+  it("caps the fee at the amount paid", () => {
+    const result = calculateCancellationFee(
+      { ...policy, noShowFeePercent: 150 },
+      100,
+      "NO_SHOW",
+      start
+    );
+    expect(result.fee).toBe(100);
+  });
+});
+
+describe("getCancellationFeeBase", () => {
+  it("uses the held payment when there is one", () => {
+    expect(getCancellationFeeBase(113.5, 100, 15)).toBe(113.5);
+  });
+
+  it("falls back to the full charge with booking fee and tax", () => {
+    // R100 + 8% booking fee + 15% tax
+    expect(getCancellationFeeBase(null, 100, 15)).toBe(123);
+  });
+});
+
+describe("describeCancellationPolicy", () => {
+  it("describes the late fee and no-show fee", () => {
+    expect(describeCancellationPolicy(policy)).toEqual([
+      "Free cancellation up to 24 hours before your appointment. Later cancellations are charged 50% of the booking.",
+      "If you don't show up, 100% of the booking is charged.",
+    ]);
+  });
+
+  it("describes a policy without fees", () => {
+    expect(
+      describeCancellationPolicy({ ...policy, lateCancelFeePercent: 0, noShowFeePercent: 0 })
+    ).toEqual([
+      "Free cancellation any time before your appointment.",
+      "No charge if you miss your appointment.",
+    ]);
+  });
+});
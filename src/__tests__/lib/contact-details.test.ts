@@ -0,0 +1,25 @@
+import { findContactDetails } from "@/lib/safety/contact-details";
+
+describe("findContactDetails", () => {
+  it("finds South African mobile numbers however they're written", () => {
+    expect(findContactDetails("WhatsApp me on 082 123 4567")).toEqual(["phone"]);
+    expect(findContactDetails("call +27 (82) 123-4567 after 5")).toEqual(["phone"]);
+    expect(findContactDetails("0821234567")).toEqual(["phone"]);
+  });
+
+  it("ignores prices, dates and times", () => {
+    expect(findContactDetails("It'll be R1 500 for the whole job")).toEqual([]);
+    expect(findContactDetails("Can you come on 2025-06-12 at 10:30?")).toEqual([]);
+    expect(findContactDetails("Booking ref 12 345 678")).toEqual([]);
+  });
+
+  it("finds links and bare domains", () => {
+    expect(findContactDetails("See https://example.org/pay")).toEqual(["link"]);
+    expect(findContactDetails("pay at www.cheap-deals.net")).toEqual(["link"]);
+    expect(findContactDetails("my site is plumbpro.co.za")).toEqual(["link"]);
+  });
+
+  it("reports both when a message has both", () => {
+    expect(findContactDetails("082 123 4567 or wa.me/27821234567")).toEqual(["phone", "link"]);
+  });
+});
@@ -0,0 +1,15 @@
+import { getParticipantKey } from "@/lib/messaging/participants";
+
+describe("getParticipantKey", () => {
+  it("is the same whichever user asks", () => {
+    expect(getParticipantKey("user-b", "user-a")).toBe(getParticipantKey("user-a", "user-b"));
+  });
+
+  it("joins the sorted ids", () => {
+    expect(getParticipantKey("user-b", "user-a")).toBe("user-a:user-b");
+  });
+
+  it("tells different pairs apart", () => {
+    expect(getParticipantKey("user-a", "user-b")).not.toBe(getParticipantKey("user-a", "user-c"));
+  });
+});
@@ -0,0 +1,52 @@
+import { getLatestDigestTime } from "@/lib/notifications/digest-time";
+
+// Digest times are South African time (UTC+2)
+describe("getLatestDigestTime", () => {
+  it("is today's digest time once it has passed", () => {
+    const now = new Date("2025-03-12T09:30:00Z"); // Wednesday 11:30 local
+
+    expect(getLatestDigestTime(now, "DAILY_DIGEST", "08:00")).toEqual(
+      new Date("2025-03-12T06:00:00Z")
+    );
+  });
+
+  it("is yesterday's digest time before today's has come", () => {
+    const now = new Date("2025-03-12T05:00:00Z"); // Wednesday 07:00 local
+
+    expect(getLatestDigestTime(now, "DAILY_DIGEST", "08:00")).toEqual(
+      new Date("2025-03-11T06:00:00Z")
+    );
+  });
+
+  it("uses the local date around midnight", () => {
+    const now = new Date("2025-03-11T22:30:00Z"); // Wednesday 00:30 local
+
+    expect(getLatestDigestTime(now, "DAILY_DIGEST", "00:15")).toEqual(
+      new Date("2025-03-11T22:15:00Z")
+    );
+  });
+
+  it("goes back to the chosen weekday for weekly digests", () => {
+    const now = new Date("2025-03-12T09:30:00Z"); // Wednesday
+
+    expect(getLatestDigestTime(now, "WEEKLY_DIGEST", "08:00", 1)).toEqual(
+      new Date("2025-03-10T06:00:00Z") // Monday
+    );
+  });
+
+  it("goes back a full week when this week's digest hasn't come yet", () => {
+    const now = new Date("2025-03-10T05:00:00Z"); // Monday 07:00 local
+
+    expect(getLatestDigestTime(now, "WEEKLY_DIGEST", "08:00", 1)).toEqual(
+      new Date("2025-03-03T06:00:00Z")
+    );
+  });
+
+  it("falls back to 08:00 for an invalid time", () => {
+    const now = new Date("2025-03-12T09:30:00Z");
+
+    expect(getLatestDigestTime(now, "DAILY_DIGEST", "nonsense")).toEqual(
+      new Date("2025-03-12T06:00:00Z")
+    );
+  });
+});
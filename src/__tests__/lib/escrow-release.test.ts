@@ -0,0 +1,40 @@
+import { execFileSync } from "child_process";
+import { join } from "path";
+import { getEscrowReleaseDate } from "@/lib/payments/release";
+
+describe("getEscrowReleaseDate", () => {
+  it("releases the given number of days after the booking date", () => {
+    expect(getEscrowReleaseDate(new Date("2024-01-15T00:00:00Z"), 3).toISOString()).toBe(
+      "2024-01-18T00:00:00.000Z"
+    );
+  });
+
+  it("carries over into the next month", () => {
+    expect(getEscrowReleaseDate(new Date("2024-02-28T00:00:00Z"), 3).toISOString()).toBe(
+      "2024-03-02T00:00:00.000Z"
+    );
+  });
+
+  it("doesn't change the date it was given", () => {
+    const date = new Date("2024-01-15T00:00:00Z");
+    getEscrowReleaseDate(date, 3);
+
+    expect(date.toISOString()).toBe("2024-01-15T00:00:00.000Z");
+  });
+
+  it("counts days in UTC on a server that observes daylight saving", () => {
+    // Jest can't change the time zone of its own process, so run the real
+    // function in one set to New York, which moves to summer time on 10 March
+    const output = execFileSync(
+      join(process.cwd(), "node_modules/.bin/tsx"),
+      [
+        "-e",
+        'import { getEscrowReleaseDate } from "./src/lib/payments/release";' +
+          'console.log(getEscrowReleaseDate(new Date("2024-03-09T00:00:00Z"), 3).toISOString());',
+      ],
+      { env: { ...process.env, TZ: "America/New_York" }, encoding: "utf8" }
+    );
+
+    expect(output.trim()).toBe("2024-03-12T00:00:00.000Z");
+  }, 30000);
+});
@@ -0,0 +1,81 @@
+import {
+  balanceDelta,
+  balanceFromTotals,
+  normalSide,
+  transactionDelta,
+  validateJournal,
+} from "@/lib/payments/ledger";
+
+describe("validateJournal", () => {
+  it("accepts a balanced journal", () => {
+    expect(
+      validateJournal([
+        { side: "DEBIT", amount: 540, account: "BOOKING_FUNDS" },
+        { side: "CREDIT", amount: 450, account: { walletUserId: "provider" } },
+        { side: "CREDIT", amount: 50, account: "PLATFORM_FEES" },
+        { side: "CREDIT", amount: 40, account: "PLATFORM_FEES" },
+      ])
+    ).toBeNull();
+  });
+
+  it("compares amounts to the cent", () => {
+    expect(
+      validateJournal([
+        { side: "DEBIT", amount: 0.3, account: "PAYMENT_CLEARING" },
+        { side: "CREDIT", amount: 0.1, account: "PLATFORM_SALES" },
+        { side: "CREDIT", amount: 0.2, account: "PLATFORM_SALES" },
+      ])
+    ).toBeNull();
+  });
+
+  it("rejects unbalanced journals", () => {
+    expect(
+      validateJournal([
+        { side: "DEBIT", amount: 100, account: "PAYMENT_CLEARING" },
+        { side: "CREDIT", amount: 99.99, account: { walletUserId: "user" } },
+      ])
+    ).toMatch(/unbalanced/);
+  });
+
+  it("rejects zero, negative and single-line journals", () => {
+    expect(
+      validateJournal([
+        { side: "DEBIT", amount: 0, account: "PAYMENT_CLEARING" },
+        { side: "CREDIT", amount: 0, account: "PLATFORM_SALES" },
+      ])
+    ).not.toBeNull();
+    expect(
+      validateJournal([
+        { side: "DEBIT", amount: -10, account: "PAYMENT_CLEARING" },
+        { side: "CREDIT", amount: -10, account: "PLATFORM_SALES" },
+      ])
+    ).not.toBeNull();
+    expect(validateJournal([{ side: "DEBIT", amount: 10, account: "PAYOUT" }])).not.toBeNull();
+  });
+});
+
+describe("account balances", () => {
+  it("treats clearing as debit-normal and everything else as credit-normal", () => {
+    expect(normalSide("PAYMENT_CLEARING")).toBe("DEBIT");
+    expect(normalSide("WALLET")).toBe("CREDIT");
+    expect(normalSide("PAYOUT")).toBe("CREDIT");
+  });
+
+  it("moves balances in the direction of the normal side", () => {
+    expect(balanceDelta("WALLET", "CREDIT", 100)).toBe(100);
+    expect(balanceDelta("WALLET", "DEBIT", 100)).toBe(-100);
+    expect(balanceDelta("PAYMENT_CLEARING", "DEBIT", 100)).toBe(100);
+  });
+
+  it("derives a balance from entry totals", () => {
+    expect(balanceFromTotals("WALLET", { debits: 30, credits: 100.1 })).toBe(70.1);
+    expect(balanceFromTotals("PAYMENT_CLEARING", { debits: 500, credits: 0 })).toBe(500);
+  });
+
+  it("signs transaction rows by type", () => {
+    expect(transactionDelta("CREDIT", 10)).toBe(10);
+    expect(transactionDelta("REFUND", 10)).toBe(10);
+    expect(transactionDelta("DEBIT", 10)).toBe(-10);
+    expect(transactionDelta("WITHDRAWAL", 10)).toBe(-10);
+  });
+});
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { canTransitionPayment, getPaymentStatusesBefore } from "@/lib/payments";
+
+describe("canTransitionPayment", () => {
+  it("allows payments to move forward", () => {
+    expect(canTransitionPayment("PENDING", "PROCESSING")).toBe(true);
+    expect(canTransitionPayment("PROCESSING", "COMPLETED")).toBe(true);
+    expect(canTransitionPayment("PROCESSING", "FAILED")).toBe(true);
+    expect(canTransitionPayment("COMPLETED", "REFUNDED")).toBe(true);
+  });
+
+  it("never moves a payment backwards", () => {
+    expect(canTransitionPayment("COMPLETED", "PROCESSING")).toBe(false);
+    expect(canTransitionPayment("COMPLETED", "COMPLETED")).toBe(false);
+    expect(canTransitionPayment("FAILED", "COMPLETED")).toBe(false);
+    expect(canTransitionPayment("PROCESSING", "PENDING")).toBe(false);
+  });
+});
+
+describe("getPaymentStatusesBefore", () => {
+  it("lists the statuses a payment can complete from", () => {
+    expect(getPaymentStatusesBefore("COMPLETED").sort()).toEqual(["PENDING", "PROCESSING"]);
+  });
+});
+
+describe("verifyYocoWebhookSignature", () => {
+  const secretBytes = Buffer.from("test-webhook-secret");
+  const body = JSON.stringify({ id: "evt_123", type: "payment.succeeded" });
+
+  let verifyYocoWebhookSignature: typeof import("@/lib/payments/yoco").verifyYocoWebhookSignature;
+
+  beforeAll(async () => {
+    process.env.YOCO_WEBHOOK_SECRET = `whsec_${secretBytes.toString("base64")}`;
+    jest.resetModules();
+    ({ verifyYocoWebhookSignature } = await import("@/lib/payments/yoco"));
+  });
+
+  afterAll(() => {
+    delete process.env.YOCO_WEBHOOK_SECRET;
+  });
+
+  const sign = (id: string, timestamp: string, payload: string) =>
+    crypto.createHmac("sha256", secretBytes).update(`${id}.${timestamp}.${payload}`).digest("base64");
+
+  it("accepts a correctly signed webhook", () => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const result = verifyYocoWebhookSignature(body, {
+      id: "msg_1",
+      timestamp,
+      signature: `v1,${sign("msg_1", timestamp, body)}`,
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a tampered body", () => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const result = verifyYocoWebhookSignature(body.replace("evt_123", "evt_999"), {
+      id: "msg_1",
+      timestamp,
+      signature: `v1,${sign("msg_1", timestamp, body)}`,
+    });
+    expect(result.valid).toBe(false);
+  });
+
+  it("rejects a stale timestamp", () => {
+    const timestamp = Math.floor(Date.now() / 1000 - 3600).toString();
+    const result = verifyYocoWebhookSignature(body, {
+      id: "msg_1",
+      timestamp,
+      signature: `v1,${sign("msg_1", timestamp, body)}`,
+    });
+    expect(result.valid).toBe(false);
+  });
+
+  it("rejects missing headers", () => {
+    const result = verifyYocoWebhookSignature(body, { id: null, timestamp: null, signature: null });
+    expect(result.valid).toBe(false);
+  });
+});
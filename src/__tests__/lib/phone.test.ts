@@ -0,0 +1,49 @@
+import { isSamePhoneNumber, maskPhoneNumber, normalizePhoneNumber } from "@/lib/sms/phone";
+
+describe("normalizePhoneNumber", () => {
+  it("converts local South African mobile numbers to +27 form", () => {
+    expect(normalizePhoneNumber("082 123 4567")).toBe("+27821234567");
+    expect(normalizePhoneNumber("071-123-4567")).toBe("+27711234567");
+    expect(normalizePhoneNumber("(060) 123 4567")).toBe("+27601234567");
+  });
+
+  it("accepts the international forms of the same number", () => {
+    expect(normalizePhoneNumber("+27 82 123 4567")).toBe("+27821234567");
+    expect(normalizePhoneNumber("27821234567")).toBe("+27821234567");
+    expect(normalizePhoneNumber("0027821234567")).toBe("+27821234567");
+  });
+
+  it("rejects landlines, which can't receive texts", () => {
+    expect(normalizePhoneNumber("011 123 4567")).toBeNull();
+    expect(normalizePhoneNumber("+27 21 123 4567")).toBeNull();
+  });
+
+  it("accepts other countries' numbers in international form", () => {
+    expect(normalizePhoneNumber("+264 81 123 4567")).toBe("+264811234567");
+  });
+
+  it("rejects anything that isn't a phone number", () => {
+    expect(normalizePhoneNumber("082 123 456")).toBeNull();
+    expect(normalizePhoneNumber("not a number")).toBeNull();
+    expect(normalizePhoneNumber("")).toBeNull();
+    expect(normalizePhoneNumber(null)).toBeNull();
+  });
+});
+
+describe("maskPhoneNumber", () => {
+  it("shows only the country code and last four digits", () => {
+    expect(maskPhoneNumber("+27821234567")).toBe("+27 *** *** 4567");
+  });
+});
+
+describe("isSamePhoneNumber", () => {
+  it("treats different ways of writing a number as the same", () => {
+    expect(isSamePhoneNumber("082 123 4567", "+27821234567")).toBe(true);
+    expect(isSamePhoneNumber(null, undefined)).toBe(true);
+  });
+
+  it("spots a different number", () => {
+    expect(isSamePhoneNumber("082 123 4567", "083 123 4567")).toBe(false);
+    expect(isSamePhoneNumber("082 123 4567", null)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  BOOKING_FEE_RATE,
+  calculateAppointmentCharge,
+  calculateEarning,
+  amountsMatch,
+  reduceEarning,
+  roundToCents,
+  splitRefund,
+} from "@/lib/payments/pricing";
+
+describe("roundToCents", () => {
+  it("rounds to two decimal places", () => {
+    expect(roundToCents(10.005)).toBeCloseTo(10.01);
+    expect(roundToCents(99.994)).toBe(99.99);
+  });
+});
+
+describe("calculateAppointmentCharge", () => {
+  it("adds the booking fee to the service price", () => {
+    const charge = calculateAppointmentCharge(500);
+    expect(charge.subtotal).toBe(500);
+    expect(charge.bookingFee).toBe(500 * (BOOKING_FEE_RATE / 100));
+    expect(charge.tax).toBe(0);
+    expect(charge.total).toBe(500 + charge.bookingFee);
+  });
+
+  it("adds tax at the provider's rate", () => {
+    const charge = calculateAppointmentCharge(200, 15);
+    expect(charge.tax).toBe(30);
+    expect(charge.total).toBe(200 + charge.bookingFee + 30);
+  });
+
+  it("treats an invalid tax rate as zero", () => {
+    const charge = calculateAppointmentCharge(100, NaN);
+    expect(charge.tax).toBe(0);
+  });
+});
+
+describe("calculateEarning", () => {
+  it("deducts commission from the provider's gross", () => {
+    const earning = calculateEarning({ subtotal: 500, tax: 0 }, 10);
+    expect(earning.grossAmount).toBe(500);
+    expect(earning.feeAmount).toBe(50);
+    expect(earning.netAmount).toBe(450);
+  });
+
+  it("does not charge commission on tax", () => {
+    const earning = calculateEarning({ subtotal: 200, tax: 30 }, 15);
+    expect(earning.grossAmount).toBe(230);
+    expect(earning.feeAmount).toBe(30);
+    expect(earning.netAmount).toBe(200);
+  });
+
+  it("rounds the fee to cents", () => {
+    const earning = calculateEarning({ subtotal: 99.99, tax: 0 }, 12.5);
+    expect(earning.feeAmount).toBe(12.5);
+    expect(earning.netAmount).toBe(87.49);
+  });
+});
+
+describe("reduceEarning", () => {
+  const earning = calculateEarning({ subtotal: 500, tax: 0 }, 10);
+
+  it("leaves an untouched earning as it was", () => {
+    expect(reduceEarning(earning, 1, 450)).toEqual(earning);
+  });
+
+  it("shrinks the gross in proportion and keeps the remaining net", () => {
+    const reduced = reduceEarning(earning, 0.5, 225);
+    expect(reduced.grossAmount).toBe(250);
+    expect(reduced.netAmount).toBe(225);
+    expect(reduced.feeAmount).toBe(25);
+    expect(reduced.commissionRate).toBe(10);
+  });
+});
+
+describe("splitRefund", () => {
+  it("returns everything to its source on a full refund", () => {
+    expect(splitRefund(540, 540, 450)).toEqual({ providerShare: 450, platformShare: 90 });
+  });
+
+  it("splits a partial refund in proportion", () => {
+    expect(splitRefund(270, 540, 450)).toEqual({ providerShare: 225, platformShare: 45 });
+  });
+
+  it("never takes more than the provider received", () => {
+    expect(splitRefund(600, 540, 450).providerShare).toBe(450);
+  });
+
+  it("keeps the shares adding up to the refund", () => {
+    const { providerShare, platformShare } = splitRefund(100, 333.33, 299.99);
+    expect(roundToCents(providerShare + platformShare)).toBe(100);
+  });
+});
+
+describe("amountsMatch", () => {
+  it("matches amounts equal to the cent", () => {
+    expect(amountsMatch(540, 540)).toBe(true);
+    expect(amountsMatch(0.1 + 0.2, 0.3)).toBe(true);
+  });
+
+  it("rejects amounts that differ", () => {
+    expect(amountsMatch(540, 1)).toBe(false);
+    expect(amountsMatch(540, 539.99)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { getQuietHoursEnd, parseTimeOfDay } from "@/lib/notifications/quiet-hours";
+
+describe("parseTimeOfDay", () => {
+  it("converts HH:MM to minutes after midnight", () => {
+    expect(parseTimeOfDay("00:00")).toBe(0);
+    expect(parseTimeOfDay("07:30")).toBe(450);
+    expect(parseTimeOfDay("23:59")).toBe(1439);
+  });
+
+  it("rejects anything that isn't a time of day", () => {
+    expect(parseTimeOfDay("24:00")).toBeNull();
+    expect(parseTimeOfDay("7:30")).toBeNull();
+    expect(parseTimeOfDay("")).toBeNull();
+    expect(parseTimeOfDay(null)).toBeNull();
+  });
+});
+
+describe("getQuietHoursEnd", () => {
+  // Quiet hours are South African time (UTC+2)
+  it("holds until the morning for quiet hours that span midnight", () => {
+    const now = new Date("2025-03-10T21:15:00Z"); // 23:15 local
+
+    expect(getQuietHoursEnd(now, "22:00", "07:00")).toEqual(new Date("2025-03-11T05:00:00Z"));
+  });
+
+  it("holds until the end after midnight too", () => {
+    const now = new Date("2025-03-11T01:00:00Z"); // 03:00 local
+
+    expect(getQuietHoursEnd(now, "22:00", "07:00")).toEqual(new Date("2025-03-11T05:00:00Z"));
+  });
+
+  it("handles quiet hours within a single day", () => {
+    const now = new Date("2025-03-10T11:20:45Z"); // 13:20:45 local
+
+    expect(getQuietHoursEnd(now, "13:00", "14:00")).toEqual(new Date("2025-03-10T12:00:00Z"));
+  });
+
+  it("returns null outside quiet hours", () => {
+    expect(getQuietHoursEnd(new Date("2025-03-10T10:00:00Z"), "22:00", "07:00")).toBeNull();
+    // The end time itself is no longer quiet
+    expect(getQuietHoursEnd(new Date("2025-03-11T05:00:00Z"), "22:00", "07:00")).toBeNull();
+  });
+
+  it("returns null when quiet hours aren't set", () => {
+    const now = new Date("2025-03-10T21:15:00Z");
+
+    expect(getQuietHoursEnd(now, null, null)).toBeNull();
+    expect(getQuietHoursEnd(now, "22:00", null)).toBeNull();
+    expect(getQuietHoursEnd(now, "22:00", "22:00")).toBeNull();
+  });
+});
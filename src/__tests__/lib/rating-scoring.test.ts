@@ -0,0 +1,23 @@
+import { getBayesianScore } from "@/lib/reviews/scoring";
+
+describe("getBayesianScore", () => {
+  it("scores unreviewed shops as zero", () => {
+    expect(getBayesianScore(null, 0, 3.5, 10)).toBe(0);
+  });
+
+  it("pulls a handful of reviews towards the prior mean", () => {
+    expect(getBayesianScore(5, 1, 3.5, 10)).toBeCloseTo(3.64, 2);
+  });
+
+  it("ranks many strong reviews above a single perfect one", () => {
+    const single = getBayesianScore(5, 1, 3.5, 10);
+    const many = getBayesianScore(4.8, 200, 3.5, 10);
+
+    expect(many).toBeGreaterThan(single);
+    expect(many).toBeCloseTo(4.74, 2);
+  });
+
+  it("leaves the rating alone when the prior has no weight", () => {
+    expect(getBayesianScore(4.2, 3, 3.5, 0)).toBeCloseTo(4.2);
+  });
+});
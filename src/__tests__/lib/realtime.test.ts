@@ -0,0 +1,64 @@
+import { formatSseEvent, RealtimeEvent, trimRealtimeEvent } from "@/lib/realtime/events";
+
+const messageEvent: RealtimeEvent = {
+  type: "message.new",
+  conversationId: "conv-1",
+  messageId: "msg-1",
+  senderId: "user-1",
+  message: {
+    id: "msg-1",
+    conversationId: "conv-1",
+    senderId: "user-1",
+    receiverId: "user-2",
+    subject: null,
+    content: "Line one\nLine two",
+    status: "UNREAD",
+    createdAt: "2025-03-10T07:00:00.000Z",
+    sender: { id: "user-1", username: "thandi", picture: null },
+  },
+};
+
+describe("formatSseEvent", () => {
+  it("writes the event as a single data line ending in a blank line", () => {
+    const frame = formatSseEvent({ type: "typing", conversationId: "conv-1", userId: "user-1" });
+    expect(frame).toBe('data: {"type":"typing","conversationId":"conv-1","userId":"user-1"}\n\n');
+  });
+
+  it("keeps newlines in message content escaped inside the data line", () => {
+    const frame = formatSseEvent(messageEvent);
+    expect(frame.split("\n")).toHaveLength(3);
+    expect(JSON.parse(frame.slice("data: ".length))).toEqual(messageEvent);
+  });
+});
+
+describe("trimRealtimeEvent", () => {
+  it("drops the message but keeps what the client needs to fetch it", () => {
+    expect(trimRealtimeEvent(messageEvent)).toEqual({
+      type: "message.new",
+      conversationId: "conv-1",
+      messageId: "msg-1",
+      senderId: "user-1",
+    });
+  });
+
+  it("drops the notification body", () => {
+    const trimmed = trimRealtimeEvent({
+      type: "notification.new",
+      notificationId: "n-1",
+      notification: {
+        id: "n-1",
+        type: "MESSAGE_NEW",
+        title: "New Message",
+        message: "thandi: hi",
+        link: "/dashboard/messages",
+        createdAt: "2025-03-10T07:00:00.000Z",
+      },
+    });
+    expect(trimmed).toEqual({ type: "notification.new", notificationId: "n-1" });
+  });
+
+  it("leaves events without a payload alone", () => {
+    const event: RealtimeEvent = { type: "conversation.updated", conversationId: "conv-1" };
+    expect(trimRealtimeEvent(event)).toBe(event);
+  });
+});
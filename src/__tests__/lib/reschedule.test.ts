@@ -0,0 +1,59 @@
+import {
+  getRescheduleProposeError,
+  getRescheduleRespondError,
+  isReschedulable,
+} from "@/lib/bookings/reschedule";
+
+const proposal = { proposedById: "customer", status: "PENDING" };
+
+describe("isReschedulable", () => {
+  it("only allows upcoming bookings", () => {
+    expect(isReschedulable("PENDING")).toBe(true);
+    expect(isReschedulable("CONFIRMED")).toBe(true);
+    expect(isReschedulable("COMPLETED")).toBe(false);
+    expect(isReschedulable("CANCELLED")).toBe(false);
+  });
+});
+
+describe("getRescheduleProposeError", () => {
+  it("lets either party propose when nothing is open", () => {
+    expect(getRescheduleProposeError("CONFIRMED", null, "customer")).toBeNull();
+    expect(getRescheduleProposeError("CONFIRMED", null, "provider")).toBeNull();
+  });
+
+  it("lets the other party counter an open proposal", () => {
+    expect(getRescheduleProposeError("CONFIRMED", proposal, "provider")).toBeNull();
+  });
+
+  it("stops a second proposal from the same person", () => {
+    expect(getRescheduleProposeError("CONFIRMED", proposal, "customer")?.status).toBe(409);
+  });
+
+  it("rejects finished bookings", () => {
+    expect(getRescheduleProposeError("COMPLETED", null, "customer")?.status).toBe(400);
+  });
+});
+
+describe("getRescheduleRespondError", () => {
+  it("lets the other party accept or decline", () => {
+    expect(getRescheduleRespondError("accept", proposal, "provider")).toBeNull();
+    expect(getRescheduleRespondError("decline", proposal, "provider")).toBeNull();
+  });
+
+  it("stops the proposer answering their own proposal", () => {
+    expect(getRescheduleRespondError("accept", proposal, "customer")?.status).toBe(403);
+    expect(getRescheduleRespondError("decline", proposal, "customer")?.status).toBe(403);
+  });
+
+  it("only lets the proposer withdraw", () => {
+    expect(getRescheduleRespondError("withdraw", proposal, "customer")).toBeNull();
+    expect(getRescheduleRespondError("withdraw", proposal, "provider")?.status).toBe(403);
+  });
+
+  it("rejects proposals that were already answered", () => {
+    const answered = { ...proposal, status: "COUNTERED" };
+
+    expect(getRescheduleRespondError("accept", answered, "provider")?.status).toBe(400);
+    expect(getRescheduleRespondError("withdraw", answered, "customer")?.status).toBe(400);
+  });
+});
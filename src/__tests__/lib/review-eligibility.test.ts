@@ -0,0 +1,51 @@
+import { getAppointmentReviewError, getOrderReviewError } from "@/lib/reviews/eligibility";
+
+describe("getAppointmentReviewError", () => {
+  const appointment = { status: "COMPLETED", requesterId: "customer", review: null };
+
+  it("allows the customer to review a completed booking", () => {
+    expect(getAppointmentReviewError(appointment, "customer")).toBeNull();
+  });
+
+  it("hides other people's bookings", () => {
+    expect(getAppointmentReviewError(appointment, "someone-else")).toBe("Booking not found");
+    expect(getAppointmentReviewError(null, "customer")).toBe("Booking not found");
+  });
+
+  it("waits until the booking is completed", () => {
+    expect(getAppointmentReviewError({ ...appointment, status: "CONFIRMED" }, "customer")).toBe(
+      "You can review a booking once it has been completed"
+    );
+  });
+
+  it("allows one review per booking", () => {
+    expect(getAppointmentReviewError({ ...appointment, review: { id: "r1" } }, "customer")).toBe(
+      "You have already reviewed this booking"
+    );
+  });
+});
+
+describe("getOrderReviewError", () => {
+  const order = { status: "DELIVERED", userId: "customer", review: null };
+
+  it("allows the buyer to review a delivered order", () => {
+    expect(getOrderReviewError(order, "customer")).toBeNull();
+  });
+
+  it("hides other people's orders", () => {
+    expect(getOrderReviewError(order, "someone-else")).toBe("Order not found");
+    expect(getOrderReviewError(null, "customer")).toBe("Order not found");
+  });
+
+  it("waits until the order is delivered", () => {
+    expect(getOrderReviewError({ ...order, status: "SHIPPED" }, "customer")).toBe(
+      "You can review an order once it has been delivered"
+    );
+  });
+
+  it("allows one review per order", () => {
+    expect(getOrderReviewError({ ...order, review: { id: "r1" } }, "customer")).toBe(
+      "You have already reviewed this order"
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { getReviewOrderBy, parseReviewSort } from "@/lib/reviews/sorting";
+
+describe("parseReviewSort", () => {
+  it("accepts the known sorts", () => {
+    expect(parseReviewSort("helpful")).toBe("helpful");
+    expect(parseReviewSort("rating")).toBe("rating");
+  });
+
+  it("falls back to newest", () => {
+    expect(parseReviewSort(null)).toBe("newest");
+    expect(parseReviewSort("oldest")).toBe("newest");
+  });
+});
+
+describe("getReviewOrderBy", () => {
+  it("puts the most helpful reviews first, newest breaking ties", () => {
+    expect(getReviewOrderBy("helpful")).toEqual([
+      { helpfulCount: "desc" },
+      { unhelpfulCount: "asc" },
+      { createdAt: "desc" },
+    ]);
+  });
+
+  it("sorts by rating with newest breaking ties", () => {
+    expect(getReviewOrderBy("rating")).toEqual([{ rating: "desc" }, { createdAt: "desc" }]);
+  });
+
+  it("sorts newest first by default", () => {
+    expect(getReviewOrderBy("newest")).toEqual([{ createdAt: "desc" }]);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  describeJobError,
+  getRecurringKey,
+  getRecurringRunAt,
+  getRetryAt,
+  getRetryDelay,
+} from "@/lib/queue/schedule";
+
+describe("getRetryDelay", () => {
+  it("doubles the wait after each failed attempt", () => {
+    expect(getRetryDelay(1, 30, 3600)).toBe(30_000);
+    expect(getRetryDelay(2, 30, 3600)).toBe(60_000);
+    expect(getRetryDelay(3, 30, 3600)).toBe(120_000);
+    expect(getRetryDelay(4, 30, 3600)).toBe(240_000);
+  });
+
+  it("never waits longer than the cap", () => {
+    expect(getRetryDelay(20, 30, 3600)).toBe(3_600_000);
+  });
+
+  it("treats a job that has not run yet like its first attempt", () => {
+    expect(getRetryDelay(0, 30, 3600)).toBe(30_000);
+  });
+
+  it("schedules the retry from the given time", () => {
+    const now = new Date("2025-03-10T09:00:00Z");
+    expect(getRetryAt(1, now).getTime()).toBeGreaterThan(now.getTime());
+  });
+});
+
+describe("recurring jobs", () => {
+  const job = { type: "featured.expire", everyMinutes: 60 };
+
+  it("gives every run in the same interval the same key", () => {
+    const a = getRecurringKey(job, new Date("2025-03-10T09:05:00Z"));
+    const b = getRecurringKey(job, new Date("2025-03-10T09:55:00Z"));
+    expect(a).toBe(b);
+    expect(a.startsWith("featured.expire:")).toBe(true);
+  });
+
+  it("gives the next interval a new key", () => {
+    const a = getRecurringKey(job, new Date("2025-03-10T09:55:00Z"));
+    const b = getRecurringKey(job, new Date("2025-03-10T10:05:00Z"));
+    expect(a).not.toBe(b);
+  });
+
+  it("runs at the start of the interval", () => {
+    expect(getRecurringRunAt(job, new Date("2025-03-10T09:41:12Z"))).toEqual(
+      new Date("2025-03-10T09:00:00Z")
+    );
+  });
+});
+
+describe("describeJobError", () => {
+  it("keeps the error name and message", () => {
+    const error = new Error("SMTP timeout");
+    error.stack = undefined;
+    expect(describeJobError(error)).toBe("Error: SMTP timeout");
+  });
+
+  it("handles thrown values that aren't errors", () => {
+    expect(describeJobError("boom")).toBe("boom");
+  });
+
+  it("trims long errors", () => {
+    const text = describeJobError("x".repeat(50), 10);
+    expect(text).toBe(`${"x".repeat(10)}…`);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  computeSlots,
+  findPreferredSlot,
+  fromMinutes,
+  getReservationBlocks,
+  isSlotAvailable,
+  listDates,
+  shopWorkingHours,
+  SlotQuery,
+  toMinutes,
+} from "@/lib/bookings/slots";
+
+// 2025-03-10 is a Monday
+const baseQuery: SlotQuery = {
+  from: "2025-03-10",
+  to: "2025-03-10",
+  duration: 60,
+  hours: [{ dayOfWeek: 1, startTime: "09:00", endTime: "12:00" }],
+  blocked: [],
+  booked: [],
+  settings: { slotIntervalMinutes: 30, bufferMinutes: 0, leadTimeHours: 0 },
+  now: new Date("2025-03-01T00:00:00Z"),
+};
+
+const slotsFor = (query: Partial<SlotQuery>) => computeSlots({ ...baseQuery, ...query })[0].slots;
+
+describe("time helpers", () => {
+  it("converts between HH:MM and minutes", () => {
+    expect(toMinutes("09:30")).toBe(570);
+    expect(fromMinutes(570)).toBe("09:30");
+  });
+
+  it("lists every date in a range", () => {
+    expect(listDates("2025-02-27", "2025-03-02")).toEqual([
+      "2025-02-27",
+      "2025-02-28",
+      "2025-03-01",
+      "2025-03-02",
+    ]);
+  });
+});
+
+describe("shopWorkingHours", () => {
+  it("reads day ranges and lists", () => {
+    expect(shopWorkingHours("09:00", "17:00", ["Mon-Fri"]).map((h) => h.dayOfWeek)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(shopWorkingHours("09:00", "17:00", ["Saturday", "sun"]).map((h) => h.dayOfWeek)).toEqual([
+      0, 6,
+    ]);
+  });
+
+  it("opens every day with default hours when nothing can be read", () => {
+    const hours = shopWorkingHours(null, "late", ["weekends"]);
+    expect(hours).toHaveLength(7);
+    expect(hours[0]).toEqual({ dayOfWeek: 0, startTime: "08:00", endTime: "18:00" });
+  });
+});
+
+describe("computeSlots", () => {
+  it("offers slots that fit the service inside working hours", () => {
+    expect(slotsFor({})).toEqual(["09:00", "09:30", "10:00", "10:30", "11:00"]);
+  });
+
+  it("offers nothing on days without working hours", () => {
+    expect(slotsFor({ from: "2025-03-11", to: "2025-03-11" })).toEqual([]);
+  });
+
+  it("keeps clear of existing bookings and their buffer", () => {
+    const booked = [{ date: "2025-03-10", time: "10:00", duration: 30 }];
+
+    expect(slotsFor({ booked })).toEqual(["09:00", "10:30", "11:00"]);
+    expect(
+      slotsFor({ booked, settings: { ...baseQuery.settings, bufferMinutes: 15 } })
+    ).toEqual(["11:00"]);
+  });
+
+  it("skips blocked ranges and whole blocked days", () => {
+    expect(
+      slotsFor({ blocked: [{ date: "2025-03-10", startTime: "09:00", endTime: "10:00" }] })
+    ).toEqual(["10:00", "10:30", "11:00"]);
+    expect(slotsFor({ blocked: [{ date: "2025-03-10" }] })).toEqual([]);
+  });
+
+  it("enforces the lead time", () => {
+    // 09:00 local is 07:00 UTC
+    const now = new Date("2025-03-10T06:00:00Z");
+    expect(
+      slotsFor({ now, settings: { ...baseQuery.settings, leadTimeHours: 2 } })
+    ).toEqual(["10:00", "10:30", "11:00"]);
+  });
+});
+
+describe("isSlotAvailable", () => {
+  it("accepts times off the slot grid that still fit", () => {
+    expect(isSlotAvailable(baseQuery, "2025-03-10", "09:15")).toBe(true);
+  });
+
+  it("rejects overlapping and out-of-hours times", () => {
+    const booked = [{ date: "2025-03-10", time: "10:00", duration: 60 }];
+    expect(isSlotAvailable({ ...baseQuery, booked }, "2025-03-10", "09:30")).toBe(false);
+    expect(isSlotAvailable(baseQuery, "2025-03-10", "11:30")).toBe(false);
+  });
+});
+
+describe("getReservationBlocks", () => {
+  it("covers the booking and its buffer in 5-minute blocks", () => {
+    const blocks = getReservationBlocks("2025-03-10", "09:00", 30, 10);
+    expect(blocks).toHaveLength(8);
+    expect(blocks[0].toISOString()).toBe("2025-03-10T07:00:00.000Z");
+    expect(blocks[7].toISOString()).toBe("2025-03-10T07:35:00.000Z");
+  });
+
+  it("widens times off the block grid to whole blocks", () => {
+    const blocks = getReservationBlocks("2025-03-10", "09:03", 10);
+    expect(blocks.map((b) => b.toISOString())).toEqual([
+      "2025-03-10T07:00:00.000Z",
+      "2025-03-10T07:05:00.000Z",
+      "2025-03-10T07:10:00.000Z",
+    ]);
+  });
+
+  it("shares a block only when bookings overlap or sit inside the buffer", () => {
+    const keys = (blocks: Date[]) => new Set(blocks.map((b) => b.getTime()));
+    const first = keys(getReservationBlocks("2025-03-10", "09:00", 60, 15));
+    const clash = (time: string) =>
+      getReservationBlocks("2025-03-10", time, 60, 15).some((b) => first.has(b.getTime()));
+
+    expect(clash("10:00")).toBe(true);
+    expect(clash("10:15")).toBe(false);
+    expect(clash("07:45")).toBe(false);
+    expect(clash("07:50")).toBe(true);
+  });
+});
+
+describe("findPreferredSlot", () => {
+  const day = { date: "2025-03-10", slots: ["08:00", "09:00", "10:00", "14:00"] };
+  const preference = { dateFrom: "2025-03-09", dateTo: "2025-03-12" };
+
+  it("picks the earliest free time inside the preferred hours", () => {
+    expect(findPreferredSlot(preference, day)).toBe("08:00");
+    expect(findPreferredSlot({ ...preference, timeFrom: "08:30", timeTo: "10:00" }, day)).toBe("09:00");
+  });
+
+  it("skips times already offered to someone else", () => {
+    expect(findPreferredSlot(preference, day, ["08:00", "09:00"])).toBe("10:00");
+  });
+
+  it("offers nothing outside the preferred dates or times", () => {
+    expect(findPreferredSlot({ ...preference, dateFrom: "2025-03-11" }, day)).toBeNull();
+    expect(findPreferredSlot({ ...preference, timeFrom: "15:00" }, day)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  MAX_DOCUMENT_SIZE,
+  MAX_IMAGE_SIZE,
+  getMimeTypeFromFilename,
+  getUploadExtension,
+  parseOwnUploadUrl,
+  validateUpload,
+} from "@/lib/uploads";
+
+describe("validateUpload", () => {
+  it("only accepts images for profile and gallery uploads", () => {
+    expect(validateUpload({ type: "image/png", size: 1000 }, "gallery")).toBeNull();
+    expect(validateUpload({ type: "application/pdf", size: 1000 }, "profile")).toMatch(/not allowed/);
+  });
+
+  it("accepts documents up to the document limit for document uploads", () => {
+    expect(validateUpload({ type: "application/pdf", size: MAX_DOCUMENT_SIZE }, "document")).toBeNull();
+    expect(validateUpload({ type: "image/jpeg", size: MAX_IMAGE_SIZE + 1 }, "job")).toBeNull();
+  });
+
+  it("keeps message photos to the image limit but allows larger documents", () => {
+    expect(validateUpload({ type: "image/jpeg", size: MAX_IMAGE_SIZE + 1 }, "message")).toMatch(/too large/);
+    expect(validateUpload({ type: "application/pdf", size: MAX_IMAGE_SIZE + 1 }, "message")).toBeNull();
+    expect(validateUpload({ type: "application/pdf", size: MAX_DOCUMENT_SIZE + 1 }, "message")).toMatch(/too large/);
+    expect(validateUpload({ type: "text/html", size: 10 }, "message")).toMatch(/not allowed/);
+  });
+});
+
+describe("upload extensions", () => {
+  it("names saved files after their checked type", () => {
+    expect(getUploadExtension("image/jpeg")).toBe(".jpg");
+    expect(getUploadExtension("application/vnd.openxmlformats-officedocument.wordprocessingml.document")).toBe(".docx");
+    expect(getUploadExtension("text/html")).toBe("");
+  });
+
+  it("reads the type back from a saved name", () => {
+    expect(getMimeTypeFromFilename("photo.JPG")).toBe("image/jpeg");
+    expect(getMimeTypeFromFilename("photo.jpeg")).toBe("image/jpeg");
+    expect(getMimeTypeFromFilename("quote.pdf")).toBe("application/pdf");
+    expect(getMimeTypeFromFilename("page.html")).toBeNull();
+  });
+});
+
+describe("parseOwnUploadUrl", () => {
+  it("returns the filename of the user's own upload", () => {
+    expect(parseOwnUploadUrl("/uploads/user-1/message/abc-123.png", "user-1", "message")).toBe("abc-123.png");
+  });
+
+  it("rejects other users' files, other upload types and path tricks", () => {
+    expect(parseOwnUploadUrl("/uploads/user-2/message/abc.png", "user-1", "message")).toBeNull();
+    expect(parseOwnUploadUrl("/uploads/user-1/profile/abc.png", "user-1", "message")).toBeNull();
+    expect(parseOwnUploadUrl("/uploads/user-1/message/../../user-2/message/abc.png", "user-1", "message")).toBeNull();
+    expect(parseOwnUploadUrl("https://example.com/uploads/user-1/message/abc.png", "user-1", "message")).toBeNull();
+  });
+});
@@ -1,9 +1,11 @@
 import {
   cn,
   formatCurrency,
+  formatBookingDate,
   formatDate,
   formatRelativeTime,
   truncate,
+  formatFileSize,
   getInitials,
   slugify,
   isValidEmail,
@@ -44,6 +46,15 @@ describe("formatCurrency", () => {
   });
 });
 
+describe("formatBookingDate", () => {
+  it("keeps the stored day whatever the server's time zone", () => {
+    const result = formatBookingDate(new Date("2024-01-15T00:00:00Z"));
+    expect(result).toContain("Monday");
+    expect(result).toContain("15");
+    expect(result).toContain("January");
+  });
+});
+
 describe("formatDate", () => {
   it("formats Date object", () => {
     const date = new Date("2024-01-15");
@@ -97,6 +108,14 @@ describe("truncate", () => {
   });
 });
 
+describe("formatFileSize", () => {
+  it("formats bytes, kilobytes and megabytes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(2048)).toBe("2 KB");
+    expect(formatFileSize(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
+
 describe("getInitials", () => {
   it("returns initials for full name", () => {
     expect(getInitials("John Doe")).toBe("JD");
@@ -0,0 +1,84 @@
+import { createWhatsAppLink, whatsappMessages } from "@/lib/whatsapp/messages";
+
+describe("createWhatsAppLink", () => {
+  it("links to the number in international form without the plus", () => {
+    expect(createWhatsAppLink("082 123 4567", "Hi")).toBe("https://wa.me/27821234567?text=Hi");
+  });
+
+  it("encodes the message text", () => {
+    const link = createWhatsAppLink("+27821234567", "See you at 10:00 & *thanks*\nBye");
+    expect(link).toBe(
+      "https://wa.me/27821234567?text=See%20you%20at%2010%3A00%20%26%20*thanks*%0ABye"
+    );
+  });
+
+  it("returns null for numbers that can't be on WhatsApp", () => {
+    expect(createWhatsAppLink("011 123 4567", "Hi")).toBeNull();
+    expect(createWhatsAppLink(null, "Hi")).toBeNull();
+  });
+});
+
+describe("whatsappMessages", () => {
+  it("fills the booking confirmation from the email template data", () => {
+    const message = whatsappMessages.bookingConfirmation({
+      customerName: "thandi",
+      serviceName: "Haircut",
+      providerName: "Sipho's Salon",
+      date: "Monday, 10 March 2025",
+      time: "09:00",
+      address: "12 Long Street, Cape Town",
+      bookingId: "booking-1",
+    });
+
+    expect(message).toContain("Hi thandi, your booking with *Sipho's Salon* is confirmed");
+    expect(message).toContain("*Date:* Monday, 10 March 2025");
+    expect(message).toContain("*Where:* 12 Long Street, Cape Town");
+    expect(message).toContain("/dashboard/bookings/booking-1");
+  });
+
+  it("leaves the address line out when there isn't one", () => {
+    const message = whatsappMessages.bookingConfirmation({
+      customerName: "thandi",
+      serviceName: "Haircut",
+      providerName: "Sipho's Salon",
+      date: "Monday, 10 March 2025",
+      time: "09:00",
+      bookingId: "booking-1",
+    });
+
+    expect(message).not.toContain("*Where:*");
+  });
+
+  it("asks the customer to respond to a reminder when there's a link", () => {
+    const message = whatsappMessages.appointmentReminder({
+      recipientName: "thandi",
+      otherPartyName: "Sipho's Salon",
+      serviceName: "Haircut",
+      date: "Monday, 10 March 2025",
+      time: "09:00",
+      startsIn: "1 day",
+      bookingId: "booking-1",
+      respondLink: "https://example.com/reminders/token",
+    });
+
+    expect(message).toContain("is in 1 day");
+    expect(message).toContain("Please confirm you're coming, or cancel: https://example.com/reminders/token");
+  });
+
+  it("lists the items and total in an order update", () => {
+    const message = whatsappMessages.orderUpdate({
+      customerName: "thandi",
+      orderId: "order-1",
+      items: [
+        { name: "Shampoo", quantity: 2, price: 50 },
+        { name: "Comb", quantity: 1, price: 20 },
+      ],
+      total: 120,
+      status: "SHIPPED",
+    });
+
+    expect(message).toContain("it is now *shipped*");
+    expect(message).toContain("2 x Shampoo\n1 x Comb");
+    expect(message).toContain("*Total:* R 120.00");
+  });
+});
@@ -10,7 +10,18 @@ import { Badge } from "@/components/ui/Badge";
 import { Avatar } from "@/components/ui/Avatar";
 import { Spinner } from "@/components/ui/Spinner";
 import { Alert } from "@/components/ui/Alert";
+import { StarRating } from "@/components/ui/StarRating";
+import { ReviewForm } from "@/components/reviews/ReviewForm";
+import { CancellationPolicyNotice } from "@/components/bookings/CancellationPolicyNotice";
+import { RescheduleTimeline } from "@/components/bookings/RescheduleTimeline";
+import { WhatsAppPanel } from "@/components/bookings/WhatsAppPanel";
 import { formatCurrency, formatDate } from "@/lib/utils";
+import {
+  CancellationPolicy,
+  calculateCancellationFee,
+  getAppointmentStart,
+  hasAppointmentStarted,
+} from "@/lib/payments/cancellation";
 import {
   ArrowLeft,
   Calendar,
@@ -24,6 +35,7 @@ import {
   AlertCircle,
   CreditCard,
   Receipt,
+  ShieldCheck,
 } from "lucide-react";
 
 interface Appointment {
@@ -33,6 +45,7 @@ interface Appointment {
   status: string;
   notes?: string | null;
   address?: string | null;
+  attendanceConfirmedAt?: string | null;
   createdAt: string;
   service?: {
     id: string;
@@ -66,6 +79,35 @@ interface Appointment {
       tax?: string | null;
     } | null;
   };
+  cancellationFee?: number | null;
+  cancellationPolicy: CancellationPolicy;
+  escrow?: {
+    paymentId: string;
+    status: "HELD" | "DISPUTED" | "RELEASED" | "REFUND_PENDING" | "REFUNDED";
+    amount: number;
+    netAmount?: number;
+    releaseAfter: string;
+    disputeReason?: string | null;
+    refundMethod?: "ORIGINAL" | "WALLET" | null;
+    releasedAt?: string | null;
+    refundedAt?: string | null;
+  } | null;
+  review?: {
+    id: string;
+    rating: number;
+    text: string | null;
+    createdAt: string;
+  } | null;
+}
+
+interface Refund {
+  id: string;
+  creditNoteNumber: string;
+  amount: number;
+  method: "ORIGINAL" | "WALLET";
+  status: "PENDING" | "COMPLETED" | "FAILED";
+  reason?: string | null;
+  createdAt: string;
 }
 
 const statusColors: Record<string, "success" | "warning" | "error" | "secondary"> = {
@@ -76,6 +118,22 @@ const statusColors: Record<string, "success" | "warning" | "error" | "secondary"
   NO_SHOW: "error",
 };
 
+const escrowColors: Record<string, "success" | "warning" | "error" | "secondary" | "primary"> = {
+  HELD: "primary",
+  DISPUTED: "error",
+  RELEASED: "success",
+  REFUND_PENDING: "warning",
+  REFUNDED: "secondary",
+};
+
+const escrowLabels: Record<string, string> = {
+  HELD: "Held in escrow",
+  DISPUTED: "Disputed",
+  RELEASED: "Released",
+  REFUND_PENDING: "Refund pending",
+  REFUNDED: "Refunded",
+};
+
 const statusIcons: Record<string, React.ReactNode> = {
   PENDING: <AlertCircle className="w-5 h-5" />,
   CONFIRMED: <CheckCircle className="w-5 h-5" />,
@@ -96,6 +154,17 @@ export default function BookingDetailPage({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
   const [updating, setUpdating] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [refundTo, setRefundTo] = useState<"ORIGINAL" | "WALLET">("ORIGINAL");
+  const [showDispute, setShowDispute] = useState(false);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [disputeError, setDisputeError] = useState("");
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [refundable, setRefundable] = useState(0);
+  const [showRefund, setShowRefund] = useState(false);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [refundError, setRefundError] = useState("");
 
   useEffect(() => {
     const fetchAppointment = async () => {
@@ -105,6 +174,17 @@ export default function BookingDetailPage({
 
         if (response.ok) {
           setAppointment(data.appointment);
+
+          if (data.appointment.escrow) {
+            const refundsResponse = await fetch(
+              `/api/payments/${data.appointment.escrow.paymentId}/refund`
+            );
+            if (refundsResponse.ok) {
+              const refundsData = await refundsResponse.json();
+              setRefunds(refundsData.refunds);
+              setRefundable(refundsData.refundable);
+            }
+          }
         } else {
           setError(data.error || "Failed to load appointment");
         }
@@ -120,21 +200,52 @@ export default function BookingDetailPage({
     } else if (status === "unauthenticated") {
       router.push("/login");
     }
-  }, [id, status, router]);
+  }, [id, status, router, reloadKey]);
 
   const handleStatusChange = async (newStatus: string) => {
     if (!appointment) return;
 
+    // Warn customers before they cancel inside the free-cancellation window
+    const held = appointment.escrow;
+    if (
+      newStatus === "CANCELLED" &&
+      session?.user?.id === appointment.requester.id &&
+      appointment.status === "CONFIRMED" &&
+      held &&
+      ["HELD", "DISPUTED"].includes(held.status)
+    ) {
+      const { fee, refund } = calculateCancellationFee(
+        appointment.cancellationPolicy,
+        held.amount,
+        "CANCELLED",
+        getAppointmentStart(appointment.date, appointment.time)
+      );
+
+      if (
+        fee > 0 &&
+        !confirm(
+          `Cancelling now costs ${formatCurrency(fee)} under the provider's cancellation policy. You will be refunded ${formatCurrency(refund)}. Cancel anyway?`
+        )
+      ) {
+        return;
+      }
+    }
+
     setUpdating(true);
     try {
       const response = await fetch(`/api/appointments/${id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({
+          status: newStatus,
+          ...(newStatus === "CANCELLED" && { refundTo }),
+        }),
       });
 
       if (response.ok) {
         setAppointment({ ...appointment, status: newStatus });
+        // Pick up any escrow release or refund
+        setReloadKey((key) => key + 1);
       }
     } catch (err) {
       console.error("Error updating appointment:", err);
@@ -143,6 +254,62 @@ export default function BookingDetailPage({
     }
   };
 
+  const handleDispute = async () => {
+    setUpdating(true);
+    setDisputeError("");
+    try {
+      const response = await fetch(`/api/appointments/${id}/dispute`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: disputeReason }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setShowDispute(false);
+        setDisputeReason("");
+        setReloadKey((key) => key + 1);
+      } else {
+        setDisputeError(data.error || "Failed to open dispute");
+      }
+    } catch (err) {
+      setDisputeError("An error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!appointment?.escrow) return;
+
+    setUpdating(true);
+    setRefundError("");
+    try {
+      const response = await fetch(`/api/payments/${appointment.escrow.paymentId}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(refundAmount && { amount: parseFloat(refundAmount) }),
+          ...(refundReason && { reason: refundReason }),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setShowRefund(false);
+        setRefundAmount("");
+        setRefundReason("");
+        setReloadKey((key) => key + 1);
+      } else {
+        setRefundError(data.error || "Failed to refund customer");
+      }
+    } catch (err) {
+      setRefundError("An error occurred");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   if (isLoading || status === "loading") {
     return (
       <div className="flex items-center justify-center py-12">
@@ -178,7 +345,10 @@ export default function BookingDetailPage({
   const otherParty = isProvider ? appointment.requester : appointment.provider;
   const isPending = appointment.status === "PENDING";
   const isConfirmed = appointment.status === "CONFIRMED";
+  const hasStarted = hasAppointmentStarted(appointment.date, appointment.time);
   const canCancel = isPending || isConfirmed;
+  const escrow = appointment.escrow;
+  const fundsHeld = escrow?.status === "HELD" || escrow?.status === "DISPUTED";
 
   return (
     <div className="space-y-6">
@@ -299,6 +469,14 @@ export default function BookingDetailPage({
                   </div>
                 </div>
               </div>
+              {isConfirmed && appointment.attendanceConfirmedAt && (
+                <div className="flex items-center gap-2 text-sm text-success">
+                  <CheckCircle className="w-4 h-4" />
+                  {isProvider
+                    ? "The customer confirmed they're coming"
+                    : "You've confirmed you're coming"}
+                </div>
+              )}
               {appointment.address && (
                 <div className="flex items-start gap-3 p-4 bg-muted/50 rounded-lg">
                   <MapPin className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
@@ -358,7 +536,7 @@ export default function BookingDetailPage({
                       Confirm Appointment
                     </Button>
                   )}
-                  {isProvider && isConfirmed && (
+                  {isProvider && isConfirmed && hasStarted && (
                     <Button
                       onClick={() => handleStatusChange("COMPLETED")}
                       disabled={updating}
@@ -367,6 +545,16 @@ export default function BookingDetailPage({
                       Mark as Completed
                     </Button>
                   )}
+                  {isProvider && isConfirmed && hasStarted && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleStatusChange("NO_SHOW")}
+                      disabled={updating}
+                    >
+                      <AlertCircle className="w-4 h-4 mr-2" />
+                      Mark as No-Show
+                    </Button>
+                  )}
                   {canCancel && (
                     <Button
                       variant="outline"
@@ -378,13 +566,206 @@ export default function BookingDetailPage({
                     </Button>
                   )}
                 </div>
+                {isConfirmed && (
+                  <CancellationPolicyNotice policy={appointment.cancellationPolicy} className="mt-4" />
+                )}
+                {canCancel && isRequester && fundsHeld && (
+                  <div className="mt-4 flex items-center gap-3 text-sm">
+                    <label htmlFor="refundTo" className="text-muted-foreground">
+                      If cancelled, refund to
+                    </label>
+                    <select
+                      id="refundTo"
+                      value={refundTo}
+                      onChange={(e) => setRefundTo(e.target.value as "ORIGINAL" | "WALLET")}
+                      className="px-3 py-1.5 border border-border rounded-lg bg-background text-foreground"
+                    >
+                      <option value="ORIGINAL">Original payment method</option>
+                      <option value="WALLET">My wallet (instant)</option>
+                    </select>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
+
+          {/* Reschedule requests */}
+          {session?.user?.id && (
+            <RescheduleTimeline
+              appointmentId={appointment.id}
+              providerId={appointment.provider.id}
+              serviceId={appointment.service?.id}
+              currentUserId={session.user.id}
+              reloadKey={reloadKey}
+              onRescheduled={() => setReloadKey((key) => key + 1)}
+            />
+          )}
         </div>
 
         {/* Sidebar - Contact Info */}
         <div className="space-y-6">
+          {/* Escrow Status */}
+          {escrow && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5 text-primary" />
+                  Payment Protection
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {isProvider && escrow.netAmount !== undefined ? "Your earnings" : "Amount paid"}
+                  </span>
+                  <span className="font-bold">
+                    {formatCurrency(
+                      isProvider && escrow.netAmount !== undefined ? escrow.netAmount : escrow.amount
+                    )}
+                  </span>
+                </div>
+                <Badge variant={escrowColors[escrow.status]}>{escrowLabels[escrow.status]}</Badge>
+
+                {escrow.status === "HELD" && (
+                  <p className="text-sm text-muted-foreground">
+                    {isProvider
+                      ? "Released to your wallet when you mark this booking as completed"
+                      : "Held securely until the service is delivered. It is released to the provider"}{" "}
+                    automatically on {formatDate(new Date(escrow.releaseAfter))}
+                    {isRequester && " unless you report a problem"}.
+                  </p>
+                )}
+                {escrow.status === "DISPUTED" && (
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <p>The payment is on hold while our team reviews the dispute.</p>
+                    {escrow.disputeReason && <p className="italic">&ldquo;{escrow.disputeReason}&rdquo;</p>}
+                  </div>
+                )}
+                {appointment.cancellationFee && (
+                  <p className="text-sm text-muted-foreground">
+                    {appointment.status === "NO_SHOW" ? "No-show" : "Cancellation"} fee of{" "}
+                    {formatCurrency(appointment.cancellationFee)} charged under the cancellation policy.
+                  </p>
+                )}
+                {escrow.status === "RELEASED" && escrow.releasedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    Released to the provider on {formatDate(new Date(escrow.releasedAt))}.
+                  </p>
+                )}
+                {escrow.status === "REFUND_PENDING" && (
+                  <p className="text-sm text-muted-foreground">
+                    A refund to the original payment method is being processed.
+                  </p>
+                )}
+                {escrow.status === "REFUNDED" && escrow.refundedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    Refunded to {escrow.refundMethod === "WALLET" ? "the customer's wallet" : "the original payment method"}{" "}
+                    on {formatDate(new Date(escrow.refundedAt))}.
+                  </p>
+                )}
+
+                {refunds.length > 0 && (
+                  <div className="space-y-2 pt-2 border-t border-border">
+                    <p className="text-sm font-medium">Refunds</p>
+                    {refunds.map((refund) => (
+                      <div key={refund.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <p>
+                            {formatCurrency(refund.amount)}{" "}
+                            <span className="text-muted-foreground">
+                              {refund.status === "COMPLETED"
+                                ? refund.method === "WALLET"
+                                  ? "to wallet"
+                                  : "to original payment"
+                                : refund.status.toLowerCase()}
+                            </span>
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(new Date(refund.createdAt))}
+                          </p>
+                        </div>
+                        {refund.status !== "FAILED" && (
+                          <a
+                            href={`/api/credit-notes/${refund.id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline text-xs"
+                          >
+                            {refund.creditNoteNumber}
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {isProvider && refundable > 0 && escrow.status !== "REFUND_PENDING" && (
+                  showRefund ? (
+                    <div className="space-y-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        max={refundable}
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        placeholder={`Amount (up to ${formatCurrency(refundable)})`}
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+                      />
+                      <input
+                        value={refundReason}
+                        onChange={(e) => setRefundReason(e.target.value)}
+                        placeholder="Reason"
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+                      />
+                      {refundError && <p className="text-sm text-error">{refundError}</p>}
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={handleRefund} disabled={updating}>
+                          Refund
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setShowRefund(false)}>
+                          Back
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => setShowRefund(true)}>
+                      Refund Customer
+                    </Button>
+                  )
+                )}
+
+                {isRequester && escrow.status === "HELD" && !isPending && (
+                  showDispute ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={disputeReason}
+                        onChange={(e) => setDisputeReason(e.target.value)}
+                        placeholder="What went wrong?"
+                        rows={3}
+                        className="w-full px-3 py-2 border border-border rounded-lg bg-background text-foreground text-sm"
+                      />
+                      {disputeError && <p className="text-sm text-error">{disputeError}</p>}
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={handleDispute} disabled={updating}>
+                          Submit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setShowDispute(false)}>
+                          Back
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => setShowDispute(true)}>
+                      <AlertCircle className="w-4 h-4 mr-2" />
+                      Report a Problem
+                    </Button>
+                  )
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>
@@ -430,7 +811,7 @@ export default function BookingDetailPage({
               </div>
 
               <Button variant="outline" className="w-full" asChild>
-                <Link href={`/dashboard/messages/new?to=${otherParty.id}`}>
+                <Link href={`/dashboard/messages/new?to=${otherParty.id}&appointmentId=${appointment.id}`}>
                   <MessageCircle className="w-4 h-4 mr-2" />
                   Send Message
                 </Link>
@@ -438,6 +819,39 @@ export default function BookingDetailPage({
             </CardContent>
           </Card>
 
+          {/* Review */}
+          {appointment.status === "COMPLETED" && (appointment.review || isRequester) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {appointment.review
+                    ? isRequester ? "Your Review" : "Client's Review"
+                    : "Review This Booking"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {appointment.review ? (
+                  <div className="space-y-2">
+                    <StarRating value={appointment.review.rating} readonly size="sm" />
+                    {appointment.review.text && (
+                      <p className="text-sm text-muted-foreground">{appointment.review.text}</p>
+                    )}
+                  </div>
+                ) : (
+                  <ReviewForm
+                    appointmentId={appointment.id}
+                    receiverName={appointment.provider.shop?.name || appointment.provider.username}
+                    onSuccess={() => setReloadKey((key) => key + 1)}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {isProvider && (
+            <WhatsAppPanel appointmentId={appointment.id} reloadKey={reloadKey} />
+          )}
+
           {/* Shop Info (for clients) */}
           {!isProvider && appointment.provider.shop && (
             <Card>
@@ -252,7 +252,7 @@ export default function JobApplicationsPage({
                           Reject
                         </Button>
                         <Button size="sm" variant="ghost" asChild>
-                          <Link href={`/dashboard/messages/new?to=${app.applicant.id}`}>
+                          <Link href={`/dashboard/messages/new?to=${app.applicant.id}&applicationId=${app.id}`}>
                             <MessageCircle className="w-4 h-4 mr-1" />
                             Message
                           </Link>
@@ -263,7 +263,7 @@ export default function JobApplicationsPage({
                     {app.status === "ACCEPTED" && (
                       <div className="flex items-center gap-2">
                         <Button size="sm" asChild>
-                          <Link href={`/dashboard/messages/new?to=${app.applicant.id}`}>
+                          <Link href={`/dashboard/messages/new?to=${app.applicant.id}&applicationId=${app.id}`}>
                             <MessageCircle className="w-4 h-4 mr-1" />
                             Contact Freelancer
                           </Link>
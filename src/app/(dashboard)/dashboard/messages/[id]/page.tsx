@@ -43,7 +43,7 @@ export default function ConversationPage({
         {/* Message Thread */}
         <div className="lg:col-span-2">
           <Card className="h-full overflow-hidden">
-            <MessageThread partnerId={id} />
+            <MessageThread conversationId={id} />
           </Card>
         </div>
       </div>
@@ -1,15 +1,58 @@
 "use client";
 
-import { useSearchParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Alert } from "@/components/ui/Alert";
+import { Spinner } from "@/components/ui/Spinner";
 import { NewMessageForm } from "@/components/messages/NewMessageForm";
 import { ArrowLeft } from "lucide-react";
 
 export default function NewMessagePage() {
+  const router = useRouter();
   const searchParams = useSearchParams();
   const toUserId = searchParams.get("to");
   const toUserName = searchParams.get("name");
+  const appointmentId = searchParams.get("appointmentId");
+  const orderId = searchParams.get("orderId");
+  const jobId = searchParams.get("jobId");
+  const jobApplicationId = searchParams.get("applicationId");
+  const hasContext = !!(appointmentId || orderId || jobId || jobApplicationId);
+  const [error, setError] = useState("");
+
+  // Messages about a booking, order or job go straight to their own conversation
+  useEffect(() => {
+    if (!hasContext) return;
+
+    const openConversation = async () => {
+      try {
+        const response = await fetch("/api/conversations", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            participantId: toUserId || undefined,
+            appointmentId: appointmentId || undefined,
+            orderId: orderId || undefined,
+            jobId: jobId || undefined,
+            jobApplicationId: jobApplicationId || undefined,
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to start conversation");
+        }
+
+        router.replace(`/dashboard/messages/${data.conversation.id}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      }
+    };
+
+    openConversation();
+  }, [hasContext, toUserId, appointmentId, orderId, jobId, jobApplicationId, router]);
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
@@ -28,18 +71,28 @@ export default function NewMessagePage() {
         </p>
       </div>
 
-      {/* Form */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Compose Message</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <NewMessageForm
-            receiverId={toUserId || undefined}
-            receiverName={toUserName || undefined}
-          />
-        </CardContent>
-      </Card>
+      {hasContext ? (
+        error ? (
+          <Alert variant="error">{error}</Alert>
+        ) : (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        )
+      ) : (
+        /* Form */
+        <Card>
+          <CardHeader>
+            <CardTitle>Compose Message</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <NewMessageForm
+              receiverId={toUserId || undefined}
+              receiverName={toUserName || undefined}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -1,12 +1,16 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/Tabs";
 import { ConversationList } from "@/components/messages/ConversationList";
 import { MessageCircle, PenSquare } from "lucide-react";
 
 export default function MessagesPage() {
+  const [activeTab, setActiveTab] = useState("inbox");
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -30,11 +34,17 @@ export default function MessagesPage() {
 
       {/* Conversations */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Conversations</CardTitle>
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-auto">
+            <TabsList>
+              <TabsTrigger value="inbox">Inbox</TabsTrigger>
+              <TabsTrigger value="archived">Archived</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </CardHeader>
         <CardContent className="p-0">
-          <ConversationList />
+          <ConversationList archived={activeTab === "archived"} />
         </CardContent>
       </Card>
     </div>
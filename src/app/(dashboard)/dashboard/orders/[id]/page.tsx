@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, use } from "react";
+import { useState, useEffect, useCallback, use } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
@@ -9,6 +9,8 @@ import { Badge } from "@/components/ui/Badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Alert } from "@/components/ui/Alert";
 import { Spinner } from "@/components/ui/Spinner";
+import { StarRating } from "@/components/ui/StarRating";
+import { ReviewForm } from "@/components/reviews/ReviewForm";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { ArrowLeft, Package } from "lucide-react";
 
@@ -32,6 +34,20 @@ interface OrderDetail {
       imageUrl?: string | null;
     };
   }>;
+  refunds: Array<{
+    id: string;
+    creditNoteNumber: string;
+    amount: number;
+    method: "ORIGINAL" | "WALLET";
+    status: "PENDING" | "COMPLETED";
+    createdAt: string;
+  }>;
+  review: {
+    id: string;
+    rating: number;
+    text: string | null;
+    createdAt: string;
+  } | null;
 }
 
 const statusColors: Record<string, "success" | "warning" | "error" | "secondary"> = {
@@ -40,6 +56,7 @@ const statusColors: Record<string, "success" | "warning" | "error" | "secondary"
   SHIPPED: "success",
   DELIVERED: "success",
   CANCELLED: "error",
+  REFUNDED: "secondary",
 };
 
 export default function OrderDetailPage({
@@ -54,28 +71,28 @@ export default function OrderDetailPage({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
 
-  useEffect(() => {
-    const fetchOrder = async () => {
-      try {
-        const response = await fetch(`/api/orders/${id}`);
-        const data = await response.json();
+  const fetchOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/orders/${id}`);
+      const data = await response.json();
 
-        if (response.ok) {
-          setOrder(data.order);
-        } else {
-          setError(data.error || "Order not found");
-        }
-      } catch (err) {
-        setError("Failed to fetch order");
-      } finally {
-        setIsLoading(false);
+      if (response.ok) {
+        setOrder(data.order);
+      } else {
+        setError(data.error || "Order not found");
       }
-    };
+    } catch (err) {
+      setError("Failed to fetch order");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
 
+  useEffect(() => {
     if (authStatus === "authenticated") {
       fetchOrder();
     }
-  }, [id, authStatus]);
+  }, [authStatus, fetchOrder]);
 
   const handleCancel = async () => {
     try {
@@ -236,6 +253,61 @@ export default function OrderDetailPage({
             </CardContent>
           </Card>
 
+          {/* Refunds */}
+          {order.refunds.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Refunds</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {order.refunds.map((refund) => (
+                  <div key={refund.id} className="flex justify-between text-sm">
+                    <div>
+                      <p className="font-medium">{formatCurrency(refund.amount)}</p>
+                      <p className="text-muted-foreground">
+                        {refund.status === "PENDING"
+                          ? "Processing"
+                          : refund.method === "WALLET"
+                            ? "Credited to your wallet"
+                            : "Returned to your payment method"}{" "}
+                        · {formatDate(new Date(refund.createdAt))}
+                      </p>
+                    </div>
+                    <a
+                      href={`/api/credit-notes/${refund.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline"
+                    >
+                      {refund.creditNoteNumber}
+                    </a>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Review */}
+          {order.status === "DELIVERED" && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{order.review ? "Your Review" : "Review This Order"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {order.review ? (
+                  <div className="space-y-2">
+                    <StarRating value={order.review.rating} readonly size="sm" />
+                    {order.review.text && (
+                      <p className="text-sm text-muted-foreground">{order.review.text}</p>
+                    )}
+                  </div>
+                ) : (
+                  <ReviewForm orderId={order.id} receiverName="Kasilethu" onSuccess={fetchOrder} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Actions */}
           {order.status === "PENDING" && (
             <Card>
@@ -17,9 +17,15 @@ interface Service {
   category: string;
   subcategory?: string | null;
   duration?: number | null;
+  bufferMinutes?: number | null;
   image?: string | null;
   tags: string[];
   userId: string;
+  cancellationPolicyOverrides: {
+    freeCancellationHours: number | null;
+    lateCancelFeePercent: number | null;
+    noShowFeePercent: number | null;
+  };
 }
 
 export default function EditServicePage({
@@ -98,7 +104,14 @@ export default function EditServicePage({
               category: service.category,
               subcategory: service.subcategory || "",
               duration: service.duration?.toString() || "",
+              bufferMinutes: service.bufferMinutes?.toString() ?? "",
               tags: service.tags,
+              freeCancellationHours:
+                service.cancellationPolicyOverrides.freeCancellationHours?.toString() ?? "",
+              lateCancelFeePercent:
+                service.cancellationPolicyOverrides.lateCancelFeePercent?.toString() ?? "",
+              noShowFeePercent:
+                service.cancellationPolicyOverrides.noShowFeePercent?.toString() ?? "",
             }}
           />
         </CardContent>
@@ -14,22 +14,24 @@ import {
   Alert,
   Avatar,
   Spinner,
+  Select,
 } from "@/components/ui";
-import { User, Bell, Lock, Trash2, Camera, Save } from "lucide-react";
+import { User, Bell, Lock, Shield, Trash2, Camera, Save, CheckCircle } from "lucide-react";
+import { DEFAULT_REMINDER_MINUTES, describeReminderOffset } from "@/lib/bookings/calendar";
+import { BlockedUsersList } from "@/components/safety/BlockedUsersList";
 
 interface UserSettings {
   id: string;
   username: string;
   email: string;
   phone?: string;
+  phoneVerifiedAt?: string | null;
   picture?: string;
   userType: string;
   notificationPreferences?: {
     emailBookings: boolean;
     emailMessages: boolean;
     emailMarketing: boolean;
-    pushBookings: boolean;
-    pushMessages: boolean;
   };
 }
 
@@ -37,10 +39,77 @@ const defaultNotificationPrefs = {
   emailBookings: true,
   emailMessages: true,
   emailMarketing: false,
-  pushBookings: true,
-  pushMessages: true,
 };
 
+// Offsets offered for booking reminders, in minutes before the appointment
+const REMINDER_OPTIONS = [30, 60, 120, 360, 1440, 2880, 10080];
+
+const defaultReminderPrefs = {
+  emailEnabled: true,
+  inAppEnabled: true,
+  reminderMinutes: DEFAULT_REMINDER_MINUTES,
+};
+
+// Notification types that can be rolled up into a digest email
+const DIGEST_TYPES = [
+  { type: "BOOKING_NEW", label: "New Bookings" },
+  { type: "MESSAGE_NEW", label: "Messages" },
+  { type: "REVIEW_NEW", label: "Reviews" },
+  { type: "JOB_APPLICATION", label: "Job Applications" },
+];
+
+const FREQUENCY_OPTIONS = [
+  { value: "REALTIME", label: "As it happens" },
+  { value: "DAILY_DIGEST", label: "Daily summary" },
+  { value: "WEEKLY_DIGEST", label: "Weekly summary" },
+  { value: "DISABLED", label: "Off" },
+];
+
+// Notification types that can be pushed to the user's browsers
+const PUSH_TYPES = [
+  {
+    type: "BOOKING_NEW",
+    label: "Booking Alerts",
+    description: "Get notified as soon as someone books with you",
+  },
+  {
+    type: "MESSAGE_NEW",
+    label: "Message Alerts",
+    description: "Get notified when you receive new messages",
+  },
+  {
+    type: "PAYMENT_RECEIVED",
+    label: "Payment Alerts",
+    description: "Get notified when money reaches your wallet",
+  },
+];
+
+// Notification types we can text about, to a verified phone
+const SMS_TYPES = [
+  {
+    type: "BOOKING_CONFIRMED",
+    label: "Booking Confirmations",
+    description: "A text when a provider confirms your booking",
+  },
+  {
+    type: "BOOKING_REMINDER",
+    label: "Booking Reminders",
+    description: "Texts at your reminder times before each booking",
+  },
+];
+
+// The VAPID public key comes base64url encoded; PushManager wants bytes
+function urlBase64ToUint8Array(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+const WEEKDAY_OPTIONS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].map(
+  (label, day) => ({ value: String(day), label })
+);
+
 export default function SettingsPage() {
   const { data: session, update: updateSession } = useSession();
   const router = useRouter();
@@ -67,6 +136,35 @@ export default function SettingsPage() {
 
   // Notification state
   const [notifications, setNotifications] = useState(defaultNotificationPrefs);
+  const [reminders, setReminders] = useState(defaultReminderPrefs);
+  const [quietHours, setQuietHours] = useState({ enabled: false, start: "21:00", end: "07:00" });
+  const [frequencies, setFrequencies] = useState<Record<string, string>>({
+    BOOKING_NEW: "REALTIME",
+    MESSAGE_NEW: "REALTIME",
+    REVIEW_NEW: "DAILY_DIGEST",
+    JOB_APPLICATION: "REALTIME",
+  });
+  const [digestSchedule, setDigestSchedule] = useState({ time: "08:00", weekday: 1 });
+  const [pushTypes, setPushTypes] = useState<Record<string, boolean>>({
+    BOOKING_NEW: true,
+    MESSAGE_NEW: true,
+    PAYMENT_RECEIVED: true,
+  });
+  const [smsTypes, setSmsTypes] = useState<Record<string, boolean>>({
+    BOOKING_CONFIRMED: true,
+    BOOKING_REMINDER: true,
+  });
+
+  // Phone verification state
+  const [verifiedPhone, setVerifiedPhone] = useState<string | null>(null);
+  const [phoneCode, setPhoneCode] = useState({ sent: false, code: "", busy: false });
+
+  const [pushDevice, setPushDevice] = useState({
+    supported: false,
+    publicKey: null as string | null,
+    subscribed: false,
+    updating: false,
+  });
 
   useEffect(() => {
     const fetchUserSettings = async () => {
@@ -80,6 +178,7 @@ export default function SettingsPage() {
             phone: data.phone || "",
             picture: data.picture || "",
           });
+          setVerifiedPhone(data.phoneVerifiedAt ? data.phone : null);
           if (data.notificationPreferences) {
             setNotifications({
               ...defaultNotificationPrefs,
@@ -94,11 +193,243 @@ export default function SettingsPage() {
       }
     };
 
+    const fetchNotificationPreferences = async () => {
+      try {
+        const response = await fetch("/api/users/notification-preferences");
+        if (response.ok) {
+          const data = await response.json();
+          const preferences: {
+            notificationType: string;
+            emailEnabled: boolean;
+            inAppEnabled: boolean;
+            pushEnabled: boolean;
+            smsEnabled: boolean;
+            frequency: string;
+            reminderMinutes: number[];
+          }[] = data.preferences || [];
+
+          const reminder = preferences.find((p) => p.notificationType === "BOOKING_REMINDER");
+          if (reminder) {
+            setReminders({
+              emailEnabled: reminder.emailEnabled,
+              inAppEnabled: reminder.inAppEnabled,
+              reminderMinutes: reminder.reminderMinutes,
+            });
+          }
+
+          setFrequencies((current) => {
+            const next = { ...current };
+            for (const p of preferences) {
+              if (p.notificationType in next) next[p.notificationType] = p.frequency;
+            }
+            return next;
+          });
+
+          setPushTypes((current) => {
+            const next = { ...current };
+            for (const p of preferences) {
+              if (p.notificationType in next) next[p.notificationType] = p.pushEnabled;
+            }
+            return next;
+          });
+
+          setSmsTypes((current) => {
+            const next = { ...current };
+            for (const p of preferences) {
+              if (p.notificationType in next) next[p.notificationType] = p.smsEnabled;
+            }
+            return next;
+          });
+        }
+      } catch (err) {
+        console.error("Error fetching notification preferences:", err);
+      }
+    };
+
+    const fetchNotificationSettings = async () => {
+      try {
+        const response = await fetch("/api/users/notification-settings");
+        if (response.ok) {
+          const data = await response.json();
+          if (data.settings.quietHoursStart && data.settings.quietHoursEnd) {
+            setQuietHours({
+              enabled: true,
+              start: data.settings.quietHoursStart,
+              end: data.settings.quietHoursEnd,
+            });
+          }
+          setDigestSchedule({
+            time: data.settings.digestTime,
+            weekday: data.settings.digestWeekday,
+          });
+        }
+      } catch (err) {
+        console.error("Error fetching notification settings:", err);
+      }
+    };
+
+    const fetchPushStatus = async () => {
+      if (!("serviceWorker" in navigator) || !("PushManager" in window)) return;
+
+      try {
+        const response = await fetch("/api/users/push-subscriptions");
+        if (response.ok) {
+          const data = await response.json();
+          const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+          const subscription = await registration?.pushManager.getSubscription();
+          setPushDevice({
+            supported: data.configured,
+            publicKey: data.publicKey,
+            subscribed: !!subscription,
+            updating: false,
+          });
+        }
+      } catch (err) {
+        console.error("Error checking push notifications:", err);
+      }
+    };
+
     if (session?.user) {
       fetchUserSettings();
+      fetchNotificationPreferences();
+      fetchNotificationSettings();
+      fetchPushStatus();
     }
   }, [session]);
 
+  const toggleReminderOffset = (minutes: number) => {
+    setReminders((current) => ({
+      ...current,
+      reminderMinutes: current.reminderMinutes.includes(minutes)
+        ? current.reminderMinutes.filter((m) => m !== minutes)
+        : [...current.reminderMinutes, minutes].sort((a, b) => b - a),
+    }));
+  };
+
+  const handleSendPhoneCode = async () => {
+    setError("");
+    setSuccess("");
+    setPhoneCode((current) => ({ ...current, busy: true }));
+
+    try {
+      const response = await fetch("/api/users/me/phone", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phone: profile.phone }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPhoneCode({ sent: true, code: "", busy: false });
+        setSuccess(data.message);
+      } else {
+        setError(data.error || "Failed to send verification code");
+      }
+    } catch (err) {
+      setError("An error occurred while sending the code");
+    } finally {
+      setPhoneCode((current) => ({ ...current, busy: false }));
+    }
+  };
+
+  const handleVerifyPhone = async () => {
+    setError("");
+    setSuccess("");
+    setPhoneCode((current) => ({ ...current, busy: true }));
+
+    try {
+      const response = await fetch("/api/users/me/phone/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: phoneCode.code }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setProfile((current) => ({ ...current, phone: data.phone }));
+        setVerifiedPhone(data.phone);
+        setPhoneCode({ sent: false, code: "", busy: false });
+        setSuccess("Phone number verified");
+      } else {
+        setError(data.error || "Failed to verify phone number");
+      }
+    } catch (err) {
+      setError("An error occurred while verifying your phone number");
+    } finally {
+      setPhoneCode((current) => ({ ...current, busy: false }));
+    }
+  };
+
+  const handleEnablePush = async () => {
+    if (!pushDevice.publicKey) return;
+
+    setError("");
+    setSuccess("");
+    setPushDevice((current) => ({ ...current, updating: true }));
+
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setError("Allow notifications for this site in your browser to turn on push alerts");
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(pushDevice.publicKey),
+        }));
+
+      const response = await fetch("/api/users/push-subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(subscription.toJSON()),
+      });
+
+      if (response.ok) {
+        setPushDevice((current) => ({ ...current, subscribed: true }));
+        setSuccess("Push notifications enabled on this device");
+      } else {
+        const data = await response.json();
+        setError(data.error || "Failed to enable push notifications");
+      }
+    } catch (err) {
+      setError("Push notifications could not be enabled in this browser");
+    } finally {
+      setPushDevice((current) => ({ ...current, updating: false }));
+    }
+  };
+
+  const handleDisablePush = async () => {
+    setError("");
+    setSuccess("");
+    setPushDevice((current) => ({ ...current, updating: true }));
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+      const subscription = await registration?.pushManager.getSubscription();
+
+      if (subscription) {
+        await fetch("/api/users/push-subscriptions", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+
+      setPushDevice((current) => ({ ...current, subscribed: false }));
+      setSuccess("Push notifications disabled on this device");
+    } catch (err) {
+      setError("An error occurred while disabling push notifications");
+    } finally {
+      setPushDevice((current) => ({ ...current, updating: false }));
+    }
+  };
+
   const handleProfileSave = async () => {
     setError("");
     setSuccess("");
@@ -181,10 +512,64 @@ export default function SettingsPage() {
         body: JSON.stringify({ notificationPreferences: notifications }),
       });
 
-      if (response.ok) {
+      const reminderResponse = await fetch("/api/users/notification-preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notificationType: "BOOKING_REMINDER", ...reminders }),
+      });
+
+      const frequencyResponse = await fetch("/api/users/notification-preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          // A summary is an email, so choosing one turns email on for that type
+          preferences: Object.entries(frequencies).map(([notificationType, frequency]) => ({
+            notificationType,
+            frequency,
+            ...(frequency.endsWith("_DIGEST") && { emailEnabled: true }),
+          })),
+        }),
+      });
+
+      const channelResponse = await fetch("/api/users/notification-preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          preferences: [
+            ...Object.entries(pushTypes).map(([notificationType, pushEnabled]) => ({
+              notificationType,
+              pushEnabled,
+            })),
+            ...Object.entries(smsTypes).map(([notificationType, smsEnabled]) => ({
+              notificationType,
+              smsEnabled,
+            })),
+          ],
+        }),
+      });
+
+      const settingsResponse = await fetch("/api/users/notification-settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          quietHoursStart: quietHours.enabled ? quietHours.start : null,
+          quietHoursEnd: quietHours.enabled ? quietHours.end : null,
+          digestTime: digestSchedule.time,
+          digestWeekday: digestSchedule.weekday,
+        }),
+      });
+
+      const failed = [
+        response,
+        reminderResponse,
+        frequencyResponse,
+        channelResponse,
+        settingsResponse,
+      ].find((r) => !r.ok);
+      if (!failed) {
         setSuccess("Notification preferences updated");
       } else {
-        const data = await response.json();
+        const data = await failed.json();
         setError(data.error || "Failed to update notifications");
       }
     } catch (err) {
@@ -236,6 +621,7 @@ export default function SettingsPage() {
     { id: "profile", label: "Profile", icon: <User className="w-4 h-4" /> },
     { id: "notifications", label: "Notifications", icon: <Bell className="w-4 h-4" /> },
     { id: "security", label: "Security", icon: <Lock className="w-4 h-4" /> },
+    { id: "privacy", label: "Privacy", icon: <Shield className="w-4 h-4" /> },
     { id: "account", label: "Account", icon: <Trash2 className="w-4 h-4" /> },
   ];
 
@@ -346,9 +732,60 @@ export default function SettingsPage() {
                     <Input
                       type="tel"
                       value={profile.phone}
-                      onChange={(e) => setProfile({ ...profile, phone: e.target.value })}
+                      onChange={(e) => {
+                        setProfile({ ...profile, phone: e.target.value });
+                        setPhoneCode({ sent: false, code: "", busy: false });
+                      }}
                       placeholder="+27 XX XXX XXXX"
                     />
+                    {verifiedPhone && profile.phone === verifiedPhone ? (
+                      <p className="flex items-center gap-1 text-xs text-green-600 mt-1">
+                        <CheckCircle className="w-3.5 h-3.5" />
+                        Verified. We can text you booking confirmations and reminders.
+                      </p>
+                    ) : (
+                      profile.phone && (
+                        <div className="mt-2 space-y-2">
+                          <p className="text-xs text-muted-foreground">
+                            Verify this number to get booking texts. We&apos;ll send a 6-digit code.
+                          </p>
+                          {phoneCode.sent ? (
+                            <div className="flex gap-2">
+                              <Input
+                                inputMode="numeric"
+                                maxLength={6}
+                                value={phoneCode.code}
+                                onChange={(e) => setPhoneCode({ ...phoneCode, code: e.target.value })}
+                                placeholder="123456"
+                              />
+                              <Button
+                                onClick={handleVerifyPhone}
+                                isLoading={phoneCode.busy}
+                                disabled={phoneCode.code.trim().length !== 6}
+                              >
+                                Verify
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                onClick={handleSendPhoneCode}
+                                disabled={phoneCode.busy}
+                              >
+                                Resend
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleSendPhoneCode}
+                              isLoading={phoneCode.busy}
+                            >
+                              Send Code
+                            </Button>
+                          )}
+                        </div>
+                      )
+                    )}
                   </div>
 
                   <div>
@@ -437,20 +874,117 @@ export default function SettingsPage() {
                 </div>
 
                 <div className="border-t border-border pt-6">
-                  <h3 className="font-medium text-foreground mb-4">Push Notifications</h3>
+                  <h3 className="font-medium text-foreground mb-1">Push Notifications</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Alerts that pop up on your device, even when Mzansi Market isn&apos;t open
+                  </p>
+                  <div className="flex items-center justify-between gap-4 p-4 mb-4 rounded-lg bg-muted">
+                    <div>
+                      <p className="font-medium text-foreground">This device</p>
+                      <p className="text-sm text-muted-foreground">
+                        {!pushDevice.supported
+                          ? "Push notifications aren't available in this browser"
+                          : pushDevice.subscribed
+                            ? "Push notifications are on for this browser"
+                            : "Turn on push notifications for this browser"}
+                      </p>
+                    </div>
+                    {pushDevice.supported &&
+                      (pushDevice.subscribed ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleDisablePush}
+                          isLoading={pushDevice.updating}
+                        >
+                          Turn Off
+                        </Button>
+                      ) : (
+                        <Button size="sm" onClick={handleEnablePush} isLoading={pushDevice.updating}>
+                          Turn On
+                        </Button>
+                      ))}
+                  </div>
+                  <div className="space-y-4">
+                    {PUSH_TYPES.map(({ type, label, description }) => (
+                      <label key={type} className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-foreground">{label}</p>
+                          <p className="text-sm text-muted-foreground">{description}</p>
+                        </div>
+                        <input
+                          type="checkbox"
+                          checked={pushTypes[type]}
+                          onChange={(e) => setPushTypes({ ...pushTypes, [type]: e.target.checked })}
+                          className="w-5 h-5 rounded border-border text-primary focus:ring-primary"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="border-t border-border pt-6">
+                  <h3 className="font-medium text-foreground mb-1">Text Messages (SMS)</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    {verifiedPhone
+                      ? `Sent to ${verifiedPhone}`
+                      : "Verify your phone number under Profile to get texts"}
+                  </p>
+                  <div className="space-y-4">
+                    {SMS_TYPES.map(({ type, label, description }) => (
+                      <label key={type} className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-foreground">{label}</p>
+                          <p className="text-sm text-muted-foreground">{description}</p>
+                        </div>
+                        <input
+                          type="checkbox"
+                          checked={smsTypes[type]}
+                          onChange={(e) => setSmsTypes({ ...smsTypes, [type]: e.target.checked })}
+                          className="w-5 h-5 rounded border-border text-primary focus:ring-primary"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="border-t border-border pt-6">
+                  <h3 className="font-medium text-foreground mb-1">Booking Reminders</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Choose when we remind you about upcoming bookings
+                  </p>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {REMINDER_OPTIONS.map((minutes) => {
+                      const selected = reminders.reminderMinutes.includes(minutes);
+                      return (
+                        <button
+                          key={minutes}
+                          type="button"
+                          onClick={() => toggleReminderOffset(minutes)}
+                          className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                            selected
+                              ? "bg-primary text-primary-foreground border-primary"
+                              : "border-border text-muted-foreground hover:bg-muted"
+                          }`}
+                        >
+                          {describeReminderOffset(minutes)} before
+                        </button>
+                      );
+                    })}
+                  </div>
                   <div className="space-y-4">
                     <label className="flex items-center justify-between">
                       <div>
-                        <p className="font-medium text-foreground">Booking Alerts</p>
+                        <p className="font-medium text-foreground">Email Reminders</p>
                         <p className="text-sm text-muted-foreground">
-                          Get notified about booking updates in real-time
+                          Includes the address and a calendar invite
                         </p>
                       </div>
                       <input
                         type="checkbox"
-                        checked={notifications.pushBookings}
+                        checked={reminders.emailEnabled}
                         onChange={(e) =>
-                          setNotifications({ ...notifications, pushBookings: e.target.checked })
+                          setReminders({ ...reminders, emailEnabled: e.target.checked })
                         }
                         className="w-5 h-5 rounded border-border text-primary focus:ring-primary"
                       />
@@ -458,16 +992,16 @@ export default function SettingsPage() {
 
                     <label className="flex items-center justify-between">
                       <div>
-                        <p className="font-medium text-foreground">Message Alerts</p>
+                        <p className="font-medium text-foreground">In-App Reminders</p>
                         <p className="text-sm text-muted-foreground">
-                          Get notified when you receive new messages
+                          Show reminders in your notifications
                         </p>
                       </div>
                       <input
                         type="checkbox"
-                        checked={notifications.pushMessages}
+                        checked={reminders.inAppEnabled}
                         onChange={(e) =>
-                          setNotifications({ ...notifications, pushMessages: e.target.checked })
+                          setReminders({ ...reminders, inAppEnabled: e.target.checked })
                         }
                         className="w-5 h-5 rounded border-border text-primary focus:ring-primary"
                       />
@@ -475,6 +1009,79 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                <div className="border-t border-border pt-6">
+                  <h3 className="font-medium text-foreground mb-1">Email Summaries</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Get one email with everything instead of an email for each update
+                  </p>
+                  <div className="space-y-3">
+                    {DIGEST_TYPES.map(({ type, label }) => (
+                      <div key={type} className="flex items-center justify-between gap-4">
+                        <p className="font-medium text-foreground">{label}</p>
+                        <div className="w-48">
+                          <Select
+                            id={`frequency-${type}`}
+                            options={FREQUENCY_OPTIONS}
+                            value={frequencies[type]}
+                            onChange={(e) =>
+                              setFrequencies({ ...frequencies, [type]: e.target.value })
+                            }
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4 mt-4">
+                    <Input
+                      label="Send summaries at"
+                      type="time"
+                      value={digestSchedule.time}
+                      onChange={(e) => setDigestSchedule({ ...digestSchedule, time: e.target.value })}
+                    />
+                    <Select
+                      label="Weekly summary on"
+                      options={WEEKDAY_OPTIONS}
+                      value={String(digestSchedule.weekday)}
+                      onChange={(e) =>
+                        setDigestSchedule({ ...digestSchedule, weekday: parseInt(e.target.value) })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="border-t border-border pt-6">
+                  <label className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-foreground">Quiet Hours</p>
+                      <p className="text-sm text-muted-foreground">
+                        Hold back emails until quiet hours are over. In-app notifications still arrive.
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={quietHours.enabled}
+                      onChange={(e) => setQuietHours({ ...quietHours, enabled: e.target.checked })}
+                      className="w-5 h-5 rounded border-border text-primary focus:ring-primary"
+                    />
+                  </label>
+                  {quietHours.enabled && (
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                      <Input
+                        label="From"
+                        type="time"
+                        value={quietHours.start}
+                        onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+                      />
+                      <Input
+                        label="Until"
+                        type="time"
+                        value={quietHours.end}
+                        onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex justify-end">
                   <Button onClick={handleNotificationsSave} disabled={saving}>
                     <Save className="w-4 h-4 mr-2" />
@@ -544,6 +1151,22 @@ export default function SettingsPage() {
             </Card>
           )}
 
+          {/* Privacy Tab */}
+          {activeTab === "privacy" && (
+            <Card padding="none">
+              <CardHeader className="p-6 pb-4">
+                <CardTitle>Blocked Users</CardTitle>
+              </CardHeader>
+              <CardContent className="px-6 pb-6">
+                <p className="text-sm text-muted-foreground mb-4">
+                  Blocked users can&apos;t message you, book you, review you or apply to your jobs,
+                  and you won&apos;t see each other in search results.
+                </p>
+                <BlockedUsersList />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Account Tab */}
           {activeTab === "account" && (
             <div className="space-y-6">
@@ -24,7 +24,12 @@ import {
   Briefcase,
   Receipt,
   Percent,
+  CalendarX,
 } from "lucide-react";
+import {
+  describeCancellationPolicy,
+  resolveCancellationPolicy,
+} from "@/lib/payments/cancellation";
 
 interface Shop {
   id: string;
@@ -42,6 +47,14 @@ interface Shop {
   workingDays?: string | null;
   tax?: number | null;
   contact?: string | null;
+  freeCancellationHours: number;
+  lateCancelFeePercent: number;
+  noShowFeePercent: number;
+  chargeUnpaidBookings: boolean;
+  slotIntervalMinutes: number;
+  bufferMinutes: number;
+  bookingLeadTimeHours: number;
+  whatsappNotifications: boolean;
   rating: number;
   reviewCount: number;
   isApproved: boolean;
@@ -130,6 +143,14 @@ export default function ShopManagementPage() {
                 workingDays: shop.workingDays || "",
                 tax: String(shop.tax ?? 15),
                 contact: shop.contact || "",
+                freeCancellationHours: String(shop.freeCancellationHours),
+                lateCancelFeePercent: String(shop.lateCancelFeePercent),
+                noShowFeePercent: String(shop.noShowFeePercent),
+                chargeUnpaidBookings: shop.chargeUnpaidBookings,
+                slotIntervalMinutes: String(shop.slotIntervalMinutes),
+                bufferMinutes: String(shop.bufferMinutes),
+                bookingLeadTimeHours: String(shop.bookingLeadTimeHours),
+                whatsappNotifications: shop.whatsappNotifications,
               } : undefined}
               onSuccess={() => {
                 setIsEditing(false);
@@ -388,6 +409,26 @@ export default function ShopManagementPage() {
         </CardContent>
       </Card>
 
+      {/* Cancellation Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarX className="w-5 h-5" />
+            Cancellation Policy
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="text-sm space-y-1">
+            {describeCancellationPolicy(resolveCancellationPolicy(null, shop)).map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground mt-3">
+            Customers see this before they book. You can override it for individual services.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -0,0 +1,50 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { WaitlistList } from "@/components/bookings/WaitlistList";
+import { Spinner } from "@/components/ui/Spinner";
+import { Hourglass } from "lucide-react";
+
+export default function WaitlistPage() {
+  const { data: session, status } = useSession();
+
+  if (status === "loading") {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  const isProvider = session?.user?.userType === "SERVICE_PROVIDER";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Hourglass className="w-6 h-6" />
+          {isProvider ? "Waitlist" : "My Waitlist"}
+        </h1>
+        <p className="text-muted-foreground">
+          {isProvider
+            ? "Customers waiting for a time to open up. Freed slots are offered in order automatically."
+            : "Services you're waiting on. We'll offer you a time as soon as one opens up."}
+        </p>
+      </div>
+
+      {/* Waitlist */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {isProvider ? "Waiting Customers" : "Your Waitlist Entries"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <WaitlistList role={isProvider ? "provider" : "client"} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -28,8 +28,15 @@ type Transaction = {
 type WalletData = {
   id: string;
   balance: string;
+  heldBalance?: string;
   currency: string;
   transactions: Transaction[];
+  earnings?: {
+    gross: number;
+    fees: number;
+    net: number;
+    bookings: number;
+  };
 };
 
 type WithdrawalRequest = {
@@ -211,6 +218,7 @@ export default function WalletPage() {
     .filter(w => w.status === "PENDING" || w.status === "APPROVED" || w.status === "PROCESSING")
     .reduce((sum, w) => sum + parseFloat(w.amount), 0);
   const availableBalance = balance - pendingWithdrawals;
+  const heldBalance = wallet?.heldBalance ? parseFloat(wallet.heldBalance) : 0;
 
   if (loading) {
     return (
@@ -244,6 +252,11 @@ export default function WalletPage() {
                   R {pendingWithdrawals.toLocaleString("en-ZA", { minimumFractionDigits: 2 })} pending withdrawal
                 </p>
               )}
+              {heldBalance > 0 && (
+                <p className="text-primary-foreground/60 text-sm mt-1">
+                  R {heldBalance.toLocaleString("en-ZA", { minimumFractionDigits: 2 })} held until your bookings are completed
+                </p>
+              )}
               <p className="text-primary-foreground/60 text-sm mt-1">
                 {wallet?.currency || "ZAR"}
               </p>
@@ -307,6 +320,40 @@ export default function WalletPage() {
         </Card>
       </div>
 
+      {/* Booking Earnings */}
+      {session?.user?.userType === "SERVICE_PROVIDER" && wallet?.earnings && (
+        <Card>
+          <CardHeader className="p-6 pb-2">
+            <CardTitle>Booking Earnings</CardTitle>
+          </CardHeader>
+          <CardContent className="px-6 pb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Gross</p>
+                <p className="text-xl font-bold text-foreground">
+                  R {wallet.earnings.gross.toLocaleString("en-ZA", { minimumFractionDigits: 2 })}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Platform Fees</p>
+                <p className="text-xl font-bold text-error">
+                  -R {wallet.earnings.fees.toLocaleString("en-ZA", { minimumFractionDigits: 2 })}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Net Earnings</p>
+                <p className="text-xl font-bold text-success">
+                  R {wallet.earnings.net.toLocaleString("en-ZA", { minimumFractionDigits: 2 })}
+                </p>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground mt-4">
+              From {wallet.earnings.bookings} completed paid booking{wallet.earnings.bookings === 1 ? "" : "s"}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tabs */}
       <div className="flex gap-2 border-b border-border">
         <button
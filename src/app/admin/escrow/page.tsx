@@ -0,0 +1,309 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, Button, Badge, Spinner } from "@/components/ui";
+
+interface Escrow {
+  id: string;
+  amount: number;
+  netAmount: number;
+  status: string;
+  releaseAfter: string;
+  disputeReason: string | null;
+  refundMethod: string | null;
+  createdAt: string;
+  payment: {
+    provider: string;
+    providerRef: string | null;
+  };
+  appointment: {
+    id: string;
+    date: string;
+    time: string;
+    status: string;
+    service: { name: string } | null;
+    requester: { id: string; username: string; email: string };
+  };
+  provider: {
+    id: string;
+    username: string;
+    email: string;
+  };
+}
+
+interface StatusStats {
+  count: number;
+  total: number;
+}
+
+export default function AdminEscrowPage() {
+  const [escrows, setEscrows] = useState<Escrow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("DISPUTED");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [stats, setStats] = useState<Record<string, StatusStats>>({});
+  const [processing, setProcessing] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEscrows();
+  }, [page, statusFilter]);
+
+  const fetchEscrows = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+        ...(statusFilter && { status: statusFilter }),
+      });
+
+      const response = await fetch(`/api/admin/escrow?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEscrows(data.escrows);
+        setTotalPages(data.pagination.totalPages);
+        setStats(data.stats);
+      }
+    } catch (error) {
+      console.error("Error fetching escrow:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (
+    escrow: Escrow,
+    action: "release" | "refund" | "complete_refund",
+    refundTo?: "ORIGINAL" | "WALLET"
+  ) => {
+    const prompts = {
+      release: `Release R${escrow.netAmount.toFixed(2)} to ${escrow.provider.username}?`,
+      refund: `Refund R${escrow.amount.toFixed(2)} to ${escrow.appointment.requester.username}${refundTo === "WALLET" ? "'s wallet" : ""}?`,
+      complete_refund: `Confirm R${escrow.amount.toFixed(2)} has been refunded through ${escrow.payment.provider}?`,
+    };
+    if (!confirm(prompts[action])) return;
+
+    setProcessing(escrow.id);
+    try {
+      const response = await fetch("/api/admin/escrow", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ escrowId: escrow.id, action, refundTo }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        fetchEscrows();
+      } else {
+        alert(data.error || "Failed to update escrow");
+      }
+    } catch (error) {
+      console.error("Error updating escrow:", error);
+      alert("Failed to update escrow");
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "HELD":
+        return <Badge variant="primary">Held</Badge>;
+      case "DISPUTED":
+        return <Badge variant="error">Disputed</Badge>;
+      case "REFUND_PENDING":
+        return <Badge variant="warning">Refund Pending</Badge>;
+      case "RELEASED":
+        return <Badge variant="success">Released</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Escrow</h1>
+        <p className="text-muted-foreground">Booking payments held until the service is delivered</p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Held</p>
+          <p className="text-2xl font-bold text-primary">{stats.HELD?.count || 0}</p>
+          <p className="text-sm text-muted-foreground">R{(stats.HELD?.total || 0).toFixed(2)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Disputed</p>
+          <p className="text-2xl font-bold text-danger">{stats.DISPUTED?.count || 0}</p>
+          <p className="text-sm text-muted-foreground">R{(stats.DISPUTED?.total || 0).toFixed(2)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Refunds to Process</p>
+          <p className="text-2xl font-bold text-warning">{stats.REFUND_PENDING?.count || 0}</p>
+          <p className="text-sm text-muted-foreground">
+            R{(stats.REFUND_PENDING?.total || 0).toFixed(2)}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Released</p>
+          <p className="text-2xl font-bold text-success">{stats.RELEASED?.count || 0}</p>
+          <p className="text-sm text-muted-foreground">R{(stats.RELEASED?.total || 0).toFixed(2)}</p>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value);
+            setPage(1);
+          }}
+          className="px-4 py-2 border border-border rounded-lg bg-background text-foreground"
+        >
+          <option value="">All Statuses</option>
+          <option value="HELD">Held</option>
+          <option value="DISPUTED">Disputed</option>
+          <option value="REFUND_PENDING">Refund Pending</option>
+          <option value="RELEASED">Released</option>
+          <option value="REFUNDED">Refunded</option>
+        </select>
+      </Card>
+
+      {/* Escrow Table */}
+      <Card className="overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : escrows.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No held payments found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/50">
+                <tr>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Booking</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Amount</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Releases</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {escrows.map((escrow) => (
+                  <tr key={escrow.id} className="hover:bg-secondary/30">
+                    <td className="p-4">
+                      <p className="font-medium text-foreground">
+                        {escrow.appointment.service?.name || "Booking"}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {escrow.appointment.requester.username} → {escrow.provider.username}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(escrow.appointment.date).toLocaleDateString()} {escrow.appointment.time} ·{" "}
+                        {escrow.appointment.status}
+                      </p>
+                    </td>
+                    <td className="p-4">
+                      <p className="font-bold text-foreground">R{escrow.amount.toFixed(2)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Provider R{escrow.netAmount.toFixed(2)} · {escrow.payment.provider}
+                      </p>
+                    </td>
+                    <td className="p-4">
+                      {getStatusBadge(escrow.status)}
+                      {escrow.disputeReason && (
+                        <p className="text-xs text-muted-foreground mt-1 max-w-xs">
+                          {escrow.disputeReason}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {new Date(escrow.releaseAfter).toLocaleDateString()}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end gap-2">
+                        {["HELD", "DISPUTED"].includes(escrow.status) && (
+                          <>
+                            <Button
+                              size="sm"
+                              onClick={() => handleAction(escrow, "release")}
+                              disabled={processing === escrow.id}
+                            >
+                              Release
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleAction(escrow, "refund", "WALLET")}
+                              disabled={processing === escrow.id}
+                            >
+                              Refund to Wallet
+                            </Button>
+                            {escrow.payment.provider !== "WALLET" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleAction(escrow, "refund", "ORIGINAL")}
+                                disabled={processing === escrow.id}
+                              >
+                                Refund to Card
+                              </Button>
+                            )}
+                          </>
+                        )}
+                        {escrow.status === "REFUND_PENDING" && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleAction(escrow, "complete_refund")}
+                            disabled={processing === escrow.id}
+                          >
+                            Mark Refunded
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-border">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page + 1)}
+                disabled={page === totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
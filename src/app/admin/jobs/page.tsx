@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, Button, Badge, Spinner } from "@/components/ui";
+
+interface BackgroundJob {
+  id: string;
+  type: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedAt: string | null;
+  lockedBy: string | null;
+  lastError: string | null;
+  key: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export default function AdminJobsPage() {
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [types, setTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("DEAD");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [stats, setStats] = useState<Record<string, number>>({});
+  const [processing, setProcessing] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [page, statusFilter, typeFilter]);
+
+  const fetchJobs = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+        ...(statusFilter && { status: statusFilter }),
+        ...(typeFilter && { type: typeFilter }),
+      });
+
+      const response = await fetch(`/api/admin/jobs?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setJobs(data.jobs);
+        setTypes(data.types);
+        setTotalPages(data.pagination.totalPages);
+        setStats(data.stats);
+      }
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (job: BackgroundJob, action: "retry" | "cancel") => {
+    const prompts = {
+      retry: `Run ${job.type} again with a fresh set of attempts?`,
+      cancel: `Cancel ${job.type}? It will not run.`,
+    };
+    if (!confirm(prompts[action])) return;
+
+    setProcessing(job.id);
+    try {
+      const response = await fetch("/api/admin/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId: job.id, action }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        fetchJobs();
+      } else {
+        alert(data.error || "Failed to update job");
+      }
+    } catch (error) {
+      console.error("Error updating job:", error);
+      alert("Failed to update job");
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "PENDING":
+        return <Badge variant="primary">Pending</Badge>;
+      case "RUNNING":
+        return <Badge variant="warning">Running</Badge>;
+      case "COMPLETED":
+        return <Badge variant="success">Completed</Badge>;
+      case "DEAD":
+        return <Badge variant="error">Dead</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Background Jobs</h1>
+        <p className="text-muted-foreground">
+          Reminders, expiries and housekeeping run by the job worker
+        </p>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Pending</p>
+          <p className="text-2xl font-bold text-primary">{stats.PENDING || 0}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Running</p>
+          <p className="text-2xl font-bold text-warning">{stats.RUNNING || 0}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Dead</p>
+          <p className="text-2xl font-bold text-danger">{stats.DEAD || 0}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Completed</p>
+          <p className="text-2xl font-bold text-success">{stats.COMPLETED || 0}</p>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-4">
+        <div className="flex flex-wrap gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-4 py-2 border border-border rounded-lg bg-background text-foreground"
+          >
+            <option value="">All Statuses</option>
+            <option value="PENDING">Pending</option>
+            <option value="RUNNING">Running</option>
+            <option value="DEAD">Dead</option>
+            <option value="COMPLETED">Completed</option>
+            <option value="CANCELLED">Cancelled</option>
+          </select>
+          <select
+            value={typeFilter}
+            onChange={(e) => {
+              setTypeFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-4 py-2 border border-border rounded-lg bg-background text-foreground"
+          >
+            <option value="">All Types</option>
+            {types.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+      </Card>
+
+      {/* Jobs Table */}
+      <Card className="overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No jobs found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/50">
+                <tr>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Job</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Attempts</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Run At</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {jobs.map((job) => (
+                  <tr key={job.id} className="hover:bg-secondary/30 align-top">
+                    <td className="p-4">
+                      <p className="font-medium text-foreground font-mono text-sm">{job.type}</p>
+                      {job.payload != null && (
+                        <p className="text-xs text-muted-foreground font-mono break-all max-w-md">
+                          {JSON.stringify(job.payload)}
+                        </p>
+                      )}
+                      {job.lastError && (
+                        <button
+                          type="button"
+                          onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                          className="text-xs text-danger mt-1 text-left"
+                        >
+                          {expandedId === job.id ? "Hide error" : "Show last error"}
+                        </button>
+                      )}
+                      {expandedId === job.id && job.lastError && (
+                        <pre className="text-xs text-muted-foreground mt-2 p-2 bg-secondary/50 rounded whitespace-pre-wrap max-w-xl">
+                          {job.lastError}
+                        </pre>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      {getStatusBadge(job.status)}
+                      {job.lockedBy && (
+                        <p className="text-xs text-muted-foreground mt-1">{job.lockedBy}</p>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {job.attempts} / {job.maxAttempts}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {new Date(job.runAt).toLocaleString()}
+                      {job.completedAt && (
+                        <p className="text-xs">
+                          Done {new Date(job.completedAt).toLocaleString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end gap-2">
+                        {["DEAD", "CANCELLED"].includes(job.status) && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleAction(job, "retry")}
+                            disabled={processing === job.id}
+                          >
+                            Retry
+                          </Button>
+                        )}
+                        {job.status === "PENDING" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleAction(job, "cancel")}
+                            disabled={processing === job.id}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-border">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page + 1)}
+                disabled={page === totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
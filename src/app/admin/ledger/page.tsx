@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, Button, Badge, Spinner } from "@/components/ui";
+
+interface WalletReconciliation {
+  walletId: string;
+  user: {
+    id: string;
+    username: string;
+    email: string;
+  };
+  balance: number;
+  ledgerBalance: number;
+  transactionBalance: number;
+  heldBalance: number;
+  escrowBalance: number;
+  hasLedgerAccount: boolean;
+  matches: boolean;
+}
+
+interface AccountReconciliation {
+  code: string;
+  name: string;
+  type: string;
+  balance: number;
+  ledgerBalance: number;
+  matches: boolean;
+}
+
+interface ReconciliationReport {
+  summary: {
+    walletCount: number;
+    mismatchedWallets: number;
+    mismatchedAccounts: number;
+    unbalancedJournals: number;
+    totalDebits: number;
+    totalCredits: number;
+    balanced: boolean;
+  };
+  wallets: WalletReconciliation[];
+  accounts: AccountReconciliation[];
+  unbalancedJournals: string[];
+}
+
+export default function AdminLedgerPage() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/ledger");
+      if (response.ok) {
+        setReport(await response.json());
+      }
+    } catch (error) {
+      console.error("Error fetching reconciliation report:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || !report) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  const wallets = showAll ? report.wallets : report.wallets.filter((w) => !w.matches);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Ledger Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Wallet balances checked against their ledger entries and transaction history
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchReport}>
+          Refresh
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Wallets</p>
+          <p className="text-2xl font-bold text-foreground">{report.summary.walletCount}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Mismatched Wallets</p>
+          <p
+            className={`text-2xl font-bold ${report.summary.mismatchedWallets > 0 ? "text-danger" : "text-success"}`}
+          >
+            {report.summary.mismatchedWallets}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Unbalanced Journals</p>
+          <p
+            className={`text-2xl font-bold ${report.summary.unbalancedJournals > 0 ? "text-danger" : "text-success"}`}
+          >
+            {report.summary.unbalancedJournals}
+          </p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-muted-foreground">Trial Balance</p>
+          <p
+            className={`text-2xl font-bold ${report.summary.balanced ? "text-success" : "text-danger"}`}
+          >
+            {report.summary.balanced ? "Balanced" : "Out"}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Dr R{report.summary.totalDebits.toFixed(2)} / Cr R{report.summary.totalCredits.toFixed(2)}
+          </p>
+        </Card>
+      </div>
+
+      {/* System Accounts */}
+      <Card className="overflow-hidden">
+        <div className="p-4 border-b border-border">
+          <h2 className="font-semibold text-foreground">Platform Accounts</h2>
+        </div>
+        {report.accounts.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No ledger postings yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/50">
+                <tr>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Account</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Balance</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">From Entries</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {report.accounts.map((account) => (
+                  <tr key={account.code} className="hover:bg-secondary/30">
+                    <td className="p-4">
+                      <p className="font-medium text-foreground">{account.name}</p>
+                      <p className="text-xs text-muted-foreground">{account.code}</p>
+                    </td>
+                    <td className="p-4 text-right">R{account.balance.toFixed(2)}</td>
+                    <td className="p-4 text-right">R{account.ledgerBalance.toFixed(2)}</td>
+                    <td className="p-4 text-right">
+                      {account.matches ? (
+                        <Badge variant="success">OK</Badge>
+                      ) : (
+                        <Badge variant="error">Mismatch</Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Wallets */}
+      <Card className="overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <h2 className="font-semibold text-foreground">
+            {showAll ? "All Wallets" : "Wallets Needing Attention"}
+          </h2>
+          <Button size="sm" variant="outline" onClick={() => setShowAll(!showAll)}>
+            {showAll ? "Show mismatches only" : "Show all wallets"}
+          </Button>
+        </div>
+        {wallets.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            {showAll ? "No wallets found" : "Every wallet matches its history"}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/50">
+                <tr>
+                  <th className="text-left p-4 font-medium text-muted-foreground">User</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Balance</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Ledger</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Transactions</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Held / Escrow</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {wallets.map((wallet) => (
+                  <tr key={wallet.walletId} className="hover:bg-secondary/30">
+                    <td className="p-4">
+                      <p className="font-medium text-foreground">{wallet.user.username}</p>
+                      <p className="text-sm text-muted-foreground">{wallet.user.email}</p>
+                    </td>
+                    <td className="p-4 text-right font-bold">R{wallet.balance.toFixed(2)}</td>
+                    <td className="p-4 text-right">
+                      {wallet.hasLedgerAccount ? `R${wallet.ledgerBalance.toFixed(2)}` : "No entries"}
+                    </td>
+                    <td className="p-4 text-right">R{wallet.transactionBalance.toFixed(2)}</td>
+                    <td className="p-4 text-right">
+                      R{wallet.heldBalance.toFixed(2)} / R{wallet.escrowBalance.toFixed(2)}
+                    </td>
+                    <td className="p-4 text-right">
+                      {wallet.matches ? (
+                        <Badge variant="success">OK</Badge>
+                      ) : (
+                        <Badge variant="error">Mismatch</Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {report.unbalancedJournals.length > 0 && (
+        <Card className="p-4">
+          <h2 className="font-semibold text-danger mb-2">Unbalanced Journals</h2>
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {report.unbalancedJournals.map((id) => (
+              <li key={id}>{id}</li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, Button, Badge, Spinner, Input } from "@/components/ui";
+
+interface Payment {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  type: string;
+  provider: string;
+  providerRef: string | null;
+  description: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  user: {
+    id: string;
+    username: string;
+    email: string;
+  };
+  eventCount: number;
+}
+
+interface Refund {
+  id: string;
+  creditNoteNumber: string;
+  amount: number;
+  method: string;
+  status: string;
+  reason: string | null;
+  failureReason: string | null;
+  createdAt: string;
+}
+
+interface PaymentEvent {
+  id: string;
+  provider: string;
+  eventId: string;
+  eventType: string | null;
+  status: string;
+  signatureValid: boolean;
+  payload: unknown;
+  error: string | null;
+  processedAt: string | null;
+  createdAt: string;
+}
+
+export default function AdminPaymentsPage() {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [providerFilter, setProviderFilter] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
+  const [events, setEvents] = useState<PaymentEvent[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [refundable, setRefundable] = useState(0);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundMethod, setRefundMethod] = useState("ORIGINAL");
+  const [refundReason, setRefundReason] = useState("");
+  const [refundError, setRefundError] = useState("");
+  const [refunding, setRefunding] = useState(false);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [page, statusFilter, providerFilter]);
+
+  const fetchPayments = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+        ...(statusFilter && { status: statusFilter }),
+        ...(providerFilter && { provider: providerFilter }),
+      });
+
+      const response = await fetch(`/api/admin/payments?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setPayments(data.payments);
+        setTotalPages(data.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEvents = async (payment: Payment) => {
+    setSelectedPayment(payment);
+    setEvents([]);
+    setRefunds([]);
+    setRefundAmount("");
+    setRefundReason("");
+    setRefundError("");
+    setEventsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/payments/${payment.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.payment.events);
+        setRefunds(data.payment.refunds);
+        setRefundable(data.payment.amount - data.payment.refundedAmount);
+      }
+    } catch (error) {
+      console.error("Error fetching payment events:", error);
+    } finally {
+      setEventsLoading(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!selectedPayment) return;
+
+    setRefunding(true);
+    setRefundError("");
+    try {
+      const response = await fetch(`/api/payments/${selectedPayment.id}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(refundAmount && { amount: parseFloat(refundAmount) }),
+          method: refundMethod,
+          ...(refundReason && { reason: refundReason }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setRefundError(data.error || "Failed to refund payment");
+        return;
+      }
+
+      await openEvents(selectedPayment);
+      fetchPayments();
+    } catch (error) {
+      console.error("Error refunding payment:", error);
+      setRefundError("Failed to refund payment");
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  const resolveRefund = async (refund: Refund, action: "complete" | "fail") => {
+    if (!selectedPayment) return;
+
+    const providerRef =
+      action === "complete"
+        ? prompt("Payment provider refund reference (optional):") || undefined
+        : undefined;
+    const reason = action === "fail" ? prompt("Reason:") || undefined : undefined;
+
+    try {
+      const response = await fetch(`/api/payments/${selectedPayment.id}/refund`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refundId: refund.id, action, providerRef, reason }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || "Failed to update refund");
+        return;
+      }
+
+      await openEvents(selectedPayment);
+      fetchPayments();
+    } catch (error) {
+      console.error("Error updating refund:", error);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "PENDING":
+      case "RECEIVED":
+        return <Badge variant="warning">{status}</Badge>;
+      case "PROCESSING":
+        return <Badge variant="primary">{status}</Badge>;
+      case "COMPLETED":
+      case "PROCESSED":
+        return <Badge variant="success">{status}</Badge>;
+      case "FAILED":
+        return <Badge variant="error">{status}</Badge>;
+      case "REFUNDED":
+        return <Badge variant="outline">{status}</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Payments</h1>
+        <p className="text-muted-foreground">Payments and the raw provider events behind them</p>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-4">
+        <div className="flex flex-wrap gap-4">
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-4 py-2 border border-border rounded-lg bg-background text-foreground"
+          >
+            <option value="">All Statuses</option>
+            <option value="PENDING">Pending</option>
+            <option value="PROCESSING">Processing</option>
+            <option value="COMPLETED">Completed</option>
+            <option value="FAILED">Failed</option>
+            <option value="REFUNDED">Refunded</option>
+            <option value="CANCELLED">Cancelled</option>
+          </select>
+          <select
+            value={providerFilter}
+            onChange={(e) => {
+              setProviderFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-4 py-2 border border-border rounded-lg bg-background text-foreground"
+          >
+            <option value="">All Providers</option>
+            <option value="YOCO">Yoco</option>
+            <option value="PAYFAST">PayFast</option>
+            <option value="WALLET">Wallet</option>
+            <option value="MANUAL">Manual</option>
+          </select>
+        </div>
+      </Card>
+
+      {/* Payments Table */}
+      <Card className="overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : payments.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No payments found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/50">
+                <tr>
+                  <th className="text-left p-4 font-medium text-muted-foreground">User</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Amount</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Provider</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
+                  <th className="text-right p-4 font-medium text-muted-foreground">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {payments.map((payment) => (
+                  <tr key={payment.id} className="hover:bg-secondary/30">
+                    <td className="p-4">
+                      <p className="font-medium text-foreground">{payment.user.username}</p>
+                      <p className="text-sm text-muted-foreground">{payment.user.email}</p>
+                    </td>
+                    <td className="p-4">
+                      <p className="font-bold text-foreground">R{payment.amount.toFixed(2)}</p>
+                      <p className="text-xs text-muted-foreground">{payment.type}</p>
+                    </td>
+                    <td className="p-4">
+                      <p className="text-sm">{payment.provider}</p>
+                      {payment.providerRef && (
+                        <p className="text-xs text-muted-foreground">Ref: {payment.providerRef}</p>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      {getStatusBadge(payment.status)}
+                      {payment.failureReason && (
+                        <p className="text-xs text-danger mt-1">{payment.failureReason}</p>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">
+                      {new Date(payment.createdAt).toLocaleString()}
+                    </td>
+                    <td className="p-4 text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openEvents(payment)}
+                      >
+                        View ({payment.eventCount})
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-border">
+            <p className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page + 1)}
+                disabled={page === totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Events Modal */}
+      {selectedPayment && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold">
+                  R{selectedPayment.amount.toFixed(2)} {selectedPayment.provider} payment
+                </h2>
+                <Button variant="outline" size="sm" onClick={() => setSelectedPayment(null)}>
+                  Close
+                </Button>
+              </div>
+
+              {!eventsLoading && (
+                <div className="space-y-3">
+                  <h3 className="font-semibold">Refunds</h3>
+                  {refunds.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No refunds</p>
+                  ) : (
+                    refunds.map((refund) => (
+                      <div
+                        key={refund.id}
+                        className="flex flex-wrap items-center justify-between gap-2 p-3 bg-secondary/50 rounded-lg"
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">R{refund.amount.toFixed(2)}</span>
+                            {getStatusBadge(refund.status)}
+                            <span className="text-xs text-muted-foreground">
+                              {refund.method === "WALLET" ? "to wallet" : "to original payment"}
+                            </span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {refund.creditNoteNumber} · {new Date(refund.createdAt).toLocaleString()}
+                            {refund.reason && ` · ${refund.reason}`}
+                          </p>
+                          {refund.failureReason && (
+                            <p className="text-xs text-danger">{refund.failureReason}</p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          {refund.status === "PENDING" && (
+                            <>
+                              <Button size="sm" onClick={() => resolveRefund(refund, "complete")}>
+                                Mark Paid
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => resolveRefund(refund, "fail")}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                          <a href={`/api/credit-notes/${refund.id}`} target="_blank" rel="noopener noreferrer">
+                            <Button size="sm" variant="outline">
+                              Credit Note
+                            </Button>
+                          </a>
+                        </div>
+                      </div>
+                    ))
+                  )}
+
+                  {selectedPayment.status === "COMPLETED" &&
+                    selectedPayment.type !== "WALLET_DEPOSIT" &&
+                    refundable > 0 && (
+                      <div className="p-4 border border-border rounded-lg space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          Up to R{refundable.toFixed(2)} can still be refunded
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            max={refundable}
+                            placeholder={`Amount (default R${refundable.toFixed(2)})`}
+                            value={refundAmount}
+                            onChange={(e) => setRefundAmount(e.target.value)}
+                          />
+                          {selectedPayment.provider !== "WALLET" && (
+                            <select
+                              value={refundMethod}
+                              onChange={(e) => setRefundMethod(e.target.value)}
+                              className="px-4 py-2 border border-border rounded-lg bg-background text-foreground"
+                            >
+                              <option value="ORIGINAL">Original payment</option>
+                              <option value="WALLET">Wallet</option>
+                            </select>
+                          )}
+                        </div>
+                        <Input
+                          placeholder="Reason (shown on the credit note)"
+                          value={refundReason}
+                          onChange={(e) => setRefundReason(e.target.value)}
+                        />
+                        {refundError && <p className="text-sm text-danger">{refundError}</p>}
+                        <Button size="sm" onClick={handleRefund} disabled={refunding}>
+                          {refunding ? "Refunding..." : "Issue Refund"}
+                        </Button>
+                      </div>
+                    )}
+                </div>
+              )}
+
+              <h3 className="font-semibold">Events</h3>
+              {eventsLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Spinner size="lg" />
+                </div>
+              ) : events.length === 0 ? (
+                <p className="text-muted-foreground">No events recorded for this payment</p>
+              ) : (
+                events.map((event) => (
+                  <div key={event.id} className="p-4 bg-secondary/50 rounded-lg space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {getStatusBadge(event.status)}
+                      <span className="font-medium">{event.eventType || "event"}</span>
+                      <span className="text-xs text-muted-foreground">{event.eventId}</span>
+                      {!event.signatureValid && <Badge variant="error">Unverified</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Received {new Date(event.createdAt).toLocaleString()}
+                      {event.processedAt &&
+                        ` · Processed ${new Date(event.processedAt).toLocaleString()}`}
+                    </p>
+                    {event.error && <p className="text-xs text-danger">{event.error}</p>}
+                    <pre className="text-xs bg-background p-3 rounded overflow-x-auto">
+                      {JSON.stringify(event.payload, null, 2)}
+                    </pre>
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
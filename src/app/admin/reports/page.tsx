@@ -12,12 +12,13 @@ interface Report {
   adminNotes: string | null;
   createdAt: string;
   resolvedAt: string | null;
+  // Null when the report was raised automatically
   reporter: {
     id: string;
     username: string;
     email: string;
     picture: string | null;
-  };
+  } | null;
   reportedUser: {
     id: string;
     username: string;
@@ -42,6 +43,11 @@ interface Report {
       username: string;
     };
   } | null;
+  reportedMessage: {
+    id: string;
+    content: string;
+    createdAt: string;
+  } | null;
   resolvedBy: {
     id: string;
     username: string;
@@ -148,6 +154,16 @@ export default function AdminReportsPage() {
   };
 
   const getReportedContent = (report: Report) => {
+    if (report.reportedMessage) {
+      return (
+        <div>
+          <p className="font-medium line-clamp-2">&quot;{report.reportedMessage.content}&quot;</p>
+          <p className="text-xs text-muted-foreground">
+            Message{report.reportedUser && ` by ${report.reportedUser.username}`}
+          </p>
+        </div>
+      );
+    }
     if (report.reportedUser) {
       return (
         <div className="flex items-center gap-2">
@@ -257,10 +273,14 @@ export default function AdminReportsPage() {
                     <td className="p-4">{getReportTypeBadge(report.type)}</td>
                     <td className="p-4">{getReportedContent(report)}</td>
                     <td className="p-4">
-                      <div className="flex items-center gap-2">
-                        <Avatar src={report.reporter.picture} name={report.reporter.username} size="sm" />
-                        <span className="text-sm">{report.reporter.username}</span>
-                      </div>
+                      {report.reporter ? (
+                        <div className="flex items-center gap-2">
+                          <Avatar src={report.reporter.picture} name={report.reporter.username} size="sm" />
+                          <span className="text-sm">{report.reporter.username}</span>
+                        </div>
+                      ) : (
+                        <Badge variant="secondary">Automatic</Badge>
+                      )}
                     </td>
                     <td className="p-4">
                       <p className="text-sm text-muted-foreground line-clamp-2 max-w-xs">
@@ -372,17 +392,21 @@ export default function AdminReportsPage() {
 
                 <div>
                   <p className="text-sm text-muted-foreground mb-1">Reported By</p>
-                  <div className="flex items-center gap-2">
-                    <Avatar
-                      src={selectedReport.reporter.picture}
-                      name={selectedReport.reporter.username}
-                      size="sm"
-                    />
-                    <div>
-                      <p className="font-medium">{selectedReport.reporter.username}</p>
-                      <p className="text-sm text-muted-foreground">{selectedReport.reporter.email}</p>
+                  {selectedReport.reporter ? (
+                    <div className="flex items-center gap-2">
+                      <Avatar
+                        src={selectedReport.reporter.picture}
+                        name={selectedReport.reporter.username}
+                        size="sm"
+                      />
+                      <div>
+                        <p className="font-medium">{selectedReport.reporter.username}</p>
+                        <p className="text-sm text-muted-foreground">{selectedReport.reporter.email}</p>
+                      </div>
                     </div>
-                  </div>
+                  ) : (
+                    <p className="text-foreground">Flagged automatically</p>
+                  )}
                 </div>
 
                 <hr className="border-border" />
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { DEFAULT_COMMISSION_RATE } from "@/lib/payments/commission";
+
+const commissionRuleSchema = z
+  .object({
+    rate: z.number().min(0).max(100),
+    categoryId: z.string().optional(),
+    providerId: z.string().optional(),
+    note: z.string().max(255).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => !(data.categoryId && data.providerId), {
+    message: "A rule applies to a category or a provider, not both",
+  });
+
+// GET /api/admin/commission - Get the default rate and all overrides (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const rules = await prisma.commissionRule.findMany({
+      include: {
+        category: {
+          select: { id: true, name: true },
+        },
+        provider: {
+          select: {
+            id: true,
+            username: true,
+            shop: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { updatedAt: "desc" },
+    });
+
+    const defaultRule = rules.find((r) => !r.categoryId && !r.providerId && r.isActive);
+
+    return NextResponse.json({
+      defaultRate: defaultRule ? Number(defaultRule.rate) : DEFAULT_COMMISSION_RATE,
+      rules: rules.map((r) => ({
+        id: r.id,
+        scope: r.providerId ? "provider" : r.categoryId ? "category" : "default",
+        rate: Number(r.rate),
+        note: r.note,
+        isActive: r.isActive,
+        category: r.category,
+        provider: r.provider,
+        updatedAt: r.updatedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching commission rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch commission rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/commission - Set the default, a category override or a provider's negotiated rate (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { rate, categoryId, providerId, note, isActive } = commissionRuleSchema.parse(body);
+
+    if (providerId) {
+      const provider = await prisma.user.findUnique({
+        where: { id: providerId },
+        select: { userType: true },
+      });
+
+      if (provider?.userType !== "SERVICE_PROVIDER") {
+        return NextResponse.json(
+          { error: "Service provider not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (categoryId) {
+      const category = await prisma.category.findUnique({
+        where: { id: categoryId },
+      });
+
+      if (!category) {
+        return NextResponse.json(
+          { error: "Category not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const existing = await prisma.commissionRule.findFirst({
+      where: {
+        categoryId: categoryId ?? null,
+        providerId: providerId ?? null,
+      },
+    });
+
+    const data = {
+      rate,
+      note,
+      isActive: isActive ?? true,
+    };
+
+    const rule = existing
+      ? await prisma.commissionRule.update({
+          where: { id: existing.id },
+          data,
+        })
+      : await prisma.commissionRule.create({
+          data: {
+            ...data,
+            categoryId,
+            providerId,
+          },
+        });
+
+    return NextResponse.json({
+      success: true,
+      rule: {
+        ...rule,
+        rate: Number(rule.rate),
+      },
+    });
+  } catch (error) {
+    console.error("Error saving commission rule:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to save commission rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/commission?id= - Remove an override (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Rule ID is required" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.commissionRule.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Commission rule removed",
+    });
+  } catch (error) {
+    console.error("Error deleting commission rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete commission rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { refundEscrow, releaseEscrow } from "@/lib/payments/escrow";
+import { completeRefund } from "@/lib/payments/refunds";
+
+const resolveEscrowSchema = z.object({
+  escrowId: z.string(),
+  action: z.enum(["release", "refund", "complete_refund"]),
+  refundTo: z.enum(["ORIGINAL", "WALLET"]).optional(),
+});
+
+// GET /api/admin/escrow - Get held booking payments (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+
+    const where: Record<string, unknown> = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    const [escrows, total, stats] = await Promise.all([
+      prisma.escrow.findMany({
+        where,
+        include: {
+          payment: {
+            select: {
+              provider: true,
+              providerRef: true,
+            },
+          },
+          appointment: {
+            select: {
+              id: true,
+              date: true,
+              time: true,
+              status: true,
+              service: { select: { name: true } },
+              requester: { select: { id: true, username: true, email: true } },
+            },
+          },
+          provider: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.escrow.count({ where }),
+      prisma.escrow.groupBy({
+        by: ["status"],
+        _count: { id: true },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      escrows: escrows.map((e) => ({
+        id: e.id,
+        amount: Number(e.amount),
+        netAmount: Number(e.netAmount),
+        status: e.status,
+        releaseAfter: e.releaseAfter,
+        disputeReason: e.disputeReason,
+        refundMethod: e.refundMethod,
+        createdAt: e.createdAt,
+        payment: e.payment,
+        appointment: e.appointment,
+        provider: e.provider,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+      stats: stats.reduce(
+        (acc, stat) => {
+          acc[stat.status] = {
+            count: stat._count.id,
+            total: Number(stat._sum.amount || 0),
+          };
+          return acc;
+        },
+        {} as Record<string, { count: number; total: number }>
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching escrow:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch escrow" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/escrow - Resolve a disputed payment or record a card refund
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const admin = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (admin?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { escrowId, action, refundTo } = resolveEscrowSchema.parse(body);
+
+    const escrow = await prisma.escrow.findUnique({
+      where: { id: escrowId },
+      select: { id: true, status: true, appointmentId: true, paymentId: true },
+    });
+
+    if (!escrow) {
+      return NextResponse.json({ error: "Escrow not found" }, { status: 404 });
+    }
+
+    if (action === "release") {
+      const earning = await releaseEscrow(escrow.appointmentId, {
+        resolveDispute: escrow.status === "DISPUTED",
+      });
+
+      if (!earning) {
+        return NextResponse.json(
+          { error: `Cannot release a payment that is ${escrow.status}` },
+          { status: 400 }
+        );
+      }
+    } else {
+      let result;
+
+      if (action === "refund") {
+        result = await refundEscrow(escrow.appointmentId, session.user.id, refundTo);
+      } else {
+        // Confirm a card refund that was paid from the provider's dashboard
+        const pending = await prisma.refund.findFirst({
+          where: { paymentId: escrow.paymentId, status: "PENDING" },
+          orderBy: { createdAt: "asc" },
+        });
+        result = pending ? await completeRefund(pending.id) : null;
+      }
+
+      if (!result) {
+        return NextResponse.json(
+          { error: `Cannot ${action.replace("_", " ")} a payment that is ${escrow.status}` },
+          { status: 400 }
+        );
+      }
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: action === "release" ? "Funds released to provider" : "Refund recorded",
+    });
+  } catch (error) {
+    console.error("Error resolving escrow:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to resolve escrow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { cancelJob, retryJob } from "@/lib/queue/queue";
+
+const jobActionSchema = z.object({
+  jobId: z.string(),
+  action: z.enum(["retry", "cancel"]),
+});
+
+// GET /api/admin/jobs - List background jobs (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const type = searchParams.get("type");
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+
+    const where: Record<string, unknown> = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [jobs, total, stats, types] = await Promise.all([
+      prisma.backgroundJob.findMany({
+        where,
+        orderBy: { runAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.backgroundJob.count({ where }),
+      prisma.backgroundJob.groupBy({
+        by: ["status"],
+        _count: { id: true },
+      }),
+      prisma.backgroundJob.findMany({
+        distinct: ["type"],
+        select: { type: true },
+        orderBy: { type: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      jobs,
+      types: types.map((t) => t.type),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+      stats: stats.reduce(
+        (acc, stat) => {
+          acc[stat.status] = stat._count.id;
+          return acc;
+        },
+        {} as Record<string, number>
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/jobs - Retry a dead job or cancel a pending one
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const admin = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (admin?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { jobId, action } = jobActionSchema.parse(body);
+
+    const job = await prisma.backgroundJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, status: true },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const done = action === "retry" ? await retryJob(job.id) : await cancelJob(job.id);
+
+    if (!done) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a job that is ${job.status}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: action === "retry" ? "Job queued to run again" : "Job cancelled",
+    });
+  } catch (error) {
+    console.error("Error updating job:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update job" },
+      { status: 500 }
+    );
+  }
+}
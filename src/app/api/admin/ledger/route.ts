@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { buildReconciliationReport } from "@/lib/payments/reconciliation";
+
+// GET /api/admin/ledger - Reconcile wallet and ledger balances (admin only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const report = await buildReconciliationReport();
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error building reconciliation report:", error);
+    return NextResponse.json(
+      { error: "Failed to build reconciliation report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/admin/payments/[id] - Get a payment with its raw provider events and refunds (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            email: true,
+          },
+        },
+        events: {
+          orderBy: { createdAt: "asc" },
+        },
+        refunds: {
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    });
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      payment: {
+        ...payment,
+        amount: Number(payment.amount),
+        refundedAmount: Number(payment.refundedAmount),
+        refunds: payment.refunds.map((refund) => ({
+          ...refund,
+          amount: Number(refund.amount),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching payment:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,9 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { ReportStatus } from "@prisma/client";
+import { dispatchNotification } from "@/lib/notifications";
+import { refreshConversation } from "@/lib/messaging/conversations";
+import { refreshReviewRatings } from "@/lib/reviews/ratings";
 
 const updateReportSchema = z.object({
   reportId: z.string(),
@@ -20,6 +23,14 @@ const updateReportSchema = z.object({
   ]).optional(),
 });
 
+// Messages have no hidden status either, so both actions remove them
+async function deleteReportedMessage(message: { id: string; conversationId: string | null }) {
+  await prisma.message.delete({ where: { id: message.id } });
+  if (message.conversationId) {
+    await refreshConversation(message.conversationId);
+  }
+}
+
 // GET /api/admin/reports - Get all reports (admin only)
 export async function GET(request: NextRequest) {
   try {
@@ -101,6 +112,13 @@ export async function GET(request: NextRequest) {
               },
             },
           },
+          reportedMessage: {
+            select: {
+              id: true,
+              content: true,
+              createdAt: true,
+            },
+          },
           resolvedBy: {
             select: {
               id: true,
@@ -136,6 +154,7 @@ export async function GET(request: NextRequest) {
         reportedUser: r.reportedUser,
         reportedService: r.reportedService,
         reportedReview: r.reportedReview,
+        reportedMessage: r.reportedMessage,
         resolvedBy: r.resolvedBy,
       })),
       pagination: {
@@ -190,6 +209,12 @@ export async function PATCH(request: NextRequest) {
         reportedUser: true,
         reportedService: true,
         reportedReview: true,
+        reportedMessage: {
+          select: {
+            id: true,
+            conversationId: true,
+          },
+        },
         reporter: {
           select: {
             id: true,
@@ -209,16 +234,14 @@ export async function PATCH(request: NextRequest) {
         case "WARN_USER":
           if (report.reportedUserId) {
             // Create a warning notification
-            await prisma.notification.create({
-              data: {
-                userId: report.reportedUserId,
-                type: "SYSTEM",
-                title: "Account Warning",
-                message: "Your account has received a warning due to a policy violation. Please review our community guidelines.",
-                metadata: {
-                  reportType: report.type,
-                  isWarning: true,
-                },
+            await dispatchNotification({
+              userId: report.reportedUserId,
+              type: "SYSTEM",
+              title: "Account Warning",
+              message: "Your account has received a warning due to a policy violation. Please review our community guidelines.",
+              metadata: {
+                reportType: report.type,
+                isWarning: true,
               },
             });
           }
@@ -232,16 +255,14 @@ export async function PATCH(request: NextRequest) {
                 isActive: false,
               },
             });
-            await prisma.notification.create({
-              data: {
-                userId: report.reportedUserId,
-                type: "SYSTEM",
-                title: "Account Suspended",
-                message: "Your account has been suspended due to policy violations. Contact support for more information.",
-                metadata: {
-                  reportType: report.type,
-                  isSuspension: true,
-                },
+            await dispatchNotification({
+              userId: report.reportedUserId,
+              type: "SYSTEM",
+              title: "Account Suspended",
+              message: "Your account has been suspended due to policy violations. Contact support for more information.",
+              metadata: {
+                reportType: report.type,
+                isSuspension: true,
               },
             });
           }
@@ -267,9 +288,13 @@ export async function PATCH(request: NextRequest) {
           }
           if (report.reportedReviewId) {
             // Delete the review since there's no hidden status
-            await prisma.review.delete({
+            const review = await prisma.review.delete({
               where: { id: report.reportedReviewId },
             });
+            await refreshReviewRatings(review);
+          }
+          if (report.reportedMessage) {
+            await deleteReportedMessage(report.reportedMessage);
           }
           break;
 
@@ -280,9 +305,13 @@ export async function PATCH(request: NextRequest) {
             });
           }
           if (report.reportedReviewId) {
-            await prisma.review.delete({
+            const review = await prisma.review.delete({
               where: { id: report.reportedReviewId },
             });
+            await refreshReviewRatings(review);
+          }
+          if (report.reportedMessage) {
+            await deleteReportedMessage(report.reportedMessage);
           }
           break;
       }
@@ -299,20 +328,18 @@ export async function PATCH(request: NextRequest) {
       },
     });
 
-    // Notify the reporter
-    if (["RESOLVED", "DISMISSED"].includes(status)) {
-      await prisma.notification.create({
-        data: {
-          userId: report.reporterId,
-          type: "SYSTEM",
-          title: "Report Update",
-          message: status === "RESOLVED"
-            ? "Your report has been reviewed and action has been taken. Thank you for helping keep our community safe."
-            : "Your report has been reviewed. After investigation, no action was taken at this time.",
-          metadata: {
-            reportId: report.id,
-            status,
-          },
+    // Notify the reporter, unless the report was raised automatically
+    if (report.reporterId && ["RESOLVED", "DISMISSED"].includes(status)) {
+      await dispatchNotification({
+        userId: report.reporterId,
+        type: "SYSTEM",
+        title: "Report Update",
+        message: status === "RESOLVED"
+          ? "Your report has been reviewed and action has been taken. Thank you for helping keep our community safe."
+          : "Your report has been reviewed. After investigation, no action was taken at this time.",
+        metadata: {
+          reportId: report.id,
+          status,
         },
       });
     }
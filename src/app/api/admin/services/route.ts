@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { dispatchNotification } from "@/lib/notifications";
 
 const actionSchema = z.object({
   serviceId: z.string(),
@@ -163,13 +164,11 @@ export async function PATCH(request: NextRequest) {
         await prisma.service.delete({ where: { id: serviceId } });
 
         // Notify provider
-        await prisma.notification.create({
-          data: {
-            userId: service.provider.id,
-            type: "SYSTEM",
-            title: "Service Rejected",
-            message: `Your service "${service.name}" was not approved.${reason ? ` Reason: ${reason}` : ""}`,
-          },
+        await dispatchNotification({
+          userId: service.provider.id,
+          type: "SYSTEM",
+          title: "Service Rejected",
+          message: `Your service "${service.name}" was not approved.${reason ? ` Reason: ${reason}` : ""}`,
         });
 
         return NextResponse.json({
@@ -199,29 +198,21 @@ export async function PATCH(request: NextRequest) {
     });
 
     // Notify the provider
-    await prisma.notification.create({
-      data: {
-        userId: service.provider.id,
-        type: "SYSTEM",
-        title: notificationTitle,
-        message: notificationMessage,
-      },
-    });
-
-    // Send email notification
-    if (service.provider.email) {
-      const { sendEmail } = await import("@/lib/email");
-      await sendEmail(
-        service.provider.email,
-        notificationTitle,
-        `
+    await dispatchNotification({
+      userId: service.provider.id,
+      type: "SYSTEM",
+      title: notificationTitle,
+      message: notificationMessage,
+      email: {
+        subject: notificationTitle,
+        html: `
         <h2>${notificationTitle}</h2>
         <p>Hi ${service.provider.username},</p>
         <p>${notificationMessage}</p>
         <p>Best regards,<br>Mzansi Market Team</p>
-        `
-      );
-    }
+        `,
+      },
+    });
 
     return NextResponse.json({
       success: true,
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { dispatchNotification } from "@/lib/notifications";
 
 const actionSchema = z.object({
   userId: z.string(),
@@ -184,13 +185,11 @@ export async function PATCH(request: NextRequest) {
     });
 
     // Create notification for the user
-    await prisma.notification.create({
-      data: {
-        userId,
-        type: "SYSTEM",
-        title: "Account Update",
-        message: `Your account has been ${action === "activate" ? "activated" : action === "deactivate" ? "deactivated" : action === "verify" ? "verified" : action === "makeAdmin" ? "upgraded to admin" : "updated"}.`,
-      },
+    await dispatchNotification({
+      userId,
+      type: "SYSTEM",
+      title: "Account Update",
+      message: `Your account has been ${action === "activate" ? "activated" : action === "deactivate" ? "deactivated" : action === "verify" ? "verified" : action === "makeAdmin" ? "upgraded to admin" : "updated"}.`,
     });
 
     return NextResponse.json({
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { LedgerError, postJournal } from "@/lib/payments/ledger";
+import { dispatchNotification } from "@/lib/notifications";
 
 const processWithdrawalSchema = z.object({
   withdrawalId: z.string(),
@@ -169,14 +171,12 @@ export async function POST(request: NextRequest) {
       });
 
       // Notify user
-      await prisma.notification.create({
-        data: {
-          userId: withdrawal.userId,
-          type: "SYSTEM",
-          title: "Withdrawal Approved",
-          message: `Your withdrawal request for R${Number(withdrawal.amount).toFixed(2)} has been approved and will be processed shortly.`,
-          metadata: JSON.parse(JSON.stringify({ withdrawalId })),
-        },
+      await dispatchNotification({
+        userId: withdrawal.userId,
+        type: "SYSTEM",
+        title: "Withdrawal Approved",
+        message: `Your withdrawal request for R${Number(withdrawal.amount).toFixed(2)} has been approved and will be processed shortly.`,
+        metadata: { withdrawalId },
       });
 
       return NextResponse.json({
@@ -202,23 +202,15 @@ export async function POST(request: NextRequest) {
       });
 
       // Notify user
-      await prisma.notification.create({
-        data: {
-          userId: withdrawal.userId,
-          type: "SYSTEM",
-          title: "Withdrawal Rejected",
-          message: `Your withdrawal request for R${Number(withdrawal.amount).toFixed(2)} has been rejected. Reason: ${rejectionReason || "Request rejected by admin"}`,
-          metadata: JSON.parse(JSON.stringify({ withdrawalId })),
-        },
-      });
-
-      // Send email
-      if (withdrawal.user.email) {
-        const { sendEmail } = await import("@/lib/email");
-        await sendEmail(
-          withdrawal.user.email,
-          "Withdrawal Request Rejected",
-          `
+      await dispatchNotification({
+        userId: withdrawal.userId,
+        type: "SYSTEM",
+        title: "Withdrawal Rejected",
+        message: `Your withdrawal request for R${Number(withdrawal.amount).toFixed(2)} has been rejected. Reason: ${rejectionReason || "Request rejected by admin"}`,
+        metadata: { withdrawalId },
+        email: {
+          subject: "Withdrawal Request Rejected",
+          html: `
           <h2>Withdrawal Request Rejected</h2>
           <p>Hi ${withdrawal.user.username},</p>
           <p>Unfortunately, your withdrawal request for <strong>R${Number(withdrawal.amount).toFixed(2)}</strong> has been rejected.</p>
@@ -227,9 +219,9 @@ export async function POST(request: NextRequest) {
           </div>
           <p>If you believe this was an error, please contact our support team.</p>
           <p>Best regards,<br>Mzansi Market Team</p>
-          `
-        );
-      }
+          `,
+        },
+      });
 
       return NextResponse.json({
         success: true,
@@ -267,53 +259,53 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      const payoutReference = reference || `WD-${withdrawal.id.slice(0, 8).toUpperCase()}`;
+
       // Use transaction to ensure atomicity
-      await prisma.$transaction([
-        // Deduct from wallet
-        prisma.wallet.update({
-          where: { userId: withdrawal.userId },
-          data: {
-            balance: { decrement: withdrawalAmount },
-          },
-        }),
-        // Create transaction record
-        prisma.transaction.create({
-          data: {
-            walletId: wallet.id,
-            amount: withdrawalAmount,
-            type: "WITHDRAWAL",
+      try {
+        await prisma.$transaction(async (tx) => {
+          // Move the money from the user's wallet to the payout account
+          await postJournal(tx, {
             description: `Withdrawal to ${withdrawal.bankName} ****${withdrawal.accountNumber.slice(-4)}`,
-            reference: reference || `WD-${withdrawal.id.slice(0, 8).toUpperCase()}`,
-          },
-        }),
-        // Update withdrawal status
-        prisma.withdrawalRequest.update({
-          where: { id: withdrawalId },
-          data: {
-            status: "COMPLETED",
-            reference: reference || `WD-${withdrawal.id.slice(0, 8).toUpperCase()}`,
-            processedAt: new Date(),
-          },
-        }),
-        // Create notification
-        prisma.notification.create({
-          data: {
-            userId: withdrawal.userId,
-            type: "PAYMENT_RECEIVED",
-            title: "Withdrawal Completed",
-            message: `Your withdrawal of R${withdrawalAmount.toFixed(2)} has been processed and sent to your bank account.`,
-            metadata: JSON.parse(JSON.stringify({ withdrawalId, reference })),
-          },
-        }),
-      ]);
-
-      // Send email
-      if (withdrawal.user.email) {
-        const { sendEmail } = await import("@/lib/email");
-        await sendEmail(
-          withdrawal.user.email,
-          "Withdrawal Completed",
-          `
+            reference: payoutReference,
+            lines: [
+              {
+                side: "DEBIT",
+                amount: withdrawalAmount,
+                account: { walletUserId: withdrawal.userId },
+                transactionType: "WITHDRAWAL",
+              },
+              { side: "CREDIT", amount: withdrawalAmount, account: "PAYOUT" },
+            ],
+          });
+
+          // Update withdrawal status
+          await tx.withdrawalRequest.update({
+            where: { id: withdrawalId },
+            data: {
+              status: "COMPLETED",
+              reference: payoutReference,
+              processedAt: new Date(),
+            },
+          });
+        });
+      } catch (error) {
+        if (error instanceof LedgerError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+
+      // Notify user
+      await dispatchNotification({
+        userId: withdrawal.userId,
+        type: "PAYMENT_RECEIVED",
+        title: "Withdrawal Completed",
+        message: `Your withdrawal of R${withdrawalAmount.toFixed(2)} has been processed and sent to your bank account.`,
+        metadata: { withdrawalId, reference },
+        email: {
+          subject: "Withdrawal Completed",
+          html: `
           <h2>Withdrawal Completed ✓</h2>
           <p>Hi ${withdrawal.user.username},</p>
           <p>Great news! Your withdrawal has been processed successfully.</p>
@@ -325,9 +317,9 @@ export async function POST(request: NextRequest) {
           </div>
           <p>The funds should reflect in your bank account within 1-3 business days depending on your bank.</p>
           <p>Best regards,<br>Mzansi Market Team</p>
-          `
-        );
-      }
+          `,
+        },
+      });
 
       return NextResponse.json({
         success: true,
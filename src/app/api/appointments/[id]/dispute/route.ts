@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { z } from "zod";
+import { disputeEscrow } from "@/lib/payments/escrow";
+
+const disputeSchema = z.object({
+  reason: z.string().min(10, "Please describe the problem (at least 10 characters)").max(2000),
+});
+
+// POST /api/appointments/[id]/dispute - Stop held funds from being released
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        requesterId: true,
+      },
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Appointment not found" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.requesterId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the customer can dispute a booking payment" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { reason } = disputeSchema.parse(body);
+
+    const escrow = await disputeEscrow(id, reason);
+
+    if (!escrow) {
+      return NextResponse.json(
+        { error: "There are no held funds to dispute for this booking" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Dispute opened. The payment is on hold until it is resolved.",
+      escrow: {
+        status: escrow.status,
+        disputeReason: escrow.disputeReason,
+      },
+    });
+  } catch (error) {
+    console.error("Error disputing appointment payment:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to open dispute" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,414 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import {
+  checkSlotAvailable,
+  findAlternativeSlots,
+  getBufferMinutes,
+} from "@/lib/bookings/availability";
+import { releaseSlot, reserveSlot, SlotTakenError } from "@/lib/bookings/holds";
+import {
+  getRescheduleProposeError,
+  getRescheduleRespondError,
+  isReschedulable,
+} from "@/lib/bookings/reschedule";
+import { toDateKey } from "@/lib/bookings/slots";
+import { syncAppointmentReminders } from "@/lib/bookings/reminders";
+import { getEscrowReleaseDate } from "@/lib/payments/release";
+import { formatBookingDate } from "@/lib/utils";
+import { notifyRescheduleProposed, notifyRescheduleResponse } from "@/lib/notifications";
+import { notificationEmails } from "@/lib/email";
+
+const proposeSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
+  message: z.string().max(500).optional(),
+});
+
+const respondSchema = z.object({
+  proposalId: z.string().min(1, "Proposal ID is required"),
+  action: z.enum(["accept", "decline", "withdraw"]),
+});
+
+const partySelect = { id: true, username: true, email: true } as const;
+
+function describeSlot(date: Date | string, time: string) {
+  return `${formatBookingDate(date)} at ${time}`;
+}
+
+async function getBooking(id: string, userId: string) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id },
+    include: {
+      service: { select: { name: true } },
+      requester: { select: partySelect },
+      provider: { select: partySelect },
+    },
+  });
+
+  if (!appointment) {
+    return { error: "Appointment not found", status: 404 } as const;
+  }
+
+  const isRequester = appointment.requesterId === userId;
+  const isProvider = appointment.providerId === userId;
+
+  if (!isRequester && !isProvider) {
+    return { error: "You don't have access to this appointment", status: 403 } as const;
+  }
+
+  return {
+    appointment,
+    me: isProvider ? appointment.provider : appointment.requester,
+    other: isProvider ? appointment.requester : appointment.provider,
+  };
+}
+
+// GET /api/appointments/[id]/reschedule - Get the reschedule history of a booking
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const booking = await getBooking(id, session.user.id);
+    if ("error" in booking) {
+      return NextResponse.json({ error: booking.error }, { status: booking.status });
+    }
+
+    const proposals = await prisma.rescheduleProposal.findMany({
+      where: { appointmentId: id },
+      include: {
+        proposedBy: { select: { id: true, username: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const pending = proposals.find((p) => p.status === "PENDING") || null;
+    const { status } = booking.appointment;
+
+    return NextResponse.json({
+      proposals,
+      pendingProposalId: pending?.id || null,
+      canPropose: !getRescheduleProposeError(status, pending, session.user.id),
+      canRespond:
+        isReschedulable(status) &&
+        !!pending &&
+        !getRescheduleRespondError("accept", pending, session.user.id),
+    });
+  } catch (error) {
+    console.error("Error fetching reschedule proposals:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reschedule proposals" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/appointments/[id]/reschedule - Propose a new time, or counter the other party's proposal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const booking = await getBooking(id, session.user.id);
+    if ("error" in booking) {
+      return NextResponse.json({ error: booking.error }, { status: booking.status });
+    }
+
+    const { appointment, me, other } = booking;
+    const body = await request.json();
+    const data = proposeSchema.parse(body);
+
+    if (data.date === toDateKey(appointment.date) && data.time === appointment.time) {
+      return NextResponse.json(
+        { error: "The booking is already at this time" },
+        { status: 400 }
+      );
+    }
+
+    const pending = await prisma.rescheduleProposal.findFirst({
+      where: { appointmentId: id, status: "PENDING" },
+    });
+
+    const proposeError = getRescheduleProposeError(appointment.status, pending, session.user.id);
+    if (proposeError) {
+      return NextResponse.json({ error: proposeError.error }, { status: proposeError.status });
+    }
+
+    const isAvailable = await checkSlotAvailable(
+      appointment.providerId,
+      appointment.serviceId,
+      data.date,
+      data.time,
+      { excludeAppointmentId: id }
+    );
+
+    if (!isAvailable) {
+      const alternatives = await findAlternativeSlots(
+        appointment.providerId,
+        appointment.serviceId,
+        data.date
+      );
+      return NextResponse.json(
+        { error: "The provider is not available at this time", alternatives },
+        { status: 409 }
+      );
+    }
+
+    // A proposal made while the other party's is open answers it
+    const proposal = await prisma.$transaction(async (tx) => {
+      if (pending) {
+        await tx.rescheduleProposal.update({
+          where: { id: pending.id },
+          data: { status: "COUNTERED", respondedAt: new Date() },
+        });
+      }
+
+      return tx.rescheduleProposal.create({
+        data: {
+          appointmentId: id,
+          proposedById: session.user.id,
+          date: new Date(data.date),
+          time: data.time,
+          message: data.message,
+          previousDate: appointment.date,
+          previousTime: appointment.time,
+          counterToId: pending?.id,
+        },
+      });
+    });
+
+    const serviceName = appointment.service?.name || "your booking";
+    const proposed = describeSlot(proposal.date, proposal.time);
+
+    await notifyRescheduleProposed(
+      other.id,
+      me.username,
+      serviceName,
+      id,
+      proposed,
+      !!pending,
+      notificationEmails.rescheduleProposal({
+        recipientName: other.username,
+        proposerName: me.username,
+        serviceName,
+        currentDate: formatBookingDate(appointment.date),
+        currentTime: appointment.time,
+        proposedDate: formatBookingDate(proposal.date),
+        proposedTime: proposal.time,
+        message: data.message,
+        isCounter: !!pending,
+        bookingId: id,
+      })
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: pending ? "New time suggested" : "Reschedule request sent",
+        proposal,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error proposing reschedule:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to propose a new time" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/appointments/[id]/reschedule - Accept, decline or withdraw a proposal
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const booking = await getBooking(id, session.user.id);
+    if ("error" in booking) {
+      return NextResponse.json({ error: booking.error }, { status: booking.status });
+    }
+
+    const { appointment, me, other } = booking;
+    const body = await request.json();
+    const data = respondSchema.parse(body);
+
+    const proposal = await prisma.rescheduleProposal.findFirst({
+      where: { id: data.proposalId, appointmentId: id },
+    });
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+    }
+
+    const respondError = getRescheduleRespondError(data.action, proposal, session.user.id);
+    if (respondError) {
+      return NextResponse.json({ error: respondError.error }, { status: respondError.status });
+    }
+
+    if (data.action === "withdraw") {
+      const withdrawn = await prisma.rescheduleProposal.update({
+        where: { id: proposal.id },
+        data: { status: "WITHDRAWN", respondedAt: new Date() },
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: "Reschedule request withdrawn",
+        proposal: withdrawn,
+      });
+    }
+
+    const serviceName = appointment.service?.name || "your booking";
+    const accepted = data.action === "accept";
+
+    if (accepted) {
+      if (!isReschedulable(appointment.status)) {
+        return NextResponse.json(
+          { error: "Only upcoming bookings can be rescheduled" },
+          { status: 400 }
+        );
+      }
+
+      const dateKey = toDateKey(proposal.date);
+      const isAvailable = await checkSlotAvailable(
+        appointment.providerId,
+        appointment.serviceId,
+        dateKey,
+        proposal.time,
+        { excludeAppointmentId: id }
+      );
+
+      if (!isAvailable) {
+        return NextResponse.json(
+          { error: "The proposed time is no longer available. Suggest another time instead." },
+          { status: 409 }
+        );
+      }
+
+      const bufferMinutes = await getBufferMinutes(appointment.providerId, appointment.serviceId);
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          await tx.appointment.update({
+            where: { id },
+            data: { date: proposal.date, time: proposal.time },
+          });
+
+          await releaseSlot(tx, id);
+          await reserveSlot(tx, {
+            appointmentId: id,
+            providerId: appointment.providerId,
+            date: dateKey,
+            time: proposal.time,
+            duration: appointment.duration,
+            bufferMinutes,
+          });
+
+          // Held payments are released a set number of days after the new date
+          await tx.escrow.updateMany({
+            where: { appointmentId: id, status: "HELD" },
+            data: { releaseAfter: getEscrowReleaseDate(proposal.date) },
+          });
+
+          await tx.rescheduleProposal.update({
+            where: { id: proposal.id },
+            data: { status: "ACCEPTED", respondedAt: new Date() },
+          });
+        });
+      } catch (error) {
+        if (error instanceof SlotTakenError) {
+          return NextResponse.json(
+            { error: "The proposed time is no longer available. Suggest another time instead." },
+            { status: 409 }
+          );
+        }
+        throw error;
+      }
+
+      // Reminders move with the booking
+      await syncAppointmentReminders(id).catch((err) =>
+        console.error("Failed to re-time appointment reminders:", err)
+      );
+    } else {
+      await prisma.rescheduleProposal.update({
+        where: { id: proposal.id },
+        data: { status: "DECLINED", respondedAt: new Date() },
+      });
+    }
+
+    const finalDate = accepted ? proposal.date : appointment.date;
+    const finalTime = accepted ? proposal.time : appointment.time;
+
+    await notifyRescheduleResponse(
+      other.id,
+      me.username,
+      serviceName,
+      id,
+      accepted,
+      describeSlot(proposal.date, proposal.time),
+      notificationEmails.rescheduleResponse({
+        recipientName: other.username,
+        responderName: me.username,
+        serviceName,
+        accepted,
+        date: formatBookingDate(finalDate),
+        time: finalTime,
+        bookingId: id,
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: accepted ? "Booking moved to the new time" : "Reschedule request declined",
+      date: finalDate,
+      time: finalTime,
+    });
+  } catch (error) {
+    console.error("Error responding to reschedule:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to respond to the reschedule request" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,16 +3,23 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
-import { sendBookingStatusUpdate } from "@/lib/email";
+import { cancelAppointment } from "@/lib/bookings/cancellation";
+import { releaseSlot } from "@/lib/bookings/holds";
+import { syncAppointmentReminders } from "@/lib/bookings/reminders";
+import { notificationEmails } from "@/lib/email";
+import { notifyBookingStatusChanged } from "@/lib/notifications";
+import { smsMessages } from "@/lib/sms/messages";
+import { formatDate } from "@/lib/utils";
+import { chargeCancellationFee, releaseEscrow } from "@/lib/payments/escrow";
+import { hasAppointmentStarted, resolveCancellationPolicy } from "@/lib/payments/cancellation";
 
 const updateAppointmentSchema = z.object({
   status: z
     .enum(["PENDING", "CONFIRMED", "COMPLETED", "CANCELLED", "NO_SHOW"])
     .optional(),
-  date: z.string().optional(),
-  time: z.string().optional(),
   notes: z.string().optional(),
   address: z.string().optional(),
+  refundTo: z.enum(["ORIGINAL", "WALLET"]).optional(),
 });
 
 // GET /api/appointments/[id] - Get a specific appointment
@@ -38,6 +45,9 @@ export async function GET(
             description: true,
             price: true,
             chargeTime: true,
+            freeCancellationHours: true,
+            lateCancelFeePercent: true,
+            noShowFeePercent: true,
             category: {
               select: {
                 id: true,
@@ -68,10 +78,34 @@ export async function GET(
                 name: true,
                 address: true,
                 tax: true,
+                freeCancellationHours: true,
+                lateCancelFeePercent: true,
+                noShowFeePercent: true,
               },
             },
           },
         },
+        escrow: {
+          select: {
+            paymentId: true,
+            status: true,
+            amount: true,
+            netAmount: true,
+            releaseAfter: true,
+            disputeReason: true,
+            refundMethod: true,
+            releasedAt: true,
+            refundedAt: true,
+          },
+        },
+        review: {
+          select: {
+            id: true,
+            rating: true,
+            text: true,
+            createdAt: true,
+          },
+        },
       },
     });
 
@@ -93,9 +127,24 @@ export async function GET(
       );
     }
 
+    // Only the provider sees their net share of the held payment
+    const isProvider = appointment.providerId === session.user.id;
+
     return NextResponse.json({
       appointment: {
         ...appointment,
+        cancellationFee: appointment.cancellationFee ? Number(appointment.cancellationFee) : null,
+        cancellationPolicy: resolveCancellationPolicy(
+          appointment.service,
+          appointment.provider.shop
+        ),
+        escrow: appointment.escrow
+          ? {
+              ...appointment.escrow,
+              amount: Number(appointment.escrow.amount),
+              netAmount: isProvider ? Number(appointment.escrow.netAmount) : undefined,
+            }
+          : null,
         service: appointment.service
           ? {
               ...appointment.service,
@@ -134,7 +183,10 @@ export async function PATCH(
         id: true,
         requesterId: true,
         providerId: true,
+        serviceId: true,
         status: true,
+        date: true,
+        time: true,
       },
     });
 
@@ -156,6 +208,16 @@ export async function PATCH(
     }
 
     const body = await request.json();
+
+    // Moving a booking needs the other party's agreement, so it goes through
+    // a reschedule proposal rather than straight onto the booking
+    if (body.date !== undefined || body.time !== undefined) {
+      return NextResponse.json(
+        { error: "Propose a new time from the booking page to reschedule" },
+        { status: 400 }
+      );
+    }
+
     const validatedData = updateAppointmentSchema.parse(body);
 
     // Validate status transitions
@@ -163,7 +225,7 @@ export async function PATCH(
       const currentStatus = appointment.status;
       const newStatus = validatedData.status;
 
-      // Requester can only cancel
+      // Requester can only cancel, and only before the appointment has happened
       if (isRequester && !isProvider) {
         if (newStatus !== "CANCELLED") {
           return NextResponse.json(
@@ -171,6 +233,13 @@ export async function PATCH(
             { status: 403 }
           );
         }
+
+        if (!["PENDING", "CONFIRMED"].includes(currentStatus)) {
+          return NextResponse.json(
+            { error: "Cannot cancel this appointment" },
+            { status: 400 }
+          );
+        }
       }
 
       // Provider can confirm, complete, mark no-show, or cancel
@@ -186,48 +255,112 @@ export async function PATCH(
             { status: 400 }
           );
         }
+
+        // Completing releases the held payment, so it waits for the booking itself
+        if (
+          ["COMPLETED", "NO_SHOW"].includes(newStatus) &&
+          !hasAppointmentStarted(appointment.date, appointment.time)
+        ) {
+          return NextResponse.json(
+            { error: "This booking can't be completed or marked a no-show before it starts" },
+            { status: 400 }
+          );
+        }
       }
     }
 
+    // Cancelling settles the held payment, frees the slot and stops reminders
+    // the same way wherever a booking is cancelled from
+    let cancellationFee = 0;
+    if (validatedData.status === "CANCELLED") {
+      ({ cancellationFee } = await cancelAppointment(
+        appointment,
+        session.user.id,
+        validatedData.refundTo
+      ));
+    }
+
     // Build update data
     const updateData: Record<string, unknown> = {};
 
-    if (validatedData.status) updateData.status = validatedData.status;
-    if (validatedData.date) updateData.date = new Date(validatedData.date);
-    if (validatedData.time) updateData.time = validatedData.time;
+    if (validatedData.status && validatedData.status !== "CANCELLED") {
+      updateData.status = validatedData.status;
+    }
+    // Only unpaid PENDING bookings run on a checkout hold
+    if (validatedData.status && validatedData.status !== "PENDING") {
+      updateData.holdExpiresAt = null;
+    }
     if (validatedData.notes !== undefined) updateData.note = validatedData.notes;
     if (validatedData.address !== undefined) updateData.address = validatedData.address;
 
-    const updatedAppointment = await prisma.appointment.update({
-      where: { id },
-      data: updateData,
-      include: {
-        service: {
-          select: {
-            id: true,
-            name: true,
-            price: true,
+    // Finished bookings give their time back
+    const releasesSlot = ["NO_SHOW", "COMPLETED"].includes(validatedData.status || "");
+
+    const updatedAppointment = await prisma.$transaction(async (tx) => {
+      const updated = await tx.appointment.update({
+        where: { id },
+        data: updateData,
+        include: {
+          service: {
+            select: {
+              id: true,
+              name: true,
+              price: true,
+            },
           },
-        },
-        requester: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
+          requester: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
           },
-        },
-        provider: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
+          provider: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+              shop: { select: { name: true } },
+            },
           },
         },
-      },
+      });
+
+      if (releasesSlot) {
+        await releaseSlot(tx, id);
+      }
+
+      return updated;
     });
 
-    // Send status update email to the customer if status changed
-    if (validatedData.status && updatedAppointment.requester?.email) {
+    // Release held funds to the provider on completion. No-shows pay the
+    // provider's no-show fee out of what is held.
+    if (validatedData.status === "COMPLETED") {
+      await releaseEscrow(id).catch((err) =>
+        console.error("Failed to release escrow:", err)
+      );
+    } else if (validatedData.status === "NO_SHOW") {
+      const charged = await chargeCancellationFee(
+        id,
+        "NO_SHOW",
+        session.user.id,
+        validatedData.refundTo
+      ).catch((err) => {
+        console.error("Failed to charge no-show fee:", err);
+        return null;
+      });
+      cancellationFee = charged?.fee || 0;
+    }
+
+    // Reminders follow the booking's status
+    if (validatedData.status && validatedData.status !== "CANCELLED") {
+      await syncAppointmentReminders(id).catch((err) =>
+        console.error("Failed to update appointment reminders:", err)
+      );
+    }
+
+    // Let the customer know if the status changed
+    if (validatedData.status && validatedData.status !== "PENDING") {
       const statusMessages: Record<string, string> = {
         CONFIRMED: "Confirmed",
         COMPLETED: "Completed",
@@ -237,17 +370,40 @@ export async function PATCH(
 
       const statusMessage = statusMessages[validatedData.status] || validatedData.status;
 
-      sendBookingStatusUpdate(updatedAppointment.requester.email, {
-        customerName: updatedAppointment.requester.username,
-        serviceName: updatedAppointment.service?.name || "Service",
-        status: statusMessage,
-        bookingId: updatedAppointment.id,
-      }).catch((err) => console.error("Failed to send status update email:", err));
+      const serviceName = updatedAppointment.service?.name || "Service";
+
+      notifyBookingStatusChanged(
+        updatedAppointment.requesterId,
+        serviceName,
+        updatedAppointment.id,
+        validatedData.status,
+        statusMessage,
+        notificationEmails.bookingStatusUpdate({
+          customerName: updatedAppointment.requester.username,
+          serviceName,
+          status: statusMessage,
+          bookingId: updatedAppointment.id,
+        }),
+        validatedData.status === "CONFIRMED"
+          ? smsMessages.bookingConfirmed({
+              serviceName,
+              providerName:
+                updatedAppointment.provider.shop?.name || updatedAppointment.provider.username,
+              date: formatDate(updatedAppointment.date),
+              time: updatedAppointment.time,
+              bookingId: updatedAppointment.id,
+            })
+          : undefined
+      ).catch((err) => console.error("Failed to notify customer of status update:", err));
     }
 
     return NextResponse.json({
       success: true,
-      message: "Appointment updated successfully",
+      message:
+        cancellationFee > 0
+          ? `Appointment updated. A fee of R${cancellationFee.toFixed(2)} was charged under the cancellation policy.`
+          : "Appointment updated successfully",
+      cancellationFee,
       appointment: {
         ...updatedAppointment,
         service: updatedAppointment.service
@@ -297,6 +453,7 @@ export async function DELETE(
         requesterId: true,
         providerId: true,
         status: true,
+        date: true,
       },
     });
 
@@ -327,14 +484,12 @@ export async function DELETE(
     }
 
     // Soft delete - mark as cancelled
-    await prisma.appointment.update({
-      where: { id },
-      data: { status: "CANCELLED" },
-    });
+    const { cancellationFee } = await cancelAppointment(appointment, session.user.id);
 
     return NextResponse.json({
       success: true,
       message: "Appointment cancelled successfully",
+      cancellationFee,
     });
   } catch (error) {
     console.error("Error cancelling appointment:", error);
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { z } from "zod";
+import { WhatsAppError } from "@/lib/whatsapp";
+import {
+  BOOKING_WHATSAPP_KINDS,
+  getBookingWhatsAppStatus,
+  sendBookingWhatsApp,
+} from "@/lib/whatsapp/bookings";
+
+const sendSchema = z.object({
+  kind: z.enum(BOOKING_WHATSAPP_KINDS),
+});
+
+// GET /api/appointments/[id]/whatsapp - Messages the provider can send and when they were last sent
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const status = await getBookingWhatsAppStatus(id);
+
+    if (!status) {
+      return NextResponse.json(
+        { error: "Appointment not found" },
+        { status: 404 }
+      );
+    }
+
+    if (status.providerId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the provider can send WhatsApp messages for a booking" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      enabled: status.enabled,
+      hasCustomerPhone: status.hasCustomerPhone,
+      messages: status.messages,
+    });
+  } catch (error) {
+    console.error("Error fetching booking WhatsApp messages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch WhatsApp messages" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/appointments/[id]/whatsapp - Send the customer a confirmation or reminder on WhatsApp
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const status = await getBookingWhatsAppStatus(id);
+
+    if (!status) {
+      return NextResponse.json(
+        { error: "Appointment not found" },
+        { status: 404 }
+      );
+    }
+
+    if (status.providerId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the provider can send WhatsApp messages for a booking" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { kind } = sendSchema.parse(body);
+
+    const { message, link } = await sendBookingWhatsApp(id, kind);
+
+    return NextResponse.json({
+      link,
+      message: {
+        kind: message.kind,
+        sentAt: message.sentAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error sending booking WhatsApp message:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof WhatsAppError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to send WhatsApp message" },
+      { status: 500 }
+    );
+  }
+}
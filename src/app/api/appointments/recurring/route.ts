@@ -4,6 +4,12 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { RecurringPattern } from "@prisma/client";
+import { checkSlotAvailable, getBufferMinutes } from "@/lib/bookings/availability";
+import { reserveSlot, SlotTakenError } from "@/lib/bookings/holds";
+import { toDateKey } from "@/lib/bookings/slots";
+import { syncAppointmentReminders } from "@/lib/bookings/reminders";
+import { dispatchNotification } from "@/lib/notifications";
+import { hasBlocked } from "@/lib/safety/blocks";
 
 const createRecurringSchema = z.object({
   serviceId: z.string(),
@@ -227,6 +233,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (await hasBlocked(data.providerId, session.user.id)) {
+      return NextResponse.json(
+        { error: "You can't book this provider" },
+        { status: 403 }
+      );
+    }
+
+    // Generate the first batch of appointments (next 4 weeks or up to occurrences)
+    const appointmentDates = generateAppointmentDates(
+      data.pattern,
+      data.frequency,
+      data.startDate,
+      data.endDate || null,
+      Math.min(data.occurrences || 4, 4), // Create max 4 appointments initially
+      data.dayOfWeek || null,
+      data.dayOfMonth || null
+    );
+
+    // Skip occurrences that clash with the provider's schedule or other bookings
+    const availableDates: Date[] = [];
+    const skippedDates: string[] = [];
+
+    for (const date of appointmentDates) {
+      const dateKey = toDateKey(date);
+      const isAvailable = await checkSlotAvailable(
+        data.providerId,
+        data.serviceId,
+        dateKey,
+        data.time
+      );
+
+      if (isAvailable) {
+        availableDates.push(date);
+      } else {
+        skippedDates.push(dateKey);
+      }
+    }
+
+    if (availableDates.length === 0) {
+      return NextResponse.json(
+        { error: "None of the requested dates are available at this time", skippedDates },
+        { status: 409 }
+      );
+    }
+
     // Create the recurring appointment
     const recurring = await prisma.recurringAppointment.create({
       data: {
@@ -244,46 +295,56 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Generate the first batch of appointments (next 4 weeks or up to occurrences)
-    const appointmentDates = generateAppointmentDates(
-      data.pattern,
-      data.frequency,
-      data.startDate,
-      data.endDate || null,
-      Math.min(data.occurrences || 4, 4), // Create max 4 appointments initially
-      data.dayOfWeek || null,
-      data.dayOfMonth || null
-    );
+    const bufferMinutes = await getBufferMinutes(data.providerId, data.serviceId);
+    const appointments = [];
+
+    // Each occurrence claims its own time; one taken in the meantime is skipped
+    for (const date of availableDates) {
+      try {
+        const appointment = await prisma.$transaction(async (tx) => {
+          const created = await tx.appointment.create({
+            data: {
+              requesterId: session.user.id,
+              providerId: data.providerId,
+              serviceId: data.serviceId,
+              date,
+              time: data.time,
+              duration: service.duration,
+              address: data.address,
+              note: data.note,
+              status: "PENDING",
+              recurringAppointmentId: recurring.id,
+            },
+          });
 
-    const appointments = await Promise.all(
-      appointmentDates.map((date) =>
-        prisma.appointment.create({
-          data: {
-            requesterId: session.user.id,
+          await reserveSlot(tx, {
+            appointmentId: created.id,
             providerId: data.providerId,
-            serviceId: data.serviceId,
             date,
             time: data.time,
-            address: data.address,
-            note: data.note,
-            status: "PENDING",
-            recurringAppointmentId: recurring.id,
-          },
-        })
-      )
-    );
+            duration: service.duration,
+            bufferMinutes,
+          });
+
+          return created;
+        });
+
+        appointments.push(appointment);
+      } catch (error) {
+        if (!(error instanceof SlotTakenError)) throw error;
+        skippedDates.push(toDateKey(date));
+      }
+    }
 
     // Notify the provider
-    await prisma.notification.create({
-      data: {
-        userId: data.providerId,
-        type: "BOOKING_NEW",
-        title: "New Recurring Booking",
-        message: `You have a new ${data.pattern.toLowerCase()} recurring booking for ${service.name}`,
-        metadata: {
-          recurringId: recurring.id,
-          appointmentCount: appointments.length,
-        },
+    await dispatchNotification({
+      userId: data.providerId,
+      type: "BOOKING_NEW",
+      title: "New Recurring Booking",
+      message: `You have a new ${data.pattern.toLowerCase()} recurring booking for ${service.name}`,
+      metadata: {
+        recurringId: recurring.id,
+        appointmentCount: appointments.length,
       },
     });
 
@@ -291,6 +352,7 @@ export async function POST(request: NextRequest) {
       success: true,
       recurringId: recurring.id,
       appointmentsCreated: appointments.length,
+      skippedDates,
       appointments: appointments.map((a) => ({
         id: a.id,
         date: a.date,
@@ -378,17 +440,34 @@ export async function PATCH(request: NextRequest) {
 
     if (action === "cancel") {
       // Cancel all future appointments
-      await prisma.appointment.updateMany({
+      const upcoming = await prisma.appointment.findMany({
         where: {
           recurringAppointmentId: id,
           date: { gte: new Date() },
           status: { in: ["PENDING", "CONFIRMED"] },
         },
+        select: { id: true },
+      });
+
+      await prisma.appointment.updateMany({
+        where: {
+          id: { in: upcoming.map((a) => a.id) },
+        },
         data: {
           status: "CANCELLED",
         },
       });
 
+      await prisma.slotReservation.deleteMany({
+        where: { appointment: { recurringAppointmentId: id, status: "CANCELLED" } },
+      });
+
+      for (const appointment of upcoming) {
+        await syncAppointmentReminders(appointment.id).catch((err) =>
+          console.error("Failed to cancel appointment reminders:", err)
+        );
+      }
+
       // Deactivate the recurring appointment
       await prisma.recurringAppointment.update({
         where: { id },
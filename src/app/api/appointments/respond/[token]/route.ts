@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { cancelAppointment } from "@/lib/bookings/cancellation";
+import { toDateKey } from "@/lib/bookings/slots";
+import { readAppointmentActionToken } from "@/lib/bookings/reminders";
+import { notifyBookingCancelled, notifySystem } from "@/lib/notifications";
+import {
+  calculateCancellationFee,
+  describeCancellationPolicy,
+  getAppointmentStart,
+  getCancellationFeeBase,
+  resolveCancellationPolicy,
+} from "@/lib/payments/cancellation";
+
+const respondSchema = z.object({
+  action: z.enum(["confirm", "cancel"]),
+});
+
+// The signed token in a reminder link stands in for a login
+async function findAppointment(token: string) {
+  const parsed = readAppointmentActionToken(token);
+  if (!parsed) return null;
+
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: parsed.appointmentId },
+    include: {
+      service: {
+        select: {
+          name: true,
+          price: true,
+          freeCancellationHours: true,
+          lateCancelFeePercent: true,
+          noShowFeePercent: true,
+        },
+      },
+      requester: { select: { id: true, username: true } },
+      escrow: { select: { amount: true, status: true } },
+      provider: {
+        select: {
+          id: true,
+          username: true,
+          shop: {
+            select: {
+              name: true,
+              address: true,
+              tax: true,
+              freeCancellationHours: true,
+              lateCancelFeePercent: true,
+              noShowFeePercent: true,
+              chargeUnpaidBookings: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  // Only the customer's reminders carry a confirm/cancel link
+  if (!appointment || appointment.requesterId !== parsed.userId) return null;
+
+  return appointment;
+}
+
+// GET /api/appointments/respond/[token] - Booking details for a reminder's confirm/cancel page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const appointment = await findAppointment(token);
+
+    if (!appointment) {
+      return NextResponse.json({ error: "This link is not valid" }, { status: 404 });
+    }
+
+    const start = getAppointmentStart(appointment.date, appointment.time);
+    const policy = resolveCancellationPolicy(appointment.service, appointment.provider.shop);
+    // The fee comes out of the held payment, booking fee and tax included
+    const held = appointment.escrow && ["HELD", "DISPUTED"].includes(appointment.escrow.status);
+    const amount = getCancellationFeeBase(
+      held ? Number(appointment.escrow.amount) : null,
+      Number(appointment.service?.price || 0),
+      parseFloat(appointment.provider.shop?.tax || "0")
+    );
+    const cancellation = calculateCancellationFee(policy, amount, "CANCELLED", start);
+
+    return NextResponse.json({
+      appointment: {
+        id: appointment.id,
+        date: appointment.date,
+        time: appointment.time,
+        duration: appointment.duration,
+        status: appointment.status,
+        hasStarted: start <= new Date(),
+        attendanceConfirmedAt: appointment.attendanceConfirmedAt,
+        serviceName: appointment.service?.name || "Booking",
+        providerName: appointment.provider.shop?.name || appointment.provider.username,
+        address: appointment.provider.shop?.address || appointment.address,
+        cancellationPolicy: describeCancellationPolicy(policy),
+        cancellationFee:
+          appointment.status === "CONFIRMED" && (held || appointment.provider.shop?.chargeUnpaidBookings)
+            ? cancellation.fee
+            : 0,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching booking from reminder:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/appointments/respond/[token] - Confirm attendance or cancel from a reminder
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const appointment = await findAppointment(token);
+
+    if (!appointment) {
+      return NextResponse.json({ error: "This link is not valid" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { action } = respondSchema.parse(body);
+
+    const start = getAppointmentStart(appointment.date, appointment.time);
+    const serviceName = appointment.service?.name || "your booking";
+
+    if (start <= new Date()) {
+      return NextResponse.json(
+        { error: "This appointment has already started" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "confirm") {
+      if (appointment.status !== "CONFIRMED") {
+        return NextResponse.json(
+          { error: "Only confirmed bookings can be confirmed from a reminder" },
+          { status: 400 }
+        );
+      }
+
+      if (!appointment.attendanceConfirmedAt) {
+        await prisma.appointment.update({
+          where: { id: appointment.id },
+          data: { attendanceConfirmedAt: new Date() },
+        });
+
+        await notifySystem(
+          appointment.providerId,
+          "Customer Confirmed",
+          `${appointment.requester.username} confirmed they're coming to ${serviceName} on ${toDateKey(appointment.date)} at ${appointment.time}`,
+          `/dashboard/bookings/${appointment.id}`
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: "Thanks! We've let the provider know you're coming.",
+      });
+    }
+
+    if (!["PENDING", "CONFIRMED"].includes(appointment.status)) {
+      return NextResponse.json(
+        { error: "Cannot cancel this appointment" },
+        { status: 400 }
+      );
+    }
+
+    const { cancellationFee } = await cancelAppointment(appointment, appointment.requesterId);
+
+    await notifyBookingCancelled(
+      appointment.providerId,
+      serviceName,
+      appointment.id,
+      appointment.requester.username
+    );
+
+    return NextResponse.json({
+      success: true,
+      message:
+        cancellationFee > 0
+          ? `Booking cancelled. A fee of R${cancellationFee.toFixed(2)} was charged under the cancellation policy.`
+          : "Booking cancelled",
+      cancellationFee,
+    });
+  } catch (error) {
+    console.error("Error responding to reminder:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update booking" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,17 +3,36 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
-import { sendBookingConfirmation, sendNewBookingNotification } from "@/lib/email";
+import {
+  checkSlotAvailable,
+  findAlternativeSlots,
+  getBufferMinutes,
+} from "@/lib/bookings/availability";
+import { getHoldExpiry, reserveSlot, SlotTakenError } from "@/lib/bookings/holds";
+import { toDateKey } from "@/lib/bookings/slots";
+import { notificationEmails } from "@/lib/email";
+import { notifyBookingRequested, notifyNewBooking } from "@/lib/notifications";
+import { hasBlocked } from "@/lib/safety/blocks";
 
 const appointmentSchema = z.object({
   serviceId: z.string().min(1, "Service is required"),
   providerId: z.string().min(1, "Provider is required"),
   date: z.string().min(1, "Date is required"),
-  time: z.string().min(1, "Time is required"),
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
   notes: z.string().optional(),
   address: z.string().optional(),
 });
 
+// Answer a booking for a taken slot with the next free times instead
+async function slotTakenResponse(providerId: string, serviceId: string, date: string) {
+  const alternatives = await findAlternativeSlots(providerId, serviceId, date);
+
+  return NextResponse.json(
+    { error: "This time slot is no longer available", alternatives },
+    { status: 409 }
+  );
+}
+
 // GET /api/appointments - Get appointments
 export async function GET(request: NextRequest) {
   try {
@@ -144,7 +163,7 @@ export async function POST(request: NextRequest) {
     // Verify service exists and belongs to provider
     const service = await prisma.service.findUnique({
       where: { id: validatedData.serviceId },
-      select: { id: true, providerId: true, name: true },
+      select: { id: true, providerId: true, name: true, price: true, duration: true },
     });
 
     if (!service) {
@@ -166,65 +185,95 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check for conflicting appointments
-    const existingAppointment = await prisma.appointment.findFirst({
-      where: {
-        providerId: validatedData.providerId,
-        date: new Date(validatedData.date),
-        time: validatedData.time,
-        status: { in: ["PENDING", "CONFIRMED"] },
-      },
-    });
-
-    if (existingAppointment) {
+    if (await hasBlocked(validatedData.providerId, session.user.id)) {
       return NextResponse.json(
-        { error: "This time slot is already booked" },
-        { status: 400 }
+        { error: "You can't book this provider" },
+        { status: 403 }
       );
     }
 
-    // Create appointment
-    const appointment = await prisma.appointment.create({
-      data: {
-        requesterId: session.user.id,
-        providerId: validatedData.providerId,
-        serviceId: validatedData.serviceId,
-        date: new Date(validatedData.date),
-        time: validatedData.time,
-        note: validatedData.notes,
-        address: validatedData.address,
-        status: "PENDING",
-      },
-      include: {
-        service: {
-          select: {
-            id: true,
-            name: true,
-            price: true,
-          },
-        },
-        requester: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
+    // Check the slot against working hours, blocked times and other bookings
+    const dateKey = toDateKey(validatedData.date);
+    const isAvailable = await checkSlotAvailable(
+      validatedData.providerId,
+      validatedData.serviceId,
+      dateKey,
+      validatedData.time
+    );
+
+    if (!isAvailable) {
+      return slotTakenResponse(validatedData.providerId, validatedData.serviceId, dateKey);
+    }
+
+    const bufferMinutes = await getBufferMinutes(validatedData.providerId, validatedData.serviceId);
+
+    // Create the appointment and claim its time together; the unique key on
+    // slot reservations rejects whichever of two simultaneous bookings is second
+    let appointment;
+    try {
+      appointment = await prisma.$transaction(async (tx) => {
+        const created = await tx.appointment.create({
+          data: {
+            requesterId: session.user.id,
+            providerId: validatedData.providerId,
+            serviceId: validatedData.serviceId,
+            date: new Date(validatedData.date),
+            time: validatedData.time,
+            duration: service.duration,
+            note: validatedData.notes,
+            address: validatedData.address,
+            status: "PENDING",
+            // Paid services keep the slot only while the customer checks out
+            holdExpiresAt: Number(service.price) > 0 ? getHoldExpiry() : null,
           },
-        },
-        provider: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-            shop: {
+          include: {
+            service: {
               select: {
+                id: true,
                 name: true,
-                address: true,
+                price: true,
+              },
+            },
+            requester: {
+              select: {
+                id: true,
+                username: true,
+                email: true,
+              },
+            },
+            provider: {
+              select: {
+                id: true,
+                username: true,
+                email: true,
+                shop: {
+                  select: {
+                    name: true,
+                    address: true,
+                  },
+                },
               },
             },
           },
-        },
-      },
-    });
+        });
+
+        await reserveSlot(tx, {
+          appointmentId: created.id,
+          providerId: validatedData.providerId,
+          date: dateKey,
+          time: validatedData.time,
+          duration: service.duration,
+          bufferMinutes,
+        });
+
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof SlotTakenError) {
+        return slotTakenResponse(validatedData.providerId, validatedData.serviceId, dateKey);
+      }
+      throw error;
+    }
 
     // Format date for emails
     const formattedDate = new Date(validatedData.date).toLocaleDateString("en-ZA", {
@@ -234,30 +283,44 @@ export async function POST(request: NextRequest) {
       day: "numeric",
     });
 
-    // Send confirmation email to customer
-    if (appointment.requester?.email) {
-      sendBookingConfirmation(appointment.requester.email, {
-        customerName: appointment.requester.username,
-        serviceName: appointment.service?.name || "Service",
-        providerName: appointment.provider?.shop?.name || appointment.provider?.username || "Provider",
+    const serviceName = appointment.service?.name || "Service";
+    const providerName = appointment.provider?.shop?.name || appointment.provider?.username || "Provider";
+    const customerName = appointment.requester?.username || "Customer";
+
+    // Let the customer know the booking went through
+    notifyBookingRequested(
+      session.user.id,
+      providerName,
+      serviceName,
+      appointment.id,
+      formattedDate,
+      notificationEmails.bookingConfirmation({
+        customerName,
+        serviceName,
+        providerName,
         date: formattedDate,
         time: validatedData.time,
         address: appointment.provider?.shop?.address || validatedData.address,
         bookingId: appointment.id,
-      }).catch((err) => console.error("Failed to send customer email:", err));
-    }
+      })
+    ).catch((err) => console.error("Failed to notify customer:", err));
 
-    // Send notification email to provider
-    if (appointment.provider?.email) {
-      sendNewBookingNotification(appointment.provider.email, {
-        providerName: appointment.provider.username,
-        customerName: appointment.requester?.username || "Customer",
-        serviceName: appointment.service?.name || "Service",
+    // Let the provider know about the new booking
+    notifyNewBooking(
+      validatedData.providerId,
+      customerName,
+      serviceName,
+      appointment.id,
+      formattedDate,
+      notificationEmails.newBooking({
+        providerName: appointment.provider?.username || "Provider",
+        customerName,
+        serviceName,
         date: formattedDate,
         time: validatedData.time,
         bookingId: appointment.id,
-      }).catch((err) => console.error("Failed to send provider email:", err));
-    }
+      })
+    ).catch((err) => console.error("Failed to notify provider:", err));
 
     return NextResponse.json(
       {
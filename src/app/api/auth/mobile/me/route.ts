@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import jwt from "jsonwebtoken";
 import { prisma } from "@/lib/prisma";
+import { isSamePhoneNumber } from "@/lib/sms/phone";
 
 const JWT_SECRET = process.env.NEXTAUTH_SECRET || "your-secret-key";
 
@@ -111,12 +112,23 @@ export async function PUT(request: NextRequest) {
     const body = await request.json();
     const { name, phone, bio, location, picture } = body;
 
+    // A different number has to be verified again before we text it
+    let phoneChanged = false;
+    if (phone !== undefined) {
+      const current = await prisma.user.findUnique({
+        where: { id: decoded.id },
+        select: { phone: true },
+      });
+      phoneChanged = !isSamePhoneNumber(phone, current?.phone);
+    }
+
     // Update user
     const user = await prisma.user.update({
       where: { id: decoded.id },
       data: {
         ...(name !== undefined && { name }),
         ...(phone !== undefined && { phone }),
+        ...(phoneChanged && { phoneVerifiedAt: null }),
         ...(bio !== undefined && { bio }),
         ...(location !== undefined && { location }),
         ...(picture !== undefined && { picture }),
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { toDateKey } from "@/lib/bookings/slots";
+import { queueFreedSlotOffers } from "@/lib/bookings/waitlist";
 
 const blockedTimeSchema = z.object({
   date: z.string().min(1, "Date is required"),
@@ -154,13 +156,22 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    await prisma.blockedTime.deleteMany({
+    const blockedTime = await prisma.blockedTime.findFirst({
       where: {
         id,
         providerId: session.user.id,
       },
     });
 
+    if (blockedTime) {
+      await prisma.blockedTime.delete({ where: { id: blockedTime.id } });
+
+      // Customers waiting for this day get first refusal on the reopened time
+      await queueFreedSlotOffers(session.user.id, toDateKey(blockedTime.date)).catch((err) =>
+        console.error("Failed to queue waitlist offers:", err)
+      );
+    }
+
     return NextResponse.json({
       success: true,
       message: "Blocked time removed",
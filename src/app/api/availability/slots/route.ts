@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAvailableSlots, MAX_SLOT_RANGE_DAYS } from "@/lib/bookings/availability";
+import { toDateKey } from "@/lib/bookings/slots";
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+const slotsQuerySchema = z.object({
+  providerId: z.string().min(1, "Provider ID is required"),
+  serviceId: z.string().optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+});
+
+// GET /api/availability/slots - Get bookable time slots for a provider's service
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = slotsQuerySchema.parse({
+      providerId: searchParams.get("providerId") || undefined,
+      serviceId: searchParams.get("serviceId") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+
+    const from = query.from || toDateKey(new Date());
+    const to = query.to || from;
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000);
+
+    if (days < 0) {
+      return NextResponse.json(
+        { error: "The end date must be on or after the start date" },
+        { status: 400 }
+      );
+    }
+
+    if (days >= MAX_SLOT_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Slots can be requested for at most ${MAX_SLOT_RANGE_DAYS} days at a time` },
+        { status: 400 }
+      );
+    }
+
+    const slots = await getAvailableSlots(query.providerId, query.serviceId || null, from, to);
+
+    return NextResponse.json({ from, to, days: slots });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error fetching available slots:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch available slots" },
+      { status: 500 }
+    );
+  }
+}
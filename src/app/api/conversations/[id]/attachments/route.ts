@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { getConversationForUser } from "@/lib/messaging/conversations";
+
+// GET /api/conversations/[id]/attachments - Get every file shared in a conversation, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversation = await getConversationForUser(id, session.user.id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const attachments = await prisma.messageAttachment.findMany({
+      where: { conversationId: id },
+      include: {
+        message: {
+          select: {
+            senderId: true,
+            sender: {
+              select: {
+                username: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    console.error("Error fetching attachments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch attachments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getConversationForUser, markConversationRead } from "@/lib/messaging/conversations";
+
+// POST /api/conversations/[id]/read - Mark the conversation as read while it is open
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversation = await getConversationForUser(id, session.user.id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const { read } = await markConversationRead(conversation.id, session.user.id);
+
+    return NextResponse.json({ success: true, read });
+  } catch (error) {
+    console.error("Error marking conversation as read:", error);
+    return NextResponse.json(
+      { error: "Failed to mark conversation as read" },
+      { status: 500 }
+    );
+  }
+}
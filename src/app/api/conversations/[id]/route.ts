@@ -2,75 +2,95 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { z } from "zod";
+import {
+  getConversationForUser,
+  markConversationRead,
+  updateConversationSettings,
+} from "@/lib/messaging/conversations";
+import { describeConversationContext } from "@/lib/messaging/context";
 
-// GET /api/conversations/[id] - Get all messages with a specific user
+const settingsSchema = z.object({
+  archived: z.boolean().optional(),
+  muted: z.boolean().optional(),
+});
+
+// GET /api/conversations/[id] - Get a conversation and its messages
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions);
-    const { id: partnerId } = await params;
+    const { id } = await params;
 
     if (!session?.user?.id) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const userId = session.user.id;
+    const conversation = await getConversationForUser(id, userId);
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
 
-    // Get partner info
-    const partner = await prisma.user.findUnique({
-      where: { id: partnerId },
-      select: {
-        id: true,
-        username: true,
-        picture: true,
-        email: true,
-        shop: {
-          select: {
-            id: true,
-            name: true,
+    const own = conversation.participants.find((p) => p.userId === userId)!;
+    const other = conversation.participants.find((p) => p.userId !== userId);
+
+    const [partner, job, messages] = await Promise.all([
+      other
+        ? prisma.user.findUnique({
+            where: { id: other.userId },
+            select: {
+              id: true,
+              username: true,
+              picture: true,
+              email: true,
+              shop: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+          })
+        : null,
+      conversation.jobId
+        ? prisma.job.findUnique({ where: { id: conversation.jobId }, select: { posterId: true } })
+        : null,
+      prisma.message.findMany({
+        where: { conversationId: id },
+        include: {
+          sender: {
+            select: {
+              id: true,
+              username: true,
+              picture: true,
+            },
           },
+          attachments: true,
         },
-      },
-    });
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
 
     if (!partner) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    // Get all messages between these two users
-    const messages = await prisma.message.findMany({
-      where: {
-        OR: [
-          { senderId: userId, receiverId: partnerId },
-          { senderId: partnerId, receiverId: userId },
-        ],
-      },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            picture: true,
-          },
-        },
-      },
-      orderBy: { createdAt: "asc" },
-    });
-
-    // Mark all unread messages from partner as read
-    await prisma.message.updateMany({
-      where: {
-        senderId: partnerId,
-        receiverId: userId,
-        status: "UNREAD",
-      },
-      data: { status: "READ" },
-    });
+    await markConversationRead(id, userId);
 
     return NextResponse.json({
+      conversation: {
+        id: conversation.id,
+        subject: conversation.subject,
+        context: describeConversationContext(conversation, { isJobPoster: job?.posterId === userId }),
+        isArchived: !!own.archivedAt,
+        isMuted: !!own.mutedAt,
+      },
       partner,
+      partnerLastReadAt: other?.lastReadAt ?? null,
       messages,
     });
   } catch (error) {
@@ -81,3 +101,49 @@ export async function GET(
     );
   }
 }
+
+// PATCH /api/conversations/[id] - Archive or mute a conversation
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversation = await getConversationForUser(id, session.user.id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const settings = settingsSchema.parse(body);
+
+    const participant = await updateConversationSettings(id, session.user.id, settings);
+
+    return NextResponse.json({
+      success: true,
+      isArchived: !!participant.archivedAt,
+      isMuted: !!participant.mutedAt,
+    });
+  } catch (error) {
+    console.error("Error updating conversation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update conversation" },
+      { status: 500 }
+    );
+  }
+}
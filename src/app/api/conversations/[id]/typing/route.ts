@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getConversationForUser } from "@/lib/messaging/conversations";
+import { publishRealtime } from "@/lib/realtime/bus";
+
+// POST /api/conversations/[id]/typing - Show the other user a typing indicator
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversation = await getConversationForUser(id, session.user.id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const others = conversation.participants
+      .map((p) => p.userId)
+      .filter((userId) => userId !== session.user.id);
+
+    await publishRealtime(others, {
+      type: "typing",
+      conversationId: conversation.id,
+      userId: session.user.id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error sending typing indicator:", error);
+    return NextResponse.json(
+      { error: "Failed to send typing indicator" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,29 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { z } from "zod";
+import { getOrCreateConversation } from "@/lib/messaging/conversations";
+import { isBlockedEitherWay } from "@/lib/safety/blocks";
+import {
+  ConversationError,
+  describeConversationContext,
+  resolveConversationContext,
+} from "@/lib/messaging/context";
 
-// GET /api/conversations - Get all conversations (grouped by user)
+const startConversationSchema = z
+  .object({
+    participantId: z.string().min(1).optional(),
+    appointmentId: z.string().min(1).optional(),
+    orderId: z.string().min(1).optional(),
+    jobId: z.string().min(1).optional(),
+    jobApplicationId: z.string().min(1).optional(),
+  })
+  .refine(
+    (data) => [data.appointmentId, data.orderId, data.jobId, data.jobApplicationId].filter(Boolean).length <= 1,
+    "A conversation can only be about one thing"
+  );
+
+// GET /api/conversations - Get the user's conversations, most recent first
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -13,73 +34,65 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const archived = searchParams.get("archived") === "true";
 
-    // Get all unique conversation partners
-    const messages = await prisma.message.findMany({
+    const participations = await prisma.conversationParticipant.findMany({
       where: {
-        OR: [
-          { senderId: userId },
-          { receiverId: userId },
-        ],
+        userId,
+        archivedAt: archived ? { not: null } : null,
+        conversation: { lastMessageAt: { not: null } },
       },
       include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            picture: true,
-          },
-        },
-        receiver: {
-          select: {
-            id: true,
-            username: true,
-            picture: true,
+        conversation: {
+          include: {
+            participants: {
+              where: { userId: { not: userId } },
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    username: true,
+                    picture: true,
+                  },
+                },
+              },
+            },
+            job: { select: { posterId: true } },
           },
         },
       },
-      orderBy: { createdAt: "desc" },
+      orderBy: { conversation: { lastMessageAt: "desc" } },
     });
 
-    // Group messages by conversation partner
-    const conversationsMap = new Map<string, {
-      partnerId: string;
-      partner: { id: string; username: string; picture: string | null };
-      lastMessage: typeof messages[0];
-      unreadCount: number;
-      messageCount: number;
-    }>();
-
-    for (const message of messages) {
-      const partnerId = message.senderId === userId ? message.receiverId : message.senderId;
-      const partner = message.senderId === userId ? message.receiver : message.sender;
-
-      if (!conversationsMap.has(partnerId)) {
-        conversationsMap.set(partnerId, {
-          partnerId,
-          partner,
-          lastMessage: message,
-          unreadCount: 0,
-          messageCount: 0,
-        });
-      }
-
-      const conv = conversationsMap.get(partnerId)!;
-      conv.messageCount++;
-
-      // Count unread messages (only those received by current user)
-      if (message.receiverId === userId && message.status === "UNREAD") {
-        conv.unreadCount++;
-      }
-    }
+    const conversations = participations.flatMap(({ conversation, unreadCount, archivedAt, mutedAt }) => {
+      const other = conversation.participants[0];
+      if (!other) return [];
 
-    // Convert to array and sort by last message date
-    const conversations = Array.from(conversationsMap.values()).sort(
-      (a, b) => new Date(b.lastMessage.createdAt).getTime() - new Date(a.lastMessage.createdAt).getTime()
-    );
+      return [
+        {
+          id: conversation.id,
+          subject: conversation.subject,
+          context: describeConversationContext(conversation, {
+            isJobPoster: conversation.job?.posterId === userId,
+          }),
+          partnerId: other.userId,
+          partner: other.user,
+          partnerLastReadAt: other.lastReadAt,
+          lastMessage: {
+            content: conversation.lastMessagePreview,
+            createdAt: conversation.lastMessageAt,
+            senderId: conversation.lastMessageSenderId,
+          },
+          unreadCount,
+          isArchived: !!archivedAt,
+          isMuted: !!mutedAt,
+        },
+      ];
+    });
 
-    // Get total unread count
-    const totalUnread = conversations.reduce((sum, c) => sum + c.unreadCount, 0);
+    // Muted conversations don't count towards the badge
+    const totalUnread = conversations.reduce((sum, c) => sum + (c.isMuted ? 0 : c.unreadCount), 0);
 
     return NextResponse.json({
       conversations,
@@ -93,3 +106,67 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// POST /api/conversations - Open the conversation with a user, optionally about a booking, order or job
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { participantId, ...context } = startConversationSchema.parse(body);
+
+    const resolved = await resolveConversationContext(session.user.id, participantId, context);
+
+    if (resolved.otherUserId === session.user.id) {
+      return NextResponse.json(
+        { error: "You cannot send a message to yourself" },
+        { status: 400 }
+      );
+    }
+
+    const otherUser = await prisma.user.findUnique({
+      where: { id: resolved.otherUserId },
+      select: { id: true },
+    });
+
+    if (!otherUser) {
+      return NextResponse.json({ error: "Recipient not found" }, { status: 404 });
+    }
+
+    if (await isBlockedEitherWay(session.user.id, otherUser.id)) {
+      return NextResponse.json({ error: "You can't message this user" }, { status: 403 });
+    }
+
+    const { otherUserId, ...conversationContext } = resolved;
+    const conversation = await getOrCreateConversation(session.user.id, otherUserId, conversationContext);
+
+    return NextResponse.json({
+      conversation: {
+        id: conversation.id,
+        subject: conversation.subject,
+      },
+    });
+  } catch (error) {
+    console.error("Error starting conversation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to start conversation" },
+      { status: 500 }
+    );
+  }
+}
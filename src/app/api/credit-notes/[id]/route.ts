@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { RefundItem } from "@/lib/payments/refunds";
+
+// GET /api/credit-notes/[id] - Generate credit note PDF for a refund
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const refund = await prisma.refund.findUnique({
+      where: { id },
+      include: {
+        payment: {
+          include: {
+            user: {
+              select: {
+                username: true,
+                email: true,
+                phone: true,
+              },
+            },
+            order: {
+              include: {
+                items: {
+                  include: {
+                    product: {
+                      select: { name: true },
+                    },
+                  },
+                },
+              },
+            },
+            appointment: {
+              include: {
+                service: {
+                  select: { name: true },
+                },
+                provider: {
+                  select: {
+                    username: true,
+                    email: true,
+                    phone: true,
+                    shop: {
+                      select: {
+                        name: true,
+                        address: true,
+                        contact: true,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!refund) {
+      return NextResponse.json({ error: "Credit note not found" }, { status: 404 });
+    }
+
+    const payment = refund.payment;
+    const appointment = payment.appointment;
+
+    // Customer, booking provider or admin
+    if (payment.userId !== session.user.id && appointment?.providerId !== session.user.id) {
+      const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { userType: true },
+      });
+
+      if (user?.userType !== "ADMIN") {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
+    }
+
+    const amount = Number(refund.amount);
+    let lines: { description: string; quantity: number }[];
+
+    if (payment.order) {
+      const refundItems = (refund.items as unknown as RefundItem[] | null) || [];
+      lines = refundItems.map((item) => {
+        const orderItem = payment.order.items.find((i) => i.id === item.orderItemId);
+        return {
+          description: orderItem?.product?.name || "Product",
+          quantity: item.quantity,
+        };
+      });
+
+      if (lines.length === 0) {
+        lines = [
+          {
+            description: `Order #${payment.order.id.substring(0, 8).toUpperCase()}`,
+            quantity: 1,
+          },
+        ];
+      }
+    } else {
+      lines = [
+        {
+          description: appointment?.service?.name || payment.description || "Payment",
+          quantity: 1,
+        },
+      ];
+    }
+
+    const issuer = appointment
+      ? {
+          name: appointment.provider.shop?.name || appointment.provider.username,
+          address: appointment.provider.shop?.address || "",
+          contact: appointment.provider.shop?.contact || appointment.provider.phone || "",
+          email: appointment.provider.email,
+        }
+      : {
+          name: "Mzansi Market",
+          address: "123 Main Street, Sandton, Johannesburg",
+          contact: "+27 11 123 4567",
+          email: "orders@mzansimarket.co.za",
+        };
+
+    const reference = payment.order
+      ? `INV-ORD-${payment.order.id.substring(0, 8).toUpperCase()}`
+      : appointment
+        ? `INV-APT-${appointment.id.substring(0, 8).toUpperCase()}`
+        : payment.id.substring(0, 8).toUpperCase();
+
+    // Generate PDF
+    const doc = new jsPDF();
+
+    // Header
+    doc.setFontSize(24);
+    doc.setTextColor(37, 99, 235); // Primary blue
+    doc.text("CREDIT NOTE", 20, 30);
+
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`Credit Note #: ${refund.creditNoteNumber}`, 20, 40);
+    doc.text(`Date: ${new Date(refund.createdAt).toLocaleDateString("en-ZA")}`, 20, 46);
+    doc.text(`Original Invoice: ${reference}`, 20, 52);
+
+    // Issuer info (right side)
+    doc.setFontSize(12);
+    doc.setTextColor(0);
+    doc.text(issuer.name, 200, 30, { align: "right" });
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(issuer.address, 200, 36, { align: "right" });
+    doc.text(issuer.contact, 200, 42, { align: "right" });
+    doc.text(issuer.email, 200, 48, { align: "right" });
+
+    // Customer info
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text("CREDIT TO:", 20, 70);
+    doc.setFontSize(11);
+    doc.setTextColor(0);
+    doc.text(payment.user.username, 20, 78);
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(payment.user.email, 20, 84);
+    if (payment.user.phone) {
+      doc.text(payment.user.phone, 20, 90);
+    }
+
+    // Refund details
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text("REFUND:", 120, 70);
+    doc.setFontSize(9);
+    doc.setTextColor(0);
+    doc.text(
+      `Method: ${refund.method === "WALLET" ? "Wallet credit" : `Original payment (${payment.provider})`}`,
+      120,
+      78
+    );
+    doc.text(`Status: ${refund.status}`, 120, 84);
+    if (refund.reason) {
+      doc.text(`Reason: ${refund.reason}`, 120, 90, { maxWidth: 80 });
+    }
+
+    // Items table
+    autoTable(doc, {
+      startY: 105,
+      head: [["Description", "Qty"]],
+      body: lines.map((line) => [line.description, line.quantity.toString()]),
+      theme: "striped",
+      headStyles: {
+        fillColor: [37, 99, 235],
+        textColor: 255,
+        fontStyle: "bold",
+      },
+      styles: {
+        fontSize: 9,
+      },
+      columnStyles: {
+        0: { cellWidth: 150 },
+        1: { cellWidth: 35, halign: "center" },
+      },
+    });
+
+    // Totals
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+    doc.setFontSize(10);
+    doc.text("Original payment:", 140, finalY);
+    doc.text(`R ${Number(payment.amount).toFixed(2)}`, 200, finalY, { align: "right" });
+
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text("Credited:", 140, finalY + 9);
+    doc.setTextColor(37, 99, 235);
+    doc.text(`R ${amount.toFixed(2)}`, 200, finalY + 9, { align: "right" });
+
+    // Footer
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.setFont("helvetica", "normal");
+    doc.text("This credit note reduces the amount due on the original invoice.", 105, 280, { align: "center" });
+    doc.text("Mzansi Market - Connecting South Africa", 105, 285, { align: "center" });
+
+    // Generate PDF buffer
+    const pdfBuffer = doc.output("arraybuffer");
+
+    return new NextResponse(pdfBuffer, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${refund.creditNoteNumber}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Credit note generation error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate credit note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueRecurringJobs, runDueJobs } from "@/lib/queue/handlers";
+
+// How many jobs one cron call works through before handing back
+const CRON_JOB_LIMIT = 50;
+
+// GET /api/cron/jobs - Run due background jobs where no worker process is deployed
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { queued } = await enqueueRecurringJobs();
+    const result = await runDueJobs("cron", CRON_JOB_LIMIT);
+
+    return NextResponse.json({ success: true, queued, ...result });
+  } catch (error) {
+    console.error("Error running background jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to run background jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -83,7 +83,7 @@ export async function GET(request: Request) {
         description: `${msg.sender.username} sent you a message${msg.subject ? `: ${msg.subject}` : ""}`,
         timestamp: msg.createdAt,
         status: msg.status,
-        link: `/dashboard/messages/${msg.id}`,
+        link: msg.conversationId ? `/dashboard/messages/${msg.conversationId}` : "/dashboard/messages",
       });
     });
 
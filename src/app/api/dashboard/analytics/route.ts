@@ -21,58 +21,75 @@ export async function GET(request: NextRequest) {
 
     const analytics: Record<string, unknown> = {};
 
-    // Revenue Analytics
+    // Revenue Analytics (gross, platform fee and net from completed bookings,
+    // less anything refunded since). Totals and averages are gross.
     if (!type || type === "revenue") {
+      const earnings = await prisma.providerEarning.findMany({
+        where: {
+          providerId: session.user.id,
+          createdAt: { gte: startDate },
+        },
+        select: {
+          grossAmount: true,
+          feeAmount: true,
+          netAmount: true,
+          paymentId: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "asc" },
+      });
+
       const payments = await prisma.payment.findMany({
         where: {
-          OR: [
-            // As provider (appointments)
-            {
-              appointment: {
-                providerId: session.user.id,
-              },
-            },
-            // Direct payments
-            { userId: session.user.id },
-          ],
-          status: "COMPLETED",
-          completedAt: { gte: startDate },
+          id: {
+            in: earnings.map((e) => e.paymentId).filter((id): id is string => !!id),
+          },
         },
         select: {
-          amount: true,
-          completedAt: true,
+          id: true,
           provider: true,
         },
-        orderBy: { completedAt: "asc" },
       });
+      const paymentProviders = new Map(payments.map((p) => [p.id, p.provider]));
 
       // Group by day
-      const revenueByDay: Record<string, number> = {};
-      let totalRevenue = 0;
+      const revenueByDay: Record<string, { gross: number; fees: number; net: number }> = {};
+      let totalGross = 0;
+      let totalFees = 0;
+      let totalNet = 0;
 
-      payments.forEach((p) => {
-        if (p.completedAt) {
-          const day = p.completedAt.toISOString().split("T")[0];
-          revenueByDay[day] = (revenueByDay[day] || 0) + Number(p.amount);
-          totalRevenue += Number(p.amount);
+      earnings.forEach((e) => {
+        const day = e.createdAt.toISOString().split("T")[0];
+        if (!revenueByDay[day]) {
+          revenueByDay[day] = { gross: 0, fees: 0, net: 0 };
         }
+        revenueByDay[day].gross += Number(e.grossAmount);
+        revenueByDay[day].fees += Number(e.feeAmount);
+        revenueByDay[day].net += Number(e.netAmount);
+        totalGross += Number(e.grossAmount);
+        totalFees += Number(e.feeAmount);
+        totalNet += Number(e.netAmount);
       });
 
-      // Group by payment provider
+      // Group by payment provider (gross)
       const revenueByProvider: Record<string, number> = {};
-      payments.forEach((p) => {
-        revenueByProvider[p.provider] = (revenueByProvider[p.provider] || 0) + Number(p.amount);
+      earnings.forEach((e) => {
+        const provider = (e.paymentId && paymentProviders.get(e.paymentId)) || "UNKNOWN";
+        revenueByProvider[provider] = (revenueByProvider[provider] || 0) + Number(e.grossAmount);
       });
 
       analytics.revenue = {
-        total: totalRevenue,
-        byDay: Object.entries(revenueByDay).map(([date, amount]) => ({
+        total: totalGross,
+        gross: totalGross,
+        fees: totalFees,
+        net: totalNet,
+        byDay: Object.entries(revenueByDay).map(([date, amounts]) => ({
           date,
-          amount,
+          ...amounts,
         })),
         byProvider: revenueByProvider,
         averagePerDay: Object.keys(revenueByDay).length > 0
-          ? totalRevenue / Object.keys(revenueByDay).length
+          ? totalGross / Object.keys(revenueByDay).length
           : 0,
       };
     }
@@ -157,7 +157,7 @@ export async function GET(request: NextRequest) {
           rating: r.rating,
           reviewText: r.text,
           reviewer: r.sender.username,
-          reviewee: r.receiver.username,
+          reviewee: r.receiver?.username ?? "Kasilethu",
           type: r.senderId === session.user.id ? "given" : "received",
           providerResponse: r.providerResponse,
           providerResponseDate: r.providerResponseDate,
@@ -117,7 +117,7 @@ export async function GET(request: NextRequest) {
           },
         },
         orderBy: [
-          { rating: "desc" },
+          { rankingScore: "desc" },
           { totalReviews: "desc" },
           { createdAt: "desc" },
         ],
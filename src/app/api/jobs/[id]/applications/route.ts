@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { hasBlocked } from "@/lib/safety/blocks";
 
 const applicationSchema = z.object({
   proposal: z.string().min(20, "Proposal must be at least 20 characters"),
@@ -135,6 +136,13 @@ export async function POST(
       );
     }
 
+    if (await hasBlocked(job.posterId, session.user.id)) {
+      return NextResponse.json(
+        { error: "You can't apply to this job" },
+        { status: 403 }
+      );
+    }
+
     // Check if already applied
     const existingApplication = await prisma.jobApplication.findUnique({
       where: {
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { getBlockedUserIds } from "@/lib/safety/blocks";
 
 const jobSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
@@ -63,6 +64,13 @@ export async function GET(request: NextRequest) {
       ];
     }
 
+    // Hide posters on either side of a block
+    const session = await getServerSession(authOptions);
+    const blockedUserIds = await getBlockedUserIds(session?.user?.id);
+    if (blockedUserIds.length > 0) {
+      where.NOT = { posterId: { in: blockedUserIds } };
+    }
+
     if (minBudget || maxBudget) {
       where.budgetMax = {};
       if (minBudget) (where.budgetMax as Record<string, number>).gte = parseFloat(minBudget);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { refreshConversation } from "@/lib/messaging/conversations";
 
 // GET /api/messages/[id] - Get a specific message
 export async function GET(
@@ -35,6 +36,7 @@ export async function GET(
             email: true,
           },
         },
+        attachments: true,
       },
     });
 
@@ -57,6 +59,10 @@ export async function GET(
         data: { status: "READ" },
       });
       message.status = "READ";
+
+      if (message.conversationId) {
+        await refreshConversation(message.conversationId);
+      }
     }
 
     return NextResponse.json({ message });
@@ -84,7 +90,7 @@ export async function PATCH(
 
     const message = await prisma.message.findUnique({
       where: { id },
-      select: { senderId: true, receiverId: true },
+      select: { senderId: true, receiverId: true, conversationId: true },
     });
 
     if (!message) {
@@ -114,6 +120,10 @@ export async function PATCH(
       data: { status },
     });
 
+    if (message.conversationId) {
+      await refreshConversation(message.conversationId);
+    }
+
     return NextResponse.json({
       success: true,
       message: updatedMessage,
@@ -142,7 +152,7 @@ export async function DELETE(
 
     const message = await prisma.message.findUnique({
       where: { id },
-      select: { senderId: true, receiverId: true },
+      select: { senderId: true, receiverId: true, conversationId: true },
     });
 
     if (!message) {
@@ -161,6 +171,10 @@ export async function DELETE(
       where: { id },
     });
 
+    if (message.conversationId) {
+      await refreshConversation(message.conversationId);
+    }
+
     return NextResponse.json({
       success: true,
       message: "Message deleted successfully",
@@ -2,14 +2,33 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { sendDirectMessage, sendMessage } from "@/lib/messaging/conversations";
+import { ConversationError } from "@/lib/messaging/context";
+import { MAX_ATTACHMENTS_PER_MESSAGE } from "@/lib/messaging/attachments";
 import { z } from "zod";
 
-const messageSchema = z.object({
-  receiverId: z.string().min(1, "Receiver is required"),
-  subject: z.string().optional(),
-  content: z.string().min(1, "Message content is required"),
+const attachmentSchema = z.object({
+  url: z.string().min(1),
+  filename: z.string().min(1).max(255),
 });
 
+const messageSchema = z
+  .object({
+    conversationId: z.string().min(1).optional(),
+    receiverId: z.string().min(1).optional(),
+    subject: z.string().optional(),
+    content: z.string().default(""),
+    attachments: z
+      .array(attachmentSchema)
+      .max(MAX_ATTACHMENTS_PER_MESSAGE, `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files`)
+      .default([]),
+  })
+  .refine((data) => data.conversationId || data.receiverId, "Receiver is required")
+  .refine(
+    (data) => data.content.trim() || data.attachments.length > 0,
+    "Message content is required"
+  );
+
 // GET /api/messages - Get messages (inbox or sent)
 export async function GET(request: NextRequest) {
   try {
@@ -109,6 +128,25 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = messageSchema.parse(body);
 
+    if (validatedData.conversationId) {
+      const message = await sendMessage({
+        conversationId: validatedData.conversationId,
+        senderId: session.user.id,
+        subject: validatedData.subject,
+        content: validatedData.content,
+        attachments: validatedData.attachments,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Message sent successfully",
+          data: message,
+        },
+        { status: 201 }
+      );
+    }
+
     // Check if receiver exists
     const receiver = await prisma.user.findUnique({
       where: { id: validatedData.receiverId },
@@ -127,31 +165,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create message
-    const message = await prisma.message.create({
-      data: {
-        senderId: session.user.id,
-        receiverId: validatedData.receiverId,
-        subject: validatedData.subject,
-        content: validatedData.content,
-        status: "UNREAD",
-      },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            picture: true,
-          },
-        },
-        receiver: {
-          select: {
-            id: true,
-            username: true,
-            picture: true,
-          },
-        },
-      },
+    // Create message in the general conversation between the two users
+    const message = await sendDirectMessage({
+      senderId: session.user.id,
+      receiverId: validatedData.receiverId,
+      subject: validatedData.subject,
+      content: validatedData.content,
+      attachments: validatedData.attachments,
     });
 
     return NextResponse.json(
@@ -172,6 +192,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof ConversationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       { error: "Failed to send message" },
       { status: 500 }
@@ -19,6 +19,7 @@ export async function GET(request: NextRequest) {
 
     const where = {
       userId: session.user.id,
+      inApp: true,
       ...(unreadOnly && { isRead: false }),
     };
 
@@ -31,7 +32,7 @@ export async function GET(request: NextRequest) {
       }),
       prisma.notification.count({ where }),
       prisma.notification.count({
-        where: { userId: session.user.id, isRead: false },
+        where: { userId: session.user.id, inApp: true, isRead: false },
       }),
     ]);
 
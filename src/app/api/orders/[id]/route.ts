@@ -38,6 +38,22 @@ export async function GET(
             email: true,
           },
         },
+        payments: {
+          select: {
+            refunds: {
+              where: { status: { not: "FAILED" } },
+              orderBy: { createdAt: "asc" },
+            },
+          },
+        },
+        review: {
+          select: {
+            id: true,
+            rating: true,
+            text: true,
+            createdAt: true,
+          },
+        },
       },
     });
 
@@ -69,6 +85,17 @@ export async function GET(
           price: Number(item.price),
           product: item.product,
         })),
+        refunds: order.payments.flatMap((payment) =>
+          payment.refunds.map((refund) => ({
+            id: refund.id,
+            creditNoteNumber: refund.creditNoteNumber,
+            amount: Number(refund.amount),
+            method: refund.method,
+            status: refund.status,
+            createdAt: refund.createdAt,
+          }))
+        ),
+        review: order.review,
       },
     });
   } catch (error) {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { WhatsAppError } from "@/lib/whatsapp";
+import { sendOrderWhatsApp } from "@/lib/whatsapp/orders";
+
+// GET /api/orders/[id]/whatsapp - Order updates already sent on WhatsApp (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const admin = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (admin?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const messages = await prisma.whatsAppMessage.findMany({
+      where: { orderId: id },
+      select: {
+        id: true,
+        to: true,
+        body: true,
+        sentAt: true,
+        sender: { select: { username: true } },
+      },
+      orderBy: { sentAt: "desc" },
+    });
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Error fetching order WhatsApp messages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch WhatsApp messages" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders/[id]/whatsapp - Send the customer an order update on WhatsApp (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const admin = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (admin?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { message, link } = await sendOrderWhatsApp(id, session.user.id);
+
+    return NextResponse.json({
+      link,
+      message: {
+        kind: message.kind,
+        sentAt: message.sentAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error sending order WhatsApp message:", error);
+
+    if (error instanceof WhatsAppError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to send WhatsApp message" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,274 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import {
+  completeRefund,
+  failRefund,
+  issueRefund,
+  PROVIDER_REFUND_WINDOW_DAYS,
+} from "@/lib/payments/refunds";
+
+const createRefundSchema = z.object({
+  amount: z.number().positive().optional(),
+  method: z.enum(["ORIGINAL", "WALLET"]).optional(),
+  reason: z.string().max(500).optional(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .optional(),
+});
+
+const resolveRefundSchema = z.object({
+  refundId: z.string(),
+  action: z.enum(["complete", "fail"]),
+  providerRef: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+async function getPaymentAccess(paymentId: string, userId: string) {
+  const [user, payment] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { userType: true },
+    }),
+    prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        appointment: {
+          select: { providerId: true },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    payment,
+    isAdmin: user?.userType === "ADMIN",
+    isProvider: !!payment?.appointment && payment.appointment.providerId === userId,
+    isCustomer: payment?.userId === userId,
+  };
+}
+
+// GET /api/payments/[id]/refund - List refunds for a payment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { payment, isAdmin, isProvider, isCustomer } = await getPaymentAccess(
+      id,
+      session.user.id
+    );
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    if (!isAdmin && !isProvider && !isCustomer) {
+      return NextResponse.json(
+        { error: "You don't have access to this payment" },
+        { status: 403 }
+      );
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { paymentId: id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      refundable: Number(payment.amount) - Number(payment.refundedAmount),
+      refunds: refunds.map((r) => ({
+        id: r.id,
+        creditNoteNumber: r.creditNoteNumber,
+        amount: Number(r.amount),
+        method: r.method,
+        status: r.status,
+        reason: r.reason,
+        failureReason: r.failureReason,
+        createdAt: r.createdAt,
+        completedAt: r.completedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching refunds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/payments/[id]/refund - Refund a payment in full or in part
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { payment, isAdmin, isProvider } = await getPaymentAccess(id, session.user.id);
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    // Admins can refund anything; providers only their own bookings, for a while
+    if (!isAdmin) {
+      if (!isProvider) {
+        return NextResponse.json(
+          { error: "Only admins and the booking's provider can issue refunds" },
+          { status: 403 }
+        );
+      }
+
+      const windowEnds = new Date(payment.completedAt || payment.createdAt);
+      windowEnds.setDate(windowEnds.getDate() + PROVIDER_REFUND_WINDOW_DAYS);
+
+      if (new Date() > windowEnds) {
+        return NextResponse.json(
+          {
+            error: `Providers can only refund within ${PROVIDER_REFUND_WINDOW_DAYS} days of payment. Please contact support.`,
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    const body = await request.json();
+    const validatedData = createRefundSchema.parse(body);
+
+    const result = await issueRefund({
+      paymentId: id,
+      ...validatedData,
+      items: isAdmin ? validatedData.items : undefined,
+      initiatedById: session.user.id,
+    });
+
+    if (!result.success || !result.refund) {
+      return NextResponse.json(
+        { error: result.error || "Failed to refund payment" },
+        { status: result.status || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      refund: {
+        id: result.refund.id,
+        creditNoteNumber: result.refund.creditNoteNumber,
+        amount: Number(result.refund.amount),
+        method: result.refund.method,
+        status: result.refund.status,
+      },
+      message:
+        result.refund.status === "COMPLETED"
+          ? "Refund completed"
+          : "Refund recorded. It completes once it has been paid through PayFast.",
+    });
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to refund payment" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/payments/[id]/refund - Confirm or fail a pending PayFast refund (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { userType: true },
+    });
+
+    if (user?.userType !== "ADMIN") {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { refundId, action, providerRef, reason } = resolveRefundSchema.parse(body);
+
+    const refund = await prisma.refund.findFirst({
+      where: { id: refundId, paymentId: id },
+    });
+
+    if (!refund) {
+      return NextResponse.json({ error: "Refund not found" }, { status: 404 });
+    }
+
+    if (action === "complete") {
+      const result = await completeRefund(refundId, { providerRef });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error || "Failed to complete refund" },
+          { status: result.status || 400 }
+        );
+      }
+    } else {
+      const failed = await failRefund(refundId, reason || "Rejected by admin");
+
+      if (!failed) {
+        return NextResponse.json({ error: "Refund is not pending" }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: action === "complete" ? "Refund completed" : "Refund cancelled",
+    });
+  } catch (error) {
+    console.error("Error updating refund:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update refund" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,10 +6,20 @@ import { z } from "zod";
 import { getAvailableProviders, isProviderConfigured } from "@/lib/payments";
 import { initiateYocoPayment } from "@/lib/payments/yoco";
 import { initiatePayFastPayment } from "@/lib/payments/payfast";
+import {
+  AlreadyPaidError,
+  confirmPaidOrder,
+  resolvePayableAmount,
+} from "@/lib/payments/payable";
+import { AppointmentCharge, amountsMatch } from "@/lib/payments/pricing";
+import { LedgerError, postJournal } from "@/lib/payments/ledger";
+import { confirmPaidBooking } from "@/lib/payments/escrow";
+import { getHoldExpiry, SlotTakenError } from "@/lib/bookings/holds";
+import { syncAppointmentReminders } from "@/lib/bookings/reminders";
 
 const initiatePaymentSchema = z.object({
   provider: z.enum(["YOCO", "PAYFAST", "WALLET"]),
-  amount: z.number().positive(),
+  amount: z.number().positive().optional(),
   description: z.string().optional(),
   orderId: z.string().optional(),
   appointmentId: z.string().optional(),
@@ -116,6 +126,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Work out the payable amount on the server for orders and appointments
+    let amount = validatedData.amount;
+    let description = validatedData.description;
+    let paymentType: "ORDER" | "APPOINTMENT" = "ORDER";
+    let charge: AppointmentCharge | undefined;
+
+    if (validatedData.orderId || validatedData.appointmentId) {
+      const payable = await resolvePayableAmount(session.user.id, {
+        orderId: validatedData.orderId,
+        appointmentId: validatedData.appointmentId,
+      });
+
+      if (!payable.success) {
+        return NextResponse.json(
+          { error: payable.error },
+          { status: payable.status }
+        );
+      }
+
+      if (amount !== undefined && !amountsMatch(payable.amount, amount)) {
+        return NextResponse.json(
+          {
+            error: "Payment amount does not match the amount due",
+            expectedAmount: payable.amount,
+          },
+          { status: 400 }
+        );
+      }
+
+      amount = payable.amount;
+      description = description || payable.description;
+      paymentType = payable.type;
+      charge = payable.charge;
+    }
+
+    if (amount === undefined) {
+      return NextResponse.json(
+        { error: "Amount is required" },
+        { status: 400 }
+      );
+    }
+
     // Get user details for payment
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
@@ -133,28 +185,39 @@ export async function POST(request: NextRequest) {
     const payment = await prisma.payment.create({
       data: {
         userId: session.user.id,
-        amount: validatedData.amount,
+        amount,
         currency: "ZAR",
         status: "PENDING",
+        type: paymentType,
         provider: validatedData.provider,
-        description: validatedData.description,
+        description,
         orderId: validatedData.orderId,
         appointmentId: validatedData.appointmentId,
         metadata: {
           returnUrl: validatedData.returnUrl,
           cancelUrl: validatedData.cancelUrl,
+          // Price breakdown at the time of payment, used when settling provider earnings
+          ...(charge && { charge: { ...charge } }),
         },
       },
     });
 
+    // Give the customer a full hold period to finish paying with the provider
+    if (validatedData.appointmentId) {
+      await prisma.appointment.updateMany({
+        where: { id: validatedData.appointmentId, holdExpiresAt: { not: null } },
+        data: { holdExpiresAt: getHoldExpiry() },
+      });
+    }
+
     let result;
 
     // Initiate payment with provider
     switch (validatedData.provider) {
       case "YOCO":
         result = await initiateYocoPayment({
-          amount: validatedData.amount,
-          description: validatedData.description,
+          amount,
+          description,
           reference: payment.id,
           returnUrl: validatedData.returnUrl || `${process.env.NEXTAUTH_URL}/payment/success?paymentId=${payment.id}`,
           cancelUrl: validatedData.cancelUrl || `${process.env.NEXTAUTH_URL}/payment/cancel?paymentId=${payment.id}`,
@@ -167,8 +230,8 @@ export async function POST(request: NextRequest) {
 
       case "PAYFAST":
         result = await initiatePayFastPayment({
-          amount: validatedData.amount,
-          description: validatedData.description,
+          amount,
+          description,
           reference: payment.id,
           customerEmail: user.email,
           customerFirstName: user.username,
@@ -188,7 +251,7 @@ export async function POST(request: NextRequest) {
           where: { userId: session.user.id },
         });
 
-        if (!wallet || Number(wallet.balance) < validatedData.amount) {
+        if (!wallet || Number(wallet.balance) < amount) {
           await prisma.payment.update({
             where: { id: payment.id },
             data: {
@@ -203,46 +266,85 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        // Build transaction operations
-        const transactionOps = [
-          prisma.wallet.update({
-            where: { userId: session.user.id },
-            data: {
-              balance: { decrement: validatedData.amount },
-            },
-          }),
-          prisma.transaction.create({
-            data: {
-              walletId: wallet.id,
-              type: "DEBIT",
-              amount: validatedData.amount,
-              description: validatedData.description || "Payment",
-            },
-          }),
-          prisma.payment.update({
+        // Move the money and confirm the order/appointment together
+        try {
+          await prisma.$transaction(async (tx) => {
+            await postJournal(tx, {
+              description: description || "Payment",
+              reference: payment.id,
+              lines: [
+                {
+                  side: "DEBIT",
+                  amount,
+                  account: { walletUserId: session.user.id },
+                },
+                {
+                  side: "CREDIT",
+                  amount,
+                  account: validatedData.appointmentId ? "BOOKING_FUNDS" : "PLATFORM_SALES",
+                },
+              ],
+            });
+
+            await tx.payment.update({
+              where: { id: payment.id },
+              data: {
+                status: "COMPLETED",
+                completedAt: new Date(),
+              },
+            });
+
+            // Confirm the order or appointment. Nothing has left the wallet
+            // yet, so if another payment got there first (or the slot was
+            // lost) this just undoes the payment.
+            if (validatedData.orderId && !(await confirmPaidOrder(tx, validatedData.orderId))) {
+              throw new AlreadyPaidError("This order has already been paid or can no longer be paid");
+            }
+
+            if (validatedData.appointmentId) {
+              const outcome = await confirmPaidBooking(tx, payment.id, validatedData.appointmentId);
+
+              if (outcome === "NOT_PAYABLE") {
+                throw new AlreadyPaidError(
+                  "This appointment has already been paid or can no longer be paid"
+                );
+              }
+
+              if (outcome === "UNBOOKED") {
+                throw new SlotTakenError(
+                  "Your hold on this time slot has expired and it has been booked. Please book again."
+                );
+              }
+            }
+          });
+        } catch (error) {
+          if (
+            !(error instanceof LedgerError) &&
+            !(error instanceof SlotTakenError) &&
+            !(error instanceof AlreadyPaidError)
+          ) {
+            throw error;
+          }
+
+          await prisma.payment.update({
             where: { id: payment.id },
             data: {
-              status: "COMPLETED",
-              completedAt: new Date(),
+              status: "FAILED",
+              failureReason: error.message,
             },
-          }),
-        ];
+          });
 
-        // Confirm appointment if this is an appointment payment
-        if (validatedData.appointmentId) {
-          transactionOps.push(
-            prisma.appointment.update({
-              where: { id: validatedData.appointmentId },
-              data: {
-                paymentMode: "PAID",
-                status: "CONFIRMED",
-              },
-            })
+          return NextResponse.json(
+            { error: error.message },
+            { status: error instanceof LedgerError ? 400 : 409 }
           );
         }
 
-        // Deduct from wallet and update related records
-        await prisma.$transaction(transactionOps);
+        if (validatedData.appointmentId) {
+          await syncAppointmentReminders(validatedData.appointmentId).catch((err) =>
+            console.error("Failed to schedule appointment reminders:", err)
+          );
+        }
 
         return NextResponse.json({
           success: true,
@@ -273,9 +375,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update payment with provider reference
-    await prisma.payment.update({
-      where: { id: payment.id },
+    // Update payment with provider reference (unless a webhook has already settled it)
+    await prisma.payment.updateMany({
+      where: { id: payment.id, status: "PENDING" },
       data: {
         providerRef: result.providerRef,
         providerData: result.providerData ? JSON.parse(JSON.stringify(result.providerData)) : undefined,
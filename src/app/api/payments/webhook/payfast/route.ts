@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { verifyPayFastITN, getPayFastAllowedIPs } from "@/lib/payments/payfast";
-import { notifyPaymentReceived, notifyPaymentFailed } from "@/lib/notifications";
+import { PaymentVerification } from "@/lib/payments";
+import { amountsMatch } from "@/lib/payments/pricing";
+import { recordPaymentEvent, finishPaymentEvent, settlePayment } from "@/lib/payments/webhooks";
 
 // POST /api/payments/webhook/payfast - PayFast ITN webhook
 export async function POST(request: NextRequest) {
+  let eventRecordId: string | undefined;
+
   try {
     // Get client IP
     const forwardedFor = request.headers.get("x-forwarded-for");
@@ -31,151 +35,93 @@ export async function POST(request: NextRequest) {
       itnData as unknown as Parameters<typeof verifyPayFastITN>[0],
       clientIp
     );
+    const verified = !(!verification.success && verification.status === "FAILED");
+
+    // Record the raw ITN; PayFast sends one per status change of a payment
+    const { event, duplicate } = await recordPaymentEvent({
+      provider: "PAYFAST",
+      eventId: `${itnData.pf_payment_id || itnData.m_payment_id}:${itnData.payment_status}`,
+      eventType: itnData.payment_status,
+      payload: itnData,
+      signatureValid: verified,
+    });
+    eventRecordId = event.id;
 
-    if (!verification.success && verification.status === "FAILED") {
+    if (!verified) {
       console.error("PayFast ITN verification failed:", verification.error);
+      await finishPaymentEvent(event.id, "FAILED", { error: verification.error });
       return new NextResponse("ITN verification failed", { status: 400 });
     }
 
+    if (duplicate) {
+      return new NextResponse("OK", { status: 200 });
+    }
+
     // Find the payment by m_payment_id (our payment ID)
     const paymentId = itnData.m_payment_id;
     const payment = await prisma.payment.findFirst({
       where: {
         OR: [
-          { id: paymentId },
-          { providerRef: itnData.pf_payment_id },
+          ...(paymentId ? [{ id: paymentId }] : []),
+          ...(itnData.pf_payment_id ? [{ providerRef: itnData.pf_payment_id }] : []),
         ],
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-          },
-        },
-        order: true,
-        appointment: {
-          include: {
-            service: {
-              select: {
-                name: true,
-              },
-            },
-          },
-        },
-      },
     });
 
     if (!payment) {
       console.error(`Payment not found: ${paymentId}`);
+      await finishPaymentEvent(event.id, "FAILED", { error: "Payment not found" });
       return new NextResponse("Payment not found", { status: 404 });
     }
 
     // Update payment status
-    const statusMap: Record<string, string> = {
+    const statusMap: Record<string, PaymentVerification["status"]> = {
       COMPLETE: "COMPLETED",
       FAILED: "FAILED",
       PENDING: "PROCESSING",
       CANCELLED: "CANCELLED",
     };
 
-    const newStatus = statusMap[itnData.payment_status] || "PROCESSING";
-
-    await prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: newStatus as "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED" | "REFUNDED" | "CANCELLED",
-        providerRef: itnData.pf_payment_id,
-        providerData: itnData,
-        completedAt: newStatus === "COMPLETED" ? new Date() : undefined,
-        failureReason: newStatus === "FAILED" ? "Payment failed" : undefined,
-      },
-    });
+    let newStatus = statusMap[itnData.payment_status] || "PROCESSING";
+    let failureReason = "Payment was declined";
 
-    // Send notifications
-    if (newStatus === "COMPLETED") {
-      // Handle wallet deposits
-      if (payment.type === "WALLET_DEPOSIT") {
-        // Get or create wallet
-        let wallet = await prisma.wallet.findUnique({
-          where: { userId: payment.user.id },
-        });
-
-        if (!wallet) {
-          wallet = await prisma.wallet.create({
-            data: {
-              userId: payment.user.id,
-              balance: 0,
-              currency: "ZAR",
-            },
-          });
-        }
-
-        // Credit wallet and create transaction
-        await prisma.$transaction([
-          prisma.wallet.update({
-            where: { userId: payment.user.id },
-            data: {
-              balance: { increment: Number(payment.amount) },
-            },
-          }),
-          prisma.transaction.create({
-            data: {
-              walletId: wallet.id,
-              amount: Number(payment.amount),
-              type: "CREDIT",
-              description: "Wallet deposit via PayFast",
-              reference: payment.id,
-            },
-          }),
-        ]);
-
-        // Notify user
-        await notifyPaymentReceived(
-          payment.user.id,
-          Number(payment.amount),
-          "Wallet Deposit",
-          payment.id
-        );
-      } else {
-        // Update related order/appointment status if needed
-        if (payment.orderId) {
-          await prisma.order.update({
-            where: { id: payment.orderId },
-            data: { status: "CONFIRMED" },
-          });
-        }
-
-        if (payment.appointmentId) {
-          await prisma.appointment.update({
-            where: { id: payment.appointmentId },
-            data: {
-              paymentMode: "PAID",
-              status: "CONFIRMED",
-            },
-          });
-        }
-
-        // Notify user
-        await notifyPaymentReceived(
-          payment.user.id,
-          Number(payment.amount),
-          payment.appointment?.service?.name || "Order",
-          payment.id
-        );
-      }
-    } else if (newStatus === "FAILED") {
-      await notifyPaymentFailed(
-        payment.user.id,
-        Number(payment.amount),
-        "Payment was declined"
+    // Refuse to complete a payment whose gross amount differs from the amount we charged
+    if (
+      newStatus === "COMPLETED" &&
+      !amountsMatch(Number(payment.amount), parseFloat(itnData.amount_gross))
+    ) {
+      console.error(
+        `PayFast amount mismatch for payment ${payment.id}: expected ${payment.amount}, got ${itnData.amount_gross}`
       );
+      newStatus = "FAILED";
+      failureReason = "Paid amount does not match the amount due";
     }
 
+    const { transitioned } = await settlePayment({
+      paymentId: payment.id,
+      status: newStatus,
+      providerLabel: "PayFast",
+      providerRef: itnData.pf_payment_id,
+      providerData: itnData,
+      failureReason,
+    });
+
+    await finishPaymentEvent(event.id, transitioned ? "PROCESSED" : "IGNORED", {
+      paymentId: payment.id,
+      error: transitioned ? undefined : `Payment already ${payment.status}`,
+    });
+
     // PayFast expects a 200 OK response
     return new NextResponse("OK", { status: 200 });
   } catch (error) {
     console.error("PayFast webhook error:", error);
+
+    if (eventRecordId) {
+      await finishPaymentEvent(eventRecordId, "FAILED", {
+        error: error instanceof Error ? error.message : "Webhook processing failed",
+      }).catch(() => undefined);
+    }
+
     return new NextResponse("Internal server error", { status: 500 });
   }
 }
@@ -1,161 +1,137 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { verifyYocoPayment } from "@/lib/payments/yoco";
-import { notifyPaymentReceived, notifyPaymentFailed } from "@/lib/notifications";
+import { verifyYocoPayment, verifyYocoWebhookSignature } from "@/lib/payments/yoco";
+import { amountsMatch } from "@/lib/payments/pricing";
+import { recordPaymentEvent, finishPaymentEvent, settlePayment } from "@/lib/payments/webhooks";
 
 // POST /api/payments/webhook/yoco - Yoco webhook
 export async function POST(request: NextRequest) {
+  let eventRecordId: string | undefined;
+
   try {
-    const body = await request.json();
+    const rawBody = await request.text();
 
-    console.log("Yoco webhook received:", body);
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
 
-    const { id: checkoutId, status, metadata } = body;
+    // Verify the webhook signature
+    const signature = verifyYocoWebhookSignature(rawBody, {
+      id: request.headers.get("webhook-id"),
+      timestamp: request.headers.get("webhook-timestamp"),
+      signature: request.headers.get("webhook-signature"),
+    });
 
-    if (!checkoutId) {
+    if (!signature.valid) {
+      if (process.env.NODE_ENV === "production") {
+        console.error("Yoco webhook signature verification failed:", signature.error);
+        return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+      }
+      // Don't reject in development, just warn
+      console.warn("Yoco webhook signature not verified:", signature.error);
+    }
+
+    // Yoco events wrap the payment in `payload`; older checkout callbacks
+    // send the checkout itself
+    const checkoutId: string | undefined = body.payload?.metadata?.checkoutId || body.id;
+    const metadata = body.payload?.metadata || body.metadata;
+    const eventId: string | undefined = request.headers.get("webhook-id") || body.id;
+
+    if (!checkoutId || !eventId) {
       return NextResponse.json(
         { error: "Missing checkout ID" },
         { status: 400 }
       );
     }
 
-    // Verify the payment with Yoco
+    // Record the raw event; retries of an already processed event are no-ops
+    const { event, duplicate } = await recordPaymentEvent({
+      provider: "YOCO",
+      eventId,
+      eventType: body.type,
+      payload: body,
+      signatureValid: signature.valid,
+    });
+    eventRecordId = event.id;
+
+    if (duplicate) {
+      return NextResponse.json({ success: true, duplicate: true });
+    }
+
+    // Verify the payment with Yoco. If Yoco can't tell us, fail the event so
+    // Yoco sends it again later, rather than guessing at the payment
     const verification = await verifyYocoPayment(checkoutId);
 
+    if (verification.unverified) {
+      await finishPaymentEvent(event.id, "FAILED", { error: verification.error });
+      return NextResponse.json(
+        { error: "Could not verify payment with Yoco" },
+        { status: 503 }
+      );
+    }
+
     // Find the payment by provider reference or metadata
-    const paymentId = metadata?.paymentId;
+    const paymentId: string | undefined = metadata?.paymentId;
     const payment = await prisma.payment.findFirst({
       where: {
         OR: [
-          { id: paymentId },
+          ...(paymentId ? [{ id: paymentId }] : []),
           { providerRef: checkoutId },
         ],
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-          },
-        },
-        order: true,
-        appointment: {
-          include: {
-            service: {
-              select: {
-                name: true,
-              },
-            },
-          },
-        },
-      },
     });
 
     if (!payment) {
       console.error(`Payment not found for checkout: ${checkoutId}`);
+      await finishPaymentEvent(event.id, "FAILED", { error: "Payment not found" });
       return NextResponse.json(
         { error: "Payment not found" },
         { status: 404 }
       );
     }
 
-    // Update payment status based on verification
-    const newStatus = verification.status;
-
-    await prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: newStatus,
-        providerRef: checkoutId,
-        providerData: verification.providerData ? JSON.parse(JSON.stringify(verification.providerData)) : undefined,
-        completedAt: newStatus === "COMPLETED" ? new Date() : undefined,
-        failureReason: newStatus === "FAILED" ? verification.error : undefined,
-      },
-    });
-
-    // Handle completed payments
-    if (newStatus === "COMPLETED") {
-      // Handle wallet deposits
-      if (payment.type === "WALLET_DEPOSIT") {
-        // Get or create wallet
-        let wallet = await prisma.wallet.findUnique({
-          where: { userId: payment.user.id },
-        });
-
-        if (!wallet) {
-          wallet = await prisma.wallet.create({
-            data: {
-              userId: payment.user.id,
-              balance: 0,
-              currency: "ZAR",
-            },
-          });
-        }
-
-        // Credit wallet and create transaction
-        await prisma.$transaction([
-          prisma.wallet.update({
-            where: { userId: payment.user.id },
-            data: {
-              balance: { increment: Number(payment.amount) },
-            },
-          }),
-          prisma.transaction.create({
-            data: {
-              walletId: wallet.id,
-              amount: Number(payment.amount),
-              type: "CREDIT",
-              description: "Wallet deposit via Yoco",
-              reference: payment.id,
-            },
-          }),
-        ]);
-
-        // Notify user
-        await notifyPaymentReceived(
-          payment.user.id,
-          Number(payment.amount),
-          "Wallet Deposit",
-          payment.id
-        );
-      } else {
-        // Update related order/appointment status
-        if (payment.orderId) {
-          await prisma.order.update({
-            where: { id: payment.orderId },
-            data: { status: "CONFIRMED" },
-          });
-        }
-
-        if (payment.appointmentId) {
-          await prisma.appointment.update({
-            where: { id: payment.appointmentId },
-            data: {
-              paymentMode: "PAID",
-              status: "CONFIRMED",
-            },
-          });
-        }
-
-        // Notify user
-        await notifyPaymentReceived(
-          payment.user.id,
-          Number(payment.amount),
-          payment.appointment?.service?.name || "Order",
-          payment.id
-        );
-      }
-    } else if (newStatus === "FAILED") {
-      await notifyPaymentFailed(
-        payment.user.id,
-        Number(payment.amount),
-        verification.error || "Payment failed"
+    // Update payment status based on verification, refusing to complete a
+    // payment whose settled amount differs from the amount we charged
+    const amountMismatch =
+      verification.status === "COMPLETED" &&
+      verification.amount !== undefined &&
+      !amountsMatch(Number(payment.amount), verification.amount);
+    const newStatus = amountMismatch ? "FAILED" : verification.status;
+
+    if (amountMismatch) {
+      console.error(
+        `Yoco amount mismatch for payment ${payment.id}: expected ${payment.amount}, got ${verification.amount}`
       );
+      verification.error = "Paid amount does not match the amount due";
     }
 
+    const { transitioned } = await settlePayment({
+      paymentId: payment.id,
+      status: newStatus,
+      providerLabel: "Yoco",
+      providerRef: checkoutId,
+      providerData: verification.providerData,
+      failureReason: verification.error || "Payment failed",
+    });
+
+    await finishPaymentEvent(event.id, transitioned ? "PROCESSED" : "IGNORED", {
+      paymentId: payment.id,
+      error: transitioned ? undefined : `Payment already ${payment.status}`,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Yoco webhook error:", error);
+
+    if (eventRecordId) {
+      await finishPaymentEvent(eventRecordId, "FAILED", {
+        error: error instanceof Error ? error.message : "Webhook processing failed",
+      }).catch(() => undefined);
+    }
+
     return NextResponse.json(
       { error: "Webhook processing failed" },
       { status: 500 }
@@ -37,6 +37,9 @@ export async function GET(request: NextRequest) {
       if (maxPrice) (where.price as Record<string, number>).lte = parseFloat(maxPrice);
     }
 
+    // No block filter here, unlike services and shops: products are sold by
+    // the platform itself, so there is no seller for a block to hide
+
     // Get total count
     const total = await prisma.product.count({ where });
 
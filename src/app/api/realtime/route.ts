@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { subscribeRealtime } from "@/lib/realtime/bus";
+import { formatSseEvent } from "@/lib/realtime/events";
+
+// Holds a connection open per tab, so it can't be cached or run at the edge
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Proxies drop connections that go quiet, usually after 30-60 seconds
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET /api/realtime - Server-Sent Events stream of messages, read receipts, typing and notifications
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // Closed from the other end; the abort handler tidies up
+          }
+        };
+
+        const unsubscribe = await subscribeRealtime(userId, (event) => write(formatSseEvent(event)));
+        const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        };
+
+        if (request.signal.aborted) {
+          cleanup();
+          return;
+        }
+        request.signal.addEventListener("abort", () => cleanup?.());
+
+        // Tells EventSource how long to wait before reconnecting
+        write("retry: 3000\n\n");
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Error opening realtime stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open realtime stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { dispatchNotification } from "@/lib/notifications";
 
 const createReferralSchema = z.object({
   shareId: z.string().optional(),
@@ -187,15 +188,13 @@ export async function POST(request: NextRequest) {
 
     // Notify the referrer
     try {
-      await prisma.notification.create({
-        data: {
-          userId: referrerId,
-          type: "SYSTEM",
-          title: "New Referral",
-          message: `Someone signed up using your referral link!`,
-          metadata: {
-            referralId: referral.id,
-          },
+      await dispatchNotification({
+        userId: referrerId,
+        type: "SYSTEM",
+        title: "New Referral",
+        message: `Someone signed up using your referral link!`,
+        metadata: {
+          referralId: referral.id,
         },
       });
     } catch (notificationError) {
@@ -292,16 +291,14 @@ export async function PATCH(request: NextRequest) {
       });
 
       // Notify the referrer
-      await prisma.notification.create({
-        data: {
-          userId: referral.referrerId,
-          type: "PAYMENT_RECEIVED",
-          title: "Referral Reward",
-          message: `You earned R${rewardAmount} from a referral!`,
-          metadata: {
-            referralId: referral.id,
-            rewardAmount,
-          },
+      await dispatchNotification({
+        userId: referral.referrerId,
+        type: "PAYMENT_RECEIVED",
+        title: "Referral Reward",
+        message: `You earned R${rewardAmount} from a referral!`,
+        metadata: {
+          referralId: referral.id,
+          rewardAmount,
         },
       });
 
@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { ReportType } from "@prisma/client";
+import { dispatchNotification } from "@/lib/notifications";
 
 const createReportSchema = z.object({
   type: z.nativeEnum(ReportType),
@@ -190,18 +191,16 @@ export async function POST(request: NextRequest) {
         select: { id: true },
       });
 
-      if (admins.length > 0) {
-        await prisma.notification.createMany({
-          data: admins.map((admin) => ({
-            userId: admin.id,
-            type: "SYSTEM" as const,
-            title: "New Content Report",
-            message: `A new ${validatedData.type.toLowerCase().replace("_", " ")} report has been submitted`,
-            metadata: {
-              reportId: report.id,
-              type: validatedData.type,
-            },
-          })),
+      for (const admin of admins) {
+        await dispatchNotification({
+          userId: admin.id,
+          type: "SYSTEM",
+          title: "New Content Report",
+          message: `A new ${validatedData.type.toLowerCase().replace("_", " ")} report has been submitted`,
+          metadata: {
+            reportId: report.id,
+            type: validatedData.type,
+          },
         });
       }
     } catch (notificationError) {
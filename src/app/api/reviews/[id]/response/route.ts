@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { dispatchNotification } from "@/lib/notifications";
 
 const responseSchema = z.object({
   response: z.string().min(10, "Response must be at least 10 characters").max(1000, "Response must be less than 1000 characters"),
@@ -74,15 +75,13 @@ export async function POST(
 
     // Notify the reviewer
     try {
-      await prisma.notification.create({
-        data: {
-          userId: review.senderId,
-          type: "SYSTEM",
-          title: "Provider responded to your review",
-          message: `${review.receiver.username} has responded to your review`,
-          metadata: {
-            reviewId: review.id,
-          },
+      await dispatchNotification({
+        userId: review.senderId,
+        type: "SYSTEM",
+        title: "Provider responded to your review",
+        message: `${review.receiver.username} has responded to your review`,
+        metadata: {
+          reviewId: review.id,
         },
       });
     } catch (notificationError) {
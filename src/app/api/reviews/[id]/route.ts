@@ -3,10 +3,23 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { refreshReviewRatings } from "@/lib/reviews/ratings";
+import { ReviewError } from "@/lib/reviews/transactions";
+import { MAX_REVIEW_PHOTOS, prepareReviewPhotos } from "@/lib/reviews/photos";
 
 const updateReviewSchema = z.object({
   rating: z.number().min(1).max(5).optional(),
+  // Null clears a sub-rating
+  qualityRating: z.number().int().min(1).max(5).nullable().optional(),
+  punctualityRating: z.number().int().min(1).max(5).nullable().optional(),
+  valueRating: z.number().int().min(1).max(5).nullable().optional(),
+  communicationRating: z.number().int().min(1).max(5).nullable().optional(),
   text: z.string().optional(),
+  // Replaces the review's photos when given
+  photos: z
+    .array(z.string().min(1))
+    .max(MAX_REVIEW_PHOTOS, `You can add up to ${MAX_REVIEW_PHOTOS} photos`)
+    .optional(),
 });
 
 // GET /api/reviews/[id] - Get a specific review
@@ -40,6 +53,19 @@ export async function GET(
             },
           },
         },
+        service: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        photos: {
+          select: {
+            id: true,
+            url: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -72,7 +98,7 @@ export async function PATCH(
 
     const review = await prisma.review.findUnique({
       where: { id },
-      select: { senderId: true, receiverId: true },
+      select: { senderId: true, receiverId: true, serviceId: true },
     });
 
     if (!review) {
@@ -88,11 +114,15 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const validatedData = updateReviewSchema.parse(body);
+    const { photos, ...validatedData } = updateReviewSchema.parse(body);
+    const preparedPhotos = photos && (await prepareReviewPhotos(session.user.id, photos));
 
     const updatedReview = await prisma.review.update({
       where: { id },
-      data: validatedData,
+      data: {
+        ...validatedData,
+        ...(preparedPhotos && { photos: { deleteMany: {}, create: preparedPhotos } }),
+      },
       include: {
         sender: {
           select: {
@@ -101,23 +131,17 @@ export async function PATCH(
             picture: true,
           },
         },
+        photos: {
+          select: {
+            id: true,
+            url: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
-    // Update receiver's shop rating
-    const stats = await prisma.review.aggregate({
-      where: { receiverId: review.receiverId },
-      _avg: { rating: true },
-      _count: { rating: true },
-    });
-
-    await prisma.shop.updateMany({
-      where: { userId: review.receiverId },
-      data: {
-        rating: stats._avg.rating ?? 0,
-        totalReviews: stats._count.rating,
-      },
-    });
+    await refreshReviewRatings(review);
 
     return NextResponse.json({
       success: true,
@@ -134,6 +158,10 @@ export async function PATCH(
       );
     }
 
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       { error: "Failed to update review" },
       { status: 500 }
@@ -156,7 +184,7 @@ export async function DELETE(
 
     const review = await prisma.review.findUnique({
       where: { id },
-      select: { senderId: true, receiverId: true },
+      select: { senderId: true, receiverId: true, serviceId: true },
     });
 
     if (!review) {
@@ -175,20 +203,7 @@ export async function DELETE(
       where: { id },
     });
 
-    // Update receiver's shop rating
-    const stats = await prisma.review.aggregate({
-      where: { receiverId: review.receiverId },
-      _avg: { rating: true },
-      _count: { rating: true },
-    });
-
-    await prisma.shop.updateMany({
-      where: { userId: review.receiverId },
-      data: {
-        rating: stats._avg.rating || 0,
-        totalReviews: stats._count.rating,
-      },
-    });
+    await refreshReviewRatings(review);
 
     return NextResponse.json({
       success: true,
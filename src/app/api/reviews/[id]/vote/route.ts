@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { setReviewVote } from "@/lib/reviews/votes";
+
+const voteSchema = z.object({
+  helpful: z.boolean(),
+});
+
+// POST /api/reviews/[id]/vote - Vote a review helpful or unhelpful
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { helpful } = voteSchema.parse(body);
+
+    const review = await prisma.review.findUnique({
+      where: { id },
+      select: { senderId: true },
+    });
+
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    if (review.senderId === session.user.id) {
+      return NextResponse.json(
+        { error: "You can't vote on your own review" },
+        { status: 400 }
+      );
+    }
+
+    const counts = await setReviewVote(id, session.user.id, helpful);
+
+    return NextResponse.json({ success: true, myVote: helpful, ...counts });
+  } catch (error) {
+    console.error("Error voting on review:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to save vote" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/reviews/[id]/vote - Take back a vote
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const review = await prisma.review.findUnique({
+      where: { id },
+      select: { senderId: true },
+    });
+
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    if (review.senderId === session.user.id) {
+      return NextResponse.json(
+        { error: "You can't vote on your own review" },
+        { status: 400 }
+      );
+    }
+
+    const counts = await setReviewVote(id, session.user.id, null);
+
+    return NextResponse.json({ success: true, myVote: null, ...counts });
+  } catch (error) {
+    console.error("Error removing review vote:", error);
+    return NextResponse.json(
+      { error: "Failed to remove vote" },
+      { status: 500 }
+    );
+  }
+}
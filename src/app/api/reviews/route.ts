@@ -3,19 +3,42 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { hasBlocked } from "@/lib/safety/blocks";
+import { refreshReviewRatings } from "@/lib/reviews/ratings";
+import { ReviewError, resolveReviewTransaction } from "@/lib/reviews/transactions";
+import { MAX_REVIEW_PHOTOS, prepareReviewPhotos } from "@/lib/reviews/photos";
+import { getReviewOrderBy, parseReviewSort } from "@/lib/reviews/sorting";
 
-const reviewSchema = z.object({
-  receiverId: z.string().min(1, "Receiver is required"),
-  rating: z.number().min(1).max(5),
-  text: z.string().optional(),
-});
+const reviewSchema = z
+  .object({
+    appointmentId: z.string().min(1).optional(),
+    orderId: z.string().min(1).optional(),
+    rating: z.number().min(1).max(5),
+    qualityRating: z.number().int().min(1).max(5).optional(),
+    punctualityRating: z.number().int().min(1).max(5).optional(),
+    valueRating: z.number().int().min(1).max(5).optional(),
+    communicationRating: z.number().int().min(1).max(5).optional(),
+    text: z.string().optional(),
+    photos: z
+      .array(z.string().min(1))
+      .max(MAX_REVIEW_PHOTOS, `You can add up to ${MAX_REVIEW_PHOTOS} photos`)
+      .default([]),
+  })
+  .refine((data) => !!data.appointmentId !== !!data.orderId, {
+    message: "Review either a booking or an order",
+  });
 
 // GET /api/reviews - Get reviews
 export async function GET(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions);
     const { searchParams } = new URL(request.url);
     const receiverId = searchParams.get("receiverId");
     const senderId = searchParams.get("senderId");
+    const serviceId = searchParams.get("serviceId");
+    const withPhotos = searchParams.get("withPhotos") === "true";
+    const sort = parseReviewSort(searchParams.get("sort"));
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "10");
 
@@ -30,6 +53,14 @@ export async function GET(request: NextRequest) {
       where.senderId = senderId;
     }
 
+    if (serviceId) {
+      where.serviceId = serviceId;
+    }
+
+    if (withPhotos) {
+      where.photos = { some: {} };
+    }
+
     // Get total count
     const total = await prisma.review.count({ where });
 
@@ -57,29 +88,65 @@ export async function GET(request: NextRequest) {
             },
           },
         },
+        service: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        photos: {
+          select: {
+            id: true,
+            url: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        // The signed-in user's own vote, so they can see and change it
+        votes: {
+          where: { userId: session?.user?.id ?? "" },
+          select: { helpful: true },
+        },
       },
-      orderBy: { createdAt: "desc" },
+      orderBy: getReviewOrderBy(sort),
       skip: (page - 1) * limit,
       take: limit,
     });
 
-    // Calculate average rating if filtering by receiverId
+    // Calculate average rating if filtering by receiver or service. Like shop
+    // and service ratings, this only counts verified reviews.
+    const statsWhere = receiverId
+      ? { receiverId, isVerified: true }
+      : serviceId
+        ? { serviceId, isVerified: true }
+        : null;
+
     let averageRating = null;
+    let verifiedReviews = 0;
+    let subRatings = null;
     let ratingCounts = null;
 
-    if (receiverId) {
+    if (statsWhere) {
       const stats = await prisma.review.aggregate({
-        where: { receiverId },
-        _avg: { rating: true },
+        where: statsWhere,
+        _avg: {
+          rating: true,
+          qualityRating: true,
+          punctualityRating: true,
+          valueRating: true,
+          communicationRating: true,
+        },
         _count: { rating: true },
       });
 
-      averageRating = stats._avg.rating;
+      const { rating, ...subRatingAverages } = stats._avg;
+      averageRating = rating;
+      verifiedReviews = stats._count.rating;
+      subRatings = subRatingAverages;
 
       // Get rating distribution
       const distribution = await prisma.review.groupBy({
         by: ["rating"],
-        where: { receiverId },
+        where: statsWhere,
         _count: { rating: true },
       });
 
@@ -97,11 +164,15 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      reviews,
-      stats: receiverId
+      reviews: reviews.map(({ votes, ...review }) => ({
+        ...review,
+        myVote: votes[0]?.helpful ?? null,
+      })),
+      stats: statsWhere
         ? {
             averageRating,
-            totalReviews: total,
+            totalReviews: verifiedReviews,
+            subRatings,
             ratingCounts,
           }
         : null,
@@ -133,46 +204,31 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = reviewSchema.parse(body);
 
-    // Check if receiver exists
-    const receiver = await prisma.user.findUnique({
-      where: { id: validatedData.receiverId },
-      select: { id: true, username: true, userType: true },
-    });
-
-    if (!receiver) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    // Can't review yourself
-    if (validatedData.receiverId === session.user.id) {
-      return NextResponse.json(
-        { error: "You cannot review yourself" },
-        { status: 400 }
-      );
-    }
-
-    // Check if user already reviewed this person
-    const existingReview = await prisma.review.findFirst({
-      where: {
-        senderId: session.user.id,
-        receiverId: validatedData.receiverId,
-      },
-    });
+    const transaction = await resolveReviewTransaction(session.user.id, validatedData);
+    const photos = await prepareReviewPhotos(session.user.id, validatedData.photos);
 
-    if (existingReview) {
+    if (transaction.receiverId && (await hasBlocked(transaction.receiverId, session.user.id))) {
       return NextResponse.json(
-        { error: "You have already reviewed this user" },
-        { status: 400 }
+        { error: "You can't review this user" },
+        { status: 403 }
       );
     }
 
-    // Create review
     const review = await prisma.review.create({
       data: {
         senderId: session.user.id,
-        receiverId: validatedData.receiverId,
+        receiverId: transaction.receiverId,
+        serviceId: transaction.serviceId,
+        appointmentId: transaction.appointmentId,
+        orderId: transaction.orderId,
+        isVerified: true,
         rating: validatedData.rating,
+        qualityRating: validatedData.qualityRating,
+        punctualityRating: validatedData.punctualityRating,
+        valueRating: validatedData.valueRating,
+        communicationRating: validatedData.communicationRating,
         text: validatedData.text,
+        photos: { create: photos },
       },
       include: {
         sender: {
@@ -182,25 +238,22 @@ export async function POST(request: NextRequest) {
             picture: true,
           },
         },
+        service: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        photos: {
+          select: {
+            id: true,
+            url: true,
+          },
+        },
       },
     });
 
-    // Update receiver's shop rating if they are a service provider
-    if (receiver.userType === "SERVICE_PROVIDER") {
-      const stats = await prisma.review.aggregate({
-        where: { receiverId: validatedData.receiverId },
-        _avg: { rating: true },
-        _count: { rating: true },
-      });
-
-      await prisma.shop.updateMany({
-        where: { userId: validatedData.receiverId },
-        data: {
-          rating: stats._avg.rating ?? 0,
-          totalReviews: stats._count.rating,
-        },
-      });
-    }
+    await refreshReviewRatings(review);
 
     return NextResponse.json(
       {
@@ -220,6 +273,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // Two submissions for the same booking or order at once
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "This has already been reviewed" },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Failed to create review" },
       { status: 500 }
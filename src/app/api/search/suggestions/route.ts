@@ -2,11 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { getBlockedUserIds } from "@/lib/safety/blocks";
 
 // GET /api/search/suggestions - Get search suggestions
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
+    const blockedUserIds = await getBlockedUserIds(session?.user?.id);
 
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("q") || "";
@@ -103,6 +105,7 @@ export async function GET(request: NextRequest) {
         where: {
           name: { contains: query, mode: "insensitive" },
           isActive: true,
+          providerId: { notIn: blockedUserIds },
         },
         select: {
           id: true,
@@ -138,6 +141,7 @@ export async function GET(request: NextRequest) {
         where: {
           name: { contains: query, mode: "insensitive" },
           isApproved: true,
+          userId: { notIn: blockedUserIds },
         },
         select: {
           id: true,
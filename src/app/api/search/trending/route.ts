@@ -146,7 +146,7 @@ export async function GET() {
         },
       },
       orderBy: [
-        { rating: "desc" },
+        { rankingScore: "desc" },
         { totalReviews: "desc" },
       ],
       take: 6,
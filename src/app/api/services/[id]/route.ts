@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { resolveCancellationPolicy } from "@/lib/payments/cancellation";
 
 const updateServiceSchema = z.object({
   name: z.string().min(2).optional(),
@@ -11,6 +12,12 @@ const updateServiceSchema = z.object({
   chargeTime: z.number().min(0).optional(),
   categoryId: z.string().optional(),
   isActive: z.boolean().optional(),
+  duration: z.number().int().min(5).max(1440).optional(),
+  bufferMinutes: z.number().int().min(0).max(240).nullable().optional(), // null uses the shop's buffer
+  // Cancellation policy overrides; null falls back to the shop's policy
+  freeCancellationHours: z.number().int().min(0).max(720).nullable().optional(),
+  lateCancelFeePercent: z.number().min(0).max(100).nullable().optional(),
+  noShowFeePercent: z.number().min(0).max(100).nullable().optional(),
 });
 
 // GET /api/services/[id] - Get a specific service
@@ -42,6 +49,9 @@ export async function GET(
                 endTime: true,
                 openingDays: true,
                 isApproved: true,
+                freeCancellationHours: true,
+                lateCancelFeePercent: true,
+                noShowFeePercent: true,
               },
             },
           },
@@ -69,9 +79,9 @@ export async function GET(
       take: 4,
     });
 
-    // Get reviews for the provider
+    // Get reviews of this service
     const reviews = await prisma.review.findMany({
-      where: { receiverId: service.providerId },
+      where: { serviceId: service.id },
       include: {
         sender: {
           select: {
@@ -93,10 +103,21 @@ export async function GET(
       price: Number(service.price),
       chargeTime: service.chargeTime === 0 ? "FIXED" : service.chargeTime === 1 ? "HOURLY" : "DAILY",
       category: service.category?.name || "Other",
+      duration: service.duration,
+      bufferMinutes: service.bufferMinutes,
       image: service.picture,
       isActive: service.isActive,
+      rating: service.rating,
+      reviewCount: service.totalReviews,
       userId: service.providerId,
       tags: [],
+      cancellationPolicy: resolveCancellationPolicy(service, service.provider?.shop),
+      cancellationPolicyOverrides: {
+        freeCancellationHours: service.freeCancellationHours,
+        lateCancelFeePercent:
+          service.lateCancelFeePercent === null ? null : Number(service.lateCancelFeePercent),
+        noShowFeePercent: service.noShowFeePercent === null ? null : Number(service.noShowFeePercent),
+      },
       user: service.provider ? {
         id: service.provider.id,
         username: service.provider.username,
@@ -178,6 +199,10 @@ export async function PATCH(
       service: {
         ...updatedService,
         price: Number(updatedService.price),
+        lateCancelFeePercent:
+          updatedService.lateCancelFeePercent === null ? null : Number(updatedService.lateCancelFeePercent),
+        noShowFeePercent:
+          updatedService.noShowFeePercent === null ? null : Number(updatedService.noShowFeePercent),
       },
     });
   } catch (error) {
@@ -64,6 +64,7 @@ export async function POST(request: NextRequest) {
         const reviewStats = await prisma.review.aggregate({
           where: {
             receiverId: service.providerId,
+            isVerified: true,
           },
           _avg: { rating: true },
           _count: true,
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { getBlockedUserIds } from "@/lib/safety/blocks";
 
 const serviceSchema = z.object({
   name: z.string().min(2, "Service name must be at least 2 characters"),
@@ -10,6 +11,8 @@ const serviceSchema = z.object({
   price: z.number().min(0, "Price must be positive"),
   chargeTime: z.number().min(0).default(0), // 0=fixed, 1=hourly, 2=daily
   categoryId: z.string().optional(),
+  duration: z.number().int().min(5).max(1440).optional(),
+  bufferMinutes: z.number().int().min(0).max(240).nullable().optional(),
 });
 
 // GET /api/services - Get services with filters
@@ -42,6 +45,13 @@ export async function GET(request: NextRequest) {
       ];
     }
 
+    // Hide providers on either side of a block
+    const session = await getServerSession(authOptions);
+    const blockedUserIds = await getBlockedUserIds(session?.user?.id);
+    if (blockedUserIds.length > 0) {
+      where.NOT = { providerId: { in: blockedUserIds } };
+    }
+
     // Get total count
     const total = await prisma.service.count({ where });
 
@@ -84,6 +94,7 @@ export async function GET(request: NextRequest) {
       price: Number(service.price),
       chargeTime: service.chargeTime === 0 ? "FIXED" : service.chargeTime === 1 ? "HOURLY" : "DAILY",
       category: service.category?.name || "Other",
+      duration: service.duration,
       image: service.picture,
       isActive: service.isActive,
       createdAt: service.createdAt,
@@ -158,6 +169,8 @@ export async function POST(request: NextRequest) {
         price: validatedData.price,
         chargeTime: validatedData.chargeTime,
         categoryId: validatedData.categoryId,
+        duration: validatedData.duration,
+        bufferMinutes: validatedData.bufferMinutes,
         isActive: true,
       },
     });
@@ -16,6 +16,14 @@ const updateShopSchema = z.object({
   coverUrl: z.string().optional(),
   registrationDocument: z.string().optional(),
   tax: z.string().optional(),
+  freeCancellationHours: z.number().int().min(0).max(720).optional(),
+  lateCancelFeePercent: z.number().min(0).max(100).optional(),
+  noShowFeePercent: z.number().min(0).max(100).optional(),
+  chargeUnpaidBookings: z.boolean().optional(),
+  slotIntervalMinutes: z.number().int().min(5).max(240).optional(),
+  bufferMinutes: z.number().int().min(0).max(240).optional(),
+  bookingLeadTimeHours: z.number().int().min(0).max(720).optional(),
+  whatsappNotifications: z.boolean().optional(),
 });
 
 // GET /api/shops/[id] - Get a specific shop
@@ -60,6 +68,14 @@ export async function GET(
       coverUrl: shop.coverUrl,
       registrationDocument: shop.registrationDocument,
       tax: shop.tax,
+      freeCancellationHours: shop.freeCancellationHours,
+      lateCancelFeePercent: Number(shop.lateCancelFeePercent),
+      noShowFeePercent: Number(shop.noShowFeePercent),
+      chargeUnpaidBookings: shop.chargeUnpaidBookings,
+      slotIntervalMinutes: shop.slotIntervalMinutes,
+      bufferMinutes: shop.bufferMinutes,
+      bookingLeadTimeHours: shop.bookingLeadTimeHours,
+      whatsappNotifications: shop.whatsappNotifications,
       isApproved: shop.isApproved,
       user: shop.user,
       createdAt: shop.createdAt,
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { z } from "zod";
+import { getBlockedUserIds } from "@/lib/safety/blocks";
 
 const shopSchema = z.object({
   name: z.string().min(2, "Shop name must be at least 2 characters"),
@@ -14,6 +15,14 @@ const shopSchema = z.object({
   openingDays: z.array(z.string()).optional(),
   registrationDocument: z.string().optional(),
   tax: z.string().optional(),
+  freeCancellationHours: z.number().int().min(0).max(720).optional(),
+  lateCancelFeePercent: z.number().min(0).max(100).optional(),
+  noShowFeePercent: z.number().min(0).max(100).optional(),
+  chargeUnpaidBookings: z.boolean().optional(),
+  slotIntervalMinutes: z.number().int().min(5).max(240).optional(),
+  bufferMinutes: z.number().int().min(0).max(240).optional(),
+  bookingLeadTimeHours: z.number().int().min(0).max(720).optional(),
+  whatsappNotifications: z.boolean().optional(),
 });
 
 // GET /api/shops - Get all approved shops or current user's shop
@@ -65,6 +74,16 @@ export async function GET(request: NextRequest) {
         rating: shop.rating,
         reviewCount: shop.totalReviews,
         isApproved: shop.isApproved,
+        tax: shop.tax,
+        contact: shop.contact,
+        freeCancellationHours: shop.freeCancellationHours,
+        lateCancelFeePercent: Number(shop.lateCancelFeePercent),
+        noShowFeePercent: Number(shop.noShowFeePercent),
+        chargeUnpaidBookings: shop.chargeUnpaidBookings,
+        slotIntervalMinutes: shop.slotIntervalMinutes,
+        bufferMinutes: shop.bufferMinutes,
+        bookingLeadTimeHours: shop.bookingLeadTimeHours,
+        whatsappNotifications: shop.whatsappNotifications,
         isFeatured: false,
         coverImage: shop.coverUrl,
         logo: shop.profileUrl,
@@ -94,6 +113,13 @@ export async function GET(request: NextRequest) {
       where.address = { contains: city, mode: "insensitive" };
     }
 
+    // Hide shops whose owner is on either side of a block
+    const session = await getServerSession(authOptions);
+    const blockedUserIds = await getBlockedUserIds(session?.user?.id);
+    if (blockedUserIds.length > 0) {
+      where.NOT = { userId: { in: blockedUserIds } };
+    }
+
     // If category is specified, find shops that have services in that category
     if (category) {
       const shopsWithCategory = await prisma.service.findMany({
@@ -142,7 +168,7 @@ export async function GET(request: NextRequest) {
           },
         },
       },
-      orderBy: [{ rating: "desc" }, { createdAt: "desc" }],
+      orderBy: [{ rankingScore: "desc" }, { createdAt: "desc" }],
       skip: (page - 1) * limit,
       take: limit,
     });
@@ -5,18 +5,12 @@ import { writeFile, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
-
-// Allowed file types
-const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
-const ALLOWED_DOCUMENT_TYPES = ["application/pdf", "application/msword", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
-const ALLOWED_ALL_TYPES = [...ALLOWED_IMAGE_TYPES, ...ALLOWED_DOCUMENT_TYPES];
-
-// Max file sizes
-const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
-const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
-
-// Upload directories
-const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
+import {
+  UPLOAD_DIR,
+  getUploadExtension,
+  getUploadUrl,
+  validateUpload,
+} from "@/lib/uploads";
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,36 +22,17 @@ export async function POST(request: NextRequest) {
 
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
-    const type = formData.get("type") as string || "general"; // gallery, profile, cover, document, job
+    const type = formData.get("type") as string || "general"; // gallery, profile, cover, document, job, message, review
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
-    // Validate file type based on upload type
-    let allowedTypes: string[];
-    let maxSize: number;
-
-    if (type === "document" || type === "job") {
-      allowedTypes = ALLOWED_ALL_TYPES;
-      maxSize = MAX_DOCUMENT_SIZE;
-    } else {
-      allowedTypes = ALLOWED_IMAGE_TYPES;
-      maxSize = MAX_IMAGE_SIZE;
-    }
-
-    if (!allowedTypes.includes(file.type)) {
-      return NextResponse.json(
-        { error: `File type not allowed. Allowed types: ${allowedTypes.join(", ")}` },
-        { status: 400 }
-      );
-    }
+    // Validate file type and size based on upload type
+    const validationError = validateUpload(file, type);
 
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { error: `File too large. Maximum size: ${maxSize / (1024 * 1024)}MB` },
-        { status: 400 }
-      );
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
     // Create user-specific upload directory
@@ -67,8 +42,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate unique filename
-    const ext = path.extname(file.name);
-    const filename = `${uuidv4()}${ext}`;
+    const filename = `${uuidv4()}${getUploadExtension(file.type)}`;
     const filepath = path.join(userDir, filename);
 
     // Convert file to buffer and save
@@ -77,7 +51,7 @@ export async function POST(request: NextRequest) {
     await writeFile(filepath, buffer);
 
     // Return the public URL
-    const publicUrl = `/uploads/${session.user.id}/${type}/${filename}`;
+    const publicUrl = getUploadUrl(session.user.id, type, filename);
 
     return NextResponse.json({
       success: true,
@@ -127,23 +101,16 @@ export async function PUT(request: NextRequest) {
 
     for (const file of files) {
       try {
-        // Validate file type
-        const allowedTypes = type === "document" || type === "job" ? ALLOWED_ALL_TYPES : ALLOWED_IMAGE_TYPES;
-        const maxSize = type === "document" || type === "job" ? MAX_DOCUMENT_SIZE : MAX_IMAGE_SIZE;
-
-        if (!allowedTypes.includes(file.type)) {
-          errors.push(`${file.name}: File type not allowed`);
-          continue;
-        }
+        // Validate file type and size
+        const validationError = validateUpload(file, type);
 
-        if (file.size > maxSize) {
-          errors.push(`${file.name}: File too large`);
+        if (validationError) {
+          errors.push(`${file.name}: ${validationError}`);
           continue;
         }
 
         // Generate unique filename
-        const ext = path.extname(file.name);
-        const filename = `${uuidv4()}${ext}`;
+        const filename = `${uuidv4()}${getUploadExtension(file.type)}`;
         const filepath = path.join(userDir, filename);
 
         // Save file
@@ -152,7 +119,7 @@ export async function PUT(request: NextRequest) {
         await writeFile(filepath, buffer);
 
         uploadedFiles.push({
-          url: `/uploads/${session.user.id}/${type}/${filename}`,
+          url: getUploadUrl(session.user.id, type, filename),
           filename,
           size: file.size,
           type: file.type,
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasBlocked } from "@/lib/safety/blocks";
+
+// GET /api/users/[id]/block - Check whether you have blocked a user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ blocked: await hasBlocked(session.user.id, id) });
+  } catch (error) {
+    console.error("Error checking block:", error);
+    return NextResponse.json(
+      { error: "Failed to check block" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/[id]/block - Block a user
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (id === session.user.id) {
+      return NextResponse.json({ error: "You cannot block yourself" }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await prisma.userBlock.upsert({
+      where: { blockerId_blockedId: { blockerId: session.user.id, blockedId: id } },
+      create: { blockerId: session.user.id, blockedId: id },
+      update: {},
+    });
+
+    return NextResponse.json({ success: true, blocked: true });
+  } catch (error) {
+    console.error("Error blocking user:", error);
+    return NextResponse.json(
+      { error: "Failed to block user" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/[id]/block - Unblock a user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await prisma.userBlock.deleteMany({
+      where: { blockerId: session.user.id, blockedId: id },
+    });
+
+    return NextResponse.json({ success: true, blocked: false });
+  } catch (error) {
+    console.error("Error unblocking user:", error);
+    return NextResponse.json(
+      { error: "Failed to unblock user" },
+      { status: 500 }
+    );
+  }
+}
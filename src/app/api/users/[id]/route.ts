@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { updateProfileSchema } from "@/lib/validations";
+import { isSamePhoneNumber } from "@/lib/sms/phone";
 
 export async function GET(
   request: NextRequest,
@@ -136,11 +137,22 @@ export async function PATCH(
       }
     }
 
+    // A different number has to be verified again before we text it
+    let phoneChanged = false;
+    if (validatedData.phone !== undefined) {
+      const current = await prisma.user.findUnique({
+        where: { id },
+        select: { phone: true },
+      });
+      phoneChanged = !isSamePhoneNumber(validatedData.phone, current?.phone);
+    }
+
     const updatedUser = await prisma.user.update({
       where: { id },
       data: {
         ...(validatedData.username && { username: validatedData.username }),
         ...(validatedData.phone !== undefined && { phone: validatedData.phone }),
+        ...(phoneChanged && { phoneVerifiedAt: null }),
         ...(validatedData.gender && { gender: validatedData.gender }),
       },
       select: {
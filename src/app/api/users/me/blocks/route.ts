@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/users/me/blocks - Get the users you have blocked
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const blocks = await prisma.userBlock.findMany({
+      where: { blockerId: session.user.id },
+      include: {
+        blocked: {
+          select: {
+            id: true,
+            username: true,
+            picture: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      blocks: blocks.map((block) => ({
+        id: block.id,
+        createdAt: block.createdAt,
+        user: block.blocked,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching blocked users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch blocked users" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { z } from "zod";
+import { maskPhoneNumber } from "@/lib/sms/phone";
+import { PhoneVerificationError, sendPhoneVerificationCode } from "@/lib/sms/verification";
+
+const sendCodeSchema = z.object({
+  phone: z.string().min(1, "Phone number is required"),
+});
+
+// POST /api/users/me/phone - Text a verification code to a phone number
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = sendCodeSchema.parse(body);
+
+    const { phone, expiresAt } = await sendPhoneVerificationCode(
+      session.user.id,
+      validatedData.phone
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `We sent a code to ${maskPhoneNumber(phone)}`,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error("Error sending phone verification code:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PhoneVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to send verification code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { z } from "zod";
+import { confirmPhoneVerificationCode, PhoneVerificationError } from "@/lib/sms/verification";
+
+const verifyCodeSchema = z.object({
+  code: z.string().regex(/^\s*\d{6}\s*$/, "Enter the 6-digit code we sent you"),
+});
+
+// POST /api/users/me/phone/verify - Confirm a phone number with the texted code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = verifyCodeSchema.parse(body);
+
+    const { phone } = await confirmPhoneVerificationCode(session.user.id, validatedData.code);
+
+    return NextResponse.json({
+      success: true,
+      message: "Phone number verified",
+      phone,
+    });
+  } catch (error) {
+    console.error("Error verifying phone number:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PhoneVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to verify phone number" },
+      { status: 500 }
+    );
+  }
+}
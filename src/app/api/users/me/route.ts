@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { isSamePhoneNumber } from "@/lib/sms/phone";
+import { refreshReviewRatings } from "@/lib/reviews/ratings";
 
 const updateMeSchema = z.object({
   username: z.string().min(2).max(50).optional(),
@@ -35,6 +37,7 @@ export async function GET() {
         email: true,
         username: true,
         phone: true,
+        phoneVerifiedAt: true,
         picture: true,
         userType: true,
         isVerified: true,
@@ -95,11 +98,22 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    // A different number has to be verified again before we text it
+    let phoneChanged = false;
+    if (validatedData.phone !== undefined) {
+      const current = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { phone: true },
+      });
+      phoneChanged = !isSamePhoneNumber(validatedData.phone, current?.phone);
+    }
+
     const updatedUser = await prisma.user.update({
       where: { id: session.user.id },
       data: {
         ...(validatedData.username && { username: validatedData.username }),
         ...(validatedData.phone !== undefined && { phone: validatedData.phone }),
+        ...(phoneChanged && { phoneVerifiedAt: null }),
         ...(validatedData.picture !== undefined && { picture: validatedData.picture }),
       },
       select: {
@@ -107,6 +121,7 @@ export async function PATCH(request: NextRequest) {
         email: true,
         username: true,
         phone: true,
+        phoneVerifiedAt: true,
         picture: true,
         userType: true,
         updatedAt: true,
@@ -144,11 +159,21 @@ export async function DELETE() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Their reviews go with them, so the ratings they fed into need redoing
+    const reviewsGiven = await prisma.review.findMany({
+      where: { senderId: session.user.id, isVerified: true },
+      select: { receiverId: true, serviceId: true },
+    });
+
     // Delete user and all related data (cascading should handle this)
     await prisma.user.delete({
       where: { id: session.user.id },
     });
 
+    for (const review of reviewsGiven) {
+      await refreshReviewRatings(review);
+    }
+
     return NextResponse.json({
       success: true,
       message: "Account deleted successfully",
@@ -4,113 +4,34 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
 import { NotificationType, NotificationFrequency } from "@prisma/client";
+import { MAX_REMINDER_MINUTES } from "@/lib/bookings/calendar";
+import { syncUserReminders } from "@/lib/bookings/reminders";
+import { DEFAULT_PREFERENCES, getDefaultPreference } from "@/lib/notifications/preferences";
 
 const updatePreferenceSchema = z.object({
   notificationType: z.nativeEnum(NotificationType),
   emailEnabled: z.boolean().optional(),
   inAppEnabled: z.boolean().optional(),
   pushEnabled: z.boolean().optional(),
+  smsEnabled: z.boolean().optional(),
   frequency: z.nativeEnum(NotificationFrequency).optional(),
+  // Minutes before a booking to send each reminder (BOOKING_REMINDER only)
+  reminderMinutes: z
+    .array(
+      z
+        .number()
+        .int()
+        .min(5, "Reminders must be at least 5 minutes before")
+        .max(MAX_REMINDER_MINUTES, "Reminders can be at most 14 days before")
+    )
+    .max(5, "Up to 5 reminders are allowed")
+    .optional(),
 });
 
 const bulkUpdateSchema = z.object({
   preferences: z.array(updatePreferenceSchema),
 });
 
-// Default notification preferences for new users
-const DEFAULT_PREFERENCES: Array<{
-  notificationType: NotificationType;
-  emailEnabled: boolean;
-  inAppEnabled: boolean;
-  pushEnabled: boolean;
-  frequency: NotificationFrequency;
-}> = [
-  {
-    notificationType: "BOOKING_NEW",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "BOOKING_CONFIRMED",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "BOOKING_CANCELLED",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "BOOKING_COMPLETED",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: false,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "MESSAGE_NEW",
-    emailEnabled: false,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "REVIEW_NEW",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: false,
-    frequency: "DAILY_DIGEST",
-  },
-  {
-    notificationType: "JOB_APPLICATION",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "JOB_ACCEPTED",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "ORDER_UPDATE",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "PAYMENT_RECEIVED",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "PAYMENT_FAILED",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: true,
-    frequency: "REALTIME",
-  },
-  {
-    notificationType: "SYSTEM",
-    emailEnabled: true,
-    inAppEnabled: true,
-    pushEnabled: false,
-    frequency: "REALTIME",
-  },
-];
-
 // GET /api/users/notification-preferences - Get user's notification preferences
 export async function GET() {
   try {
@@ -165,7 +86,9 @@ export async function GET() {
         emailEnabled: p.emailEnabled,
         inAppEnabled: p.inAppEnabled,
         pushEnabled: p.pushEnabled,
+        smsEnabled: p.smsEnabled,
         frequency: p.frequency,
+        reminderMinutes: p.reminderMinutes,
       })),
     });
   } catch (error) {
@@ -201,18 +124,17 @@ export async function PATCH(request: NextRequest) {
 
     if (!preference) {
       // Create with defaults
-      const defaultPref = DEFAULT_PREFERENCES.find(
-        (d) => d.notificationType === notificationType
-      );
+      const defaultPref = getDefaultPreference(notificationType);
 
       preference = await prisma.notificationPreference.create({
         data: {
           userId: session.user.id,
           notificationType,
-          emailEnabled: defaultPref?.emailEnabled ?? true,
-          inAppEnabled: defaultPref?.inAppEnabled ?? true,
-          pushEnabled: defaultPref?.pushEnabled ?? false,
-          frequency: defaultPref?.frequency ?? "REALTIME",
+          emailEnabled: defaultPref.emailEnabled,
+          inAppEnabled: defaultPref.inAppEnabled,
+          pushEnabled: defaultPref.pushEnabled,
+          smsEnabled: defaultPref.smsEnabled,
+          frequency: defaultPref.frequency,
           ...updates,
         },
       });
@@ -224,6 +146,13 @@ export async function PATCH(request: NextRequest) {
       });
     }
 
+    // Re-time reminders already queued for upcoming bookings
+    if (notificationType === "BOOKING_REMINDER") {
+      await syncUserReminders(session.user.id).catch((err) =>
+        console.error("Failed to reschedule reminders:", err)
+      );
+    }
+
     return NextResponse.json({
       success: true,
       preference: {
@@ -232,7 +161,9 @@ export async function PATCH(request: NextRequest) {
         emailEnabled: preference.emailEnabled,
         inAppEnabled: preference.inAppEnabled,
         pushEnabled: preference.pushEnabled,
+        smsEnabled: preference.smsEnabled,
         frequency: preference.frequency,
+        reminderMinutes: preference.reminderMinutes,
       },
     });
   } catch (error) {
@@ -267,6 +198,8 @@ export async function PUT(request: NextRequest) {
     // Update each preference
     const updates = await Promise.all(
       preferences.map(async ({ notificationType, ...updates }) => {
+        const defaultPref = getDefaultPreference(notificationType);
+
         return prisma.notificationPreference.upsert({
           where: {
             userId_notificationType: {
@@ -277,16 +210,24 @@ export async function PUT(request: NextRequest) {
           create: {
             userId: session.user.id,
             notificationType,
-            emailEnabled: updates.emailEnabled ?? true,
-            inAppEnabled: updates.inAppEnabled ?? true,
-            pushEnabled: updates.pushEnabled ?? false,
-            frequency: updates.frequency ?? "REALTIME",
+            emailEnabled: updates.emailEnabled ?? defaultPref.emailEnabled,
+            inAppEnabled: updates.inAppEnabled ?? defaultPref.inAppEnabled,
+            pushEnabled: updates.pushEnabled ?? defaultPref.pushEnabled,
+            smsEnabled: updates.smsEnabled ?? defaultPref.smsEnabled,
+            frequency: updates.frequency ?? defaultPref.frequency,
+            reminderMinutes: updates.reminderMinutes,
           },
           update: updates,
         });
       })
     );
 
+    if (preferences.some((p) => p.notificationType === "BOOKING_REMINDER")) {
+      await syncUserReminders(session.user.id).catch((err) =>
+        console.error("Failed to reschedule reminders:", err)
+      );
+    }
+
     return NextResponse.json({
       success: true,
       updated: updates.length,
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { DEFAULT_DIGEST_TIME, DEFAULT_DIGEST_WEEKDAY } from "@/lib/notifications/digest-time";
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format");
+
+const updateSettingsSchema = z
+  .object({
+    quietHoursStart: timeOfDay.nullable().optional(),
+    quietHoursEnd: timeOfDay.nullable().optional(),
+    digestTime: timeOfDay.optional(),
+    digestWeekday: z.number().int().min(0).max(6).optional(),
+  })
+  .refine(
+    (data) => (data.quietHoursStart == null) === (data.quietHoursEnd == null),
+    { message: "Quiet hours need both a start and an end time" }
+  );
+
+// GET /api/users/notification-settings - Get the user's quiet hours and digest time
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const settings = await prisma.notificationSettings.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    return NextResponse.json({
+      settings: {
+        quietHoursStart: settings?.quietHoursStart ?? null,
+        quietHoursEnd: settings?.quietHoursEnd ?? null,
+        digestTime: settings?.digestTime ?? DEFAULT_DIGEST_TIME,
+        digestWeekday: settings?.digestWeekday ?? DEFAULT_DIGEST_WEEKDAY,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching notification settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/users/notification-settings - Set quiet hours and when digests arrive
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = updateSettingsSchema.parse(body);
+
+    const settings = await prisma.notificationSettings.upsert({
+      where: { userId: session.user.id },
+      create: { userId: session.user.id, ...data },
+      update: data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      settings: {
+        quietHoursStart: settings.quietHoursStart,
+        quietHoursEnd: settings.quietHoursEnd,
+        digestTime: settings.digestTime,
+        digestWeekday: settings.digestWeekday,
+      },
+    });
+  } catch (error) {
+    console.error("Error updating notification settings:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update notification settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { isPushConfigured, isPushServiceEndpoint, VAPID_PUBLIC_KEY } from "@/lib/push/webpush";
+
+// The shape of a browser PushSubscription's toJSON()
+const subscribeSchema = z.object({
+  endpoint: z
+    .string()
+    .url("Invalid push endpoint")
+    .refine(isPushServiceEndpoint, "Push endpoint is not a known push service"),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1, "Missing subscription key"),
+    auth: z.string().min(1, "Missing subscription auth secret"),
+  }),
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().min(1, "Endpoint is required"),
+});
+
+// GET /api/users/push-subscriptions - Get the key browsers subscribe with
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const devices = await prisma.pushSubscription.count({
+      where: { userId: session.user.id },
+    });
+
+    return NextResponse.json({
+      configured: isPushConfigured(),
+      publicKey: isPushConfigured() ? VAPID_PUBLIC_KEY : null,
+      devices,
+    });
+  } catch (error) {
+    console.error("Error fetching push settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch push settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/push-subscriptions - Save this device's push subscription
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isPushConfigured()) {
+      return NextResponse.json(
+        { error: "Push notifications are not available" },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = subscribeSchema.parse(body);
+
+    const data = {
+      p256dh: validatedData.keys.p256dh,
+      auth: validatedData.keys.auth,
+      expiresAt: validatedData.expirationTime ? new Date(validatedData.expirationTime) : null,
+      userAgent: request.headers.get("user-agent"),
+      userId: session.user.id,
+    };
+
+    // A browser keeps its endpoint across sign-ins, so it moves to whoever
+    // subscribed last
+    await prisma.pushSubscription.upsert({
+      where: { endpoint: validatedData.endpoint },
+      create: { endpoint: validatedData.endpoint, ...data },
+      update: data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Push notifications enabled on this device",
+    });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to enable push notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/push-subscriptions - Stop pushing to this device
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = unsubscribeSchema.parse(body);
+
+    await prisma.pushSubscription.deleteMany({
+      where: { endpoint: validatedData.endpoint, userId: session.user.id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Push notifications disabled on this device",
+    });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to disable push notifications" },
+      { status: 500 }
+    );
+  }
+}
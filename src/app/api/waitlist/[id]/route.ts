@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { checkSlotAvailable } from "@/lib/bookings/availability";
+import { cancelWaitlistEntry, createWaitlistOffer } from "@/lib/bookings/waitlist";
+
+const offerSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
+});
+
+// PATCH /api/waitlist/[id] - Offer a free time to a waitlisted customer (provider only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+      select: { id: true, providerId: true, serviceId: true, status: true },
+    });
+
+    if (!entry) {
+      return NextResponse.json({ error: "Waitlist entry not found" }, { status: 404 });
+    }
+
+    if (entry.providerId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the provider can offer a time" },
+        { status: 403 }
+      );
+    }
+
+    if (entry.status !== "WAITING") {
+      return NextResponse.json(
+        { error: "This customer already has an open offer or is no longer waiting" },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = offerSchema.parse(body);
+
+    const isAvailable = await checkSlotAvailable(
+      entry.providerId,
+      entry.serviceId,
+      validatedData.date,
+      validatedData.time
+    );
+
+    if (!isAvailable) {
+      return NextResponse.json(
+        { error: "This time is not free in your schedule" },
+        { status: 409 }
+      );
+    }
+
+    const offer = await createWaitlistOffer(entry.id, validatedData.date, validatedData.time);
+
+    if (!offer) {
+      return NextResponse.json(
+        { error: "This customer already has an open offer or is no longer waiting" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Time offered to the customer",
+      offer: {
+        id: offer.id,
+        date: offer.date,
+        time: offer.time,
+        status: offer.status,
+        expiresAt: offer.expiresAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error offering waitlist slot:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to offer the time" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/waitlist/[id] - Leave the waitlist, or remove a customer from it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+      select: { id: true, providerId: true, customerId: true, status: true },
+    });
+
+    if (!entry) {
+      return NextResponse.json({ error: "Waitlist entry not found" }, { status: 404 });
+    }
+
+    if (entry.customerId !== session.user.id && entry.providerId !== session.user.id) {
+      return NextResponse.json(
+        { error: "You don't have access to this waitlist entry" },
+        { status: 403 }
+      );
+    }
+
+    if (!["WAITING", "OFFERED"].includes(entry.status)) {
+      return NextResponse.json(
+        { error: "This waitlist entry is already closed" },
+        { status: 400 }
+      );
+    }
+
+    await cancelWaitlistEntry(entry.id);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        entry.customerId === session.user.id
+          ? "You've left the waitlist"
+          : "Customer removed from the waitlist",
+    });
+  } catch (error) {
+    console.error("Error removing waitlist entry:", error);
+    return NextResponse.json(
+      { error: "Failed to remove waitlist entry" },
+      { status: 500 }
+    );
+  }
+}
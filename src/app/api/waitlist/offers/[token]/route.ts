@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { claimWaitlistOffer, declineWaitlistOffer } from "@/lib/bookings/waitlist";
+
+// GET /api/waitlist/offers/[token] - Get a waitlist offer for the claim page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { token } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const offer = await prisma.waitlistOffer.findUnique({
+      where: { token },
+      include: {
+        entry: {
+          select: {
+            customerId: true,
+            service: { select: { id: true, name: true, price: true, duration: true } },
+            provider: {
+              select: {
+                id: true,
+                username: true,
+                shop: { select: { name: true, address: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!offer) {
+      return NextResponse.json({ error: "Offer not found" }, { status: 404 });
+    }
+
+    if (offer.entry.customerId !== session.user.id) {
+      return NextResponse.json(
+        { error: "This offer was made to someone else" },
+        { status: 403 }
+      );
+    }
+
+    const isOpen = offer.status === "PENDING" && offer.expiresAt > new Date();
+
+    return NextResponse.json({
+      offer: {
+        id: offer.id,
+        date: offer.date,
+        time: offer.time,
+        status: isOpen || offer.status !== "PENDING" ? offer.status : "EXPIRED",
+        expiresAt: offer.expiresAt,
+        appointmentId: offer.appointmentId,
+        service: {
+          ...offer.entry.service,
+          price: Number(offer.entry.service.price),
+        },
+        provider: offer.entry.provider,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist offer:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch waitlist offer" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/waitlist/offers/[token] - Claim the offered time as a booking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { token } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await claimWaitlistOffer(token, session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "The time is yours",
+        appointment: result.appointment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error claiming waitlist offer:", error);
+    return NextResponse.json(
+      { error: "Failed to claim the offer" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/waitlist/offers/[token] - Turn the offer down and pass it on
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { token } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await declineWaitlistOffer(token, session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Offer declined. You're still on the waitlist for other times.",
+    });
+  } catch (error) {
+    console.error("Error declining waitlist offer:", error);
+    return NextResponse.json(
+      { error: "Failed to decline the offer" },
+      { status: 500 }
+    );
+  }
+}
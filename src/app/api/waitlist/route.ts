@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { MAX_SLOT_RANGE_DAYS } from "@/lib/bookings/availability";
+import { toDateKey, toMinutes } from "@/lib/bookings/slots";
+import { expireWaitlistOffers } from "@/lib/bookings/waitlist";
+import { hasBlocked } from "@/lib/safety/blocks";
+
+const timeParam = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Invalid time format")
+  .optional()
+  .nullable();
+
+const waitlistSchema = z.object({
+  serviceId: z.string().min(1, "Service is required"),
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format"),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format"),
+  timeFrom: timeParam,
+  timeTo: timeParam,
+  notes: z.string().max(500).optional(),
+});
+
+const ACTIVE_WAITLIST_STATUSES = ["WAITING", "OFFERED"] as const;
+
+// GET /api/waitlist - Get my waitlist entries, or the waitlist for my services
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const role = searchParams.get("role"); // "client" or "provider"
+    const status = searchParams.get("status"); // "active" or a WaitlistStatus
+
+    // Offers nobody claimed move along before the list is shown
+    await expireWaitlistOffers();
+
+    const isProvider = role === "provider";
+    const where: Record<string, unknown> = isProvider
+      ? { providerId: session.user.id }
+      : { customerId: session.user.id };
+
+    if (status === "active") {
+      where.status = { in: [...ACTIVE_WAITLIST_STATUSES] };
+    } else if (status) {
+      where.status = status;
+    }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where,
+      include: {
+        service: { select: { id: true, name: true } },
+        customer: { select: { id: true, username: true, picture: true, email: true, phone: true } },
+        provider: {
+          select: { id: true, username: true, shop: { select: { id: true, name: true } } },
+        },
+        offers: {
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            date: true,
+            time: true,
+            status: true,
+            expiresAt: true,
+            respondedAt: true,
+            appointmentId: true,
+            createdAt: true,
+            // The claim link is only for the customer it was offered to
+            token: !isProvider,
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    // Place in line among customers still waiting, oldest first
+    let position = 0;
+
+    return NextResponse.json({
+      entries: entries.map((entry) => ({
+        ...entry,
+        position: isProvider && entry.status === "WAITING" ? ++position : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch waitlist" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/waitlist - Join the waitlist for a service
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = waitlistSchema.parse(body);
+
+    const service = await prisma.service.findUnique({
+      where: { id: validatedData.serviceId },
+      select: { id: true, providerId: true, isActive: true },
+    });
+
+    if (!service || !service.isActive) {
+      return NextResponse.json({ error: "Service not found" }, { status: 404 });
+    }
+
+    if (service.providerId === session.user.id) {
+      return NextResponse.json(
+        { error: "You cannot join the waitlist for your own service" },
+        { status: 400 }
+      );
+    }
+
+    if (await hasBlocked(service.providerId, session.user.id)) {
+      return NextResponse.json(
+        { error: "You can't book this provider" },
+        { status: 403 }
+      );
+    }
+
+    const { dateFrom, dateTo, timeFrom, timeTo } = validatedData;
+    const days = (new Date(dateTo).getTime() - new Date(dateFrom).getTime()) / (24 * 60 * 60 * 1000);
+
+    if (dateFrom < toDateKey(new Date())) {
+      return NextResponse.json(
+        { error: "Preferred dates cannot be in the past" },
+        { status: 400 }
+      );
+    }
+
+    if (days < 0) {
+      return NextResponse.json(
+        { error: "The end date must be on or after the start date" },
+        { status: 400 }
+      );
+    }
+
+    if (days >= MAX_SLOT_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Preferred dates can span at most ${MAX_SLOT_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    if (timeFrom && timeTo && toMinutes(timeTo) < toMinutes(timeFrom)) {
+      return NextResponse.json(
+        { error: "The latest time must be after the earliest time" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: {
+        serviceId: service.id,
+        customerId: session.user.id,
+        status: { in: [...ACTIVE_WAITLIST_STATUSES] },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "You are already on the waitlist for this service" },
+        { status: 409 }
+      );
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        serviceId: service.id,
+        providerId: service.providerId,
+        customerId: session.user.id,
+        dateFrom: new Date(dateFrom),
+        dateTo: new Date(dateTo),
+        timeFrom: timeFrom || null,
+        timeTo: timeTo || null,
+        notes: validatedData.notes,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "You're on the waitlist. We'll let you know when a time opens up.",
+        entry,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error joining waitlist:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to join the waitlist" },
+      { status: 500 }
+    );
+  }
+}
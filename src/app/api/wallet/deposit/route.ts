@@ -107,9 +107,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update payment with provider reference
-    await prisma.payment.update({
-      where: { id: payment.id },
+    // Update payment with provider reference (unless a webhook has already settled it)
+    await prisma.payment.updateMany({
+      where: { id: payment.id, status: "PENDING" },
       data: {
         providerRef: result.providerRef,
         providerData: result.providerData
@@ -21,6 +21,24 @@ export async function GET() {
       },
     });
 
+    // Gross, platform fee and net from completed bookings (providers only)
+    const earningTotals = await prisma.providerEarning.aggregate({
+      where: { providerId: session.user.id },
+      _sum: {
+        grossAmount: true,
+        feeAmount: true,
+        netAmount: true,
+      },
+      _count: { id: true },
+    });
+
+    const earnings = {
+      gross: Number(earningTotals._sum.grossAmount || 0),
+      fees: Number(earningTotals._sum.feeAmount || 0),
+      net: Number(earningTotals._sum.netAmount || 0),
+      bookings: earningTotals._count.id,
+    };
+
     if (!wallet) {
       // Create a wallet if it doesn't exist
       const newWallet = await prisma.wallet.create({
@@ -33,10 +51,10 @@ export async function GET() {
           transactions: true,
         },
       });
-      return NextResponse.json(newWallet);
+      return NextResponse.json({ ...newWallet, earnings });
     }
 
-    return NextResponse.json(wallet);
+    return NextResponse.json({ ...wallet, earnings });
   } catch (error) {
     console.error("Error fetching wallet:", error);
     return NextResponse.json(
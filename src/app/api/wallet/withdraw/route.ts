@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { dispatchNotification } from "@/lib/notifications";
 
 const withdrawalSchema = z.object({
   amount: z.number().positive().min(50, "Minimum withdrawal is R50"),
@@ -141,37 +142,26 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Create a notification for admin
-    await prisma.notification.create({
-      data: {
-        userId: session.user.id, // For now, notify the user. In production, notify admins
-        type: "SYSTEM",
-        title: "Withdrawal Request Submitted",
-        message: `Your withdrawal request for R${data.amount.toFixed(2)} has been submitted and is pending review.`,
-        metadata: JSON.parse(
-          JSON.stringify({
-            withdrawalId: withdrawal.id,
-            amount: data.amount,
-          })
-        ),
-      },
-    });
-
-    // Get user for email
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { email: true, username: true },
+      select: { username: true },
     });
 
-    // Send confirmation email
-    if (user?.email) {
-      const { sendEmail } = await import("@/lib/email");
-      await sendEmail(
-        user.email,
-        "Withdrawal Request Received",
-        `
+    // Let the user know the request was received
+    await dispatchNotification({
+      userId: session.user.id,
+      type: "SYSTEM",
+      title: "Withdrawal Request Submitted",
+      message: `Your withdrawal request for R${data.amount.toFixed(2)} has been submitted and is pending review.`,
+      metadata: {
+        withdrawalId: withdrawal.id,
+        amount: data.amount,
+      },
+      email: {
+        subject: "Withdrawal Request Received",
+        html: `
         <h2>Withdrawal Request Received</h2>
-        <p>Hi ${user.username},</p>
+        <p>Hi ${user?.username},</p>
         <p>We have received your withdrawal request for <strong>R${data.amount.toFixed(2)}</strong>.</p>
         <div style="background: #f3f4f6; padding: 15px; border-radius: 6px; margin: 15px 0;">
           <p><strong>Amount:</strong> R${data.amount.toFixed(2)}</p>
@@ -181,9 +171,9 @@ export async function POST(request: NextRequest) {
         </div>
         <p>Your request will be reviewed within 1-3 business days. You will receive an email once it has been processed.</p>
         <p>Best regards,<br>Mzansi Market Team</p>
-        `
-      );
-    }
+        `,
+      },
+    });
 
     return NextResponse.json({
       success: true,
@@ -9,6 +9,8 @@ import { Button } from "@/components/ui/Button";
 import { Spinner } from "@/components/ui/Spinner";
 import { Alert } from "@/components/ui/Alert";
 import { BookingForm } from "@/components/bookings/BookingForm";
+import { CancellationPolicyNotice } from "@/components/bookings/CancellationPolicyNotice";
+import { CancellationPolicy } from "@/lib/payments/cancellation";
 import { formatCurrency } from "@/lib/utils";
 import { ArrowLeft, Star } from "lucide-react";
 
@@ -18,9 +20,11 @@ interface Service {
   description?: string | null;
   price: number | null;
   chargeTime?: string | null;
+  duration?: number | null;
   category?: string | null;
   rating?: number | null;
   totalReviews?: number;
+  cancellationPolicy: CancellationPolicy;
   user: {
     id: string;
     username: string;
@@ -157,6 +161,7 @@ export default function BookServicePage({
                     description: service.description || undefined,
                     price: service.price,
                     chargeTime: service.chargeTime,
+                    duration: service.duration,
                   }}
                   provider={{
                     id: service.user.id,
@@ -230,6 +235,8 @@ export default function BookServicePage({
                     </Link>
                   </div>
                 )}
+
+                <CancellationPolicyNotice policy={service.cancellationPolicy} />
               </CardContent>
             </Card>
           </div>
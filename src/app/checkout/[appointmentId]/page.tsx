@@ -9,6 +9,9 @@ import { Button } from "@/components/ui/Button";
 import { Spinner } from "@/components/ui/Spinner";
 import { Alert } from "@/components/ui/Alert";
 import { formatCurrency, formatDate } from "@/lib/utils";
+import { BOOKING_FEE_RATE, calculateAppointmentCharge } from "@/lib/payments/pricing";
+import { CancellationPolicy } from "@/lib/payments/cancellation";
+import { CancellationPolicyNotice } from "@/components/bookings/CancellationPolicyNotice";
 import {
   ArrowLeft,
   Calendar,
@@ -26,6 +29,7 @@ interface Appointment {
   date: string;
   time: string;
   status: string;
+  holdExpiresAt?: string | null;
   notes?: string;
   address?: string;
   service: {
@@ -44,6 +48,7 @@ interface Appointment {
       tax?: string | null;
     } | null;
   };
+  cancellationPolicy: CancellationPolicy;
 }
 
 interface PaymentProvider {
@@ -68,6 +73,7 @@ export default function CheckoutPage({
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState("");
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
   // Fetch appointment details
   useEffect(() => {
@@ -112,6 +118,14 @@ export default function CheckoutPage({
     }
   }, [session?.user?.id]);
 
+  // Tick the slot hold countdown
+  useEffect(() => {
+    if (!appointment?.holdExpiresAt) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [appointment?.holdExpiresAt]);
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -119,12 +133,14 @@ export default function CheckoutPage({
     }
   }, [status, appointmentId, router]);
 
-  const servicePrice = appointment?.service?.price || 0;
-  const commissionRate = 8; // 8%
   const taxRate = parseFloat(appointment?.provider.shop?.tax || "0");
-  const commission = servicePrice * (commissionRate / 100);
-  const tax = servicePrice * (taxRate / 100);
-  const totalAmount = servicePrice + commission + tax;
+  const commissionRate = BOOKING_FEE_RATE;
+  const {
+    subtotal: servicePrice,
+    bookingFee: commission,
+    tax,
+    total: totalAmount,
+  } = calculateAppointmentCharge(appointment?.service?.price || 0, taxRate);
 
   const paymentProviders: PaymentProvider[] = [
     {
@@ -194,6 +210,16 @@ export default function CheckoutPage({
     }
   };
 
+  const holdRemaining = appointment?.holdExpiresAt
+    ? new Date(appointment.holdExpiresAt).getTime() - now
+    : null;
+  const holdExpired = holdRemaining !== null && holdRemaining <= 0;
+
+  const formatCountdown = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  };
+
   const handleSkipPayment = () => {
     // Allow user to skip payment and pay later
     router.push("/dashboard/bookings");
@@ -273,6 +299,24 @@ export default function CheckoutPage({
 
         {error && <Alert variant="error" className="mb-6">{error}</Alert>}
 
+        {holdRemaining !== null && (
+          holdExpired ? (
+            <Alert variant="error" className="mb-6">
+              Your hold on this time slot has expired and it may have been booked by someone else.{" "}
+              {appointment.service && (
+                <Link href={`/book/${appointment.service.id}`} className="underline font-medium">
+                  Choose a new time
+                </Link>
+              )}
+            </Alert>
+          ) : (
+            <Alert variant="warning" className="mb-6">
+              We&apos;re holding this time slot for you for {formatCountdown(holdRemaining)}.
+              Complete your payment before then to keep it.
+            </Alert>
+          )
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Payment Options */}
           <div className="lg:col-span-2 space-y-6">
@@ -321,7 +365,7 @@ export default function CheckoutPage({
             <div className="flex flex-col sm:flex-row gap-4">
               <Button
                 onClick={handlePayment}
-                disabled={!selectedProvider || isProcessing}
+                disabled={!selectedProvider || isProcessing || holdExpired}
                 className="flex-1"
                 size="lg"
               >
@@ -422,6 +466,8 @@ export default function CheckoutPage({
                     </span>
                   </div>
                 </div>
+
+                <CancellationPolicyNotice policy={appointment.cancellationPolicy} />
               </CardContent>
             </Card>
 
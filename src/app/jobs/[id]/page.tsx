@@ -23,6 +23,7 @@ import {
   Share2,
   Heart,
   CheckCircle,
+  MessageCircle,
 } from "lucide-react";
 
 interface Job {
@@ -313,10 +314,18 @@ export default function JobDetailPage({
                     )}
                   </div>
                 </div>
-                <div className="mt-4">
+                <div className="mt-4 space-y-2">
                   <Button variant="outline" className="w-full" asChild>
                     <Link href={`/users/${job.poster.id}`}>View Profile</Link>
                   </Button>
+                  {status === "authenticated" && !isOwner && (
+                    <Button variant="ghost" className="w-full" asChild>
+                      <Link href={`/dashboard/messages/new?jobId=${job.id}`}>
+                        <MessageCircle className="w-4 h-4 mr-2" />
+                        Ask About This Job
+                      </Link>
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
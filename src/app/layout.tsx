@@ -1,5 +1,5 @@
 import type { Metadata } from "next";
-import { SessionProvider, ThemeProvider } from "@/components/providers";
+import { RealtimeProvider, SessionProvider, ThemeProvider } from "@/components/providers";
 import { getActiveTheme, generateThemeCSSVariables, darkModeScript } from "@/lib/theme";
 import "./globals.css";
 
@@ -65,7 +65,9 @@ export default async function RootLayout({
       </head>
       <body className="font-sans antialiased min-h-screen bg-background text-foreground">
         <SessionProvider>
-          <ThemeProvider initialTheme={theme}>{children}</ThemeProvider>
+          <RealtimeProvider>
+            <ThemeProvider initialTheme={theme}>{children}</ThemeProvider>
+          </RealtimeProvider>
         </SessionProvider>
       </body>
     </html>
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Spinner } from "@/components/ui/Spinner";
+import { Alert } from "@/components/ui/Alert";
+import { formatDate } from "@/lib/utils";
+import { Calendar, Clock, MapPin, Loader2, CheckCircle } from "lucide-react";
+
+interface ReminderBooking {
+  id: string;
+  date: string;
+  time: string;
+  duration: number;
+  status: "PENDING" | "CONFIRMED" | "COMPLETED" | "CANCELLED" | "NO_SHOW";
+  hasStarted: boolean;
+  attendanceConfirmedAt?: string | null;
+  serviceName: string;
+  providerName: string;
+  address?: string | null;
+  cancellationPolicy: string[];
+  cancellationFee: number;
+}
+
+export default function ReminderResponsePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = use(params);
+  const [booking, setBooking] = useState<ReminderBooking | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processing, setProcessing] = useState<"confirm" | "cancel" | null>(null);
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    const fetchBooking = async () => {
+      try {
+        const response = await fetch(`/api/appointments/respond/${token}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setBooking(data.appointment);
+        } else {
+          setError(data.error || "Booking not found");
+        }
+      } catch (err) {
+        setError("Failed to load the booking");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBooking();
+  }, [token]);
+
+  const handleRespond = async (action: "confirm" | "cancel") => {
+    setProcessing(action);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/appointments/respond/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update the booking");
+      }
+
+      setSuccess(data.message);
+      setConfirmingCancel(false);
+      setBooking((current) =>
+        current
+          ? action === "confirm"
+            ? { ...current, attendanceConfirmedAt: new Date().toISOString() }
+            : { ...current, status: "CANCELLED" }
+          : current
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen bg-background py-8">
+        <div className="container mx-auto px-4 max-w-2xl">
+          <Alert variant="error">{error || "Booking not found"}</Alert>
+          <Button asChild className="mt-4">
+            <Link href="/dashboard/bookings">View Bookings</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const canRespond = !booking.hasStarted && ["PENDING", "CONFIRMED"].includes(booking.status);
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container mx-auto px-4 max-w-2xl">
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold mb-2">Your Upcoming Booking</h1>
+          <p className="text-muted-foreground">
+            {booking.serviceName} with {booking.providerName}
+          </p>
+        </div>
+
+        {error && <Alert variant="error" className="mb-6">{error}</Alert>}
+        {success && <Alert variant="success" className="mb-6">{success}</Alert>}
+
+        {!success && booking.status === "CANCELLED" && (
+          <Alert variant="info" className="mb-6">This booking has been cancelled.</Alert>
+        )}
+        {!success && booking.status !== "CANCELLED" && !canRespond && (
+          <Alert variant="info" className="mb-6">
+            This booking can no longer be changed from a reminder.
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{booking.serviceName}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3 text-sm">
+              <div className="flex items-center gap-3">
+                <Calendar className="w-4 h-4 text-muted-foreground" />
+                <span>{formatDate(new Date(booking.date))}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Clock className="w-4 h-4 text-muted-foreground" />
+                <span>
+                  {booking.time} ({booking.duration} min)
+                </span>
+              </div>
+              {booking.address && (
+                <div className="flex items-center gap-3">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span>{booking.address}</span>
+                </div>
+              )}
+            </div>
+
+            {booking.attendanceConfirmedAt && booking.status === "CONFIRMED" && (
+              <div className="flex items-center gap-2 text-sm text-success">
+                <CheckCircle className="w-4 h-4" />
+                You&apos;ve confirmed you&apos;re coming
+              </div>
+            )}
+
+            {canRespond && (
+              <div className="pt-4 border-t space-y-4">
+                {confirmingCancel ? (
+                  <>
+                    <div className="text-sm text-muted-foreground space-y-1">
+                      {booking.cancellationPolicy.map((line) => (
+                        <p key={line}>{line}</p>
+                      ))}
+                    </div>
+                    {booking.cancellationFee > 0 && (
+                      <Alert variant="warning">
+                        Cancelling now costs R{booking.cancellationFee.toFixed(2)}.
+                      </Alert>
+                    )}
+                    <div className="flex gap-3">
+                      <Button
+                        variant="danger"
+                        className="flex-1"
+                        onClick={() => handleRespond("cancel")}
+                        disabled={processing !== null}
+                      >
+                        {processing === "cancel" ? (
+                          <>
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            Cancelling...
+                          </>
+                        ) : (
+                          "Yes, Cancel Booking"
+                        )}
+                      </Button>
+                      <Button variant="outline" onClick={() => setConfirmingCancel(false)}>
+                        Keep Booking
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex gap-3">
+                    {booking.status === "CONFIRMED" && !booking.attendanceConfirmedAt && (
+                      <Button
+                        className="flex-1"
+                        onClick={() => handleRespond("confirm")}
+                        disabled={processing !== null}
+                      >
+                        {processing === "confirm" ? (
+                          <>
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            Confirming...
+                          </>
+                        ) : (
+                          "I'll Be There"
+                        )}
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => setConfirmingCancel(true)}>
+                      Cancel Booking
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="pt-2">
+              <Link
+                href={`/dashboard/bookings/${booking.id}`}
+                className="text-sm text-primary hover:underline"
+              >
+                View full booking details
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
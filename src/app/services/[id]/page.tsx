@@ -21,6 +21,8 @@ import {
   Heart,
 } from "lucide-react";
 import { ServiceImage } from "@/components/services";
+import { WaitlistForm } from "@/components/bookings/WaitlistForm";
+import { ReviewPhotos } from "@/components/reviews/ReviewPhotos";
 
 interface Props {
   params: Promise<{ id: string }>;
@@ -119,9 +121,9 @@ export default async function ServiceDetailPage({ params }: Props) {
     take: 4,
   });
 
-  // Get reviews for the provider
+  // Get reviews of this service
   const reviews = await prisma.review.findMany({
-    where: { receiverId: service.providerId },
+    where: { serviceId: service.id },
     include: {
       sender: {
         select: {
@@ -130,6 +132,13 @@ export default async function ServiceDetailPage({ params }: Props) {
           picture: true,
         },
       },
+      photos: {
+        select: {
+          id: true,
+          url: true,
+        },
+        orderBy: { createdAt: "asc" },
+      },
     },
     orderBy: { createdAt: "desc" },
     take: 5,
@@ -163,6 +172,14 @@ export default async function ServiceDetailPage({ params }: Props) {
                   {service.category?.name || "Other"}
                 </Badge>
                 <h1 className="text-3xl font-bold">{service.name}</h1>
+                {service.totalReviews > 0 && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <StarRating value={service.rating} readonly size="sm" showValue />
+                    <span className="text-sm text-muted-foreground">
+                      ({service.totalReviews} verified review{service.totalReviews !== 1 ? "s" : ""})
+                    </span>
+                  </div>
+                )}
               </div>
               <div className="flex gap-2">
                 <Tooltip content="Save to favorites">
@@ -217,10 +234,20 @@ export default async function ServiceDetailPage({ params }: Props) {
                         <div className="flex items-center gap-2 mb-1">
                           <span className="font-medium">{review.sender.username}</span>
                           <StarRating value={review.rating} readonly size="sm" />
+                          {review.isVerified && (
+                            <Badge variant="success" size="sm">
+                              Verified booking
+                            </Badge>
+                          )}
                         </div>
                         {review.text && (
                           <p className="text-muted-foreground">{review.text}</p>
                         )}
+                        {review.photos.length > 0 && (
+                          <div className="mt-2">
+                            <ReviewPhotos photos={review.photos} size="sm" />
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -251,10 +278,12 @@ export default async function ServiceDetailPage({ params }: Props) {
                 </Link>
               </Button>
 
-              <Button variant="outline" className="w-full">
+              <Button variant="outline" className="w-full mb-3">
                 <MessageSquare className="w-5 h-5 mr-2" />
                 Contact Provider
               </Button>
+
+              <WaitlistForm serviceId={service.id} providerId={service.providerId} />
             </CardContent>
           </Card>
 
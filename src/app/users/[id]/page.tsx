@@ -14,6 +14,7 @@ import {
   Spinner,
   Avatar,
 } from "@/components/ui";
+import { BlockUserButton } from "@/components/safety/BlockUserButton";
 
 type UserProfile = {
   id: string;
@@ -236,6 +237,7 @@ export default function UserProfilePage() {
                     <Button variant="outline">View Shop</Button>
                   </Link>
                 )}
+                <BlockUserButton userId={user.id} username={user.username} variant="ghost" />
               </div>
             </div>
           </div>
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Spinner } from "@/components/ui/Spinner";
+import { Alert } from "@/components/ui/Alert";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { ArrowLeft, Calendar, Clock, MapPin, Loader2, CheckCircle } from "lucide-react";
+
+interface WaitlistOffer {
+  id: string;
+  date: string;
+  time: string;
+  status: "PENDING" | "CLAIMED" | "DECLINED" | "EXPIRED";
+  expiresAt: string;
+  appointmentId?: string | null;
+  service: {
+    id: string;
+    name: string;
+    price: number;
+    duration: number;
+  };
+  provider: {
+    id: string;
+    username: string;
+    shop?: {
+      name: string;
+      address?: string | null;
+    } | null;
+  };
+}
+
+export default function WaitlistOfferPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = use(params);
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Fetch the offer
+  useEffect(() => {
+    const fetchOffer = async () => {
+      try {
+        const response = await fetch(`/api/waitlist/offers/${token}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setOffer(data.offer);
+        } else {
+          setError(data.error || "Offer not found");
+        }
+      } catch (err) {
+        setError("Failed to load the offer");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (session?.user?.id) {
+      fetchOffer();
+    }
+  }, [token, session?.user?.id]);
+
+  // Tick the claim countdown
+  useEffect(() => {
+    if (offer?.status !== "PENDING") return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [offer?.status]);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push(`/login?callbackUrl=/waitlist/${token}`);
+    }
+  }, [status, token, router]);
+
+  const remaining = offer ? new Date(offer.expiresAt).getTime() - now : 0;
+  const isOpen = offer?.status === "PENDING" && remaining > 0;
+
+  const formatCountdown = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  };
+
+  const handleClaim = async () => {
+    setIsProcessing(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/waitlist/offers/${token}`, { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        // The offer ran out or someone booked the time first
+        if (response.status === 409 || response.status === 410) {
+          setOffer((current) => (current ? { ...current, status: "EXPIRED" } : current));
+        }
+        throw new Error(data.error || "Failed to claim the offer");
+      }
+
+      setSuccess("The time is yours!");
+
+      // Paid services go straight to checkout to keep the slot
+      setTimeout(() => {
+        if (data.appointment.price > 0) {
+          router.push(`/checkout/${data.appointment.id}`);
+        } else {
+          router.push(`/dashboard/bookings/${data.appointment.id}`);
+        }
+      }, 1000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    setIsProcessing(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/waitlist/offers/${token}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to decline the offer");
+      }
+
+      setSuccess(data.message);
+      setOffer((current) => (current ? { ...current, status: "DECLINED" } : current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (isLoading || status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!offer) {
+    return (
+      <div className="min-h-screen bg-background py-8">
+        <div className="container mx-auto px-4 max-w-2xl">
+          <Alert variant="error">{error || "Offer not found"}</Alert>
+          <Button asChild className="mt-4">
+            <Link href="/dashboard/waitlist">View Waitlist</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (offer.status === "CLAIMED" && offer.appointmentId) {
+    return (
+      <div className="min-h-screen bg-background py-8">
+        <div className="container mx-auto px-4 max-w-2xl text-center">
+          <CheckCircle className="w-16 h-16 text-success mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Already Booked</h1>
+          <p className="text-muted-foreground mb-6">
+            You claimed this time and it&apos;s now a booking.
+          </p>
+          <Button asChild>
+            <Link href={`/dashboard/bookings/${offer.appointmentId}`}>View Booking</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const providerName = offer.provider.shop?.name || offer.provider.username;
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container mx-auto px-4 max-w-2xl">
+        {/* Back Link */}
+        <Link
+          href="/dashboard/waitlist"
+          className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Waitlist
+        </Link>
+
+        {/* Page Header */}
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold mb-2">A Time Opened Up</h1>
+          <p className="text-muted-foreground">
+            You&apos;re next on the waitlist for {offer.service.name} with {providerName}
+          </p>
+        </div>
+
+        {error && <Alert variant="error" className="mb-6">{error}</Alert>}
+        {success && <Alert variant="success" className="mb-6">{success}</Alert>}
+
+        {isOpen ? (
+          <Alert variant="warning" className="mb-6">
+            This offer is yours for {formatCountdown(remaining)}. After that it goes to the next
+            person on the waitlist.
+          </Alert>
+        ) : (
+          !success && (
+            <Alert variant="info" className="mb-6">
+              This offer is no longer open. You&apos;re still on the waitlist and we&apos;ll let
+              you know if another time opens up.
+            </Alert>
+          )
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{offer.service.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3 text-sm">
+              <div className="flex items-center gap-3">
+                <Calendar className="w-4 h-4 text-muted-foreground" />
+                <span>{formatDate(new Date(offer.date))}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Clock className="w-4 h-4 text-muted-foreground" />
+                <span>
+                  {offer.time} ({offer.service.duration} min)
+                </span>
+              </div>
+              {offer.provider.shop?.address && (
+                <div className="flex items-center gap-3">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span>{offer.provider.shop.address}</span>
+                </div>
+              )}
+            </div>
+
+            {offer.service.price > 0 && (
+              <div className="flex justify-between pt-4 border-t">
+                <span className="text-muted-foreground">Price</span>
+                <span className="font-semibold">{formatCurrency(offer.service.price)}</span>
+              </div>
+            )}
+
+            {isOpen && (
+              <div className="flex gap-3 pt-2">
+                <Button className="flex-1" onClick={handleClaim} disabled={isProcessing}>
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Booking...
+                    </>
+                  ) : (
+                    "Claim This Time"
+                  )}
+                </Button>
+                <Button variant="outline" onClick={handleDecline} disabled={isProcessing}>
+                  No Thanks
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
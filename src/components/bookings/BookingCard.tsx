@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
 import { Avatar } from "@/components/ui/Avatar";
 import { formatCurrency, formatDate } from "@/lib/utils";
+import { hasAppointmentStarted } from "@/lib/payments/cancellation";
 import { Calendar, Clock, MapPin, MessageCircle, Phone } from "lucide-react";
 
 interface BookingCardProps {
@@ -67,7 +68,8 @@ export function BookingCard({ booking, role, onStatusChange }: BookingCardProps)
   const canCancel = isPending || isConfirmed;
 
   const bookingDate = new Date(booking.date);
-  const isPast = bookingDate < new Date();
+  // Completing releases the held payment, so it waits for the booking itself
+  const hasStarted = hasAppointmentStarted(booking.date, booking.time);
 
   return (
     <Card className="hover:shadow-md transition-shadow">
@@ -145,7 +147,7 @@ export function BookingCard({ booking, role, onStatusChange }: BookingCardProps)
               </Button>
             )}
             <Button variant="ghost" size="sm" asChild>
-              <Link href={`/dashboard/messages/new?to=${otherParty?.id}`}>
+              <Link href={`/dashboard/messages/new?to=${otherParty?.id}&appointmentId=${booking.id}`}>
                 <MessageCircle className="w-4 h-4" />
               </Link>
             </Button>
@@ -163,7 +165,7 @@ export function BookingCard({ booking, role, onStatusChange }: BookingCardProps)
                     Confirm
                   </Button>
                 )}
-                {isConfirmed && !isPast && onStatusChange && (
+                {isConfirmed && hasStarted && onStatusChange && (
                   <Button
                     size="sm"
                     onClick={() => onStatusChange(booking.id, "COMPLETED")}
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/Button";
 import { Textarea } from "@/components/ui/Textarea";
 import { Input } from "@/components/ui/Input";
 import { Alert } from "@/components/ui/Alert";
-import { DateTimePicker } from "./DateTimePicker";
+import { DateTimePicker, toLocalDateKey } from "./DateTimePicker";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import { Calendar, Clock, Loader2 } from "lucide-react";
 
@@ -16,6 +16,7 @@ interface Service {
   description?: string;
   price: number | null;
   chargeTime?: string | null;
+  duration?: number | null;
 }
 
 interface Provider {
@@ -27,6 +28,11 @@ interface Provider {
   } | null;
 }
 
+interface AlternativeSlot {
+  date: string;
+  time: string;
+}
+
 interface BookingFormProps {
   service: Service;
   provider: Provider;
@@ -49,6 +55,16 @@ export function BookingForm({
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [notes, setNotes] = useState("");
   const [address, setAddress] = useState(provider.shop?.address || "");
+  const [alternatives, setAlternatives] = useState<AlternativeSlot[]>([]);
+  const [slotsVersion, setSlotsVersion] = useState(0);
+
+  const chooseAlternative = (slot: AlternativeSlot) => {
+    const [year, month, day] = slot.date.split("-").map(Number);
+    setSelectedDate(new Date(year, month - 1, day));
+    setSelectedTime(slot.time);
+    setAlternatives([]);
+    setError("");
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,6 +77,7 @@ export function BookingForm({
     setIsLoading(true);
     setError("");
     setSuccess("");
+    setAlternatives([]);
 
     try {
       const response = await fetch("/api/appointments", {
@@ -69,7 +86,7 @@ export function BookingForm({
         body: JSON.stringify({
           serviceId: service.id,
           providerId: provider.id,
-          date: selectedDate.toISOString().split("T")[0],
+          date: toLocalDateKey(selectedDate),
           time: selectedTime,
           notes: notes || undefined,
           address: address || undefined,
@@ -78,6 +95,13 @@ export function BookingForm({
 
       const data = await response.json();
 
+      if (response.status === 409) {
+        // Someone else took the slot first; offer the next free times
+        setAlternatives(data.alternatives || []);
+        setSelectedTime(null);
+        setSlotsVersion((version) => version + 1);
+      }
+
       if (!response.ok) {
         throw new Error(data.error || "Failed to book appointment");
       }
@@ -109,6 +133,25 @@ export function BookingForm({
       {error && <Alert variant="error">{error}</Alert>}
       {success && <Alert variant="success">{success}</Alert>}
 
+      {alternatives.length > 0 && (
+        <div className="p-4 border rounded-lg">
+          <p className="text-sm font-medium mb-3">These times are still available:</p>
+          <div className="flex flex-wrap gap-2">
+            {alternatives.map((slot) => (
+              <Button
+                key={`${slot.date} ${slot.time}`}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => chooseAlternative(slot)}
+              >
+                {formatDate(slot.date)} {slot.time}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Service Summary */}
       <div className="bg-muted/50 rounded-lg p-4">
         <h3 className="font-medium mb-2">Booking Summary</h3>
@@ -123,6 +166,12 @@ export function BookingForm({
               {provider.shop?.name || provider.username}
             </span>
           </div>
+          {service.duration && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Duration:</span>
+              <span className="font-medium">{service.duration} min</span>
+            </div>
+          )}
           {service.price && (
             <div className="flex justify-between">
               <span className="text-muted-foreground">Price:</span>
@@ -139,10 +188,16 @@ export function BookingForm({
       <div>
         <h3 className="font-medium mb-3">Select Date & Time</h3>
         <DateTimePicker
+          providerId={provider.id}
+          serviceId={service.id}
           selectedDate={selectedDate}
           selectedTime={selectedTime}
-          onDateChange={setSelectedDate}
+          onDateChange={(date) => {
+            setSelectedDate(date);
+            setSelectedTime(null);
+          }}
           onTimeChange={setSelectedTime}
+          refreshKey={slotsVersion}
         />
       </div>
 
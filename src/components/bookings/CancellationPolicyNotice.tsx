@@ -0,0 +1,28 @@
+"use client";
+
+import { CalendarX } from "lucide-react";
+import {
+  CancellationPolicy,
+  describeCancellationPolicy,
+} from "@/lib/payments/cancellation";
+
+interface CancellationPolicyNoticeProps {
+  policy: CancellationPolicy;
+  className?: string;
+}
+
+export function CancellationPolicyNotice({ policy, className = "" }: CancellationPolicyNoticeProps) {
+  return (
+    <div className={`p-3 bg-muted/50 rounded-lg ${className}`}>
+      <p className="flex items-center gap-2 text-sm font-medium mb-1">
+        <CalendarX className="w-4 h-4" />
+        Cancellation Policy
+      </p>
+      <ul className="text-xs text-muted-foreground space-y-1">
+        {describeCancellationPolicy(policy).map((line) => (
+          <li key={line}>{line}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,26 +1,26 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Button } from "@/components/ui/Button";
+import { Spinner } from "@/components/ui/Spinner";
 import { cn } from "@/lib/utils";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
 interface DateTimePickerProps {
+  providerId: string;
+  serviceId?: string;
   selectedDate: Date | null;
   selectedTime: string | null;
   onDateChange: (date: Date) => void;
   onTimeChange: (time: string) => void;
-  availableHours?: { start: string; end: string };
-  bookedSlots?: string[]; // Format: "YYYY-MM-DD HH:MM"
   minDate?: Date;
+  refreshKey?: number; // Change to reload the slots, e.g. after a booking conflict
 }
 
-const timeSlots = [
-  "08:00", "08:30", "09:00", "09:30", "10:00", "10:30",
-  "11:00", "11:30", "12:00", "12:30", "13:00", "13:30",
-  "14:00", "14:30", "15:00", "15:30", "16:00", "16:30",
-  "17:00", "17:30", "18:00",
-];
+interface DaySlots {
+  date: string;
+  slots: string[];
+}
 
 const daysOfWeek = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const months = [
@@ -28,19 +28,73 @@ const months = [
   "July", "August", "September", "October", "November", "December",
 ];
 
+// YYYY-MM-DD for a calendar day picked in the browser's local time
+export function toLocalDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
 export function DateTimePicker({
+  providerId,
+  serviceId,
   selectedDate,
   selectedTime,
   onDateChange,
   onTimeChange,
-  availableHours = { start: "08:00", end: "18:00" },
-  bookedSlots = [],
   minDate = new Date(),
+  refreshKey = 0,
 }: DateTimePickerProps) {
   const [currentMonth, setCurrentMonth] = useState(() => {
     const today = new Date();
     return new Date(today.getFullYear(), today.getMonth(), 1);
   });
+  const [slotsByDate, setSlotsByDate] = useState<Record<string, string[]>>({});
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+
+  // Load the bookable slots for the month on display
+  useEffect(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const monthStart = currentMonth < today ? today : currentMonth;
+    const monthEnd = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+
+    if (monthEnd < monthStart) {
+      setSlotsByDate({});
+      return;
+    }
+
+    const params = new URLSearchParams({
+      providerId,
+      from: toLocalDateKey(monthStart),
+      to: toLocalDateKey(monthEnd),
+    });
+    if (serviceId) params.set("serviceId", serviceId);
+
+    let cancelled = false;
+    setIsLoadingSlots(true);
+
+    fetch(`/api/availability/slots?${params}`)
+      .then((response) => (response.ok ? response.json() : { days: [] }))
+      .then((data: { days: DaySlots[] }) => {
+        if (cancelled) return;
+        setSlotsByDate(
+          Object.fromEntries(data.days.map((day) => [day.date, day.slots]))
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setSlotsByDate({});
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSlots(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [providerId, serviceId, currentMonth, refreshKey]);
 
   // Generate calendar days
   const calendarDays = useMemo(() => {
@@ -67,39 +121,9 @@ export function DateTimePicker({
     return days;
   }, [currentMonth]);
 
-  // Filter available time slots
-  const availableTimeSlots = useMemo(() => {
-    if (!selectedDate) return [];
-
-    const dateStr = selectedDate.toISOString().split("T")[0];
-    const today = new Date();
-    const isToday = selectedDate.toDateString() === today.toDateString();
-
-    return timeSlots.filter((slot) => {
-      // Check if within available hours
-      if (slot < availableHours.start || slot > availableHours.end) {
-        return false;
-      }
-
-      // Check if slot is in the past (for today)
-      if (isToday) {
-        const [hours, minutes] = slot.split(":").map(Number);
-        const slotTime = new Date(today);
-        slotTime.setHours(hours, minutes, 0, 0);
-        if (slotTime <= today) {
-          return false;
-        }
-      }
-
-      // Check if slot is booked
-      const slotKey = `${dateStr} ${slot}`;
-      if (bookedSlots.includes(slotKey)) {
-        return false;
-      }
-
-      return true;
-    });
-  }, [selectedDate, availableHours, bookedSlots]);
+  const availableTimeSlots = selectedDate
+    ? slotsByDate[toLocalDateKey(selectedDate)] || []
+    : [];
 
   const goToPreviousMonth = () => {
     setCurrentMonth(
@@ -116,7 +140,11 @@ export function DateTimePicker({
   const isDateDisabled = (date: Date) => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    return date < today || date < minDate;
+    return (
+      date < today ||
+      date < minDate ||
+      (!isLoadingSlots && !slotsByDate[toLocalDateKey(date)]?.length)
+    );
   };
 
   const isDateSelected = (date: Date) => {
@@ -200,7 +228,11 @@ export function DateTimePicker({
       {selectedDate && (
         <div className="border rounded-lg p-4">
           <h3 className="font-medium mb-3">Available Times</h3>
-          {availableTimeSlots.length === 0 ? (
+          {isLoadingSlots ? (
+            <div className="flex justify-center py-4">
+              <Spinner />
+            </div>
+          ) : availableTimeSlots.length === 0 ? (
             <p className="text-sm text-muted-foreground">
               No available time slots for this date
             </p>
@@ -0,0 +1,365 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import { Textarea } from "@/components/ui/Textarea";
+import { Alert } from "@/components/ui/Alert";
+import { Spinner } from "@/components/ui/Spinner";
+import { DateTimePicker, toLocalDateKey } from "./DateTimePicker";
+import { formatDate, formatDateTime } from "@/lib/utils";
+import { ArrowRight, CalendarClock, Check, Undo2, X } from "lucide-react";
+
+interface RescheduleProposal {
+  id: string;
+  date: string;
+  time: string;
+  message?: string | null;
+  status: "PENDING" | "ACCEPTED" | "DECLINED" | "COUNTERED" | "WITHDRAWN";
+  previousDate: string;
+  previousTime: string;
+  respondedAt?: string | null;
+  createdAt: string;
+  counterToId?: string | null;
+  proposedBy: {
+    id: string;
+    username: string;
+  };
+}
+
+interface AlternativeSlot {
+  date: string;
+  time: string;
+}
+
+interface RescheduleTimelineProps {
+  appointmentId: string;
+  providerId: string;
+  serviceId?: string | null;
+  currentUserId: string;
+  reloadKey?: number;
+  onRescheduled?: () => void;
+}
+
+const proposalColors: Record<string, "success" | "warning" | "error" | "secondary" | "primary"> = {
+  PENDING: "warning",
+  ACCEPTED: "success",
+  DECLINED: "error",
+  COUNTERED: "primary",
+  WITHDRAWN: "secondary",
+};
+
+const proposalLabels: Record<string, string> = {
+  PENDING: "Awaiting reply",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+  COUNTERED: "Countered",
+  WITHDRAWN: "Withdrawn",
+};
+
+export function RescheduleTimeline({
+  appointmentId,
+  providerId,
+  serviceId,
+  currentUserId,
+  reloadKey = 0,
+  onRescheduled,
+}: RescheduleTimelineProps) {
+  const [proposals, setProposals] = useState<RescheduleProposal[]>([]);
+  const [pendingProposalId, setPendingProposalId] = useState<string | null>(null);
+  const [canPropose, setCanPropose] = useState(false);
+  const [canRespond, setCanRespond] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  const [showForm, setShowForm] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [alternatives, setAlternatives] = useState<AlternativeSlot[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    const fetchProposals = async () => {
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/reschedule`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setProposals(data.proposals);
+          setPendingProposalId(data.pendingProposalId);
+          setCanPropose(data.canPropose);
+          setCanRespond(data.canRespond);
+        }
+      } catch (err) {
+        console.error("Error fetching reschedule proposals:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProposals();
+  }, [appointmentId, reloadKey, version]);
+
+  const pending = proposals.find((p) => p.id === pendingProposalId) || null;
+  const isCounter = canRespond;
+
+  const resetForm = () => {
+    setShowForm(false);
+    setSelectedDate(null);
+    setSelectedTime(null);
+    setMessage("");
+    setAlternatives([]);
+  };
+
+  const chooseAlternative = (slot: AlternativeSlot) => {
+    const [year, month, day] = slot.date.split("-").map(Number);
+    setSelectedDate(new Date(year, month - 1, day));
+    setSelectedTime(slot.time);
+    setAlternatives([]);
+    setError("");
+  };
+
+  const handlePropose = async () => {
+    if (!selectedDate || !selectedTime) {
+      setError("Please select a new date and time");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    setSuccess("");
+    setAlternatives([]);
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/reschedule`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: toLocalDateKey(selectedDate),
+          time: selectedTime,
+          message: message || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 409 && data.alternatives) {
+        setAlternatives(data.alternatives);
+        setSelectedTime(null);
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to propose a new time");
+      }
+
+      setSuccess(data.message);
+      resetForm();
+      setVersion((v) => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRespond = async (proposalId: string, action: "accept" | "decline" | "withdraw") => {
+    setSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/reschedule`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ proposalId, action }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to respond to the request");
+      }
+
+      setSuccess(data.message);
+      resetForm();
+
+      // The booking itself moved, so the page reloads it along with this card
+      if (action === "accept" && onRescheduled) {
+        onRescheduled();
+      } else {
+        setVersion((v) => v + 1);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex justify-center">
+          <Spinner />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (proposals.length === 0 && !canPropose) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          Reschedule
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="error">{error}</Alert>}
+        {success && <Alert variant="success">{success}</Alert>}
+
+        {proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Need a different time? Suggest one and the other party can accept it or offer another.
+          </p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {proposals.map((proposal) => {
+              const isMine = proposal.proposedBy.id === currentUserId;
+
+              return (
+                <li key={proposal.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary" />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm font-medium">
+                      {isMine ? "You" : proposal.proposedBy.username}{" "}
+                      {proposal.counterToId ? "suggested another time" : "asked to reschedule"}
+                    </p>
+                    <Badge variant={proposalColors[proposal.status]} size="sm">
+                      {proposalLabels[proposal.status]}
+                    </Badge>
+                  </div>
+                  <p className="flex flex-wrap items-center gap-2 text-sm mt-1">
+                    <span className="text-muted-foreground line-through">
+                      {formatDate(new Date(proposal.previousDate))} {proposal.previousTime}
+                    </span>
+                    <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    <span className="font-medium">
+                      {formatDate(new Date(proposal.date))} {proposal.time}
+                    </span>
+                  </p>
+                  {proposal.message && (
+                    <p className="text-sm p-3 mt-2 bg-muted/50 rounded-lg">{proposal.message}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDateTime(proposal.createdAt)}
+                    {proposal.respondedAt &&
+                      ` · ${proposalLabels[proposal.status].toLowerCase()} ${formatDateTime(proposal.respondedAt)}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {pending && (
+          <div className="flex flex-wrap gap-3">
+            {canRespond && (
+              <>
+                <Button onClick={() => handleRespond(pending.id, "accept")} disabled={submitting}>
+                  <Check className="w-4 h-4 mr-2" />
+                  Accept New Time
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleRespond(pending.id, "decline")}
+                  disabled={submitting}
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Decline
+                </Button>
+              </>
+            )}
+            {pending.proposedBy.id === currentUserId && (
+              <Button
+                variant="outline"
+                onClick={() => handleRespond(pending.id, "withdraw")}
+                disabled={submitting}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Withdraw Request
+              </Button>
+            )}
+          </div>
+        )}
+
+        {canPropose && !showForm && (
+          <Button variant={pending ? "ghost" : "outline"} onClick={() => setShowForm(true)}>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            {isCounter ? "Suggest Another Time" : "Propose New Time"}
+          </Button>
+        )}
+
+        {canPropose && showForm && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            {alternatives.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-3">These times are still available:</p>
+                <div className="flex flex-wrap gap-2">
+                  {alternatives.map((slot) => (
+                    <Button
+                      key={`${slot.date} ${slot.time}`}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => chooseAlternative(slot)}
+                    >
+                      {formatDate(slot.date)} {slot.time}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <DateTimePicker
+              providerId={providerId}
+              serviceId={serviceId || undefined}
+              selectedDate={selectedDate}
+              selectedTime={selectedTime}
+              onDateChange={(date) => {
+                setSelectedDate(date);
+                setSelectedTime(null);
+              }}
+              onTimeChange={setSelectedTime}
+            />
+
+            <Textarea
+              label="Message (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Let them know why you need a different time"
+              maxLength={500}
+            />
+
+            <div className="flex gap-3">
+              <Button onClick={handlePropose} disabled={submitting || !selectedDate || !selectedTime}>
+                {isCounter ? "Send Counter-Proposal" : "Send Request"}
+              </Button>
+              <Button variant="ghost" onClick={resetForm} disabled={submitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
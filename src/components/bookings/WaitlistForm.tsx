@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
+import { Alert } from "@/components/ui/Alert";
+import { toLocalDateKey } from "./DateTimePicker";
+import { Hourglass, Loader2 } from "lucide-react";
+
+interface WaitlistFormProps {
+  serviceId: string;
+  providerId: string;
+}
+
+export function WaitlistForm({ serviceId, providerId }: WaitlistFormProps) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const today = toLocalDateKey(new Date());
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const [dateFrom, setDateFrom] = useState(today);
+  const [dateTo, setDateTo] = useState(today);
+  const [timeFrom, setTimeFrom] = useState("");
+  const [timeTo, setTimeTo] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Providers don't queue for their own services
+  if (session?.user?.id === providerId) {
+    return null;
+  }
+
+  const handleOpen = () => {
+    if (status === "unauthenticated") {
+      router.push(`/login?callbackUrl=/services/${serviceId}`);
+      return;
+    }
+    setIsOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          serviceId,
+          dateFrom,
+          dateTo,
+          timeFrom: timeFrom || null,
+          timeTo: timeTo || null,
+          notes: notes || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to join the waitlist");
+      }
+
+      setSuccess(data.message);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (success) {
+    return (
+      <Alert variant="success">
+        {success}{" "}
+        <Link href="/dashboard/waitlist" className="underline">
+          View your waitlist
+        </Link>
+      </Alert>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="ghost" className="w-full" onClick={handleOpen}>
+        <Hourglass className="w-4 h-4 mr-2" />
+        Fully booked? Join the waitlist
+      </Button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 pt-4 border-t">
+      <div>
+        <h3 className="font-medium">Join the Waitlist</h3>
+        <p className="text-sm text-muted-foreground">
+          Tell us when suits you. If a time opens up we&apos;ll offer it to you first.
+        </p>
+      </div>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          label="From"
+          type="date"
+          value={dateFrom}
+          min={today}
+          onChange={(e) => {
+            setDateFrom(e.target.value);
+            if (e.target.value > dateTo) setDateTo(e.target.value);
+          }}
+          required
+        />
+        <Input
+          label="To"
+          type="date"
+          value={dateTo}
+          min={dateFrom}
+          onChange={(e) => setDateTo(e.target.value)}
+          required
+        />
+        <Input
+          label="Earliest time"
+          type="time"
+          value={timeFrom}
+          onChange={(e) => setTimeFrom(e.target.value)}
+        />
+        <Input
+          label="Latest time"
+          type="time"
+          value={timeTo}
+          onChange={(e) => setTimeTo(e.target.value)}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">Leave the times empty if any time of day works.</p>
+
+      <Textarea
+        label="Notes (optional)"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        maxLength={500}
+      />
+
+      <div className="flex gap-3">
+        <Button type="submit" className="flex-1" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Joining...
+            </>
+          ) : (
+            "Join Waitlist"
+          )}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import { Avatar } from "@/components/ui/Avatar";
+import { Input } from "@/components/ui/Input";
+import { Alert } from "@/components/ui/Alert";
+import { Spinner } from "@/components/ui/Spinner";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/Tabs";
+import { formatDate, formatDateTime } from "@/lib/utils";
+import { Calendar, Clock, Hourglass, Send, Trash2 } from "lucide-react";
+
+interface WaitlistOffer {
+  id: string;
+  date: string;
+  time: string;
+  status: "PENDING" | "CLAIMED" | "DECLINED" | "EXPIRED";
+  expiresAt: string;
+  respondedAt?: string | null;
+  appointmentId?: string | null;
+  token?: string | null;
+  createdAt: string;
+}
+
+interface WaitlistEntry {
+  id: string;
+  dateFrom: string;
+  dateTo: string;
+  timeFrom?: string | null;
+  timeTo?: string | null;
+  notes?: string | null;
+  status: "WAITING" | "OFFERED" | "BOOKED" | "EXPIRED" | "CANCELLED";
+  position?: number | null;
+  createdAt: string;
+  service: {
+    id: string;
+    name: string;
+  };
+  customer: {
+    id: string;
+    username: string;
+    picture?: string | null;
+    email: string;
+    phone?: string | null;
+  };
+  provider: {
+    id: string;
+    username: string;
+    shop?: {
+      id: string;
+      name: string;
+    } | null;
+  };
+  offers: WaitlistOffer[];
+}
+
+interface WaitlistListProps {
+  role: "client" | "provider";
+}
+
+const statusTabs = [
+  { value: "active", label: "Active" },
+  { value: "BOOKED", label: "Booked" },
+  { value: "all", label: "All" },
+];
+
+const entryColors: Record<string, "success" | "warning" | "error" | "secondary" | "primary"> = {
+  WAITING: "primary",
+  OFFERED: "warning",
+  BOOKED: "success",
+  EXPIRED: "secondary",
+  CANCELLED: "error",
+};
+
+const entryLabels: Record<string, string> = {
+  WAITING: "Waiting",
+  OFFERED: "Offer sent",
+  BOOKED: "Booked",
+  EXPIRED: "Expired",
+  CANCELLED: "Removed",
+};
+
+const offerLabels: Record<string, string> = {
+  PENDING: "Waiting for a reply",
+  CLAIMED: "Claimed",
+  DECLINED: "Declined",
+  EXPIRED: "Not claimed in time",
+};
+
+function describeTimes(entry: WaitlistEntry) {
+  if (!entry.timeFrom && !entry.timeTo) return "Any time";
+  if (!entry.timeTo) return `From ${entry.timeFrom}`;
+  if (!entry.timeFrom) return `Until ${entry.timeTo}`;
+  return `${entry.timeFrom} - ${entry.timeTo}`;
+}
+
+export function WaitlistList({ role }: WaitlistListProps) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState("active");
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [offeringId, setOfferingId] = useState<string | null>(null);
+  const [offerDate, setOfferDate] = useState("");
+  const [offerTime, setOfferTime] = useState("");
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        params.set("role", role);
+        if (activeTab !== "all") {
+          params.set("status", activeTab);
+        }
+
+        const response = await fetch(`/api/waitlist?${params.toString()}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setEntries(data.entries);
+        }
+      } catch (err) {
+        console.error("Error fetching waitlist:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [role, activeTab, version]);
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(`/api/waitlist/${entry.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove waitlist entry");
+      }
+
+      setSuccess(data.message);
+      setVersion((v) => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOffer = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch(`/api/waitlist/${entry.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: offerDate, time: offerTime }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to offer the time");
+      }
+
+      setSuccess(data.message);
+      setOfferingId(null);
+      setVersion((v) => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startOffer = (entry: WaitlistEntry) => {
+    setOfferingId(entry.id);
+    setOfferDate(entry.dateFrom.split("T")[0]);
+    setOfferTime(entry.timeFrom || "");
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Status Tabs */}
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          {statusTabs.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {error && <Alert variant="error">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <Hourglass className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">
+            {role === "provider"
+              ? "Nobody is waiting for a time right now"
+              : "You're not on any waitlists"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {entries.map((entry) => {
+            const openOffer = entry.offers.find((o) => o.status === "PENDING");
+            const isActive = entry.status === "WAITING" || entry.status === "OFFERED";
+
+            return (
+              <div key={entry.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    {role === "provider" ? (
+                      <>
+                        <Avatar
+                          src={entry.customer.picture}
+                          alt={entry.customer.username}
+                          name={entry.customer.username}
+                        />
+                        <div>
+                          <p className="font-medium">
+                            {entry.position ? `#${entry.position} · ` : ""}
+                            {entry.customer.username}
+                          </p>
+                          <p className="text-sm text-muted-foreground">{entry.service.name}</p>
+                        </div>
+                      </>
+                    ) : (
+                      <div>
+                        <p className="font-medium">{entry.service.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {entry.provider.shop?.name || entry.provider.username}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <Badge variant={entryColors[entry.status]}>{entryLabels[entry.status]}</Badge>
+                </div>
+
+                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-4 h-4" />
+                    {formatDate(new Date(entry.dateFrom))}
+                    {entry.dateTo !== entry.dateFrom && ` - ${formatDate(new Date(entry.dateTo))}`}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="w-4 h-4" />
+                    {describeTimes(entry)}
+                  </span>
+                </div>
+
+                {entry.notes && (
+                  <p className="text-sm p-3 bg-muted/50 rounded-lg">{entry.notes}</p>
+                )}
+
+                {entry.offers.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {entry.offers.map((offer) => (
+                      <li key={offer.id} className="flex flex-wrap justify-between gap-2">
+                        <span>
+                          Offered {formatDate(new Date(offer.date))} at {offer.time}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {offer.status === "PENDING"
+                            ? `Open until ${formatDateTime(offer.expiresAt)}`
+                            : offerLabels[offer.status]}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {offeringId === entry.id && (
+                  <div className="flex flex-wrap items-end gap-3 p-3 bg-muted/50 rounded-lg">
+                    <Input
+                      label="Date"
+                      type="date"
+                      value={offerDate}
+                      onChange={(e) => setOfferDate(e.target.value)}
+                    />
+                    <Input
+                      label="Time"
+                      type="time"
+                      value={offerTime}
+                      onChange={(e) => setOfferTime(e.target.value)}
+                    />
+                    <Button
+                      onClick={() => handleOffer(entry)}
+                      disabled={busyId === entry.id || !offerDate || !offerTime}
+                    >
+                      Send Offer
+                    </Button>
+                    <Button variant="ghost" onClick={() => setOfferingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+
+                {isActive && (
+                  <div className="flex flex-wrap gap-3">
+                    {role === "client" && openOffer?.token && (
+                      <Button asChild size="sm">
+                        <Link href={`/waitlist/${openOffer.token}`}>View Offer</Link>
+                      </Button>
+                    )}
+                    {role === "provider" && entry.status === "WAITING" && offeringId !== entry.id && (
+                      <Button size="sm" variant="outline" onClick={() => startOffer(entry)}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Offer a Time
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRemove(entry)}
+                      disabled={busyId === entry.id}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      {role === "provider" ? "Remove" : "Leave Waitlist"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
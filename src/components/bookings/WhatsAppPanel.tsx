@@ -0,0 +1,155 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Alert } from "@/components/ui/Alert";
+import { formatDateTime } from "@/lib/utils";
+import { CheckCircle, MessageCircle } from "lucide-react";
+
+type WhatsAppKind = "BOOKING_CONFIRMATION" | "BOOKING_REMINDER";
+
+interface WhatsAppMessageOption {
+  kind: WhatsAppKind;
+  available: boolean;
+  unavailableReason: string | null;
+  preview: string | null;
+  lastSentAt: string | null;
+}
+
+interface WhatsAppPanelProps {
+  appointmentId: string;
+  reloadKey?: number;
+}
+
+const kindLabels: Record<WhatsAppKind, string> = {
+  BOOKING_CONFIRMATION: "Booking confirmation",
+  BOOKING_REMINDER: "Reminder",
+};
+
+export function WhatsAppPanel({ appointmentId, reloadKey = 0 }: WhatsAppPanelProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [hasCustomerPhone, setHasCustomerPhone] = useState(false);
+  const [messages, setMessages] = useState<WhatsAppMessageOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sending, setSending] = useState<WhatsAppKind | null>(null);
+  const [error, setError] = useState("");
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/whatsapp`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setEnabled(data.enabled);
+          setHasCustomerPhone(data.hasCustomerPhone);
+          setMessages(data.messages);
+        }
+      } catch (err) {
+        console.error("Error fetching WhatsApp messages:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchMessages();
+  }, [appointmentId, reloadKey, version]);
+
+  const handleSend = async (kind: WhatsAppKind) => {
+    // Opened straight away so the browser doesn't treat it as a pop-up
+    const chat = window.open("", "_blank");
+
+    setSending(kind);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/whatsapp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send WhatsApp message");
+      }
+
+      if (data.link && chat) {
+        chat.location.href = data.link;
+      } else {
+        chat?.close();
+        if (data.link) window.location.href = data.link;
+      }
+
+      setVersion((v) => v + 1);
+    } catch (err) {
+      chat?.close();
+      setError(err instanceof Error ? err.message : "Failed to send WhatsApp message");
+    } finally {
+      setSending(null);
+    }
+  };
+
+  if (isLoading || !enabled) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageCircle className="w-5 h-5" />
+          WhatsApp
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <Alert variant="error">{error}</Alert>}
+
+        {!hasCustomerPhone ? (
+          <p className="text-sm text-muted-foreground">
+            This customer hasn&apos;t added a mobile number, so they can&apos;t be messaged on WhatsApp.
+          </p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.kind} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{kindLabels[message.kind]}</span>
+                {message.lastSentAt && (
+                  <span className="flex items-center gap-1 text-xs text-green-600">
+                    <CheckCircle className="w-3 h-3" />
+                    Sent {formatDateTime(message.lastSentAt)}
+                  </span>
+                )}
+              </div>
+              {message.available ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => handleSend(message.kind)}
+                  isLoading={sending === message.kind}
+                  disabled={!!sending}
+                  title={message.preview || undefined}
+                >
+                  {message.lastSentAt ? "Send again" : "Send on WhatsApp"}
+                </Button>
+              ) : (
+                <p className="text-xs text-muted-foreground">{message.unavailableReason}</p>
+              )}
+            </div>
+          ))
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Opens WhatsApp with the message ready to send from your own number.{" "}
+          <Link href="/dashboard/shop" className="text-primary hover:underline">
+            Shop settings
+          </Link>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
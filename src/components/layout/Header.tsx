@@ -6,6 +6,7 @@ import { usePathname } from "next/navigation";
 import { useSession, signOut } from "next-auth/react";
 import { cn } from "@/lib/utils";
 import { Button, Avatar } from "@/components/ui";
+import { NotificationBell } from "./NotificationBell";
 
 const navigation = [
   { name: "Home", href: "/" },
@@ -65,12 +66,7 @@ export function Header() {
             {isAuthenticated ? (
               <>
                 {/* Notifications */}
-                <button className="relative p-2 text-muted-foreground hover:text-foreground transition-colors">
-                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
-                  </svg>
-                  <span className="absolute top-1 right-1 w-2 h-2 bg-error rounded-full" />
-                </button>
+                <NotificationBell />
 
                 {/* User Menu */}
                 <div className="relative">
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useRealtime } from "@/components/providers";
+import { cn, formatRelativeTime } from "@/lib/utils";
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+const LIST_LIMIT = 8;
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  const isConnected = useRealtime((event) => {
+    if (event.type !== "notification.new") return;
+
+    const notification = event.notification;
+    if (notification) {
+      setNotifications((prev) =>
+        [
+          { ...notification, isRead: false, createdAt: String(notification.createdAt) },
+          ...prev.filter((n) => n.id !== notification.id),
+        ].slice(0, LIST_LIMIT)
+      );
+      setUnreadCount((count) => count + 1);
+    } else {
+      setVersion((v) => v + 1);
+    }
+  });
+
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      try {
+        const response = await fetch(`/api/notifications?limit=${LIST_LIMIT}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setNotifications(data.notifications);
+          setUnreadCount(data.unreadCount);
+        }
+      } catch (err) {
+        console.error("Error fetching notifications:", err);
+      }
+    };
+
+    fetchNotifications();
+  }, [version, isConnected]);
+
+  const markRead = async (body: { action: "read" | "read_all"; notificationIds?: string[] }) => {
+    try {
+      await fetch("/api/notifications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    } catch (err) {
+      console.error("Error updating notifications:", err);
+    }
+  };
+
+  const handleOpen = (notification: NotificationItem) => {
+    setIsOpen(false);
+
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, isRead: true } : n))
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      markRead({ action: "read", notificationIds: [notification.id] });
+    }
+
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+    setUnreadCount(0);
+    markRead({ action: "read_all" });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-muted-foreground hover:text-foreground transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+      >
+        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 bg-error text-white text-[10px] leading-4 rounded-full text-center">
+            {unreadCount > 9 ? "9+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-background border border-border rounded-lg shadow-lg z-20">
+            <div className="flex items-center justify-between p-3 border-b border-border">
+              <p className="font-medium text-sm">Notifications</p>
+              {unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-xs text-primary hover:underline">
+                  Mark all as read
+                </button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground text-center">No notifications yet</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y divide-border">
+                {notifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={cn(
+                      "block w-full text-left px-4 py-3 hover:bg-secondary",
+                      !notification.isRead && "bg-primary/5"
+                    )}
+                  >
+                    <p className={cn("text-sm", !notification.isRead && "font-medium")}>
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatRelativeTime(notification.createdAt)}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { Modal } from "@/components/ui/Modal";
+import { Lightbox } from "@/components/ui/Lightbox";
+import { Spinner } from "@/components/ui/Spinner";
+import { formatDate } from "@/lib/utils";
+import { Attachment, AttachmentLink, isImageAttachment } from "./MessageAttachments";
+
+interface SharedAttachment extends Attachment {
+  createdAt: string;
+  message: {
+    senderId: string;
+    sender: {
+      username: string;
+    };
+  };
+}
+
+interface AttachmentGalleryProps {
+  conversationId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Everything shared in a conversation: photos in a grid, documents in a list
+ */
+export function AttachmentGallery({ conversationId, isOpen, onClose }: AttachmentGalleryProps) {
+  const [attachments, setAttachments] = useState<SharedAttachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchAttachments = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}/attachments`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setAttachments(data.attachments);
+        }
+      } catch (error) {
+        console.error("Error fetching attachments:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAttachments();
+  }, [conversationId, isOpen]);
+
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter((a) => !isImageAttachment(a));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Shared Files" size="full">
+      <div className="p-4 max-h-[70vh] overflow-y-auto space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner size="lg" />
+          </div>
+        ) : attachments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No photos or files have been shared yet
+          </p>
+        ) : (
+          <>
+            {images.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Photos</h3>
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                  {images.map((image, index) => (
+                    <button
+                      key={image.id}
+                      type="button"
+                      onClick={() => setLightboxIndex(index)}
+                      className="relative aspect-square rounded-md overflow-hidden cursor-pointer"
+                      aria-label={`View ${image.filename}`}
+                    >
+                      <Image
+                        src={image.url}
+                        alt={image.filename}
+                        fill
+                        sizes="160px"
+                        className="object-cover transition-transform hover:scale-105"
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {documents.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Documents</h3>
+                <div className="space-y-2">
+                  {documents.map((document) => (
+                    <div key={document.id}>
+                      <AttachmentLink attachment={document} />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {document.message.sender.username} · {formatDate(document.createdAt)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <Lightbox
+        images={images.map((image) => ({
+          src: image.url,
+          alt: image.filename,
+          caption: `${image.message.sender.username} · ${formatDate(image.createdAt)}`,
+        }))}
+        initialIndex={lightboxIndex ?? 0}
+        isOpen={lightboxIndex !== null}
+        onClose={() => setLightboxIndex(null)}
+      />
+    </Modal>
+  );
+}
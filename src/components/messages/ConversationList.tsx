@@ -5,11 +5,14 @@ import Link from "next/link";
 import { Avatar } from "@/components/ui/Avatar";
 import { Badge } from "@/components/ui/Badge";
 import { Spinner } from "@/components/ui/Spinner";
+import { useRealtime } from "@/components/providers";
 import { formatRelativeTime } from "@/lib/utils";
 import { cn } from "@/lib/utils";
-import { MessageCircle } from "lucide-react";
+import { BellOff, MessageCircle } from "lucide-react";
 
 interface Conversation {
+  id: string;
+  subject: string | null;
   partnerId: string;
   partner: {
     id: string;
@@ -17,29 +20,39 @@ interface Conversation {
     picture: string | null;
   };
   lastMessage: {
-    id: string;
-    subject: string | null;
     content: string;
-    status: string;
     createdAt: string;
     senderId: string;
   };
   unreadCount: number;
-  messageCount: number;
+  isMuted: boolean;
 }
 
 interface ConversationListProps {
   activeConversationId?: string;
+  archived?: boolean;
 }
 
-export function ConversationList({ activeConversationId }: ConversationListProps) {
+export function ConversationList({ activeConversationId, archived = false }: ConversationListProps) {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  // Any change to a conversation reorders the list or changes a count
+  const isConnected = useRealtime((event) => {
+    if (
+      event.type === "message.new" ||
+      event.type === "message.read" ||
+      event.type === "conversation.updated"
+    ) {
+      setVersion((v) => v + 1);
+    }
+  });
 
   useEffect(() => {
     const fetchConversations = async () => {
       try {
-        const response = await fetch("/api/conversations");
+        const response = await fetch(`/api/conversations${archived ? "?archived=true" : ""}`);
         const data = await response.json();
 
         if (response.ok) {
@@ -53,7 +66,7 @@ export function ConversationList({ activeConversationId }: ConversationListProps
     };
 
     fetchConversations();
-  }, []);
+  }, [archived, version, isConnected]);
 
   if (isLoading) {
     return (
@@ -67,7 +80,9 @@ export function ConversationList({ activeConversationId }: ConversationListProps
     return (
       <div className="text-center py-8">
         <MessageCircle className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-        <p className="text-muted-foreground">No conversations yet</p>
+        <p className="text-muted-foreground">
+          {archived ? "No archived conversations" : "No conversations yet"}
+        </p>
       </div>
     );
   }
@@ -76,11 +91,11 @@ export function ConversationList({ activeConversationId }: ConversationListProps
     <div className="divide-y">
       {conversations.map((conv) => (
         <Link
-          key={conv.partnerId}
-          href={`/dashboard/messages/${conv.partnerId}`}
+          key={conv.id}
+          href={`/dashboard/messages/${conv.id}`}
           className={cn(
             "flex items-center gap-3 p-4 hover:bg-muted/50 transition-colors",
-            activeConversationId === conv.partnerId && "bg-muted",
+            activeConversationId === conv.id && "bg-muted",
             conv.unreadCount > 0 && "bg-primary/5"
           )}
         >
@@ -100,15 +115,19 @@ export function ConversationList({ activeConversationId }: ConversationListProps
           <div className="flex-1 min-w-0">
             <div className="flex items-center justify-between mb-1">
               <span className={cn(
-                "font-medium truncate",
+                "font-medium truncate flex items-center gap-1",
                 conv.unreadCount > 0 && "font-semibold"
               )}>
                 {conv.partner.username}
+                {conv.isMuted && <BellOff className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
               </span>
               <span className="text-xs text-muted-foreground flex-shrink-0">
                 {formatRelativeTime(new Date(conv.lastMessage.createdAt))}
               </span>
             </div>
+            {conv.subject && (
+              <p className="text-xs text-muted-foreground truncate">{conv.subject}</p>
+            )}
             <p className={cn(
               "text-sm truncate",
               conv.unreadCount > 0 ? "text-foreground" : "text-muted-foreground"
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Lightbox } from "@/components/ui/Lightbox";
+import { cn, formatFileSize } from "@/lib/utils";
+import { FileText } from "lucide-react";
+
+export interface Attachment {
+  id: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export function isImageAttachment(attachment: { mimeType: string }) {
+  return attachment.mimeType.startsWith("image/");
+}
+
+interface AttachmentLinkProps {
+  attachment: Attachment;
+  className?: string;
+}
+
+export function AttachmentLink({ attachment, className }: AttachmentLinkProps) {
+  return (
+    <a
+      href={attachment.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={attachment.filename}
+      className={cn(
+        "flex items-center gap-2 rounded-md border border-current/20 px-3 py-2 text-sm hover:bg-black/5",
+        className
+      )}
+    >
+      <FileText className="w-4 h-4 flex-shrink-0" />
+      <span className="truncate">{attachment.filename}</span>
+      <span className="text-xs opacity-70 flex-shrink-0">{formatFileSize(attachment.size)}</span>
+    </a>
+  );
+}
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+}
+
+/**
+ * A message's photos as thumbnails that open full size, and its documents as
+ * download links
+ */
+export function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter((a) => !isImageAttachment(a));
+
+  return (
+    <div className="space-y-2 mb-2">
+      {images.length > 0 && (
+        <div className={cn("grid gap-1", images.length > 1 ? "grid-cols-2" : "grid-cols-1")}>
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              className="relative w-40 h-40 rounded-md overflow-hidden cursor-pointer"
+              aria-label={`View ${image.filename}`}
+            >
+              <Image
+                src={image.url}
+                alt={image.filename}
+                fill
+                sizes="160px"
+                className="object-cover transition-transform hover:scale-105"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {documents.map((document) => (
+        <AttachmentLink key={document.id} attachment={document} />
+      ))}
+
+      <Lightbox
+        images={images.map((image) => ({ src: image.url, alt: image.filename, caption: image.filename }))}
+        initialIndex={lightboxIndex ?? 0}
+        isOpen={lightboxIndex !== null}
+        onClose={() => setLightboxIndex(null)}
+        showThumbnails={images.length > 1}
+      />
+    </div>
+  );
+}
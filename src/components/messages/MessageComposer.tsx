@@ -1,9 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useRef } from "react";
+import Image from "next/image";
 import { Button } from "@/components/ui/Button";
 import { Textarea } from "@/components/ui/Textarea";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, Paperclip, FileText, X } from "lucide-react";
+import type { Attachment } from "./MessageAttachments";
 
 interface Message {
   id: string;
@@ -12,41 +14,121 @@ interface Message {
   status: string;
   createdAt: string;
   senderId: string;
+  conversationId?: string | null;
   sender: {
     id: string;
     username: string;
     picture: string | null;
   };
+  attachments?: Attachment[];
+}
+
+// Uploaded but not sent yet
+interface PendingAttachment {
+  url: string;
+  filename: string;
+  type: string;
 }
 
 interface MessageComposerProps {
-  receiverId: string;
+  conversationId: string;
   onMessageSent?: (message: Message) => void;
+  // Called at most every few seconds while the user types
+  onTyping?: () => void;
   placeholder?: string;
 }
 
+const TYPING_INTERVAL_MS = 3000;
+
+// The server checks these again when the message is sent
+const MAX_ATTACHMENTS = 5;
+const ACCEPTED_FILES = "image/jpeg,image/png,image/webp,image/gif,.pdf,.doc,.docx";
+
 export function MessageComposer({
-  receiverId,
+  conversationId,
   onMessageSent,
+  onTyping,
   placeholder = "Type your message...",
 }: MessageComposerProps) {
   const [content, setContent] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState("");
+  const lastTypingRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setContent(e.target.value);
+
+    if (onTyping && e.target.value && Date.now() - lastTypingRef.current > TYPING_INTERVAL_MS) {
+      lastTypingRef.current = Date.now();
+      onTyping();
+    }
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setError("");
+
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+      setError(`You can attach up to ${MAX_ATTACHMENTS} files`);
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("type", "message");
+
+        const response = await fetch("/api/upload", {
+          method: "POST",
+          body: formData,
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(`${file.name}: ${data.error || "Upload failed"}`);
+        }
+
+        setAttachments((prev) => [...prev, { url: data.url, filename: file.name, type: data.type }]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const removeAttachment = (url: string) => {
+    setAttachments((prev) => prev.filter((a) => a.url !== url));
+  };
+
+  const canSend = (!!content.trim() || attachments.length > 0) && !isSending && !isUploading;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!content.trim()) return;
+    if (!canSend) return;
 
     setIsSending(true);
+    setError("");
 
     try {
       const response = await fetch("/api/messages", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          receiverId,
+          conversationId,
           content: content.trim(),
+          attachments: attachments.map(({ url, filename }) => ({ url, filename })),
         }),
       });
 
@@ -54,7 +136,11 @@ export function MessageComposer({
 
       if (response.ok) {
         setContent("");
+        setAttachments([]);
+        lastTypingRef.current = 0;
         onMessageSent?.(data.data);
+      } else {
+        setError(data.error || "Failed to send message");
       }
     } catch (error) {
       console.error("Error sending message:", error);
@@ -71,27 +157,85 @@ export function MessageComposer({
   };
 
   return (
-    <form onSubmit={handleSubmit} className="flex gap-2">
-      <Textarea
-        value={content}
-        onChange={(e) => setContent(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder={placeholder}
-        rows={1}
-        className="resize-none min-h-[44px]"
-        disabled={isSending}
-      />
-      <Button
-        type="submit"
-        disabled={!content.trim() || isSending}
-        className="flex-shrink-0"
-      >
-        {isSending ? (
-          <Loader2 className="w-4 h-4 animate-spin" />
-        ) : (
-          <Send className="w-4 h-4" />
-        )}
-      </Button>
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.url}
+              className="flex items-center gap-2 rounded-md bg-muted pl-1 pr-2 py-1 text-sm max-w-[200px]"
+            >
+              {attachment.type.startsWith("image/") ? (
+                <Image
+                  src={attachment.url}
+                  alt=""
+                  width={32}
+                  height={32}
+                  className="w-8 h-8 rounded object-cover flex-shrink-0"
+                />
+              ) : (
+                <FileText className="w-4 h-4 ml-1 flex-shrink-0" />
+              )}
+              <span className="truncate">{attachment.filename}</span>
+              <button
+                type="button"
+                onClick={() => removeAttachment(attachment.url)}
+                className="text-muted-foreground hover:text-foreground flex-shrink-0"
+                aria-label={`Remove ${attachment.filename}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILES}
+          multiple
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading || isSending || attachments.length >= MAX_ATTACHMENTS}
+          className="flex-shrink-0"
+          title="Attach photos or documents"
+        >
+          {isUploading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Paperclip className="w-4 h-4" />
+          )}
+        </Button>
+        <Textarea
+          value={content}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          rows={1}
+          className="resize-none min-h-[44px]"
+          disabled={isSending}
+        />
+        <Button
+          type="submit"
+          disabled={!canSend}
+          className="flex-shrink-0"
+        >
+          {isSending ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Send className="w-4 h-4" />
+          )}
+        </Button>
+      </div>
     </form>
   );
 }
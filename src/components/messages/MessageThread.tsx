@@ -1,12 +1,19 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { Avatar } from "@/components/ui/Avatar";
+import { Button } from "@/components/ui/Button";
 import { Spinner } from "@/components/ui/Spinner";
+import { useRealtime } from "@/components/providers";
+import { BlockUserButton } from "@/components/safety/BlockUserButton";
 import { formatRelativeTime } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 import { MessageComposer } from "./MessageComposer";
+import { Attachment, MessageAttachments } from "./MessageAttachments";
+import { AttachmentGallery } from "./AttachmentGallery";
+import { Archive, ArchiveRestore, Bell, BellOff, Images } from "lucide-react";
 
 interface Message {
   id: string;
@@ -15,11 +22,13 @@ interface Message {
   status: string;
   createdAt: string;
   senderId: string;
+  conversationId?: string | null;
   sender: {
     id: string;
     username: string;
     picture: string | null;
   };
+  attachments?: Attachment[];
 }
 
 interface Partner {
@@ -33,16 +42,77 @@ interface Partner {
   } | null;
 }
 
+interface ConversationInfo {
+  id: string;
+  subject: string | null;
+  context: { type: string; link: string } | null;
+  isArchived: boolean;
+  isMuted: boolean;
+}
+
 interface MessageThreadProps {
-  partnerId: string;
+  conversationId: string;
 }
 
-export function MessageThread({ partnerId }: MessageThreadProps) {
+// How long "typing..." stays up after the last keystroke we heard about
+const TYPING_TIMEOUT_MS = 5000;
+
+export function MessageThread({ conversationId }: MessageThreadProps) {
   const { data: session } = useSession();
   const [messages, setMessages] = useState<Message[]>([]);
   const [partner, setPartner] = useState<Partner | null>(null);
+  const [conversation, setConversation] = useState<ConversationInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [partnerLastReadAt, setPartnerLastReadAt] = useState<string | null>(null);
+  const [isPartnerTyping, setIsPartnerTyping] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const addMessage = (message: Message) => {
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  };
+
+  const markRead = () => {
+    fetch(`/api/conversations/${conversationId}/read`, { method: "POST" }).catch((error) =>
+      console.error("Error marking conversation as read:", error)
+    );
+  };
+
+  const isConnected = useRealtime((event) => {
+    if (!("conversationId" in event) || event.conversationId !== conversationId) return;
+
+    if (event.type === "message.new") {
+      if (event.message) {
+        addMessage(event.message as Message);
+      } else {
+        fetch(`/api/messages/${event.messageId}`)
+          .then((response) => (response.ok ? response.json() : null))
+          .then((data) => data && addMessage(data.message))
+          .catch((error) => console.error("Error fetching message:", error));
+      }
+
+      if (event.senderId !== session?.user?.id) {
+        setIsPartnerTyping(false);
+        markRead();
+      }
+    } else if (event.type === "message.read") {
+      if (event.readerId !== session?.user?.id) {
+        setPartnerLastReadAt(event.readAt);
+      }
+    } else if (event.type === "typing") {
+      setIsPartnerTyping(true);
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = setTimeout(() => setIsPartnerTyping(false), TYPING_TIMEOUT_MS);
+    }
+  });
+
+  useEffect(() => {
+    return () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    };
+  }, []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -51,12 +121,14 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
   useEffect(() => {
     const fetchConversation = async () => {
       try {
-        const response = await fetch(`/api/conversations/${partnerId}`);
+        const response = await fetch(`/api/conversations/${conversationId}`);
         const data = await response.json();
 
         if (response.ok) {
           setMessages(data.messages);
           setPartner(data.partner);
+          setConversation(data.conversation);
+          setPartnerLastReadAt(data.partnerLastReadAt);
         }
       } catch (error) {
         console.error("Error fetching conversation:", error);
@@ -66,14 +138,40 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
     };
 
     fetchConversation();
-  }, [partnerId]);
+  }, [conversationId, isConnected]);
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
   const handleMessageSent = (newMessage: Message) => {
-    setMessages((prev) => [...prev, newMessage]);
+    addMessage(newMessage);
+    setConversation((prev) => prev && { ...prev, isArchived: false });
+  };
+
+  const handleTyping = () => {
+    fetch(`/api/conversations/${conversationId}/typing`, { method: "POST" }).catch(() => {});
+  };
+
+  const updateSettings = async (settings: { archived?: boolean; muted?: boolean }) => {
+    setIsUpdating(true);
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setConversation((prev) => prev && { ...prev, isArchived: data.isArchived, isMuted: data.isMuted });
+      }
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+    } finally {
+      setIsUpdating(false);
+    }
   };
 
   if (isLoading) {
@@ -84,14 +182,20 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
     );
   }
 
-  if (!partner) {
+  if (!partner || !conversation) {
     return (
       <div className="flex items-center justify-center h-full">
-        <p className="text-muted-foreground">User not found</p>
+        <p className="text-muted-foreground">Conversation not found</p>
       </div>
     );
   }
 
+  const lastOwnMessage = [...messages].reverse().find((m) => m.senderId === session?.user?.id);
+  const isLastOwnMessageSeen =
+    !!lastOwnMessage &&
+    !!partnerLastReadAt &&
+    new Date(partnerLastReadAt) >= new Date(lastOwnMessage.createdAt);
+
   // Group messages by date
   const groupedMessages: { date: string; messages: Message[] }[] = [];
   let currentDate = "";
@@ -110,12 +214,63 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
       {/* Header */}
       <div className="flex items-center gap-3 p-4 border-b">
         <Avatar src={partner.picture} name={partner.username} size="md" />
-        <div>
+        <div className="flex-1 min-w-0">
           <h2 className="font-medium">{partner.username}</h2>
-          {partner.shop && (
-            <p className="text-sm text-muted-foreground">{partner.shop.name}</p>
+          {conversation.subject ? (
+            conversation.context ? (
+              <Link
+                href={conversation.context.link}
+                className="text-sm text-primary hover:underline truncate block"
+              >
+                {conversation.subject}
+              </Link>
+            ) : (
+              <p className="text-sm text-muted-foreground truncate">{conversation.subject}</p>
+            )
+          ) : (
+            partner.shop && (
+              <p className="text-sm text-muted-foreground">{partner.shop.name}</p>
+            )
           )}
         </div>
+        <div className="flex gap-1 flex-shrink-0">
+          <BlockUserButton
+            userId={partner.id}
+            username={partner.username}
+            variant="ghost"
+            size="sm"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsGalleryOpen(true)}
+            title="Shared files"
+          >
+            <Images className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateSettings({ muted: !conversation.isMuted })}
+            disabled={isUpdating}
+            title={conversation.isMuted ? "Unmute" : "Mute"}
+          >
+            {conversation.isMuted ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateSettings({ archived: !conversation.isArchived })}
+            disabled={isUpdating}
+            title={conversation.isArchived ? "Move to inbox" : "Archive"}
+          >
+            {conversation.isArchived ? (
+              <ArchiveRestore className="w-4 h-4" />
+            ) : (
+              <Archive className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
       </div>
 
       {/* Messages */}
@@ -166,7 +321,12 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
                             : "bg-muted"
                         )}
                       >
-                        <p className="whitespace-pre-wrap">{message.content}</p>
+                        {message.attachments && message.attachments.length > 0 && (
+                          <MessageAttachments attachments={message.attachments} />
+                        )}
+                        {message.content && (
+                          <p className="whitespace-pre-wrap">{message.content}</p>
+                        )}
                         <p
                           className={cn(
                             "text-xs mt-1",
@@ -176,6 +336,7 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
                           )}
                         >
                           {formatRelativeTime(new Date(message.createdAt))}
+                          {message.id === lastOwnMessage?.id && isLastOwnMessageSeen && " · Seen"}
                         </p>
                       </div>
                     </div>
@@ -190,11 +351,23 @@ export function MessageThread({ partnerId }: MessageThreadProps) {
 
       {/* Composer */}
       <div className="border-t p-4">
+        {isPartnerTyping && (
+          <p className="text-xs text-muted-foreground mb-2">
+            {partner.username} is typing...
+          </p>
+        )}
         <MessageComposer
-          receiverId={partnerId}
+          conversationId={conversationId}
           onMessageSent={handleMessageSent}
+          onTyping={handleTyping}
         />
       </div>
+
+      <AttachmentGallery
+        conversationId={conversationId}
+        isOpen={isGalleryOpen}
+        onClose={() => setIsGalleryOpen(false)}
+      />
     </div>
   );
 }
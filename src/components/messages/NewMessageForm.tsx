@@ -67,7 +67,7 @@ export function NewMessageForm({
         setTimeout(onSuccess, 1000);
       } else {
         setTimeout(() => {
-          router.push(`/dashboard/messages/${receiverId}`);
+          router.push(`/dashboard/messages/${data.data.conversationId}`);
         }, 1000);
       }
     } catch (err) {
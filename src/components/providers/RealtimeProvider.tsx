@@ -0,0 +1,92 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  ReactNode,
+} from "react";
+import { useSession } from "next-auth/react";
+import type { RealtimeEvent } from "@/lib/realtime/events";
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+interface RealtimeContextValue {
+  // False while (re)connecting. Anything missed in between isn't replayed,
+  // so watchers should reload when this turns true again.
+  isConnected: boolean;
+  subscribe: (listener: RealtimeListener) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextValue | undefined>(undefined);
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * One /api/realtime stream per tab, shared by everything that listens
+ */
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+  const { status } = useSession();
+  const [isConnected, setIsConnected] = useState(false);
+  const listenersRef = useRef(new Set<RealtimeListener>());
+
+  useEffect(() => {
+    if (status !== "authenticated") return;
+
+    // EventSource reconnects by itself after an error
+    const source = new EventSource("/api/realtime");
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.onmessage = (e) => {
+      let event: RealtimeEvent;
+      try {
+        event = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      listenersRef.current.forEach((listener) => listener(event));
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [status]);
+
+  const subscribe = useCallback((listener: RealtimeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={{ isConnected, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+/**
+ * Call `listener` with every event for the signed-in user. Returns whether
+ * the stream is connected.
+ */
+export function useRealtime(listener: RealtimeListener) {
+  const context = useContext(RealtimeContext);
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  const subscribe = context?.subscribe;
+  useEffect(() => subscribe?.((event) => listenerRef.current(event)), [subscribe]);
+
+  return context?.isConnected ?? false;
+}
@@ -1,2 +1,3 @@
 export { SessionProvider } from "./SessionProvider";
 export { ThemeProvider, useTheme } from "./ThemeProvider";
+export { RealtimeProvider, useRealtime } from "./RealtimeProvider";
@@ -4,7 +4,12 @@ import Link from "next/link";
 import { Card, CardContent } from "@/components/ui/Card";
 import { Avatar } from "@/components/ui/Avatar";
 import { StarRating } from "@/components/ui/StarRating";
+import { Badge } from "@/components/ui/Badge";
 import { formatRelativeTime } from "@/lib/utils";
+import { ShieldCheck } from "lucide-react";
+import { ReviewPhoto, ReviewPhotos } from "./ReviewPhotos";
+import { ReviewVotes } from "./ReviewVotes";
+import { SUB_RATINGS, SUB_RATING_LABELS } from "@/lib/reviews/scoring";
 
 interface ReviewCardProps {
   review: {
@@ -25,7 +30,21 @@ interface ReviewCardProps {
         id: string;
         name: string;
       } | null;
-    };
+    } | null;
+    service?: {
+      id: string;
+      name: string;
+    } | null;
+    isVerified?: boolean;
+    orderId?: string | null;
+    photos?: ReviewPhoto[];
+    helpfulCount?: number;
+    unhelpfulCount?: number;
+    myVote?: boolean | null;
+    qualityRating?: number | null;
+    punctualityRating?: number | null;
+    valueRating?: number | null;
+    communicationRating?: number | null;
   };
   showReceiver?: boolean;
 }
@@ -69,12 +88,53 @@ export function ReviewCard({ review, showReceiver = false }: ReviewCardProps) {
                 {formatRelativeTime(new Date(review.createdAt))}
               </span>
             </div>
-            <StarRating value={review.rating} readonly size="sm" />
+            <div className="flex flex-wrap items-center gap-2">
+              <StarRating value={review.rating} readonly size="sm" />
+              {review.isVerified && (
+                <Badge variant="success" size="sm" className="gap-1">
+                  <ShieldCheck className="w-3 h-3" />
+                  {review.orderId ? "Verified purchase" : "Verified booking"}
+                </Badge>
+              )}
+            </div>
+            {review.service && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Reviewed{" "}
+                <Link href={`/services/${review.service.id}`} className="hover:text-primary">
+                  {review.service.name}
+                </Link>
+              </p>
+            )}
+            {SUB_RATINGS.some((key) => review[key]) && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-muted-foreground">
+                {SUB_RATINGS.filter((key) => review[key]).map((key) => (
+                  <span key={key}>
+                    {SUB_RATING_LABELS[key]} {review[key]}/5
+                  </span>
+                ))}
+              </div>
+            )}
             {review.text && (
               <p className="mt-2 text-sm text-muted-foreground">
                 {review.text}
               </p>
             )}
+            {review.photos && review.photos.length > 0 && (
+              <div className="mt-3">
+                <ReviewPhotos photos={review.photos} />
+              </div>
+            )}
+            {review.helpfulCount !== undefined && (
+              <div className="mt-3">
+                <ReviewVotes
+                  reviewId={review.id}
+                  senderId={review.sender.id}
+                  helpfulCount={review.helpfulCount}
+                  unhelpfulCount={review.unhelpfulCount ?? 0}
+                  myVote={review.myVote ?? null}
+                />
+              </div>
+            )}
           </div>
         </div>
       </CardContent>
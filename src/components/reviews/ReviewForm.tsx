@@ -1,32 +1,85 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useRouter } from "next/navigation";
+import Image from "next/image";
 import { Button } from "@/components/ui/Button";
 import { Textarea } from "@/components/ui/Textarea";
 import { Alert } from "@/components/ui/Alert";
 import { StarRating } from "@/components/ui/StarRating";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, Camera, X } from "lucide-react";
+import { SUB_RATINGS, SUB_RATING_LABELS, SubRating } from "@/lib/reviews/scoring";
 
+// The server checks these again when the review is submitted
+const MAX_PHOTOS = 5;
+const ACCEPTED_PHOTOS = "image/jpeg,image/png,image/webp,image/gif";
+
+// Reviews are of a completed booking or a delivered order
 interface ReviewFormProps {
-  receiverId: string;
+  appointmentId?: string;
+  orderId?: string;
   receiverName: string;
   onSuccess?: () => void;
   onCancel?: () => void;
 }
 
 export function ReviewForm({
-  receiverId,
+  appointmentId,
+  orderId,
   receiverName,
   onSuccess,
   onCancel,
 }: ReviewFormProps) {
   const router = useRouter();
   const [rating, setRating] = useState(0);
+  const [subRatings, setSubRatings] = useState<Partial<Record<SubRating, number>>>({});
   const [text, setText] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePhotosSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setError("");
+
+    if (photos.length + files.length > MAX_PHOTOS) {
+      setError(`You can add up to ${MAX_PHOTOS} photos`);
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("type", "review");
+
+        const response = await fetch("/api/upload", {
+          method: "POST",
+          body: formData,
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(`${file.name}: ${data.error || "Upload failed"}`);
+        }
+
+        setPhotos((prev) => [...prev, data.url]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setIsUploading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -45,9 +98,12 @@ export function ReviewForm({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          receiverId,
+          appointmentId,
+          orderId,
           rating,
+          ...subRatings,
           text: text.trim() || undefined,
+          photos,
         }),
       });
 
@@ -89,14 +145,72 @@ export function ReviewForm({
         />
       </div>
 
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">Rate the details (optional)</p>
+        {SUB_RATINGS.map((key) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <span className="text-sm">{SUB_RATING_LABELS[key]}</span>
+            <StarRating
+              value={subRatings[key] ?? 0}
+              onChange={(value) => setSubRatings((prev) => ({ ...prev, [key]: value }))}
+              size="sm"
+            />
+          </div>
+        ))}
+      </div>
+
       <Textarea
         label="Your Review (optional)"
         value={text}
         onChange={(e) => setText(e.target.value)}
-        placeholder="Share your experience with this provider..."
+        placeholder={
+          orderId ? "Share your experience with this order..." : "Share your experience with this provider..."
+        }
         rows={4}
       />
 
+      <div className="space-y-2">
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photos.map((url) => (
+              <div key={url} className="relative w-16 h-16 rounded-md overflow-hidden">
+                <Image src={url} alt="" fill sizes="64px" className="object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setPhotos((prev) => prev.filter((photo) => photo !== url))}
+                  className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white"
+                  aria-label="Remove photo"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_PHOTOS}
+          multiple
+          className="hidden"
+          onChange={handlePhotosSelected}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading || isSubmitting || photos.length >= MAX_PHOTOS}
+        >
+          {isUploading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Camera className="w-4 h-4 mr-2" />
+          )}
+          Add Photos ({photos.length}/{MAX_PHOTOS})
+        </Button>
+      </div>
+
       <div className="flex justify-end gap-2">
         {onCancel && (
           <Button
@@ -108,7 +222,7 @@ export function ReviewForm({
             Cancel
           </Button>
         )}
-        <Button type="submit" disabled={isSubmitting || rating === 0}>
+        <Button type="submit" disabled={isSubmitting || isUploading || rating === 0}>
           {isSubmitting ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -4,7 +4,10 @@ import { useState, useEffect } from "react";
 import { ReviewCard } from "./ReviewCard";
 import { Button } from "@/components/ui/Button";
 import { Spinner } from "@/components/ui/Spinner";
-import { Star } from "lucide-react";
+import { Select } from "@/components/ui/Select";
+import { Star, Camera } from "lucide-react";
+import type { ReviewPhoto } from "./ReviewPhotos";
+import { SUB_RATINGS, SUB_RATING_LABELS, SubRating } from "@/lib/reviews/scoring";
 
 interface Review {
   id: string;
@@ -24,7 +27,22 @@ interface Review {
       id: string;
       name: string;
     } | null;
-  };
+  } | null;
+  service?: {
+    id: string;
+    name: string;
+  } | null;
+  isVerified?: boolean;
+  appointmentId?: string | null;
+  orderId?: string | null;
+  photos?: ReviewPhoto[];
+  helpfulCount?: number;
+  unhelpfulCount?: number;
+  myVote?: boolean | null;
+  qualityRating?: number | null;
+  punctualityRating?: number | null;
+  valueRating?: number | null;
+  communicationRating?: number | null;
 }
 
 interface ReviewStats {
@@ -37,11 +55,19 @@ interface ReviewStats {
     4: number;
     5: number;
   };
+  subRatings?: Record<SubRating, number | null> | null;
 }
 
+const SORT_OPTIONS = [
+  { value: "newest", label: "Newest" },
+  { value: "helpful", label: "Most helpful" },
+  { value: "rating", label: "Highest rating" },
+];
+
 interface ReviewListProps {
   receiverId?: string;
   senderId?: string;
+  serviceId?: string;
   showStats?: boolean;
   showReceiver?: boolean;
 }
@@ -49,6 +75,7 @@ interface ReviewListProps {
 export function ReviewList({
   receiverId,
   senderId,
+  serviceId,
   showStats = true,
   showReceiver = false,
 }: ReviewListProps) {
@@ -57,6 +84,8 @@ export function ReviewList({
   const [isLoading, setIsLoading] = useState(true);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [sort, setSort] = useState("newest");
+  const [withPhotos, setWithPhotos] = useState(false);
 
   useEffect(() => {
     const fetchReviews = async () => {
@@ -67,6 +96,9 @@ export function ReviewList({
         params.set("limit", "10");
         if (receiverId) params.set("receiverId", receiverId);
         if (senderId) params.set("senderId", senderId);
+        if (serviceId) params.set("serviceId", serviceId);
+        params.set("sort", sort);
+        if (withPhotos) params.set("withPhotos", "true");
 
         const response = await fetch(`/api/reviews?${params.toString()}`);
         const data = await response.json();
@@ -84,7 +116,7 @@ export function ReviewList({
     };
 
     fetchReviews();
-  }, [receiverId, senderId, page]);
+  }, [receiverId, senderId, serviceId, sort, withPhotos, page]);
 
   if (isLoading) {
     return (
@@ -109,7 +141,7 @@ export function ReviewList({
                 <Star className="w-8 h-8 text-yellow-500 fill-yellow-500" />
               </div>
               <p className="text-muted-foreground">
-                Based on {stats.totalReviews} review{stats.totalReviews !== 1 ? "s" : ""}
+                Based on {stats.totalReviews} verified review{stats.totalReviews !== 1 ? "s" : ""}
               </p>
             </div>
 
@@ -139,14 +171,58 @@ export function ReviewList({
               })}
             </div>
           </div>
+
+          {/* Sub-ratings */}
+          {stats.subRatings && SUB_RATINGS.some((key) => stats.subRatings?.[key] != null) && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 pt-6 border-t">
+              {SUB_RATINGS.map((key) => {
+                const value = stats.subRatings?.[key];
+                if (value == null) return null;
+
+                return (
+                  <div key={key} className="text-center">
+                    <p className="text-sm text-muted-foreground">{SUB_RATING_LABELS[key]}</p>
+                    <p className="text-lg font-semibold">{value.toFixed(1)}</p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       )}
 
+      {/* Sorting and filters */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Select
+          options={SORT_OPTIONS}
+          value={sort}
+          onChange={(e) => {
+            setSort(e.target.value);
+            setPage(1);
+          }}
+          aria-label="Sort reviews"
+          className="w-44"
+        />
+        <Button
+          variant={withPhotos ? "primary" : "outline"}
+          size="sm"
+          onClick={() => {
+            setWithPhotos(!withPhotos);
+            setPage(1);
+          }}
+        >
+          <Camera className="w-4 h-4 mr-2" />
+          With photos
+        </Button>
+      </div>
+
       {/* Reviews */}
       {reviews.length === 0 ? (
         <div className="text-center py-8">
           <Star className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
-          <p className="text-muted-foreground">No reviews yet</p>
+          <p className="text-muted-foreground">
+            {withPhotos ? "No reviews with photos yet" : "No reviews yet"}
+          </p>
         </div>
       ) : (
         <>
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Lightbox } from "@/components/ui/Lightbox";
+import { cn } from "@/lib/utils";
+
+export interface ReviewPhoto {
+  id: string;
+  url: string;
+}
+
+interface ReviewPhotosProps {
+  photos: ReviewPhoto[];
+  size?: "sm" | "md";
+}
+
+/**
+ * A row of review photo thumbnails that open full size
+ */
+export function ReviewPhotos({ photos, size = "md" }: ReviewPhotosProps) {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      {photos.map((photo, index) => (
+        <button
+          key={photo.id}
+          type="button"
+          onClick={() => setLightboxIndex(index)}
+          className={cn(
+            "relative flex-shrink-0 rounded-md overflow-hidden cursor-pointer",
+            size === "sm" ? "w-12 h-12" : "w-20 h-20"
+          )}
+          aria-label={`View photo ${index + 1}`}
+        >
+          <Image
+            src={photo.url}
+            alt={`Review photo ${index + 1}`}
+            fill
+            sizes="80px"
+            className="object-cover transition-transform hover:scale-105"
+          />
+        </button>
+      ))}
+
+      <Lightbox
+        images={photos.map((photo, index) => ({ src: photo.url, alt: `Review photo ${index + 1}` }))}
+        initialIndex={lightboxIndex ?? 0}
+        isOpen={lightboxIndex !== null}
+        onClose={() => setLightboxIndex(null)}
+        showThumbnails={photos.length > 1}
+      />
+    </div>
+  );
+}
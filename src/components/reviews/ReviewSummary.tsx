@@ -1,12 +1,15 @@
 "use client";
 
 import { StarRating } from "@/components/ui/StarRating";
+import { ReviewPhoto, ReviewPhotos } from "./ReviewPhotos";
 
 interface ReviewSummaryProps {
   rating: number | null;
   totalReviews: number;
   size?: "sm" | "md" | "lg";
   showCount?: boolean;
+  // Recent photos from reviews, shown as a strip under the rating
+  photos?: ReviewPhoto[];
 }
 
 export function ReviewSummary({
@@ -14,6 +17,7 @@ export function ReviewSummary({
   totalReviews,
   size = "md",
   showCount = true,
+  photos = [],
 }: ReviewSummaryProps) {
   if (!rating && totalReviews === 0) {
     return (
@@ -21,7 +25,7 @@ export function ReviewSummary({
     );
   }
 
-  return (
+  const summary = (
     <div className="flex items-center gap-2">
       <StarRating value={rating || 0} readonly size={size} />
       {showCount && (
@@ -31,4 +35,15 @@ export function ReviewSummary({
       )}
     </div>
   );
+
+  if (photos.length === 0) {
+    return summary;
+  }
+
+  return (
+    <div className="space-y-2">
+      {summary}
+      <ReviewPhotos photos={photos} size="sm" />
+    </div>
+  );
 }
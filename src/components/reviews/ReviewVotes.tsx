@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { cn } from "@/lib/utils";
+import { ThumbsUp, ThumbsDown } from "lucide-react";
+
+interface ReviewVotesProps {
+  reviewId: string;
+  senderId: string;
+  helpfulCount: number;
+  unhelpfulCount: number;
+  myVote: boolean | null;
+}
+
+/**
+ * Helpful and unhelpful counts. Signed-in users other than the reviewer can
+ * vote, and clicking their current vote again takes it back.
+ */
+export function ReviewVotes({
+  reviewId,
+  senderId,
+  helpfulCount,
+  unhelpfulCount,
+  myVote,
+}: ReviewVotesProps) {
+  const { data: session } = useSession();
+  const [votes, setVotes] = useState({ helpfulCount, unhelpfulCount, myVote });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canVote = !!session?.user?.id && session.user.id !== senderId;
+
+  const handleVote = async (helpful: boolean) => {
+    if (!canVote || isSaving) return;
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/vote`, {
+        method: votes.myVote === helpful ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: votes.myVote === helpful ? undefined : JSON.stringify({ helpful }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setVotes({
+          helpfulCount: data.helpfulCount,
+          unhelpfulCount: data.unhelpfulCount,
+          myVote: data.myVote,
+        });
+      }
+    } catch (error) {
+      console.error("Error voting on review:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    cn(
+      "flex items-center gap-1 text-xs",
+      active ? "text-primary" : "text-muted-foreground",
+      canVote ? "hover:text-primary" : "cursor-default"
+    );
+
+  return (
+    <div className="flex items-center gap-4">
+      <span className="text-xs text-muted-foreground">Helpful?</span>
+      <button
+        type="button"
+        onClick={() => handleVote(true)}
+        disabled={!canVote || isSaving}
+        className={buttonClass(votes.myVote === true)}
+        aria-label="Helpful"
+        aria-pressed={votes.myVote === true}
+      >
+        <ThumbsUp className="w-3 h-3" />
+        {votes.helpfulCount}
+      </button>
+      <button
+        type="button"
+        onClick={() => handleVote(false)}
+        disabled={!canVote || isSaving}
+        className={buttonClass(votes.myVote === false)}
+        aria-label="Not helpful"
+        aria-pressed={votes.myVote === false}
+      >
+        <ThumbsDown className="w-3 h-3" />
+        {votes.unhelpfulCount}
+      </button>
+    </div>
+  );
+}
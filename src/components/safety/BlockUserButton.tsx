@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/Button";
+import { Ban } from "lucide-react";
+
+interface BlockUserButtonProps {
+  userId: string;
+  username: string;
+  variant?: "outline" | "ghost";
+  size?: "sm" | "md";
+  onChange?: (blocked: boolean) => void;
+}
+
+export function BlockUserButton({
+  userId,
+  username,
+  variant = "outline",
+  size = "md",
+  onChange,
+}: BlockUserButtonProps) {
+  const { data: session, status } = useSession();
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isOwnProfile = session?.user?.id === userId;
+
+  useEffect(() => {
+    if (status !== "authenticated" || isOwnProfile) return;
+
+    const fetchBlock = async () => {
+      try {
+        const response = await fetch(`/api/users/${userId}/block`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setIsBlocked(data.blocked);
+        }
+      } catch (error) {
+        console.error("Error checking block:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBlock();
+  }, [userId, status, isOwnProfile]);
+
+  if (status !== "authenticated" || isOwnProfile) return null;
+
+  const toggleBlock = async () => {
+    if (
+      !isBlocked &&
+      !confirm(`Block ${username}? They won't be able to message you, book you, review you or apply to your jobs.`)
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/block`, {
+        method: isBlocked ? "DELETE" : "POST",
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setIsBlocked(data.blocked);
+        onChange?.(data.blocked);
+      }
+    } catch (error) {
+      console.error("Error updating block:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button variant={variant} size={size} onClick={toggleBlock} disabled={isLoading}>
+      <Ban className="w-4 h-4 mr-2" />
+      {isBlocked ? "Unblock" : "Block"}
+    </Button>
+  );
+}
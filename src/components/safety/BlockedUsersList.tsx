@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Avatar } from "@/components/ui/Avatar";
+import { Button } from "@/components/ui/Button";
+import { Spinner } from "@/components/ui/Spinner";
+import { formatDate } from "@/lib/utils";
+
+interface BlockedUser {
+  id: string;
+  createdAt: string;
+  user: {
+    id: string;
+    username: string;
+    picture: string | null;
+  };
+}
+
+export function BlockedUsersList() {
+  const [blocks, setBlocks] = useState<BlockedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBlocks = async () => {
+      try {
+        const response = await fetch("/api/users/me/blocks");
+        const data = await response.json();
+
+        if (response.ok) {
+          setBlocks(data.blocks);
+        }
+      } catch (error) {
+        console.error("Error fetching blocked users:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBlocks();
+  }, []);
+
+  const unblock = async (userId: string) => {
+    setUnblockingId(userId);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/block`, { method: "DELETE" });
+
+      if (response.ok) {
+        setBlocks((prev) => prev.filter((block) => block.user.id !== userId));
+      }
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+    } finally {
+      setUnblockingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (blocks.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You haven&apos;t blocked anyone. You can block someone from their profile or from a conversation.
+      </p>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {blocks.map((block) => (
+        <div key={block.id} className="flex items-center justify-between py-3">
+          <div className="flex items-center gap-3">
+            <Avatar src={block.user.picture} name={block.user.username} size="sm" />
+            <div>
+              <p className="font-medium text-foreground">{block.user.username}</p>
+              <p className="text-xs text-muted-foreground">Blocked {formatDate(block.createdAt)}</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => unblock(block.user.id)}
+            disabled={unblockingId === block.user.id}
+          >
+            Unblock
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -16,7 +16,12 @@ interface ServiceFormData {
   category: string;
   subcategory: string;
   duration: string;
+  bufferMinutes: string; // Blank uses the shop's buffer
   tags: string[];
+  // Cancellation policy overrides; blank uses the shop's policy
+  freeCancellationHours: string;
+  lateCancelFeePercent: string;
+  noShowFeePercent: string;
 }
 
 interface ServiceFormProps {
@@ -58,7 +63,11 @@ export function ServiceForm({ initialData, onSuccess }: ServiceFormProps) {
     category: initialData?.category || "",
     subcategory: initialData?.subcategory || "",
     duration: initialData?.duration?.toString() || "",
+    bufferMinutes: initialData?.bufferMinutes?.toString() || "",
     tags: initialData?.tags || [],
+    freeCancellationHours: initialData?.freeCancellationHours || "",
+    lateCancelFeePercent: initialData?.lateCancelFeePercent || "",
+    noShowFeePercent: initialData?.noShowFeePercent || "",
   });
 
   const selectedCategory = categories.find((c) => c.value === formData.category);
@@ -111,7 +120,16 @@ export function ServiceForm({ initialData, onSuccess }: ServiceFormProps) {
         category: formData.category,
         subcategory: formData.subcategory || undefined,
         duration: formData.duration ? parseInt(formData.duration) : undefined,
+        bufferMinutes: formData.bufferMinutes === "" ? null : parseInt(formData.bufferMinutes),
         tags: formData.tags,
+        ...(initialData?.id && {
+          freeCancellationHours:
+            formData.freeCancellationHours === "" ? null : parseInt(formData.freeCancellationHours),
+          lateCancelFeePercent:
+            formData.lateCancelFeePercent === "" ? null : parseFloat(formData.lateCancelFeePercent),
+          noShowFeePercent:
+            formData.noShowFeePercent === "" ? null : parseFloat(formData.noShowFeePercent),
+        }),
       };
 
       const response = await fetch(url, {
@@ -207,16 +225,30 @@ export function ServiceForm({ initialData, onSuccess }: ServiceFormProps) {
           </div>
         </div>
 
-        <Input
-          label="Duration (minutes)"
-          name="duration"
-          type="number"
-          min="0"
-          value={formData.duration}
-          onChange={handleChange}
-          placeholder="e.g., 60"
-          helperText="How long does this service typically take?"
-        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Duration (minutes)"
+            name="duration"
+            type="number"
+            min="5"
+            max="1440"
+            value={formData.duration}
+            onChange={handleChange}
+            placeholder="e.g., 60"
+            helperText="How long does this service typically take?"
+          />
+
+          <Input
+            label="Buffer between bookings (minutes)"
+            name="bufferMinutes"
+            type="number"
+            min="0"
+            max="240"
+            value={formData.bufferMinutes}
+            onChange={handleChange}
+            helperText="Leave blank to use your shop's setting"
+          />
+        </div>
       </div>
 
       {/* Category */}
@@ -313,6 +345,49 @@ export function ServiceForm({ initialData, onSuccess }: ServiceFormProps) {
         )}
       </div>
 
+      {/* Cancellation Policy */}
+      {initialData?.id && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium">Cancellation Policy</h3>
+          <p className="text-sm text-muted-foreground">
+            Leave a field blank to use your shop&apos;s cancellation policy
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="Free cancellation until (hours before)"
+              name="freeCancellationHours"
+              type="number"
+              min="0"
+              max="720"
+              step="1"
+              value={formData.freeCancellationHours}
+              onChange={handleChange}
+            />
+            <Input
+              label="Late cancellation fee (%)"
+              name="lateCancelFeePercent"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={formData.lateCancelFeePercent}
+              onChange={handleChange}
+            />
+            <Input
+              label="No-show fee (%)"
+              name="noShowFeePercent"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              value={formData.noShowFeePercent}
+              onChange={handleChange}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Submit */}
       <div className="flex justify-end gap-4 pt-4 border-t">
         <Button
@@ -24,6 +24,14 @@ interface ShopFormData {
   tax: string;
   contact: string;
   registrationDocument: string;
+  freeCancellationHours: string;
+  lateCancelFeePercent: string;
+  noShowFeePercent: string;
+  chargeUnpaidBookings: boolean;
+  slotIntervalMinutes: string;
+  bufferMinutes: string;
+  bookingLeadTimeHours: string;
+  whatsappNotifications: boolean;
 }
 
 interface ShopFormProps {
@@ -67,6 +75,14 @@ export function ShopForm({ initialData, onSuccess }: ShopFormProps) {
     tax: initialData?.tax || "15",
     contact: initialData?.contact || "",
     registrationDocument: initialData?.registrationDocument || "",
+    freeCancellationHours: initialData?.freeCancellationHours || "24",
+    lateCancelFeePercent: initialData?.lateCancelFeePercent || "0",
+    noShowFeePercent: initialData?.noShowFeePercent || "100",
+    chargeUnpaidBookings: initialData?.chargeUnpaidBookings ?? false,
+    slotIntervalMinutes: initialData?.slotIntervalMinutes || "30",
+    bufferMinutes: initialData?.bufferMinutes || "0",
+    bookingLeadTimeHours: initialData?.bookingLeadTimeHours || "0",
+    whatsappNotifications: initialData?.whatsappNotifications ?? false,
   });
 
   const handleChange = (
@@ -165,6 +181,14 @@ export function ShopForm({ initialData, onSuccess }: ShopFormProps) {
         openingDays: formData.workingDays.split(",").map((d) => d.trim()),
         tax: formData.tax,
         registrationDocument: formData.registrationDocument || undefined,
+        freeCancellationHours: parseInt(formData.freeCancellationHours) || 0,
+        lateCancelFeePercent: parseFloat(formData.lateCancelFeePercent) || 0,
+        noShowFeePercent: parseFloat(formData.noShowFeePercent) || 0,
+        chargeUnpaidBookings: formData.chargeUnpaidBookings,
+        slotIntervalMinutes: parseInt(formData.slotIntervalMinutes) || 30,
+        bufferMinutes: parseInt(formData.bufferMinutes) || 0,
+        bookingLeadTimeHours: parseInt(formData.bookingLeadTimeHours) || 0,
+        whatsappNotifications: formData.whatsappNotifications,
       };
 
       const response = await fetch(url, {
@@ -382,6 +406,136 @@ export function ShopForm({ initialData, onSuccess }: ShopFormProps) {
         </div>
       </div>
 
+      {/* Cancellation Policy */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">Cancellation Policy</h3>
+        <p className="text-sm text-muted-foreground">
+          Applies to all your services unless a service sets its own. Fees are taken from the
+          customer&apos;s payment and the rest is refunded.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            label="Free cancellation until (hours before)"
+            name="freeCancellationHours"
+            type="number"
+            min="0"
+            max="720"
+            step="1"
+            value={formData.freeCancellationHours}
+            onChange={handleChange}
+            placeholder="24"
+          />
+          <Input
+            label="Late cancellation fee (%)"
+            name="lateCancelFeePercent"
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={formData.lateCancelFeePercent}
+            onChange={handleChange}
+            placeholder="0"
+          />
+          <Input
+            label="No-show fee (%)"
+            name="noShowFeePercent"
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={formData.noShowFeePercent}
+            onChange={handleChange}
+            placeholder="100"
+          />
+        </div>
+
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={formData.chargeUnpaidBookings}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, chargeUnpaidBookings: e.target.checked }))
+            }
+            className="rounded border-border mt-1"
+          />
+          <span>
+            <span className="text-sm text-foreground">Charge fees on unpaid bookings</span>
+            <span className="block text-xs text-muted-foreground">
+              Takes the fee from the customer&apos;s wallet when a booking wasn&apos;t paid in
+              advance
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {/* Booking Slots */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">Booking Slots</h3>
+        <p className="text-sm text-muted-foreground">
+          Customers can only pick times inside your opening hours and working days that
+          don&apos;t overlap another booking.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            label="Slot interval (minutes)"
+            name="slotIntervalMinutes"
+            type="number"
+            min="5"
+            max="240"
+            step="5"
+            value={formData.slotIntervalMinutes}
+            onChange={handleChange}
+            placeholder="30"
+          />
+          <Input
+            label="Buffer between bookings (minutes)"
+            name="bufferMinutes"
+            type="number"
+            min="0"
+            max="240"
+            step="5"
+            value={formData.bufferMinutes}
+            onChange={handleChange}
+            placeholder="0"
+          />
+          <Input
+            label="Minimum notice (hours)"
+            name="bookingLeadTimeHours"
+            type="number"
+            min="0"
+            max="720"
+            step="1"
+            value={formData.bookingLeadTimeHours}
+            onChange={handleChange}
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      {/* Customer Messages */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium">Customer Messages</h3>
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={formData.whatsappNotifications}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, whatsappNotifications: e.target.checked }))
+            }
+            className="rounded border-border mt-1"
+          />
+          <span>
+            <span className="text-sm text-foreground">Notify customers via WhatsApp</span>
+            <span className="block text-xs text-muted-foreground">
+              Adds buttons to your bookings that open WhatsApp with a confirmation or reminder
+              ready to send from your own number
+            </span>
+          </span>
+        </label>
+      </div>
+
       {/* Registration Document */}
       <div className="space-y-4">
         <h3 className="text-lg font-medium">Business Registration</h3>
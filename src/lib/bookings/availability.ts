@@ -0,0 +1,164 @@
+import { prisma } from "@/lib/prisma";
+import { getExpiredHoldFilter } from "./holds";
+import {
+  computeSlots,
+  DaySlots,
+  DEFAULT_SLOT_SETTINGS,
+  isSlotAvailable,
+  shopWorkingHours,
+  SlotQuery,
+  toDateKey,
+} from "./slots";
+
+// Bookings in these statuses hold their time slot
+export const ACTIVE_BOOKING_STATUSES = ["PENDING", "CONFIRMED"] as const;
+
+// How far ahead the slots endpoint will look in one request
+export const MAX_SLOT_RANGE_DAYS = 62;
+
+interface SlotContextOptions {
+  excludeAppointmentId?: string; // Ignore a booking that is being moved
+}
+
+/**
+ * Gather everything the slot rules need for one provider and service: the
+ * weekly schedule (or shop hours), blocked times and existing bookings in the
+ * date range, and the shop's buffer and lead time settings
+ */
+async function loadSlotQuery(
+  providerId: string,
+  serviceId: string | null,
+  from: string,
+  to: string,
+  options: SlotContextOptions = {}
+): Promise<SlotQuery> {
+  const range = { gte: new Date(from), lte: new Date(to) };
+
+  const [service, shop, availability, blockedTimes, appointments] = await Promise.all([
+    serviceId
+      ? prisma.service.findUnique({
+          where: { id: serviceId },
+          select: { duration: true, bufferMinutes: true },
+        })
+      : null,
+    prisma.shop.findUnique({
+      where: { userId: providerId },
+      select: {
+        startTime: true,
+        endTime: true,
+        openingDays: true,
+        slotIntervalMinutes: true,
+        bufferMinutes: true,
+        bookingLeadTimeHours: true,
+      },
+    }),
+    prisma.availability.findMany({ where: { providerId } }),
+    prisma.blockedTime.findMany({ where: { providerId, date: range } }),
+    prisma.appointment.findMany({
+      where: {
+        providerId,
+        date: range,
+        status: { in: [...ACTIVE_BOOKING_STATUSES] },
+        // Unpaid bookings stop blocking the slot once their checkout hold runs out
+        NOT: getExpiredHoldFilter(),
+        ...(options.excludeAppointmentId && { id: { not: options.excludeAppointmentId } }),
+      },
+      select: { date: true, time: true, duration: true },
+    }),
+  ]);
+
+  // A weekly schedule replaces shop hours; inactive days are days off
+  const hours =
+    availability.length > 0
+      ? availability.filter((a) => a.isActive)
+      : shopWorkingHours(shop?.startTime, shop?.endTime, shop?.openingDays);
+
+  return {
+    from,
+    to,
+    duration: service?.duration || 60,
+    hours,
+    blocked: blockedTimes.map((b) => ({
+      date: toDateKey(b.date),
+      startTime: b.startTime,
+      endTime: b.endTime,
+    })),
+    booked: appointments.map((a) => ({
+      date: toDateKey(a.date),
+      time: a.time,
+      duration: a.duration,
+    })),
+    settings: {
+      slotIntervalMinutes: shop?.slotIntervalMinutes ?? DEFAULT_SLOT_SETTINGS.slotIntervalMinutes,
+      bufferMinutes: service?.bufferMinutes ?? shop?.bufferMinutes ?? DEFAULT_SLOT_SETTINGS.bufferMinutes,
+      leadTimeHours: shop?.bookingLeadTimeHours ?? DEFAULT_SLOT_SETTINGS.leadTimeHours,
+    },
+  };
+}
+
+/**
+ * Bookable start times for a provider's service on each day of a date range
+ */
+export async function getAvailableSlots(
+  providerId: string,
+  serviceId: string | null,
+  from: string,
+  to: string
+): Promise<DaySlots[]> {
+  return computeSlots(await loadSlotQuery(providerId, serviceId, from, to));
+}
+
+/**
+ * Whether a new booking may start at a date and time. Used by every route
+ * that creates bookings so they cannot overlap.
+ */
+export async function checkSlotAvailable(
+  providerId: string,
+  serviceId: string | null,
+  date: string,
+  time: string,
+  options: SlotContextOptions = {}
+): Promise<boolean> {
+  const query = await loadSlotQuery(providerId, serviceId, date, date, options);
+  return isSlotAvailable(query, date, time);
+}
+
+export interface AlternativeSlot {
+  date: string;
+  time: string;
+}
+
+/**
+ * The next free start times from a date onwards, offered when the slot a
+ * customer asked for has been taken
+ */
+export async function findAlternativeSlots(
+  providerId: string,
+  serviceId: string | null,
+  date: string,
+  limit: number = 6,
+  days: number = 7
+): Promise<AlternativeSlot[]> {
+  const to = new Date(`${date}T00:00:00Z`);
+  to.setUTCDate(to.getUTCDate() + days - 1);
+
+  const slots = await getAvailableSlots(providerId, serviceId, date, toDateKey(to));
+
+  return slots
+    .flatMap((day) => day.slots.map((time) => ({ date: day.date, time })))
+    .slice(0, limit);
+}
+
+/**
+ * The gap to keep around a booking of this service at this provider
+ */
+export async function getBufferMinutes(providerId: string, serviceId: string | null): Promise<number> {
+  const [service, shop] = await Promise.all([
+    serviceId
+      ? prisma.service.findUnique({ where: { id: serviceId }, select: { bufferMinutes: true } })
+      : null,
+    prisma.shop.findUnique({ where: { userId: providerId }, select: { bufferMinutes: true } }),
+  ]);
+
+  return service?.bufferMinutes ?? shop?.bufferMinutes ?? DEFAULT_SLOT_SETTINGS.bufferMinutes;
+}
@@ -0,0 +1,103 @@
+// Reminder offsets, in minutes before the appointment, for users who haven't
+// chosen their own
+export const DEFAULT_REMINDER_MINUTES = [24 * 60, 2 * 60];
+
+// Nobody needs a reminder more than two weeks out
+export const MAX_REMINDER_MINUTES = 14 * 24 * 60;
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  url?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * When each reminder should go out. Offsets that have already passed are
+ * dropped, and duplicates are sent once. Soonest first.
+ */
+export function getReminderTimes(
+  start: Date,
+  offsets: number[],
+  now: Date = new Date()
+): { minutesBefore: number; sendAt: Date }[] {
+  return [...new Set(offsets)]
+    .filter((minutes) => minutes > 0 && minutes <= MAX_REMINDER_MINUTES)
+    .map((minutesBefore) => ({
+      minutesBefore,
+      sendAt: new Date(start.getTime() - minutesBefore * 60 * 1000),
+    }))
+    .filter((reminder) => reminder.sendAt > now)
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+}
+
+/**
+ * "2 hours", "1 day", "30 minutes"
+ */
+export function describeReminderOffset(minutes: number): string {
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+
+  if (minutes % (24 * 60) === 0) return plural(minutes / (24 * 60), "day");
+  if (minutes % 60 === 0) return plural(minutes / 60, "hour");
+  return plural(minutes, "minute");
+}
+
+// 20250310T070000Z
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/([,;])/g, "\\$1");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ` ${rest.slice(75)}`;
+  }
+  parts.push(rest);
+
+  return parts.join("\r\n");
+}
+
+/**
+ * An iCalendar (.ics) file with a single event, for the "add to calendar"
+ * attachment. Re-sending the same uid updates the event in most calendars.
+ */
+export function buildIcsEvent(event: CalendarEvent, now: Date = new Date()): string {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Mzansi Market//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${event.cancelled ? "CANCEL" : "PUBLISH"}`,
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
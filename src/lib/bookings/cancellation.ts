@@ -0,0 +1,60 @@
+import { prisma } from "@/lib/prisma";
+import { chargeCancellationFee, refundEscrow, RefundMethod } from "@/lib/payments/escrow";
+import { releaseSlot } from "./holds";
+import { syncAppointmentReminders } from "./reminders";
+import { toDateKey } from "./slots";
+import { queueFreedSlotOffers } from "./waitlist";
+
+interface CancellableAppointment {
+  id: string;
+  requesterId: string;
+  providerId: string;
+  status: string;
+  date: Date;
+}
+
+/**
+ * Cancel a pending or confirmed booking on behalf of `actorId`: give its time
+ * back, settle the held payment, offer the time to the waitlist and stop its
+ * reminders. A customer cancelling a confirmed booking pays the cancellation
+ * fee; anything else is refunded in full. Callers check the booking can still
+ * be cancelled and notify the other party.
+ */
+export async function cancelAppointment(
+  appointment: CancellableAppointment,
+  actorId: string,
+  refundTo?: RefundMethod
+): Promise<{ cancellationFee: number }> {
+  await prisma.$transaction(async (tx) => {
+    await tx.appointment.update({
+      where: { id: appointment.id },
+      data: { status: "CANCELLED", cancelledAt: new Date(), holdExpiresAt: null },
+    });
+    await releaseSlot(tx, appointment.id);
+  });
+
+  let cancellationFee = 0;
+  if (actorId === appointment.requesterId && appointment.status === "CONFIRMED") {
+    const charged = await chargeCancellationFee(appointment.id, "CANCELLED", actorId, refundTo).catch(
+      (err) => {
+        console.error("Failed to charge cancellation fee:", err);
+        return null;
+      }
+    );
+    cancellationFee = charged?.fee || 0;
+  } else {
+    await refundEscrow(appointment.id, actorId, refundTo).catch((err) =>
+      console.error("Failed to refund escrow:", err)
+    );
+  }
+
+  await queueFreedSlotOffers(appointment.providerId, toDateKey(appointment.date)).catch((err) =>
+    console.error("Failed to queue waitlist offers:", err)
+  );
+
+  await syncAppointmentReminders(appointment.id).catch((err) =>
+    console.error("Failed to cancel appointment reminders:", err)
+  );
+
+  return { cancellationFee };
+}
@@ -0,0 +1,200 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notifySystem } from "@/lib/notifications";
+import { getReservationBlocks, toDateKey } from "./slots";
+
+// How long an unpaid booking keeps its slot while the customer checks out
+export const SLOT_HOLD_MINUTES = parseInt(process.env.SLOT_HOLD_MINUTES || "15");
+
+// How long a card payment still under way at the gateway keeps the slot held,
+// counted from when the checkout started
+export const CHECKOUT_HOLD_MINUTES = parseInt(process.env.CHECKOUT_HOLD_MINUTES || "60");
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export class SlotTakenError extends Error {
+  constructor(message: string = "This time slot is no longer available") {
+    super(message);
+    this.name = "SlotTakenError";
+  }
+}
+
+interface ReserveSlotParams {
+  appointmentId: string;
+  providerId: string;
+  date: Date | string;
+  time: string;
+  duration: number;
+  bufferMinutes?: number;
+}
+
+/**
+ * When a new unpaid booking gives its slot up
+ */
+export function getHoldExpiry(now: Date = new Date(), minutes: number = SLOT_HOLD_MINUTES): Date {
+  return new Date(now.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Unpaid bookings whose checkout hold has run out, and whose time is free for
+ * someone else. Only PENDING bookings lose their hold, and not while a payment
+ * for them is still under way.
+ */
+export function getExpiredHoldFilter(now: Date = new Date()): Prisma.AppointmentWhereInput {
+  const checkoutStartedAfter = new Date(now.getTime() - CHECKOUT_HOLD_MINUTES * 60 * 1000);
+
+  return {
+    status: "PENDING",
+    holdExpiresAt: { lt: now },
+    AND: [
+      { payments: { none: { status: "COMPLETED" } } },
+      {
+        payments: {
+          none: {
+            status: { in: ["PENDING", "PROCESSING"] },
+            createdAt: { gt: checkoutStartedAfter },
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Claim the provider's time for a booking. Must run inside the transaction
+ * that creates or moves the appointment: when another booking already holds
+ * any of the time, the unique key on slot_reservations fails and the whole
+ * transaction rolls back with a SlotTakenError.
+ */
+export async function reserveSlot(tx: Prisma.TransactionClient, params: ReserveSlotParams) {
+  const blocks = getReservationBlocks(
+    toDateKey(params.date),
+    params.time,
+    params.duration,
+    params.bufferMinutes
+  );
+
+  // Blocks held by bookings whose checkout ran out are free again
+  await tx.slotReservation.deleteMany({
+    where: {
+      providerId: params.providerId,
+      startsAt: { in: blocks },
+      appointment: getExpiredHoldFilter(),
+    },
+  });
+
+  try {
+    await tx.slotReservation.createMany({
+      data: blocks.map((startsAt) => ({
+        startsAt,
+        providerId: params.providerId,
+        appointmentId: params.appointmentId,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new SlotTakenError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give a booking's time back, e.g. when it is cancelled or moved
+ */
+export async function releaseSlot(db: Db, appointmentId: string) {
+  await db.slotReservation.deleteMany({ where: { appointmentId } });
+}
+
+/**
+ * Keep the slot for good once the booking is paid. Blocks released when the
+ * hold ran out are claimed again where they are still free. Returns false
+ * when another booking has taken any of the time meanwhile: the booking then
+ * gives back what it still held and must not be confirmed.
+ */
+export async function confirmSlotHold(tx: Prisma.TransactionClient, appointmentId: string) {
+  const appointment = await tx.appointment.findUniqueOrThrow({
+    where: { id: appointmentId },
+    include: {
+      service: { select: { bufferMinutes: true } },
+      provider: { select: { shop: { select: { bufferMinutes: true } } } },
+    },
+  });
+
+  const blocks = getReservationBlocks(
+    toDateKey(appointment.date),
+    appointment.time,
+    appointment.duration,
+    appointment.service?.bufferMinutes ?? appointment.provider.shop?.bufferMinutes ?? 0
+  );
+
+  // skipDuplicates passes over blocks the booking still holds, and keeps the
+  // payment transaction alive where someone else took the time
+  await tx.slotReservation.createMany({
+    data: blocks.map((startsAt) => ({
+      startsAt,
+      providerId: appointment.providerId,
+      appointmentId,
+    })),
+    skipDuplicates: true,
+  });
+
+  const held = await tx.slotReservation.count({
+    where: { appointmentId, startsAt: { in: blocks } },
+  });
+
+  if (held < blocks.length) {
+    await releaseSlot(tx, appointmentId);
+    return false;
+  }
+
+  await tx.appointment.update({
+    where: { id: appointmentId },
+    data: { holdExpiresAt: null },
+  });
+
+  return true;
+}
+
+/**
+ * Cancel unpaid bookings whose checkout hold has run out and free their time
+ */
+export async function releaseExpiredHolds(now: Date = new Date()) {
+  const expired = await prisma.appointment.findMany({
+    where: getExpiredHoldFilter(now),
+    select: {
+      id: true,
+      requesterId: true,
+      service: { select: { name: true } },
+    },
+  });
+
+  let released = 0;
+
+  for (const appointment of expired) {
+    const { count } = await prisma.$transaction(async (tx) => {
+      const updated = await tx.appointment.updateMany({
+        where: { id: appointment.id, ...getExpiredHoldFilter(now) },
+        data: { status: "CANCELLED", cancelledAt: now, holdExpiresAt: null },
+      });
+
+      if (updated.count > 0) {
+        await releaseSlot(tx, appointment.id);
+      }
+
+      return updated;
+    });
+
+    if (count === 0) continue;
+    released++;
+
+    await notifySystem(
+      appointment.requesterId,
+      "Booking Expired",
+      `Your booking for ${appointment.service?.name || "a service"} was not paid in time and has been released. You can book a new time.`,
+      `/dashboard/bookings/${appointment.id}`
+    );
+  }
+
+  return { released };
+}
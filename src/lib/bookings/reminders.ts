@@ -0,0 +1,229 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { notificationEmails } from "@/lib/email";
+import { notifyAppointmentReminder } from "@/lib/notifications";
+import { getAppointmentStart } from "@/lib/payments/cancellation";
+import { cancelJobsByKey, enqueueJob } from "@/lib/queue/queue";
+import { smsMessages } from "@/lib/sms/messages";
+import { formatBookingDate } from "@/lib/utils";
+import {
+  buildIcsEvent,
+  DEFAULT_REMINDER_MINUTES,
+  describeReminderOffset,
+  getReminderTimes,
+} from "./calendar";
+
+const SITE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+export const REMINDER_JOB = "appointments.remind";
+
+export interface ReminderPayload {
+  appointmentId: string;
+  userId: string;
+  minutesBefore: number;
+  startsAt: string; // The start time the reminder was queued for
+}
+
+function signAction(appointmentId: string, userId: string) {
+  const secret = process.env.NEXTAUTH_SECRET || "";
+  return createHmac("sha256", secret).update(`${appointmentId}.${userId}`).digest("base64url");
+}
+
+/**
+ * Token for the confirm/cancel link in a reminder. It stands in for a login,
+ * so it is signed and only ever names one booking and one person on it.
+ */
+export function createAppointmentActionToken(appointmentId: string, userId: string) {
+  return `${appointmentId}.${userId}.${signAction(appointmentId, userId)}`;
+}
+
+export function readAppointmentActionToken(token: string) {
+  const [appointmentId, userId, signature] = token.split(".");
+  if (!process.env.NEXTAUTH_SECRET || !appointmentId || !userId || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signAction(appointmentId, userId));
+  const received = Buffer.from(signature);
+
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  return { appointmentId, userId };
+}
+
+async function getReminderPreference(userId: string) {
+  return prisma.notificationPreference.findUnique({
+    where: {
+      userId_notificationType: { userId, notificationType: "BOOKING_REMINDER" },
+    },
+    select: {
+      emailEnabled: true,
+      inAppEnabled: true,
+      smsEnabled: true,
+      frequency: true,
+      reminderMinutes: true,
+    },
+  });
+}
+
+/**
+ * Bring a booking's queued reminders in line with the booking itself. Call
+ * it after anything that confirms, moves or cancels an appointment: pending
+ * reminders are dropped and, while the booking is CONFIRMED, queued again
+ * for its current time.
+ */
+export async function syncAppointmentReminders(appointmentId: string, now: Date = new Date()) {
+  await cancelJobsByKey(`reminder:${appointmentId}:`);
+
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: { id: true, status: true, date: true, time: true, requesterId: true, providerId: true },
+  });
+
+  if (!appointment || appointment.status !== "CONFIRMED") {
+    return { scheduled: 0 };
+  }
+
+  const start = getAppointmentStart(appointment.date, appointment.time);
+  let scheduled = 0;
+
+  for (const userId of new Set([appointment.requesterId, appointment.providerId])) {
+    const preference = await getReminderPreference(userId);
+    if (preference?.frequency === "DISABLED") continue;
+    if (preference && !preference.emailEnabled && !preference.inAppEnabled && !preference.smsEnabled) {
+      continue;
+    }
+
+    const offsets = preference?.reminderMinutes ?? DEFAULT_REMINDER_MINUTES;
+
+    for (const { minutesBefore, sendAt } of getReminderTimes(start, offsets, now)) {
+      // The start time is part of the key: a reminder already sent for the
+      // old time must not stop the one for the new time
+      const job = await enqueueJob(
+        REMINDER_JOB,
+        { appointmentId, userId, minutesBefore, startsAt: start.toISOString() },
+        {
+          runAt: sendAt,
+          key: `reminder:${appointmentId}:${userId}:${start.getTime()}:${minutesBefore}`,
+        }
+      );
+      if (job) scheduled++;
+    }
+  }
+
+  return { scheduled };
+}
+
+/**
+ * Re-sync reminders for every upcoming confirmed booking a user is on, after
+ * they change their reminder preferences.
+ */
+export async function syncUserReminders(userId: string, now: Date = new Date()) {
+  const today = new Date(`${now.toISOString().slice(0, 10)}T00:00:00.000Z`);
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      status: "CONFIRMED",
+      date: { gte: today },
+      OR: [{ requesterId: userId }, { providerId: userId }],
+    },
+    select: { id: true },
+  });
+
+  for (const { id } of appointments) {
+    await syncAppointmentReminders(id, now);
+  }
+
+  return { appointments: appointments.length };
+}
+
+/**
+ * Send one reminder, by email with a calendar file, in-app and by SMS, as the
+ * user's preferences allow. Bookings that have since been cancelled, moved or
+ * started are skipped.
+ */
+export async function sendDueReminder(payload: ReminderPayload) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: payload.appointmentId },
+    include: {
+      service: { select: { name: true } },
+      requester: { select: { id: true, username: true } },
+      provider: {
+        select: {
+          id: true,
+          username: true,
+          shop: { select: { name: true, address: true } },
+        },
+      },
+    },
+  });
+
+  if (!appointment || appointment.status !== "CONFIRMED") {
+    return { sent: false };
+  }
+
+  // Moved since it was queued, or the worker was down until it was too late
+  const start = getAppointmentStart(appointment.date, appointment.time);
+  if (start.toISOString() !== payload.startsAt || start <= new Date()) {
+    return { sent: false };
+  }
+
+  const isCustomer = payload.userId === appointment.requesterId;
+  const recipient = isCustomer ? appointment.requester : appointment.provider;
+  const providerName = appointment.provider.shop?.name || appointment.provider.username;
+  const otherPartyName = isCustomer ? providerName : appointment.requester.username;
+  const serviceName = appointment.service?.name || "Your booking";
+  const address = appointment.provider.shop?.address || appointment.address;
+  const date = formatBookingDate(appointment.date);
+  const startsIn = describeReminderOffset(payload.minutesBefore);
+  const bookingLink = `${SITE_URL}/dashboard/bookings/${appointment.id}`;
+  const respondLink = isCustomer
+    ? `${SITE_URL}/reminders/${createAppointmentActionToken(appointment.id, recipient.id)}`
+    : undefined;
+
+  const calendarFile = buildIcsEvent({
+    uid: `${appointment.id}@${new URL(SITE_URL).host}`,
+    start,
+    durationMinutes: appointment.duration,
+    summary: `${serviceName} with ${otherPartyName}`,
+    description: `Booking details: ${bookingLink}`,
+    location: address,
+    url: bookingLink,
+  });
+
+  await notifyAppointmentReminder(
+    recipient.id,
+    serviceName,
+    `${date} at ${appointment.time}`,
+    startsIn,
+    appointment.id,
+    start,
+    notificationEmails.appointmentReminder(
+      {
+        recipientName: recipient.username,
+        otherPartyName,
+        serviceName,
+        date,
+        time: appointment.time,
+        startsIn,
+        address,
+        bookingId: appointment.id,
+        respondLink,
+      },
+      calendarFile
+    ),
+    smsMessages.appointmentReminder({
+      serviceName,
+      otherPartyName,
+      date,
+      time: appointment.time,
+      startsIn,
+      bookingId: appointment.id,
+      respondLink,
+    })
+  );
+
+  return { sent: true };
+}
@@ -0,0 +1,65 @@
+export type RescheduleAction = "accept" | "decline" | "withdraw";
+
+export interface RescheduleRuleError {
+  error: string;
+  status: number;
+}
+
+interface OpenProposal {
+  proposedById: string;
+  status: string;
+}
+
+/**
+ * Whether a booking can still be moved to another time
+ */
+export function isReschedulable(bookingStatus: string) {
+  return ["PENDING", "CONFIRMED"].includes(bookingStatus);
+}
+
+/**
+ * Why `userId` can't propose a new time for a booking, or null when they can.
+ * Either party may propose, and proposing while the other party's proposal is
+ * open counters it, but nobody can have two proposals open at once.
+ */
+export function getRescheduleProposeError(
+  bookingStatus: string,
+  pending: OpenProposal | null,
+  userId: string
+): RescheduleRuleError | null {
+  if (!isReschedulable(bookingStatus)) {
+    return { error: "Only upcoming bookings can be rescheduled", status: 400 };
+  }
+
+  if (pending?.proposedById === userId) {
+    return { error: "You already have a reschedule request waiting for an answer", status: 409 };
+  }
+
+  return null;
+}
+
+/**
+ * Why `userId` can't act on a proposal, or null when they can. Only the
+ * proposer can withdraw it, and only the other party can accept or decline.
+ */
+export function getRescheduleRespondError(
+  action: RescheduleAction,
+  proposal: OpenProposal,
+  userId: string
+): RescheduleRuleError | null {
+  if (proposal.status !== "PENDING") {
+    return { error: "This proposal has already been answered", status: 400 };
+  }
+
+  const isProposer = proposal.proposedById === userId;
+
+  if (action === "withdraw" && !isProposer) {
+    return { error: "Only the person who proposed a time can withdraw it", status: 403 };
+  }
+
+  if (action !== "withdraw" && isProposer) {
+    return { error: "You can't answer your own proposal", status: 403 };
+  }
+
+  return null;
+}
@@ -0,0 +1,257 @@
+import { getAppointmentStart } from "@/lib/payments/cancellation";
+
+export interface SlotSettings {
+  slotIntervalMinutes: number; // Step between offered start times
+  bufferMinutes: number; // Gap kept before and after every booking
+  leadTimeHours: number; // How far ahead a slot has to start
+}
+
+export const DEFAULT_SLOT_SETTINGS: SlotSettings = {
+  slotIntervalMinutes: 30,
+  bufferMinutes: 0,
+  leadTimeHours: 0,
+};
+
+// Providers without a weekly schedule or shop hours get the old picker hours
+export const DEFAULT_WORKING_HOURS = { startTime: "08:00", endTime: "18:00" };
+
+export interface WorkingHours {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string;
+  endTime: string;
+}
+
+export interface BlockedRange {
+  date: string; // YYYY-MM-DD
+  startTime?: string | null; // Both null blocks the whole day
+  endTime?: string | null;
+}
+
+export interface BookedRange {
+  date: string;
+  time: string;
+  duration: number;
+}
+
+export interface DaySlots {
+  date: string;
+  slots: string[];
+}
+
+export interface SlotQuery {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  duration: number;
+  hours: WorkingHours[];
+  blocked: BlockedRange[];
+  booked: BookedRange[];
+  settings: SlotSettings;
+  now?: Date;
+}
+
+// The dates and times a waitlisted customer is happy to be booked for
+export interface SlotPreference {
+  dateFrom: string; // YYYY-MM-DD, inclusive
+  dateTo: string;
+  timeFrom?: string | null; // Earliest start, null = any time
+  timeTo?: string | null; // Latest start
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Size of the blocks a booking reserves in the database
+export const SLOT_BLOCK_MINUTES = 5;
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+export function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The calendar date part of a date, as stored on appointments and blocked times
+ */
+export function toDateKey(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+/**
+ * Every calendar date from one date to another, both included
+ */
+export function listDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${to}T00:00:00Z`).getTime();
+
+  for (let day = new Date(`${from}T00:00:00Z`).getTime(); day <= end; day += DAY_MS) {
+    dates.push(toDateKey(new Date(day)));
+  }
+
+  return dates;
+}
+
+/**
+ * Weekly hours from a shop's opening and closing time. Opening days are free
+ * text ("Mon, Tue", "Mon-Fri" or "Monday"), so if none can be read the shop
+ * is taken to be open every day.
+ */
+export function shopWorkingHours(
+  startTime?: string | null,
+  endTime?: string | null,
+  openingDays: string[] = []
+): WorkingHours[] {
+  const names = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+  const dayIndex = (name: string) => names.indexOf(name.trim().toLowerCase().slice(0, 3));
+  const days = new Set<number>();
+
+  for (const entry of openingDays) {
+    const [first, last] = entry.split("-").map(dayIndex);
+
+    if (first < 0) continue;
+    if (last === undefined || last < 0) {
+      days.add(first);
+      continue;
+    }
+
+    // Ranges may wrap around the week, e.g. "Sat-Mon"
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === last) break;
+    }
+  }
+
+  const valid = (time?: string | null) => !!time && /^\d{1,2}:\d{2}$/.test(time);
+
+  return (days.size > 0 ? Array.from(days).sort() : [0, 1, 2, 3, 4, 5, 6]).map((dayOfWeek) => ({
+    dayOfWeek,
+    startTime: valid(startTime) ? startTime : DEFAULT_WORKING_HOURS.startTime,
+    endTime: valid(endTime) ? endTime : DEFAULT_WORKING_HOURS.endTime,
+  }));
+}
+
+interface DayRules {
+  hours: WorkingHours[];
+  busy: { start: number; end: number }[];
+  earliest: number;
+}
+
+function getDayRules(query: Omit<SlotQuery, "from" | "to">, date: string): DayRules {
+  const { blocked, booked, settings } = query;
+  const now = query.now || new Date();
+  const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const dayBlocked = blocked.filter((b) => b.date === date);
+
+  return {
+    hours: query.hours.filter((h) => h.dayOfWeek === dayOfWeek),
+    busy: [
+      ...dayBlocked.map((b) => ({
+        start: b.startTime ? toMinutes(b.startTime) : 0,
+        end: b.endTime ? toMinutes(b.endTime) : 24 * 60,
+      })),
+      ...booked
+        .filter((b) => b.date === date)
+        .map((b) => ({
+          start: toMinutes(b.time) - settings.bufferMinutes,
+          end: toMinutes(b.time) + b.duration + settings.bufferMinutes,
+        })),
+    ],
+    earliest: now.getTime() + settings.leadTimeHours * 60 * 60 * 1000,
+  };
+}
+
+function fits(rules: DayRules, date: string, start: number, duration: number): boolean {
+  const end = start + duration;
+
+  return (
+    rules.hours.some((h) => start >= toMinutes(h.startTime) && end <= toMinutes(h.endTime)) &&
+    !rules.busy.some((b) => start < b.end && end > b.start) &&
+    getAppointmentStart(date, fromMinutes(start)).getTime() >= rules.earliest
+  );
+}
+
+/**
+ * Bookable start times per day. A slot has to fit inside the day's working
+ * hours, stay clear of blocked ranges, keep the buffer away from other
+ * bookings and start at least the lead time from now.
+ */
+export function computeSlots(query: SlotQuery): DaySlots[] {
+  const interval = Math.max(query.settings.slotIntervalMinutes, 5);
+
+  return listDates(query.from, query.to).map((date) => {
+    const rules = getDayRules(query, date);
+    const slots = new Set<string>();
+
+    for (const range of rules.hours) {
+      const close = toMinutes(range.endTime);
+
+      for (let start = toMinutes(range.startTime); start + query.duration <= close; start += interval) {
+        if (fits(rules, date, start, query.duration)) {
+          slots.add(fromMinutes(start));
+        }
+      }
+    }
+
+    return { date, slots: Array.from(slots).sort() };
+  });
+}
+
+/**
+ * Whether a booking can start at a given time, using the same rules as
+ * computeSlots but without snapping to the slot interval
+ */
+export function isSlotAvailable(
+  query: Omit<SlotQuery, "from" | "to">,
+  date: string,
+  time: string
+): boolean {
+  return fits(getDayRules(query, date), date, toMinutes(time), query.duration);
+}
+
+/**
+ * The blocks of provider time a booking reserves: from its start until the
+ * buffer after it ends, widened to whole blocks. Two bookings overlap (or sit
+ * inside each other's buffer) exactly when they share a block.
+ */
+export function getReservationBlocks(
+  date: string,
+  time: string,
+  duration: number,
+  bufferMinutes: number = 0
+): Date[] {
+  const dayStart = getAppointmentStart(date, "00:00").getTime();
+  const first = Math.floor(toMinutes(time) / SLOT_BLOCK_MINUTES);
+  const last = Math.ceil((toMinutes(time) + duration + bufferMinutes) / SLOT_BLOCK_MINUTES);
+  const blocks: Date[] = [];
+
+  for (let block = first; block < last; block++) {
+    blocks.push(new Date(dayStart + block * SLOT_BLOCK_MINUTES * 60 * 1000));
+  }
+
+  return blocks;
+}
+
+/**
+ * The earliest free start time on a day that suits a waitlisted customer,
+ * skipping times already offered to someone else
+ */
+export function findPreferredSlot(
+  preference: SlotPreference,
+  day: DaySlots,
+  exclude: string[] = []
+): string | null {
+  if (day.date < preference.dateFrom || day.date > preference.dateTo) {
+    return null;
+  }
+
+  const earliest = preference.timeFrom ? toMinutes(preference.timeFrom) : 0;
+  const latest = preference.timeTo ? toMinutes(preference.timeTo) : 24 * 60;
+
+  return (
+    day.slots.find(
+      (time) =>
+        !exclude.includes(time) && toMinutes(time) >= earliest && toMinutes(time) <= latest
+    ) || null
+  );
+}
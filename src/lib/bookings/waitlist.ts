@@ -0,0 +1,434 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { notifyNewBooking, notifyWaitlistOffer } from "@/lib/notifications";
+import { notificationEmails } from "@/lib/email";
+import { enqueueJob } from "@/lib/queue/queue";
+import { formatBookingDate } from "@/lib/utils";
+import { checkSlotAvailable, getAvailableSlots, getBufferMinutes } from "./availability";
+import { getHoldExpiry, reserveSlot, SlotTakenError } from "./holds";
+import { DaySlots, findPreferredSlot, toDateKey } from "./slots";
+
+// How long a waitlisted customer has to claim a freed slot
+export const WAITLIST_OFFER_MINUTES = parseInt(process.env.WAITLIST_OFFER_MINUTES || "60");
+
+const SITE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+// The offer was claimed, declined or expired while this claim was under way
+class OfferClosedError extends Error {
+  constructor() {
+    super("This offer is no longer open");
+    this.name = "OfferClosedError";
+  }
+}
+
+export interface WaitlistResult {
+  success: boolean;
+  appointment?: { id: string; price: number };
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Offer a slot to one waitlisted customer and let them know. Returns null
+ * when the entry is no longer waiting, e.g. it was offered something else.
+ */
+export async function createWaitlistOffer(entryId: string, date: string, time: string) {
+  const expiresAt = new Date(Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000);
+
+  const offer = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.waitlistEntry.updateMany({
+      where: { id: entryId, status: "WAITING" },
+      data: { status: "OFFERED" },
+    });
+
+    if (count === 0) return null;
+
+    return tx.waitlistOffer.create({
+      data: {
+        entryId,
+        date: new Date(date),
+        time,
+        expiresAt,
+        token: randomBytes(24).toString("hex"),
+      },
+      include: {
+        entry: {
+          select: {
+            service: { select: { name: true } },
+            customer: { select: { id: true, username: true } },
+            provider: { select: { username: true, shop: { select: { name: true } } } },
+          },
+        },
+      },
+    });
+  });
+
+  if (!offer) return null;
+
+  const { service, customer, provider } = offer.entry;
+  const when = `${formatBookingDate(offer.date)} at ${offer.time}`;
+
+  await notifyWaitlistOffer(
+    customer.id,
+    service.name,
+    when,
+    offer.token,
+    expiresAt,
+    notificationEmails.waitlistOffer({
+      customerName: customer.username,
+      serviceName: service.name,
+      providerName: provider.shop?.name || provider.username,
+      date: formatBookingDate(offer.date),
+      time: offer.time,
+      expiresAt: expiresAt.toLocaleString("en-ZA", {
+        dateStyle: "medium",
+        timeStyle: "short",
+        timeZone: "Africa/Johannesburg",
+      }),
+      claimLink: `${SITE_URL}/waitlist/${offer.token}`,
+    })
+  );
+
+  return offer;
+}
+
+/**
+ * Offer the free times on a day to the provider's waitlist, first come first
+ * served. Called whenever time opens up: a cancelled booking, a removed block
+ * or an offer that was declined or ran out. Each customer is offered one slot
+ * at a time and never the same slot twice.
+ */
+export async function offerFreedSlots(providerId: string, date: string) {
+  const now = new Date();
+  const day = new Date(date);
+
+  if (toDateKey(day) < toDateKey(now)) {
+    return { offered: 0 };
+  }
+
+  const entries = await prisma.waitlistEntry.findMany({
+    where: {
+      providerId,
+      status: "WAITING",
+      dateFrom: { lte: day },
+      dateTo: { gte: day },
+      service: { isActive: true },
+      // Customers the provider has blocked since joining aren't offered slots
+      customer: { blocksReceived: { none: { blockerId: providerId } } },
+    },
+    include: {
+      offers: { where: { date: day }, select: { time: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (entries.length === 0) {
+    return { offered: 0 };
+  }
+
+  // Times still out with someone else are not offered again
+  const pending = await prisma.waitlistOffer.findMany({
+    where: {
+      date: day,
+      status: "PENDING",
+      expiresAt: { gt: now },
+      entry: { providerId },
+    },
+    select: { time: true },
+  });
+
+  const offeredTimes = pending.map((o) => o.time);
+  const slotsByService = new Map<string, DaySlots>();
+  let offered = 0;
+
+  for (const entry of entries) {
+    if (!slotsByService.has(entry.serviceId)) {
+      const [slots] = await getAvailableSlots(providerId, entry.serviceId, date, date);
+      slotsByService.set(entry.serviceId, slots);
+    }
+
+    const time = findPreferredSlot(
+      {
+        dateFrom: toDateKey(entry.dateFrom),
+        dateTo: toDateKey(entry.dateTo),
+        timeFrom: entry.timeFrom,
+        timeTo: entry.timeTo,
+      },
+      slotsByService.get(entry.serviceId)!,
+      [...offeredTimes, ...entry.offers.map((o) => o.time)]
+    );
+
+    if (!time) continue;
+
+    const offer = await createWaitlistOffer(entry.id, date, time);
+    if (offer) {
+      offeredTimes.push(time);
+      offered++;
+    }
+  }
+
+  return { offered };
+}
+
+/**
+ * Hand offerFreedSlots to the job worker so the request that freed the time
+ * doesn't wait on it
+ */
+export async function queueFreedSlotOffers(providerId: string, date: string) {
+  return enqueueJob("waitlist.offer-freed-slots", { providerId, date });
+}
+
+/**
+ * Close offers nobody claimed in time and pass their slots to the next
+ * customer. Entries whose dates have all gone by stop waiting.
+ */
+export async function expireWaitlistOffers(now: Date = new Date()) {
+  const stale = await prisma.waitlistOffer.findMany({
+    where: { status: "PENDING", expiresAt: { lt: now } },
+    select: { id: true, entryId: true, date: true, entry: { select: { providerId: true } } },
+  });
+
+  const freed = new Map<string, { providerId: string; date: string }>();
+  let expired = 0;
+
+  for (const offer of stale) {
+    const { count } = await prisma.$transaction(async (tx) => {
+      const updated = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, status: "PENDING" },
+        data: { status: "EXPIRED", respondedAt: now },
+      });
+
+      if (updated.count > 0) {
+        await tx.waitlistEntry.updateMany({
+          where: { id: offer.entryId, status: "OFFERED" },
+          data: { status: "WAITING" },
+        });
+      }
+
+      return updated;
+    });
+
+    if (count === 0) continue;
+    expired++;
+
+    const date = toDateKey(offer.date);
+    freed.set(`${offer.entry.providerId} ${date}`, { providerId: offer.entry.providerId, date });
+  }
+
+  const { count: closed } = await prisma.waitlistEntry.updateMany({
+    where: { status: "WAITING", dateTo: { lt: new Date(toDateKey(now)) } },
+    data: { status: "EXPIRED" },
+  });
+
+  let offered = 0;
+  for (const slot of freed.values()) {
+    offered += (await offerFreedSlots(slot.providerId, slot.date)).offered;
+  }
+
+  return { expired, closed, offered };
+}
+
+/**
+ * Book the offered slot for the customer it was offered to. The slot is
+ * checked again because it is not held while the offer is open.
+ */
+export async function claimWaitlistOffer(token: string, userId: string): Promise<WaitlistResult> {
+  const offer = await prisma.waitlistOffer.findUnique({
+    where: { token },
+    include: {
+      entry: {
+        include: {
+          service: { select: { id: true, name: true, price: true, duration: true } },
+          customer: { select: { username: true } },
+          provider: { select: { username: true } },
+        },
+      },
+    },
+  });
+
+  if (!offer) {
+    return { success: false, error: "Offer not found", status: 404 };
+  }
+
+  const { entry } = offer;
+
+  if (entry.customerId !== userId) {
+    return { success: false, error: "This offer was made to someone else", status: 403 };
+  }
+
+  if (offer.status !== "PENDING") {
+    return { success: false, error: "This offer is no longer open", status: 409 };
+  }
+
+  if (offer.expiresAt < new Date()) {
+    await expireWaitlistOffers();
+    return { success: false, error: "This offer has expired", status: 410 };
+  }
+
+  const date = toDateKey(offer.date);
+  const isAvailable = await checkSlotAvailable(entry.providerId, entry.serviceId, date, offer.time);
+  const bufferMinutes = await getBufferMinutes(entry.providerId, entry.serviceId);
+
+  let appointment = null;
+  if (isAvailable) {
+    try {
+      appointment = await prisma.$transaction(async (tx) => {
+        const created = await tx.appointment.create({
+          data: {
+            requesterId: userId,
+            providerId: entry.providerId,
+            serviceId: entry.serviceId,
+            date: offer.date,
+            time: offer.time,
+            duration: entry.service.duration,
+            note: entry.notes,
+            status: "PENDING",
+            holdExpiresAt: Number(entry.service.price) > 0 ? getHoldExpiry() : null,
+          },
+        });
+
+        await reserveSlot(tx, {
+          appointmentId: created.id,
+          providerId: entry.providerId,
+          date,
+          time: offer.time,
+          duration: entry.service.duration,
+          bufferMinutes,
+        });
+
+        const claimed = await tx.waitlistOffer.updateMany({
+          where: { id: offer.id, status: "PENDING" },
+          data: { status: "CLAIMED", respondedAt: new Date(), appointmentId: created.id },
+        });
+
+        const booked = await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: "OFFERED" },
+          data: { status: "BOOKED" },
+        });
+
+        if (claimed.count === 0 || booked.count === 0) {
+          throw new OfferClosedError();
+        }
+
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof OfferClosedError) {
+        return { success: false, error: error.message, status: 409 };
+      }
+      if (!(error instanceof SlotTakenError)) throw error;
+    }
+  }
+
+  if (!appointment) {
+    // Someone booked the time first; the customer keeps their place in line
+    const { count } = await prisma.$transaction(async (tx) => {
+      const updated = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, status: "PENDING" },
+        data: { status: "EXPIRED", respondedAt: new Date() },
+      });
+
+      if (updated.count > 0) {
+        await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: "OFFERED" },
+          data: { status: "WAITING" },
+        });
+      }
+
+      return updated;
+    });
+
+    if (count === 0) {
+      return { success: false, error: "This offer is no longer open", status: 409 };
+    }
+
+    return {
+      success: false,
+      error: "Sorry, this time was booked before you claimed it. You're still on the waitlist.",
+      status: 409,
+    };
+  }
+
+  notifyNewBooking(
+    entry.providerId,
+    entry.customer.username,
+    entry.service.name,
+    appointment.id,
+    formatBookingDate(offer.date),
+    notificationEmails.newBooking({
+      providerName: entry.provider.username,
+      customerName: entry.customer.username,
+      serviceName: entry.service.name,
+      date: formatBookingDate(offer.date),
+      time: offer.time,
+      bookingId: appointment.id,
+    })
+  ).catch((err) => console.error("Failed to notify provider:", err));
+
+  return {
+    success: true,
+    appointment: { id: appointment.id, price: Number(entry.service.price) },
+  };
+}
+
+/**
+ * Turn an offer down so the slot goes to the next person. The customer
+ * stays on the waitlist for other times.
+ */
+export async function declineWaitlistOffer(token: string, userId: string): Promise<WaitlistResult> {
+  const offer = await prisma.waitlistOffer.findUnique({
+    where: { token },
+    include: { entry: { select: { id: true, customerId: true, providerId: true } } },
+  });
+
+  if (!offer) {
+    return { success: false, error: "Offer not found", status: 404 };
+  }
+
+  if (offer.entry.customerId !== userId) {
+    return { success: false, error: "This offer was made to someone else", status: 403 };
+  }
+
+  if (offer.status !== "PENDING") {
+    return { success: false, error: "This offer is no longer open", status: 409 };
+  }
+
+  await prisma.$transaction([
+    prisma.waitlistOffer.update({
+      where: { id: offer.id },
+      data: { status: "DECLINED", respondedAt: new Date() },
+    }),
+    prisma.waitlistEntry.updateMany({
+      where: { id: offer.entry.id, status: "OFFERED" },
+      data: { status: "WAITING" },
+    }),
+  ]);
+
+  await queueFreedSlotOffers(offer.entry.providerId, toDateKey(offer.date));
+
+  return { success: true };
+}
+
+/**
+ * Take a customer off the waitlist. An offer they still had open is passed on.
+ */
+export async function cancelWaitlistEntry(entryId: string) {
+  const [openOffers, , entry] = await prisma.$transaction([
+    prisma.waitlistOffer.findMany({
+      where: { entryId, status: "PENDING" },
+      select: { date: true },
+    }),
+    prisma.waitlistOffer.updateMany({
+      where: { entryId, status: "PENDING" },
+      data: { status: "EXPIRED", respondedAt: new Date() },
+    }),
+    prisma.waitlistEntry.update({
+      where: { id: entryId },
+      data: { status: "CANCELLED" },
+    }),
+  ]);
+
+  for (const offer of openOffers) {
+    await queueFreedSlotOffers(entry.providerId, toDateKey(offer.date));
+  }
+}
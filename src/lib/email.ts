@@ -121,6 +121,104 @@ const templates = {
     <p>Best regards,<br>The ${SITE_NAME} Team</p>
   `),
 
+  // Reschedule proposal (for the other party on the booking)
+  rescheduleProposal: (data: {
+    recipientName: string;
+    proposerName: string;
+    serviceName: string;
+    currentDate: string;
+    currentTime: string;
+    proposedDate: string;
+    proposedTime: string;
+    message?: string;
+    isCounter?: boolean;
+    bookingId: string;
+  }) => templates.base(`
+    <h2>${data.isCounter ? "A New Time Was Suggested" : "Reschedule Request"} 🔁</h2>
+    <p>Hi <strong>${data.recipientName}</strong>,</p>
+    <p><strong>${data.proposerName}</strong> would like to move your booking for ${data.serviceName}:</p>
+    <div class="info-box">
+      <p><strong>Currently:</strong> ${data.currentDate} at ${data.currentTime}</p>
+      <p><strong>Proposed:</strong> <span class="highlight">${data.proposedDate} at ${data.proposedTime}</span></p>
+      ${data.message ? `<p><strong>Message:</strong> ${data.message}</p>` : ""}
+    </div>
+    <a href="${SITE_URL}/dashboard/bookings/${data.bookingId}" class="button">Respond to Request</a>
+    <p>You can accept the new time, decline it, or suggest another time.</p>
+    <p>Best regards,<br>The ${SITE_NAME} Team</p>
+  `),
+
+  // Reschedule response (for the party who proposed)
+  rescheduleResponse: (data: {
+    recipientName: string;
+    responderName: string;
+    serviceName: string;
+    accepted: boolean;
+    date: string;
+    time: string;
+    bookingId: string;
+  }) => templates.base(`
+    <h2>Reschedule ${data.accepted ? "Accepted ✅" : "Declined"}</h2>
+    <p>Hi <strong>${data.recipientName}</strong>,</p>
+    <p><strong>${data.responderName}</strong> ${data.accepted ? "accepted" : "declined"} your request to move ${data.serviceName}.</p>
+    <div class="info-box">
+      <p><strong>${data.accepted ? "New time" : "Booking stays at"}:</strong> ${data.date} at ${data.time}</p>
+    </div>
+    <a href="${SITE_URL}/dashboard/bookings/${data.bookingId}" class="button">View Booking</a>
+    <p>Best regards,<br>The ${SITE_NAME} Team</p>
+  `),
+
+  // Appointment reminder (for both the customer and the provider)
+  appointmentReminder: (data: {
+    recipientName: string;
+    otherPartyName: string;
+    serviceName: string;
+    date: string;
+    time: string;
+    startsIn: string;
+    address?: string | null;
+    bookingId: string;
+    respondLink?: string;
+  }) => templates.base(`
+    <h2>Reminder: ${data.serviceName} in ${data.startsIn} ⏰</h2>
+    <p>Hi <strong>${data.recipientName}</strong>,</p>
+    <p>This is a reminder of your booking with <strong>${data.otherPartyName}</strong>.</p>
+    <div class="info-box">
+      <p><strong>Service:</strong> ${data.serviceName}</p>
+      <p><strong>When:</strong> <span class="highlight">${data.date} at ${data.time}</span></p>
+      ${data.address ? `<p><strong>Where:</strong> ${data.address}</p>` : ""}
+    </div>
+    ${
+      data.respondLink
+        ? `<a href="${data.respondLink}" class="button">Confirm or Cancel</a>
+    <p>Let ${data.otherPartyName} know you're coming, or cancel if your plans have changed.</p>`
+        : `<a href="${SITE_URL}/dashboard/bookings/${data.bookingId}" class="button">View Booking</a>`
+    }
+    <p>The attached calendar file adds the booking to your calendar.</p>
+    <p>Best regards,<br>The ${SITE_NAME} Team</p>
+  `),
+
+  // Waitlist offer (for the customer next in line)
+  waitlistOffer: (data: {
+    customerName: string;
+    serviceName: string;
+    providerName: string;
+    date: string;
+    time: string;
+    expiresAt: string;
+    claimLink: string;
+  }) => templates.base(`
+    <h2>A Time Opened Up ⏰</h2>
+    <p>Hi <strong>${data.customerName}</strong>,</p>
+    <p>A slot you were waiting for with <strong>${data.providerName}</strong> is now free:</p>
+    <div class="info-box">
+      <p><strong>Service:</strong> ${data.serviceName}</p>
+      <p><strong>When:</strong> <span class="highlight">${data.date} at ${data.time}</span></p>
+    </div>
+    <a href="${data.claimLink}" class="button">Claim This Time</a>
+    <p>The offer is held for you until ${data.expiresAt}. After that it goes to the next person on the waitlist.</p>
+    <p>Best regards,<br>The ${SITE_NAME} Team</p>
+  `),
+
   // Booking status update
   bookingStatusUpdate: (data: {
     customerName: string;
@@ -249,10 +347,63 @@ const templates = {
     <a href="${SITE_URL}/dashboard/orders/${data.orderId}" class="button">View Order</a>
     <p>Best regards,<br>The ${SITE_NAME} Team</p>
   `),
+
+  // Daily or weekly roundup of notifications
+  notificationDigest: (data: {
+    recipientName: string;
+    period: "daily" | "weekly";
+    sections: {
+      heading: string;
+      items: { title: string; message: string; link?: string | null; date: string }[];
+    }[];
+  }) => templates.base(`
+    <h2>Your ${data.period === "daily" ? "Daily" : "Weekly"} Summary 📬</h2>
+    <p>Hi <strong>${data.recipientName}</strong>,</p>
+    <p>Here's what happened ${data.period === "daily" ? "since yesterday" : "this past week"}:</p>
+    ${data.sections.map(section => `
+    <h3 style="margin-bottom: 8px;">${section.heading} (${section.items.length})</h3>
+    <div class="info-box">
+      ${section.items.map(item => `
+      <p style="margin: 0 0 12px;">
+        <strong>${item.link ? `<a href="${SITE_URL}${item.link}" style="color: #2563eb;">${item.title}</a>` : item.title}</strong><br>
+        ${item.message}<br>
+        <span style="font-size: 12px; color: #6b7280;">${item.date}</span>
+      </p>
+      `).join("")}
+    </div>
+    `).join("")}
+    <a href="${SITE_URL}/dashboard" class="button">Go to Dashboard</a>
+    <p style="font-size: 12px; color: #6b7280;">You can change how often you get these in your <a href="${SITE_URL}/dashboard/settings">notification settings</a>.</p>
+    <p>Best regards,<br>The ${SITE_NAME} Team</p>
+  `),
 };
 
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+// An email that goes out with a notification
+export interface NotificationEmail {
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+// The details behind these emails, for other channels that tell people the
+// same thing in their own format
+export type BookingConfirmationData = Parameters<typeof templates.bookingConfirmation>[0];
+export type AppointmentReminderData = Parameters<typeof templates.appointmentReminder>[0];
+export type OrderConfirmationData = Parameters<typeof templates.orderConfirmation>[0];
+
 // Email sending functions
-export async function sendEmail(to: string, subject: string, html: string) {
+export async function sendEmail(
+  to: string,
+  subject: string,
+  html: string,
+  attachments?: EmailAttachment[]
+) {
   // Check if email is configured
   if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
     console.log("Email not configured. Would send to:", to);
@@ -266,6 +417,7 @@ export async function sendEmail(to: string, subject: string, html: string) {
       to,
       subject,
       html,
+      attachments,
     });
     return { success: true };
   } catch (error) {
@@ -274,30 +426,93 @@ export async function sendEmail(to: string, subject: string, html: string) {
   }
 }
 
-// Convenience functions
-export async function sendWelcomeEmail(to: string, username: string) {
-  return sendEmail(to, `Welcome to ${SITE_NAME}!`, templates.welcome(username));
-}
+/**
+ * Emails that accompany a notification. They are handed to the notification
+ * dispatcher rather than sent here, so the recipient's preferences and quiet
+ * hours decide whether and when they go out.
+ */
+export const notificationEmails = {
+  bookingConfirmation: (
+    data: Parameters<typeof templates.bookingConfirmation>[0]
+  ): NotificationEmail => ({
+    subject: "Your Booking is Confirmed!",
+    html: templates.bookingConfirmation(data),
+  }),
 
-export async function sendBookingConfirmation(
-  to: string,
-  data: Parameters<typeof templates.bookingConfirmation>[0]
-) {
-  return sendEmail(to, "Your Booking is Confirmed!", templates.bookingConfirmation(data));
-}
+  newBooking: (data: Parameters<typeof templates.newBookingNotification>[0]): NotificationEmail => ({
+    subject: "New Booking Request",
+    html: templates.newBookingNotification(data),
+  }),
+
+  bookingStatusUpdate: (
+    data: Parameters<typeof templates.bookingStatusUpdate>[0]
+  ): NotificationEmail => ({
+    subject: `Booking Update: ${data.status}`,
+    html: templates.bookingStatusUpdate(data),
+  }),
 
-export async function sendNewBookingNotification(
+  rescheduleProposal: (
+    data: Parameters<typeof templates.rescheduleProposal>[0]
+  ): NotificationEmail => ({
+    subject: data.isCounter
+      ? "A new time was suggested for your booking"
+      : "Reschedule request for your booking",
+    html: templates.rescheduleProposal(data),
+  }),
+
+  rescheduleResponse: (
+    data: Parameters<typeof templates.rescheduleResponse>[0]
+  ): NotificationEmail => ({
+    subject: `Reschedule ${data.accepted ? "accepted" : "declined"}: ${data.serviceName}`,
+    html: templates.rescheduleResponse(data),
+  }),
+
+  waitlistOffer: (data: Parameters<typeof templates.waitlistOffer>[0]): NotificationEmail => ({
+    subject: `A time opened up: ${data.serviceName}`,
+    html: templates.waitlistOffer(data),
+  }),
+
+  appointmentReminder: (
+    data: Parameters<typeof templates.appointmentReminder>[0],
+    calendarFile: string
+  ): NotificationEmail => ({
+    subject: `Reminder: ${data.serviceName} on ${data.date} at ${data.time}`,
+    html: templates.appointmentReminder(data),
+    attachments: [
+      { filename: "booking.ics", content: calendarFile, contentType: "text/calendar; charset=utf-8" },
+    ],
+  }),
+
+  newMessage: (data: Parameters<typeof templates.newMessageNotification>[0]): NotificationEmail => ({
+    subject: `New message from ${data.senderName}`,
+    html: templates.newMessageNotification(data),
+  }),
+
+  newReview: (data: Parameters<typeof templates.newReviewNotification>[0]): NotificationEmail => ({
+    subject: "You received a new review!",
+    html: templates.newReviewNotification(data),
+  }),
+
+  orderConfirmation: (data: Parameters<typeof templates.orderConfirmation>[0]): NotificationEmail => ({
+    subject: `Order Confirmed #${data.orderId}`,
+    html: templates.orderConfirmation(data),
+  }),
+};
+
+export async function sendNotificationDigest(
   to: string,
-  data: Parameters<typeof templates.newBookingNotification>[0]
+  data: Parameters<typeof templates.notificationDigest>[0]
 ) {
-  return sendEmail(to, "New Booking Request", templates.newBookingNotification(data));
+  return sendEmail(
+    to,
+    `Your ${data.period} summary from ${SITE_NAME}`,
+    templates.notificationDigest(data)
+  );
 }
 
-export async function sendBookingStatusUpdate(
-  to: string,
-  data: Parameters<typeof templates.bookingStatusUpdate>[0]
-) {
-  return sendEmail(to, `Booking Update: ${data.status}`, templates.bookingStatusUpdate(data));
+// Account emails: always sent, whatever the user's notification preferences
+export async function sendWelcomeEmail(to: string, username: string) {
+  return sendEmail(to, `Welcome to ${SITE_NAME}!`, templates.welcome(username));
 }
 
 export async function sendVerificationEmail(
@@ -320,24 +535,3 @@ export async function sendContactFormEmail(
   const adminEmail = process.env.ADMIN_EMAIL || "support@mzansimarket.co.za";
   return sendEmail(adminEmail, `Contact Form: ${data.subject}`, templates.contactFormSubmission(data));
 }
-
-export async function sendNewMessageNotification(
-  to: string,
-  data: Parameters<typeof templates.newMessageNotification>[0]
-) {
-  return sendEmail(to, `New message from ${data.senderName}`, templates.newMessageNotification(data));
-}
-
-export async function sendNewReviewNotification(
-  to: string,
-  data: Parameters<typeof templates.newReviewNotification>[0]
-) {
-  return sendEmail(to, "You received a new review!", templates.newReviewNotification(data));
-}
-
-export async function sendOrderConfirmation(
-  to: string,
-  data: Parameters<typeof templates.orderConfirmation>[0]
-) {
-  return sendEmail(to, `Order Confirmed #${data.orderId}`, templates.orderConfirmation(data));
-}
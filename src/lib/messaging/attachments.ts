@@ -0,0 +1,64 @@
+import { isImageType, statOwnUpload, validateUpload } from "@/lib/uploads";
+import { ConversationError } from "./context";
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+// What the composer sends once a file is uploaded through /api/upload
+export interface MessageAttachmentInput {
+  url: string;
+  filename: string;
+}
+
+export interface PreparedAttachment {
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Check each attachment is a file the sender uploaded for messages, and read
+ * its real type and size from the saved file rather than trusting the client.
+ */
+export async function prepareMessageAttachments(
+  senderId: string,
+  inputs: MessageAttachmentInput[]
+): Promise<PreparedAttachment[]> {
+  if (inputs.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new ConversationError(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files`);
+  }
+
+  return Promise.all(
+    inputs.map(async (input) => {
+      const file = await statOwnUpload(input.url, senderId, "message");
+
+      if (!file) {
+        throw new ConversationError(`${input.filename}: Attachment not found`);
+      }
+
+      const validationError = validateUpload({ type: file.mimeType, size: file.size }, "message");
+      if (validationError) {
+        throw new ConversationError(`${input.filename}: ${validationError}`);
+      }
+
+      return {
+        url: input.url,
+        filename: input.filename.trim().slice(0, 255) || file.storedName,
+        mimeType: file.mimeType,
+        size: file.size,
+      };
+    })
+  );
+}
+
+/**
+ * Stands in for the text of a message that is only attachments
+ */
+export function describeAttachments(attachments: { mimeType: string }[]) {
+  const images = attachments.filter((a) => isImageType(a.mimeType)).length;
+  const files = attachments.length - images;
+
+  if (files === 0) return images === 1 ? "Sent a photo" : `Sent ${images} photos`;
+  if (images === 0) return files === 1 ? "Sent a file" : `Sent ${files} files`;
+  return `Sent ${attachments.length} attachments`;
+}
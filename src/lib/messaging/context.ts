@@ -0,0 +1,171 @@
+import { prisma } from "@/lib/prisma";
+import { formatBookingDate } from "@/lib/utils";
+
+export class ConversationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationError";
+  }
+}
+
+export interface ConversationContextInput {
+  appointmentId?: string;
+  orderId?: string;
+  jobId?: string;
+  jobApplicationId?: string;
+}
+
+// Where a conversation comes from and who the other person in it is
+export interface ResolvedConversation {
+  otherUserId: string;
+  contextKey: string;
+  subject?: string;
+  appointmentId?: string;
+  orderId?: string;
+  jobId?: string;
+  jobApplicationId?: string;
+}
+
+export type ConversationContextType = "appointment" | "order" | "job" | "jobApplication";
+
+/**
+ * Work out who `userId` is talking to about a booking, order or job, checking
+ * they have a part in it. Without a context it's a general chat with
+ * `participantId`.
+ */
+export async function resolveConversationContext(
+  userId: string,
+  participantId: string | undefined,
+  context: ConversationContextInput
+): Promise<ResolvedConversation> {
+  if (context.appointmentId) {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: context.appointmentId },
+      select: {
+        id: true,
+        date: true,
+        requesterId: true,
+        providerId: true,
+        service: { select: { name: true } },
+      },
+    });
+
+    if (!appointment || ![appointment.requesterId, appointment.providerId].includes(userId)) {
+      throw new ConversationError("Booking not found");
+    }
+
+    return {
+      otherUserId: userId === appointment.requesterId ? appointment.providerId : appointment.requesterId,
+      contextKey: `appointment:${appointment.id}`,
+      subject: `${appointment.service?.name || "Booking"} on ${formatBookingDate(appointment.date)}`,
+      appointmentId: appointment.id,
+    };
+  }
+
+  if (context.jobApplicationId) {
+    const application = await prisma.jobApplication.findUnique({
+      where: { id: context.jobApplicationId },
+      select: {
+        id: true,
+        applicantId: true,
+        job: { select: { id: true, title: true, posterId: true } },
+      },
+    });
+
+    if (!application || ![application.applicantId, application.job.posterId].includes(userId)) {
+      throw new ConversationError("Application not found");
+    }
+
+    return {
+      otherUserId: userId === application.applicantId ? application.job.posterId : application.applicantId,
+      contextKey: `jobApplication:${application.id}`,
+      subject: `Application for ${application.job.title}`,
+      jobId: application.job.id,
+      jobApplicationId: application.id,
+    };
+  }
+
+  if (context.jobId) {
+    const job = await prisma.job.findUnique({
+      where: { id: context.jobId },
+      select: { id: true, title: true, posterId: true },
+    });
+
+    if (!job) {
+      throw new ConversationError("Job not found");
+    }
+
+    // Posters talk to applicants through their application
+    if (job.posterId === userId) {
+      throw new ConversationError("Message applicants from the job's applications page");
+    }
+
+    return {
+      otherUserId: job.posterId,
+      contextKey: `job:${job.id}`,
+      subject: job.title,
+      jobId: job.id,
+    };
+  }
+
+  if (context.orderId) {
+    // Shop orders have no seller, so the team reaches out to the customer
+    const [order, user] = await Promise.all([
+      prisma.order.findUnique({
+        where: { id: context.orderId },
+        select: { id: true, orderNumber: true, userId: true },
+      }),
+      prisma.user.findUnique({ where: { id: userId }, select: { userType: true } }),
+    ]);
+
+    if (!order || user?.userType !== "ADMIN") {
+      throw new ConversationError("Order not found");
+    }
+
+    return {
+      otherUserId: order.userId,
+      contextKey: `order:${order.id}`,
+      subject: `Order ${order.orderNumber.slice(-8).toUpperCase()}`,
+      orderId: order.id,
+    };
+  }
+
+  if (!participantId) {
+    throw new ConversationError("Please choose who to message");
+  }
+
+  return { otherUserId: participantId, contextKey: "" };
+}
+
+/**
+ * Which kind of thing a conversation is about, and where to see it from the
+ * given participant's side
+ */
+export function describeConversationContext(
+  conversation: {
+    appointmentId: string | null;
+    orderId: string | null;
+    jobId: string | null;
+    jobApplicationId: string | null;
+  },
+  viewer: { isJobPoster?: boolean } = {}
+): { type: ConversationContextType; link: string } | null {
+  if (conversation.appointmentId) {
+    return { type: "appointment", link: `/dashboard/bookings/${conversation.appointmentId}` };
+  }
+  if (conversation.jobApplicationId && conversation.jobId) {
+    return {
+      type: "jobApplication",
+      link: viewer.isJobPoster
+        ? `/dashboard/jobs/${conversation.jobId}/applications`
+        : `/jobs/${conversation.jobId}`,
+    };
+  }
+  if (conversation.jobId) {
+    return { type: "job", link: `/jobs/${conversation.jobId}` };
+  }
+  if (conversation.orderId) {
+    return { type: "order", link: `/dashboard/orders/${conversation.orderId}` };
+  }
+  return null;
+}
@@ -0,0 +1,371 @@
+import { prisma } from "@/lib/prisma";
+import { notifyNewMessage } from "@/lib/notifications";
+import { publishRealtime } from "@/lib/realtime/bus";
+import { isBlockedEitherWay } from "@/lib/safety/blocks";
+import {
+  flagSuspiciousMessage,
+  hasReachedFirstContactLimit,
+  isFirstContact,
+} from "@/lib/safety/messages";
+import { ConversationError, ResolvedConversation } from "./context";
+import {
+  MessageAttachmentInput,
+  describeAttachments,
+  prepareMessageAttachments,
+} from "./attachments";
+import { getParticipantKey } from "./participants";
+
+const PREVIEW_LENGTH = 140;
+
+const BACKFILL_BATCH_SIZE = 500;
+
+const senderSelect = {
+  id: true,
+  username: true,
+  picture: true,
+} as const;
+
+/**
+ * The start of a message on one line, for the conversation list
+ */
+export function getMessagePreview(content: string) {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
+
+/**
+ * The conversation between two users about the given context, started if
+ * they haven't talked about it before
+ */
+export async function getOrCreateConversation(
+  userId: string,
+  otherUserId: string,
+  context: Omit<ResolvedConversation, "otherUserId"> = { contextKey: "" }
+) {
+  const participantKey = getParticipantKey(userId, otherUserId);
+
+  return prisma.conversation.upsert({
+    where: { participantKey_contextKey: { participantKey, contextKey: context.contextKey } },
+    create: {
+      participantKey,
+      contextKey: context.contextKey,
+      subject: context.subject,
+      appointmentId: context.appointmentId,
+      orderId: context.orderId,
+      jobId: context.jobId,
+      jobApplicationId: context.jobApplicationId,
+      participants: {
+        create: [...new Set([userId, otherUserId])].map((id) => ({ userId: id })),
+      },
+    },
+    update: {},
+  });
+}
+
+/**
+ * A conversation with its participants, or null if `userId` isn't in it
+ */
+export async function getConversationForUser(conversationId: string, userId: string) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: { participants: true },
+  });
+
+  if (!conversation?.participants.some((p) => p.userId === userId)) {
+    return null;
+  }
+
+  return conversation;
+}
+
+/**
+ * Save a message and update the conversation summary in one go, then push it
+ * to both users' open tabs and notify the recipient unless they've muted it.
+ * Blocks and the first-contact limit are checked first.
+ */
+export async function sendMessage(input: {
+  conversationId: string;
+  senderId: string;
+  subject?: string;
+  content: string;
+  attachments?: MessageAttachmentInput[];
+}) {
+  const conversation = await getConversationForUser(input.conversationId, input.senderId);
+  if (!conversation) {
+    throw new ConversationError("Conversation not found");
+  }
+
+  const recipient = conversation.participants.find((p) => p.userId !== input.senderId);
+  if (!recipient) {
+    throw new ConversationError("You cannot send a message to yourself");
+  }
+
+  if (await isBlockedEitherWay(input.senderId, recipient.userId)) {
+    throw new ConversationError("You can't message this user");
+  }
+
+  const sender = await prisma.user.findUniqueOrThrow({
+    where: { id: input.senderId },
+    select: { createdAt: true, userType: true },
+  });
+
+  const isStart = !conversation.lastMessageAt;
+  const firstContact = isStart && (await isFirstContact(conversation));
+  if (
+    firstContact &&
+    sender.userType !== "ADMIN" &&
+    (await hasReachedFirstContactLimit(input.senderId))
+  ) {
+    throw new ConversationError(
+      "You've started a lot of new conversations today. Please try again tomorrow."
+    );
+  }
+
+  const attachments = await prepareMessageAttachments(input.senderId, input.attachments ?? []);
+  if (!input.content.trim() && attachments.length === 0) {
+    throw new ConversationError("Message content is required");
+  }
+
+  const preview = input.content.trim() || describeAttachments(attachments);
+  const sentAt = new Date();
+
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: {
+        senderId: input.senderId,
+        receiverId: recipient.userId,
+        subject: input.subject,
+        content: input.content,
+        status: "UNREAD",
+        createdAt: sentAt,
+        conversationId: conversation.id,
+        attachments: {
+          create: attachments.map((attachment) => ({
+            ...attachment,
+            conversationId: conversation.id,
+          })),
+        },
+      },
+      include: {
+        sender: { select: senderSelect },
+        receiver: { select: senderSelect },
+        attachments: true,
+      },
+    }),
+    prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        lastMessageAt: sentAt,
+        lastMessagePreview: getMessagePreview(preview),
+        lastMessageSenderId: input.senderId,
+        ...(isStart && { startedById: input.senderId, startedAt: sentAt, isFirstContact: firstContact }),
+      },
+    }),
+    prisma.conversationParticipant.update({
+      where: { id: recipient.id },
+      data: { unreadCount: { increment: 1 }, archivedAt: null },
+    }),
+    // Replying brings an archived conversation back for the sender too
+    prisma.conversationParticipant.updateMany({
+      where: { conversationId: conversation.id, userId: input.senderId },
+      data: { archivedAt: null },
+    }),
+  ]);
+
+  await publishRealtime([input.senderId, recipient.userId], {
+    type: "message.new",
+    conversationId: conversation.id,
+    messageId: message.id,
+    senderId: input.senderId,
+    message,
+  });
+
+  if (!recipient.mutedAt) {
+    notifyNewMessage(recipient.userId, message.sender.username, preview, conversation.id);
+  }
+
+  await flagSuspiciousMessage(message, sender, sentAt);
+
+  return message;
+}
+
+/**
+ * Send to a user in the general conversation with them, starting it if needed
+ */
+export async function sendDirectMessage(input: {
+  senderId: string;
+  receiverId: string;
+  subject?: string;
+  content: string;
+  attachments?: MessageAttachmentInput[];
+}) {
+  const conversation = await getOrCreateConversation(input.senderId, input.receiverId);
+
+  return sendMessage({
+    conversationId: conversation.id,
+    senderId: input.senderId,
+    subject: input.subject,
+    content: input.content,
+    attachments: input.attachments,
+  });
+}
+
+/**
+ * Archive or mute a conversation for one participant only
+ */
+export async function updateConversationSettings(
+  conversationId: string,
+  userId: string,
+  settings: { archived?: boolean; muted?: boolean },
+  now: Date = new Date()
+) {
+  const participant = await prisma.conversationParticipant.update({
+    where: { conversationId_userId: { conversationId, userId } },
+    data: {
+      ...(settings.archived !== undefined && { archivedAt: settings.archived ? now : null }),
+      ...(settings.muted !== undefined && { mutedAt: settings.muted ? now : null }),
+    },
+  });
+
+  // The user's other tabs move it between inbox and archive
+  await publishRealtime([userId], { type: "conversation.updated", conversationId });
+
+  return participant;
+}
+
+/**
+ * Mark everything the other side has sent as read, and tell them so. Safe to
+ * call on every view; nothing is published if there was nothing unread.
+ */
+export async function markConversationRead(
+  conversationId: string,
+  userId: string,
+  now: Date = new Date()
+) {
+  const [updated] = await prisma.$transaction([
+    prisma.message.updateMany({
+      where: { conversationId, receiverId: userId, status: "UNREAD" },
+      data: { status: "READ" },
+    }),
+    prisma.conversationParticipant.update({
+      where: { conversationId_userId: { conversationId, userId } },
+      data: { unreadCount: 0, lastReadAt: now },
+    }),
+  ]);
+
+  if (updated.count > 0) {
+    const others = await prisma.conversationParticipant.findMany({
+      where: { conversationId, userId: { not: userId } },
+      select: { userId: true },
+    });
+
+    await publishRealtime([userId, ...others.map((p) => p.userId)], {
+      type: "message.read",
+      conversationId,
+      readerId: userId,
+      readAt: now.toISOString(),
+    });
+  }
+
+  return { read: updated.count };
+}
+
+/**
+ * Recount a conversation's summary from its messages. Used after a message is
+ * deleted or marked unread, where keeping counts in step by hand isn't worth it.
+ */
+export async function refreshConversation(conversationId: string) {
+  const [lastMessage, participants] = await Promise.all([
+    prisma.message.findFirst({
+      where: { conversationId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        content: true,
+        createdAt: true,
+        senderId: true,
+        attachments: { select: { mimeType: true } },
+      },
+    }),
+    prisma.conversationParticipant.findMany({
+      where: { conversationId },
+      select: { id: true, userId: true },
+    }),
+  ]);
+
+  const unreadCounts = await Promise.all(
+    participants.map((participant) =>
+      prisma.message.count({
+        where: { conversationId, receiverId: participant.userId, status: "UNREAD" },
+      })
+    )
+  );
+
+  await prisma.$transaction([
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageAt: lastMessage?.createdAt ?? null,
+        lastMessagePreview: lastMessage
+          ? getMessagePreview(lastMessage.content.trim() || describeAttachments(lastMessage.attachments))
+          : null,
+        lastMessageSenderId: lastMessage?.senderId ?? null,
+      },
+    }),
+    ...participants.map((participant, i) =>
+      prisma.conversationParticipant.update({
+        where: { id: participant.id },
+        data: { unreadCount: unreadCounts[i] },
+      })
+    ),
+  ]);
+
+  await publishRealtime(
+    participants.map((p) => p.userId),
+    { type: "conversation.updated", conversationId }
+  );
+}
+
+/**
+ * Move messages from before conversations existed into the general
+ * conversation for each pair of users, a batch at a time. Runs on a timer and
+ * does nothing once every message has a conversation.
+ */
+export async function backfillConversations(batchSize: number = BACKFILL_BATCH_SIZE) {
+  const messages = await prisma.message.findMany({
+    where: { conversationId: null },
+    select: { id: true, senderId: true, receiverId: true, subject: true },
+    orderBy: { createdAt: "asc" },
+    take: batchSize,
+  });
+
+  const byPair = new Map<
+    string,
+    { senderId: string; receiverId: string; subject: string | null; ids: string[] }
+  >();
+  for (const message of messages) {
+    const key = getParticipantKey(message.senderId, message.receiverId);
+    const pair = byPair.get(key) ?? {
+      senderId: message.senderId,
+      receiverId: message.receiverId,
+      subject: message.subject,
+      ids: [],
+    };
+    pair.ids.push(message.id);
+    byPair.set(key, pair);
+  }
+
+  for (const pair of byPair.values()) {
+    // The first subject the pair used, if any, names the conversation
+    const conversation = await getOrCreateConversation(pair.senderId, pair.receiverId, {
+      contextKey: "",
+      subject: pair.subject ?? undefined,
+    });
+    await prisma.message.updateMany({
+      where: { id: { in: pair.ids } },
+      data: { conversationId: conversation.id },
+    });
+    await refreshConversation(conversation.id);
+  }
+
+  return { messages: messages.length, conversations: byPair.size };
+}
@@ -0,0 +1,6 @@
+/**
+ * Both users' ids in a fixed order, so either side finds the same conversation
+ */
+export function getParticipantKey(userId: string, otherUserId: string) {
+  return [userId, otherUserId].sort().join(":");
+}
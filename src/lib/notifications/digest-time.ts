@@ -0,0 +1,39 @@
+import { LOCAL_UTC_OFFSET_MINUTES, MINUTES_PER_DAY, parseTimeOfDay } from "./quiet-hours";
+
+export type DigestFrequency = "DAILY_DIGEST" | "WEEKLY_DIGEST";
+
+export const DEFAULT_DIGEST_TIME = "08:00";
+
+// Monday
+export const DEFAULT_DIGEST_WEEKDAY = 1;
+
+/**
+ * The most recent time, at or before `now`, that a user's digest was due.
+ * Daily digests are due every day at `time`; weekly ones at `time` on
+ * `weekday` (0 = Sunday). Both are South African times.
+ */
+export function getLatestDigestTime(
+  now: Date,
+  frequency: DigestFrequency,
+  time: string = DEFAULT_DIGEST_TIME,
+  weekday: number = DEFAULT_DIGEST_WEEKDAY
+): Date {
+  const minutes = parseTimeOfDay(time) ?? parseTimeOfDay(DEFAULT_DIGEST_TIME)!;
+  const offset = LOCAL_UTC_OFFSET_MINUTES * 60 * 1000;
+  const day = MINUTES_PER_DAY * 60 * 1000;
+
+  // Work on the local clock: today's slot, then step back to a due one
+  const local = new Date(now.getTime() + offset);
+  const slot = new Date(
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) + minutes * 60 * 1000
+  );
+
+  if (frequency === "WEEKLY_DIGEST") {
+    slot.setTime(slot.getTime() - ((slot.getUTCDay() - weekday + 7) % 7) * day);
+  }
+  if (slot > local) {
+    slot.setTime(slot.getTime() - (frequency === "WEEKLY_DIGEST" ? 7 : 1) * day);
+  }
+
+  return new Date(slot.getTime() - offset);
+}
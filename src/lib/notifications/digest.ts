@@ -0,0 +1,128 @@
+import { NotificationType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendNotificationDigest } from "@/lib/email";
+import { DigestFrequency, getLatestDigestTime } from "./digest-time";
+
+// Digest sections, in the order they appear in the email
+const DIGEST_SECTIONS: { heading: string; types: NotificationType[] }[] = [
+  { heading: "New bookings", types: ["BOOKING_NEW"] },
+  { heading: "Messages", types: ["MESSAGE_NEW"] },
+  { heading: "Reviews", types: ["REVIEW_NEW"] },
+  { heading: "Job applications", types: ["JOB_APPLICATION"] },
+];
+
+const OTHER_SECTION = "Other updates";
+
+function formatDigestDate(date: Date) {
+  return date.toLocaleString("en-ZA", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "Africa/Johannesburg",
+  });
+}
+
+/**
+ * Email one user the notifications waiting for their digest, grouped by
+ * type, and clear them from the digest once it has gone out
+ */
+async function sendDigest(userId: string, frequency: DigestFrequency) {
+  const [user, notifications] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, username: true, isActive: true },
+    }),
+    prisma.notification.findMany({
+      where: { userId, digest: frequency },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  if (notifications.length === 0) return false;
+
+  const ids = notifications.map((n) => n.id);
+
+  if (!user?.email || !user.isActive) {
+    await prisma.notification.updateMany({ where: { id: { in: ids } }, data: { digest: null } });
+    return false;
+  }
+
+  const sections = [
+    ...DIGEST_SECTIONS,
+    {
+      heading: OTHER_SECTION,
+      types: notifications
+        .map((n) => n.type)
+        .filter((type) => !DIGEST_SECTIONS.some((section) => section.types.includes(type))),
+    },
+  ]
+    .map((section) => ({
+      heading: section.heading,
+      items: notifications
+        .filter((n) => section.types.includes(n.type))
+        .map((n) => ({
+          title: n.title,
+          message: n.message,
+          link: n.link,
+          date: formatDigestDate(n.createdAt),
+        })),
+    }))
+    .filter((section) => section.items.length > 0);
+
+  const result = await sendNotificationDigest(user.email, {
+    recipientName: user.username,
+    period: frequency === "DAILY_DIGEST" ? "daily" : "weekly",
+    sections,
+  });
+
+  if (!result.success) {
+    throw new Error(`Digest email to ${user.email} failed`);
+  }
+
+  await prisma.notification.updateMany({ where: { id: { in: ids } }, data: { digest: null } });
+  return true;
+}
+
+/**
+ * Send every digest that has come due. A user's digest is due once their
+ * chosen digest time has passed since the oldest notification waiting for
+ * it; anything newer waits for the next one. A failed email leaves its
+ * notifications waiting so the next run tries again.
+ */
+export async function sendDueDigests(now: Date = new Date()) {
+  const pending = await prisma.notification.groupBy({
+    by: ["userId", "digest"],
+    where: { digest: { not: null } },
+    _min: { createdAt: true },
+  });
+
+  const settings = await prisma.notificationSettings.findMany({
+    where: { userId: { in: [...new Set(pending.map((p) => p.userId))] } },
+    select: { userId: true, digestTime: true, digestWeekday: true },
+  });
+  const settingsByUser = new Map(settings.map((s) => [s.userId, s]));
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const group of pending) {
+    const frequency = group.digest as DigestFrequency;
+    const userSettings = settingsByUser.get(group.userId);
+    const dueAt = getLatestDigestTime(
+      now,
+      frequency,
+      userSettings?.digestTime,
+      userSettings?.digestWeekday
+    );
+
+    if (!group._min.createdAt || group._min.createdAt >= dueAt) continue;
+
+    try {
+      if (await sendDigest(group.userId, frequency)) sent++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to send digest to user ${group.userId}:`, error);
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,296 @@
+import { NotificationType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NotificationEmail, sendEmail } from "@/lib/email";
+import { enqueueJob } from "@/lib/queue/queue";
+import { getRetryAt } from "@/lib/queue/schedule";
+import { sendPushToUser } from "@/lib/push/subscriptions";
+import { publishRealtime } from "@/lib/realtime/bus";
+import { sendSms } from "@/lib/sms";
+import { getNotificationPreference } from "./preferences";
+import { getQuietHoursEnd } from "./quiet-hours";
+
+export const NOTIFICATION_EMAIL_JOB = "notifications.email";
+export const NOTIFICATION_SMS_JOB = "notifications.sms";
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  metadata?: Record<string, unknown>;
+  email?: NotificationEmail;
+  // Text for an SMS, for types worth one; only sent to a verified phone
+  sms?: string;
+  // Past this, a message held back for quiet hours is no longer worth sending
+  expiresAt?: Date;
+}
+
+// Types worth interrupting someone for with a push notification
+const PUSH_TYPES: NotificationType[] = ["BOOKING_NEW", "MESSAGE_NEW", "PAYMENT_RECEIVED"];
+
+export type ChannelOutcome = "sent" | "queued" | "skipped";
+
+export interface QueuedEmailPayload {
+  userId: string;
+  type: NotificationType;
+  email: NotificationEmail;
+  expiresAt?: string;
+}
+
+export interface QueuedSmsPayload {
+  userId: string;
+  type: NotificationType;
+  text: string;
+  expiresAt?: string;
+}
+
+async function getRecipient(userId: string) {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      phone: true,
+      phoneVerifiedAt: true,
+      notificationSettings: { select: { quietHoursStart: true, quietHoursEnd: true } },
+    },
+  });
+}
+
+function queueEmail(payload: QueuedEmailPayload, runAt: Date) {
+  return enqueueJob(NOTIFICATION_EMAIL_JOB, payload as unknown as Prisma.InputJsonValue, { runAt });
+}
+
+function queueSms(payload: QueuedSmsPayload, runAt: Date) {
+  return enqueueJob(NOTIFICATION_SMS_JOB, payload as unknown as Prisma.InputJsonValue, { runAt });
+}
+
+// Texts only go to numbers the user has proved are theirs
+function getVerifiedPhone(recipient: { phone: string | null; phoneVerifiedAt: Date | null }) {
+  return recipient.phoneVerifiedAt ? recipient.phone : null;
+}
+
+/**
+ * Deliver a notification on every channel the recipient has enabled for its
+ * type: an in-app notification and, when the caller supplies them, an email
+ * and an SMS.
+ * Nothing is delivered for types set to DISABLED, and types on a daily or
+ * weekly digest are saved for the digest email instead of emailed now.
+ * New bookings, messages and payments are also pushed to the recipient's
+ * browsers. During the recipient's quiet hours the email and SMS are held
+ * back until they end, and no push is sent.
+ *
+ * This is the one way notifications reach users. Delivery never throws: a
+ * failed email or SMS is queued to be tried again.
+ */
+export async function dispatchNotification(input: NotificationInput, now: Date = new Date()) {
+  const result = {
+    notification: null as Awaited<ReturnType<typeof prisma.notification.create>> | null,
+    email: "skipped" as ChannelOutcome,
+    sms: "skipped" as ChannelOutcome,
+    push: "skipped" as ChannelOutcome,
+  };
+
+  try {
+    const [recipient, preference] = await Promise.all([
+      getRecipient(input.userId),
+      getNotificationPreference(input.userId, input.type),
+    ]);
+
+    if (!recipient || preference.frequency === "DISABLED") {
+      return result;
+    }
+
+    const digest =
+      preference.emailEnabled && preference.frequency !== "REALTIME" ? preference.frequency : null;
+
+    if (preference.inAppEnabled || digest) {
+      result.notification = await prisma.notification.create({
+        data: {
+          userId: input.userId,
+          type: input.type,
+          title: input.title,
+          message: input.message,
+          link: input.link,
+          metadata: input.metadata ? JSON.parse(JSON.stringify(input.metadata)) : undefined,
+          inApp: preference.inAppEnabled,
+          digest,
+        },
+      });
+
+      // Straight to the header bell in any open tab, quiet hours or not
+      if (result.notification.inApp) {
+        await publishRealtime([input.userId], {
+          type: "notification.new",
+          notificationId: result.notification.id,
+          notification: {
+            id: result.notification.id,
+            type: result.notification.type,
+            title: result.notification.title,
+            message: result.notification.message,
+            link: result.notification.link,
+            createdAt: result.notification.createdAt,
+          },
+        });
+      }
+    }
+
+    const quietUntil = getQuietHoursEnd(
+      now,
+      recipient.notificationSettings?.quietHoursStart,
+      recipient.notificationSettings?.quietHoursEnd
+    );
+
+    if (input.email && preference.emailEnabled && !digest && recipient.email) {
+      const payload: QueuedEmailPayload = {
+        userId: input.userId,
+        type: input.type,
+        email: input.email,
+        expiresAt: input.expiresAt?.toISOString(),
+      };
+
+      if (quietUntil) {
+        if (!input.expiresAt || quietUntil < input.expiresAt) {
+          await queueEmail(payload, quietUntil);
+          result.email = "queued";
+        }
+      } else {
+        const sent = await sendEmail(
+          recipient.email,
+          input.email.subject,
+          input.email.html,
+          input.email.attachments
+        );
+
+        if (sent.success) {
+          result.email = "sent";
+        } else {
+          await queueEmail(payload, getRetryAt(1, now));
+          result.email = "queued";
+        }
+      }
+    }
+
+    const phone = getVerifiedPhone(recipient);
+    if (input.sms && preference.smsEnabled && preference.frequency === "REALTIME" && phone) {
+      const payload: QueuedSmsPayload = {
+        userId: input.userId,
+        type: input.type,
+        text: input.sms,
+        expiresAt: input.expiresAt?.toISOString(),
+      };
+
+      if (quietUntil) {
+        if (!input.expiresAt || quietUntil < input.expiresAt) {
+          await queueSms(payload, quietUntil);
+          result.sms = "queued";
+        }
+      } else {
+        const sent = await sendSms(phone, input.sms);
+
+        if (sent.success) {
+          result.sms = "sent";
+        } else {
+          await queueSms(payload, getRetryAt(1, now));
+          result.sms = "queued";
+        }
+      }
+    }
+
+    if (
+      PUSH_TYPES.includes(input.type) &&
+      preference.pushEnabled &&
+      preference.frequency === "REALTIME" &&
+      !quietUntil
+    ) {
+      const delivered = await sendPushToUser(
+        input.userId,
+        { title: input.title, body: input.message, url: input.link, tag: input.link },
+        now
+      );
+      if (delivered > 0) result.push = "sent";
+    }
+  } catch (error) {
+    console.error("Failed to dispatch notification:", error);
+  }
+
+  return result;
+}
+
+/**
+ * Send an email that was held back for quiet hours or a failed first try.
+ * Preferences are checked again, since the user may have changed them in
+ * the meantime. A failed send throws so the job queue tries again.
+ */
+export async function sendQueuedEmail(payload: QueuedEmailPayload, now: Date = new Date()) {
+  if (payload.expiresAt && new Date(payload.expiresAt) <= now) {
+    return { sent: false };
+  }
+
+  const [recipient, preference] = await Promise.all([
+    getRecipient(payload.userId),
+    getNotificationPreference(payload.userId, payload.type),
+  ]);
+
+  if (!recipient?.email || preference.frequency === "DISABLED" || !preference.emailEnabled) {
+    return { sent: false };
+  }
+
+  // Quiet hours were changed to cover this time since it was queued
+  const quietUntil = getQuietHoursEnd(
+    now,
+    recipient.notificationSettings?.quietHoursStart,
+    recipient.notificationSettings?.quietHoursEnd
+  );
+  if (quietUntil) {
+    await queueEmail(payload, quietUntil);
+    return { sent: false };
+  }
+
+  const { subject, html, attachments } = payload.email;
+  const sent = await sendEmail(recipient.email, subject, html, attachments);
+
+  if (!sent.success) {
+    throw new Error(`Notification email to ${recipient.email} failed`);
+  }
+
+  return { sent: true };
+}
+
+/**
+ * Send an SMS that was held back for quiet hours or a failed first try, on
+ * the same terms as a queued email
+ */
+export async function sendQueuedSms(payload: QueuedSmsPayload, now: Date = new Date()) {
+  if (payload.expiresAt && new Date(payload.expiresAt) <= now) {
+    return { sent: false };
+  }
+
+  const [recipient, preference] = await Promise.all([
+    getRecipient(payload.userId),
+    getNotificationPreference(payload.userId, payload.type),
+  ]);
+
+  const phone = recipient && getVerifiedPhone(recipient);
+  if (!phone || preference.frequency !== "REALTIME" || !preference.smsEnabled) {
+    return { sent: false };
+  }
+
+  const quietUntil = getQuietHoursEnd(
+    now,
+    recipient.notificationSettings?.quietHoursStart,
+    recipient.notificationSettings?.quietHoursEnd
+  );
+  if (quietUntil) {
+    await queueSms(payload, quietUntil);
+    return { sent: false };
+  }
+
+  const sent = await sendSms(phone, payload.text);
+
+  if (!sent.success) {
+    throw new Error(`Notification SMS to user ${payload.userId} failed`);
+  }
+
+  return { sent: true };
+}
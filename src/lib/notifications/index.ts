@@ -0,0 +1,394 @@
+import { NotificationEmail } from "@/lib/email";
+import { dispatchNotification } from "./dispatcher";
+
+export { dispatchNotification } from "./dispatcher";
+export type { NotificationInput } from "./dispatcher";
+
+/**
+ * Create a booking notification for the provider
+ */
+export async function notifyNewBooking(
+  providerId: string,
+  customerName: string,
+  serviceName: string,
+  bookingId: string,
+  date: string,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId: providerId,
+    type: "BOOKING_NEW",
+    title: "New Booking Request",
+    message: `${customerName} has booked ${serviceName} for ${date}`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, customerName, serviceName },
+    email,
+  });
+}
+
+/**
+ * Create a booking confirmation notification for the customer
+ */
+export async function notifyBookingConfirmed(
+  customerId: string,
+  providerName: string,
+  serviceName: string,
+  bookingId: string,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId: customerId,
+    type: "BOOKING_CONFIRMED",
+    title: "Booking Confirmed",
+    message: `Your booking for ${serviceName} with ${providerName} has been confirmed`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, providerName, serviceName },
+    email,
+  });
+}
+
+/**
+ * Create a notification for the customer that a booking was requested
+ */
+export async function notifyBookingRequested(
+  customerId: string,
+  providerName: string,
+  serviceName: string,
+  bookingId: string,
+  date: string,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId: customerId,
+    type: "BOOKING_NEW",
+    title: "Booking Requested",
+    message: `Your booking for ${serviceName} with ${providerName} on ${date} is waiting for the provider to confirm`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, providerName, serviceName },
+    email,
+  });
+}
+
+const STATUS_NOTIFICATION_TYPES = {
+  CONFIRMED: "BOOKING_CONFIRMED",
+  COMPLETED: "BOOKING_COMPLETED",
+  CANCELLED: "BOOKING_CANCELLED",
+  NO_SHOW: "BOOKING_COMPLETED",
+} as const;
+
+/**
+ * Create a notification for the customer that a booking's status changed
+ */
+export async function notifyBookingStatusChanged(
+  customerId: string,
+  serviceName: string,
+  bookingId: string,
+  status: keyof typeof STATUS_NOTIFICATION_TYPES,
+  statusLabel: string,
+  email?: NotificationEmail,
+  sms?: string
+) {
+  return dispatchNotification({
+    userId: customerId,
+    type: STATUS_NOTIFICATION_TYPES[status],
+    title: `Booking ${statusLabel}`,
+    message: `Your booking for ${serviceName} is now ${statusLabel.toLowerCase()}`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, serviceName, status },
+    email,
+    sms,
+  });
+}
+
+/**
+ * Create a booking cancellation notification
+ */
+export async function notifyBookingCancelled(
+  userId: string,
+  serviceName: string,
+  bookingId: string,
+  cancelledBy: string
+) {
+  return dispatchNotification({
+    userId,
+    type: "BOOKING_CANCELLED",
+    title: "Booking Cancelled",
+    message: `The booking for ${serviceName} has been cancelled by ${cancelledBy}`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, serviceName, cancelledBy },
+  });
+}
+
+/**
+ * Create a reminder of an upcoming booking
+ */
+export async function notifyAppointmentReminder(
+  userId: string,
+  serviceName: string,
+  when: string,
+  startsIn: string,
+  bookingId: string,
+  startsAt: Date,
+  email?: NotificationEmail,
+  sms?: string
+) {
+  return dispatchNotification({
+    userId,
+    type: "BOOKING_REMINDER",
+    title: "Upcoming Booking",
+    message: `${serviceName} is in ${startsIn} (${when})`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, serviceName, when },
+    email,
+    sms,
+    expiresAt: startsAt,
+  });
+}
+
+/**
+ * Create a notification for a proposed new time for a booking
+ */
+export async function notifyRescheduleProposed(
+  userId: string,
+  proposerName: string,
+  serviceName: string,
+  bookingId: string,
+  when: string,
+  isCounter: boolean = false,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId,
+    type: "BOOKING_RESCHEDULED",
+    title: isCounter ? "New Time Suggested" : "Reschedule Requested",
+    message: isCounter
+      ? `${proposerName} suggested ${when} instead for ${serviceName}`
+      : `${proposerName} would like to move ${serviceName} to ${when}`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, proposerName, serviceName, when },
+    email,
+  });
+}
+
+/**
+ * Create a notification for an answer to a reschedule proposal
+ */
+export async function notifyRescheduleResponse(
+  userId: string,
+  responderName: string,
+  serviceName: string,
+  bookingId: string,
+  accepted: boolean,
+  when: string,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId,
+    type: "BOOKING_RESCHEDULED",
+    title: accepted ? "Reschedule Accepted" : "Reschedule Declined",
+    message: accepted
+      ? `${responderName} accepted the new time for ${serviceName}: ${when}`
+      : `${responderName} declined moving ${serviceName} to ${when}`,
+    link: `/dashboard/bookings/${bookingId}`,
+    metadata: { bookingId, responderName, serviceName, accepted, when },
+    email,
+  });
+}
+
+/**
+ * Create a notification offering a waitlisted customer a freed slot
+ */
+export async function notifyWaitlistOffer(
+  userId: string,
+  serviceName: string,
+  when: string,
+  token: string,
+  expiresAt: Date,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId,
+    type: "WAITLIST_OFFER",
+    title: "A Time Opened Up",
+    message: `${when} is now free for ${serviceName}. Claim it before ${expiresAt.toLocaleTimeString("en-ZA", { hour: "2-digit", minute: "2-digit" })} to book it.`,
+    link: `/waitlist/${token}`,
+    metadata: { serviceName, when, expiresAt: expiresAt.toISOString() },
+    email,
+    expiresAt,
+  });
+}
+
+/**
+ * Create a new message notification
+ */
+export async function notifyNewMessage(
+  recipientId: string,
+  senderName: string,
+  preview: string,
+  conversationId?: string
+) {
+  return dispatchNotification({
+    userId: recipientId,
+    type: "MESSAGE_NEW",
+    title: "New Message",
+    message: `${senderName}: ${preview.substring(0, 50)}${preview.length > 50 ? "..." : ""}`,
+    link: conversationId ? `/dashboard/messages/${conversationId}` : "/dashboard/messages",
+    metadata: { senderName, conversationId },
+  });
+}
+
+/**
+ * Create a new review notification
+ */
+export async function notifyNewReview(
+  providerId: string,
+  reviewerName: string,
+  rating: number,
+  serviceName: string
+) {
+  return dispatchNotification({
+    userId: providerId,
+    type: "REVIEW_NEW",
+    title: "New Review",
+    message: `${reviewerName} left a ${rating}-star review for ${serviceName}`,
+    link: "/dashboard/reviews",
+    metadata: { reviewerName, rating, serviceName },
+  });
+}
+
+/**
+ * Create a job application notification
+ */
+export async function notifyJobApplication(
+  employerId: string,
+  applicantName: string,
+  jobTitle: string,
+  jobId: string,
+  applicationId: string
+) {
+  return dispatchNotification({
+    userId: employerId,
+    type: "JOB_APPLICATION",
+    title: "New Job Application",
+    message: `${applicantName} applied for ${jobTitle}`,
+    link: `/dashboard/jobs/${jobId}/applications`,
+    metadata: { applicantName, jobTitle, jobId, applicationId },
+  });
+}
+
+/**
+ * Create a job acceptance notification
+ */
+export async function notifyJobAccepted(
+  applicantId: string,
+  employerName: string,
+  jobTitle: string,
+  jobId: string
+) {
+  return dispatchNotification({
+    userId: applicantId,
+    type: "JOB_ACCEPTED",
+    title: "Application Accepted",
+    message: `Your application for ${jobTitle} has been accepted by ${employerName}`,
+    link: `/jobs/${jobId}`,
+    metadata: { employerName, jobTitle, jobId },
+  });
+}
+
+/**
+ * Create an order update notification
+ */
+export async function notifyOrderUpdate(
+  customerId: string,
+  orderId: string,
+  status: string
+) {
+  return dispatchNotification({
+    userId: customerId,
+    type: "ORDER_UPDATE",
+    title: "Order Update",
+    message: `Your order #${orderId.substring(0, 8)} is now ${status.toLowerCase()}`,
+    link: `/dashboard/orders/${orderId}`,
+    metadata: { orderId, status },
+  });
+}
+
+/**
+ * Create a payment received notification
+ */
+export async function notifyPaymentReceived(
+  providerId: string,
+  amount: number,
+  serviceName: string,
+  paymentId: string
+) {
+  return dispatchNotification({
+    userId: providerId,
+    type: "PAYMENT_RECEIVED",
+    title: "Payment Received",
+    message: `You received R${amount.toFixed(2)} for ${serviceName}`,
+    link: "/dashboard/wallet",
+    metadata: { amount, serviceName, paymentId },
+  });
+}
+
+/**
+ * Create a payment failed notification
+ */
+export async function notifyPaymentFailed(
+  userId: string,
+  amount: number,
+  reason?: string
+) {
+  return dispatchNotification({
+    userId,
+    type: "PAYMENT_FAILED",
+    title: "Payment Failed",
+    message: `Payment of R${amount.toFixed(2)} failed${reason ? `: ${reason}` : ""}`,
+    link: "/dashboard/wallet",
+    metadata: { amount, reason },
+  });
+}
+
+/**
+ * Create a refund notification for the customer
+ */
+export async function notifyRefundIssued(
+  userId: string,
+  amount: number,
+  itemName: string,
+  refundId: string,
+  toWallet: boolean,
+  link?: string
+) {
+  return dispatchNotification({
+    userId,
+    type: "PAYMENT_RECEIVED",
+    title: "Refund Issued",
+    message: toWallet
+      ? `R${amount.toFixed(2)} for ${itemName} has been refunded to your wallet`
+      : `R${amount.toFixed(2)} for ${itemName} is being refunded to your original payment method`,
+    link,
+    metadata: { amount, itemName, refundId },
+  });
+}
+
+/**
+ * Create a system notification
+ */
+export async function notifySystem(
+  userId: string,
+  title: string,
+  message: string,
+  link?: string,
+  email?: NotificationEmail
+) {
+  return dispatchNotification({
+    userId,
+    type: "SYSTEM",
+    title,
+    message,
+    link,
+    email,
+  });
+}
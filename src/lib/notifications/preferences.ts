@@ -0,0 +1,168 @@
+import { NotificationFrequency, NotificationType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export interface NotificationPreferenceDefaults {
+  notificationType: NotificationType;
+  emailEnabled: boolean;
+  inAppEnabled: boolean;
+  pushEnabled: boolean;
+  smsEnabled: boolean;
+  frequency: NotificationFrequency;
+}
+
+// Default notification preferences for new users. SMS is only on for what
+// people most need on their phone: confirmations and reminders.
+export const DEFAULT_PREFERENCES: NotificationPreferenceDefaults[] = [
+  {
+    notificationType: "BOOKING_NEW",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "BOOKING_CONFIRMED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: true,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "BOOKING_CANCELLED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "BOOKING_COMPLETED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: false,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "BOOKING_RESCHEDULED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "BOOKING_REMINDER",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: true,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "WAITLIST_OFFER",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "MESSAGE_NEW",
+    emailEnabled: false,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "REVIEW_NEW",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: false,
+    smsEnabled: false,
+    frequency: "DAILY_DIGEST",
+  },
+  {
+    notificationType: "JOB_APPLICATION",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "JOB_ACCEPTED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "ORDER_UPDATE",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "PAYMENT_RECEIVED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "PAYMENT_FAILED",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: true,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+  {
+    notificationType: "SYSTEM",
+    emailEnabled: true,
+    inAppEnabled: true,
+    pushEnabled: false,
+    smsEnabled: false,
+    frequency: "REALTIME",
+  },
+];
+
+export function getDefaultPreference(notificationType: NotificationType) {
+  return (
+    DEFAULT_PREFERENCES.find((d) => d.notificationType === notificationType) ?? {
+      notificationType,
+      emailEnabled: true,
+      inAppEnabled: true,
+      pushEnabled: false,
+      smsEnabled: false,
+      frequency: "REALTIME" as NotificationFrequency,
+    }
+  );
+}
+
+/**
+ * A user's saved preference for a notification type, or the default for
+ * users who never changed it
+ */
+export async function getNotificationPreference(userId: string, notificationType: NotificationType) {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_notificationType: { userId, notificationType } },
+    select: {
+      emailEnabled: true,
+      inAppEnabled: true,
+      pushEnabled: true,
+      smsEnabled: true,
+      frequency: true,
+    },
+  });
+
+  return preference ?? getDefaultPreference(notificationType);
+}
@@ -0,0 +1,40 @@
+// Quiet hours and digest times are entered as South African times of day
+export const LOCAL_UTC_OFFSET_MINUTES = 2 * 60;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * "22:30" -> 1350 minutes after midnight, or null if it isn't a valid time
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+/**
+ * When the quiet hours that `now` falls in are over, or null if `now` isn't
+ * in quiet hours. An end earlier than the start spans midnight; a missing or
+ * equal start and end means the user has no quiet hours.
+ */
+export function getQuietHoursEnd(
+  now: Date,
+  start: string | null | undefined,
+  end: string | null | undefined
+): Date | null {
+  const from = parseTimeOfDay(start);
+  const to = parseTimeOfDay(end);
+  if (from === null || to === null || from === to) return null;
+
+  const local =
+    (now.getUTCHours() * 60 + now.getUTCMinutes() + LOCAL_UTC_OFFSET_MINUTES) % MINUTES_PER_DAY;
+  const isQuiet = from < to ? local >= from && local < to : local >= from || local < to;
+  if (!isQuiet) return null;
+
+  const minutesLeft = (to - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+
+  return endsAt;
+}
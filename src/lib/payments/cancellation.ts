@@ -0,0 +1,136 @@
+import { calculateAppointmentCharge, roundToCents } from "./pricing";
+
+export interface CancellationPolicy {
+  freeCancellationHours: number; // Cancel at least this long before the appointment for a full refund
+  lateCancelFeePercent: number;
+  noShowFeePercent: number;
+}
+
+// Shops that have not set a policy: cancellations are refunded in full and
+// the provider keeps a prepaid booking's payment on a no-show. Unpaid bookings
+// are only ever charged when the shop opts in (`chargeUnpaidBookings`).
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: 24,
+  lateCancelFeePercent: 0,
+  noShowFeePercent: 100,
+};
+
+// Appointment times are South African local time (no daylight saving)
+const APPOINTMENT_UTC_OFFSET = "+02:00";
+
+// Percentages come straight from Prisma Decimal columns
+type PolicyOverrides = {
+  [K in keyof CancellationPolicy]?: number | { toString(): string } | null;
+};
+
+export interface CancellationFee {
+  fee: number;
+  refund: number;
+  feePercent: number;
+  late: boolean; // Cancelled inside the free-cancellation window
+}
+
+/**
+ * The policy that applies to a booking: the service's own settings win over
+ * the shop's, and anything neither sets falls back to the default
+ */
+export function resolveCancellationPolicy(
+  service?: PolicyOverrides | null,
+  shop?: PolicyOverrides | null
+): CancellationPolicy {
+  const pick = (key: keyof CancellationPolicy) =>
+    Number(service?.[key] ?? shop?.[key] ?? DEFAULT_CANCELLATION_POLICY[key]);
+
+  return {
+    freeCancellationHours: pick("freeCancellationHours"),
+    lateCancelFeePercent: pick("lateCancelFeePercent"),
+    noShowFeePercent: pick("noShowFeePercent"),
+  };
+}
+
+/**
+ * When an appointment starts, from its date and its "HH:mm" time slot
+ */
+export function getAppointmentStart(date: Date | string, time?: string | null): Date {
+  const day = new Date(date).toISOString().split("T")[0];
+  const match = /^(\d{1,2}):(\d{2})/.exec(time || "");
+
+  if (!match) {
+    return new Date(date);
+  }
+
+  return new Date(`${day}T${match[1].padStart(2, "0")}:${match[2]}:00${APPOINTMENT_UTC_OFFSET}`);
+}
+
+/**
+ * Whether a booking's time has come. Until then it can't be completed or
+ * marked a no-show, so held funds can't be released early.
+ */
+export function hasAppointmentStarted(
+  date: Date | string,
+  time?: string | null,
+  now: Date = new Date()
+) {
+  return getAppointmentStart(date, time) <= now;
+}
+
+/**
+ * The amount a cancellation fee is a percentage of: the payment held for the
+ * booking, or what the booking costs in full when nothing is held
+ */
+export function getCancellationFeeBase(
+  heldAmount: number | null,
+  servicePrice: number,
+  taxRate: number = 0
+): number {
+  return heldAmount ?? calculateAppointmentCharge(servicePrice, taxRate).total;
+}
+
+/**
+ * Work out how much of a paid amount the provider keeps when the customer
+ * cancels or does not show up, and how much goes back to the customer
+ */
+export function calculateCancellationFee(
+  policy: CancellationPolicy,
+  amount: number,
+  reason: "CANCELLED" | "NO_SHOW",
+  appointmentStart: Date,
+  now: Date = new Date()
+): CancellationFee {
+  const hoursBefore = (appointmentStart.getTime() - now.getTime()) / (60 * 60 * 1000);
+  const late = reason === "NO_SHOW" || hoursBefore < policy.freeCancellationHours;
+  const percent = reason === "NO_SHOW" ? policy.noShowFeePercent : late ? policy.lateCancelFeePercent : 0;
+  const feePercent = Math.min(Math.max(percent, 0), 100);
+  const fee = roundToCents(amount * (feePercent / 100));
+
+  return {
+    fee,
+    refund: roundToCents(amount - fee),
+    feePercent,
+    late,
+  };
+}
+
+/**
+ * Plain-language summary of a policy for customers
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const window =
+    policy.freeCancellationHours > 0
+      ? `up to ${policy.freeCancellationHours} hour${policy.freeCancellationHours === 1 ? "" : "s"} before your appointment`
+      : "any time before your appointment";
+
+  const lines = [
+    policy.lateCancelFeePercent > 0
+      ? `Free cancellation ${window}. Later cancellations are charged ${policy.lateCancelFeePercent}% of the booking.`
+      : "Free cancellation any time before your appointment.",
+  ];
+
+  lines.push(
+    policy.noShowFeePercent > 0
+      ? `If you don't show up, ${policy.noShowFeePercent}% of the booking is charged.`
+      : "No charge if you miss your appointment."
+  );
+
+  return lines;
+}
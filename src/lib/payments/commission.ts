@@ -0,0 +1,45 @@
+import { prisma } from "@/lib/prisma";
+import { SystemAccount } from "./ledger";
+
+// Platform commission (percentage of the service price) when no rule applies
+export const DEFAULT_COMMISSION_RATE = parseFloat(process.env.PLATFORM_COMMISSION_RATE || "10");
+
+// Ledger account that collects commission and customer booking fees
+export const PLATFORM_FEES_ACCOUNT: SystemAccount = "PLATFORM_FEES";
+
+/**
+ * Find the commission rate for a provider: their negotiated rate, else the
+ * service category's override, else the global default
+ */
+export async function getCommissionRate(
+  providerId: string,
+  categoryId?: string | null
+): Promise<{ rate: number; source: "provider" | "category" | "default" }> {
+  const rules = await prisma.commissionRule.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { providerId },
+        ...(categoryId ? [{ categoryId }] : []),
+        { providerId: null, categoryId: null },
+      ],
+    },
+    orderBy: { updatedAt: "desc" },
+  });
+
+  const providerRule = rules.find((r) => r.providerId === providerId);
+  if (providerRule) {
+    return { rate: Number(providerRule.rate), source: "provider" };
+  }
+
+  const categoryRule = categoryId ? rules.find((r) => r.categoryId === categoryId) : undefined;
+  if (categoryRule) {
+    return { rate: Number(categoryRule.rate), source: "category" };
+  }
+
+  const defaultRule = rules.find((r) => !r.providerId && !r.categoryId);
+  return {
+    rate: defaultRule ? Number(defaultRule.rate) : DEFAULT_COMMISSION_RATE,
+    source: "default",
+  };
+}
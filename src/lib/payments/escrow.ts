@@ -0,0 +1,651 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { confirmSlotHold } from "@/lib/bookings/holds";
+import { notifyPaymentReceived, notifySystem } from "@/lib/notifications";
+import {
+  calculateCancellationFee,
+  getAppointmentStart,
+  getCancellationFeeBase,
+  resolveCancellationPolicy,
+} from "./cancellation";
+import { getCommissionRate, PLATFORM_FEES_ACCOUNT } from "./commission";
+import { JournalLine, LedgerError, postJournal } from "./ledger";
+import { issueRefund, RefundResult } from "./refunds";
+import { getEscrowReleaseDate } from "./release";
+import {
+  AppointmentCharge,
+  calculateAppointmentCharge,
+  calculateEarning,
+  reduceEarning,
+  roundToCents,
+  splitRefund,
+} from "./pricing";
+
+export type RefundMethod = "ORIGINAL" | "WALLET";
+
+function chargeFor(
+  metadata: unknown,
+  servicePrice: number,
+  taxRate: string | null | undefined
+): AppointmentCharge {
+  // Prefer the breakdown captured when the customer paid
+  return (
+    ((metadata || {}) as { charge?: AppointmentCharge }).charge ??
+    calculateAppointmentCharge(servicePrice, parseFloat(taxRate || "0"))
+  );
+}
+
+/**
+ * Put a completed booking payment in escrow. Called inside the transaction
+ * that completes the payment, after the money has been posted to the
+ * BOOKING_FUNDS ledger account. The provider's share shows as held funds on
+ * their wallet until it is released.
+ */
+export async function holdBookingPayment(tx: Prisma.TransactionClient, paymentId: string) {
+  const payment = await tx.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: {
+      appointment: {
+        include: {
+          service: {
+            select: { price: true, categoryId: true },
+          },
+          provider: {
+            select: {
+              shop: { select: { tax: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const appointment = payment.appointment;
+  if (!appointment) {
+    return null;
+  }
+
+  const charge = chargeFor(
+    payment.metadata,
+    Number(appointment.service?.price || 0),
+    appointment.provider.shop?.tax
+  );
+  const { rate } = await getCommissionRate(
+    appointment.providerId,
+    appointment.service?.categoryId
+  );
+  const { netAmount } = calculateEarning(charge, rate);
+
+  const escrow = await tx.escrow.create({
+    data: {
+      amount: payment.amount,
+      netAmount,
+      commissionRate: rate,
+      releaseAfter: getEscrowReleaseDate(appointment.date),
+      appointmentId: appointment.id,
+      paymentId: payment.id,
+      providerId: appointment.providerId,
+    },
+  });
+
+  await tx.wallet.upsert({
+    where: { userId: appointment.providerId },
+    create: {
+      userId: appointment.providerId,
+      heldBalance: netAmount,
+      currency: "ZAR",
+    },
+    update: {
+      heldBalance: { increment: netAmount },
+    },
+  });
+
+  return escrow;
+}
+
+export type PaidBookingResult = "CONFIRMED" | "UNBOOKED" | "NOT_PAYABLE";
+
+/**
+ * Confirm a booking whose payment has just completed, inside the payment's
+ * transaction: hold the money until the appointment is completed, claim its
+ * time for good and mark it paid.
+ *
+ * Returns NOT_PAYABLE, touching nothing, when another payment already paid
+ * for the booking or it is no longer PENDING. Returns UNBOOKED when the
+ * checkout hold ran out and another booking took the time meanwhile; the
+ * booking then stays PENDING with the money held, for `refundUnbookedPayment`
+ * to give back once the transaction has committed.
+ */
+export async function confirmPaidBooking(
+  tx: Prisma.TransactionClient,
+  paymentId: string,
+  appointmentId: string
+): Promise<PaidBookingResult> {
+  const { paymentMode } = await tx.appointment.findUniqueOrThrow({
+    where: { id: appointmentId },
+    select: { paymentMode: true },
+  });
+
+  // Mark it paid first: the row lock keeps a second payment from confirming it too
+  const claimed = await tx.appointment.updateMany({
+    where: {
+      id: appointmentId,
+      status: "PENDING",
+      OR: [{ paymentMode: null }, { paymentMode: { not: "PAID" } }],
+    },
+    data: { paymentMode: "PAID" },
+  });
+
+  if (claimed.count === 0) {
+    return "NOT_PAYABLE";
+  }
+
+  await holdBookingPayment(tx, paymentId);
+
+  if (!(await confirmSlotHold(tx, appointmentId))) {
+    await tx.appointment.update({
+      where: { id: appointmentId },
+      data: { paymentMode },
+    });
+    return "UNBOOKED";
+  }
+
+  await tx.appointment.update({
+    where: { id: appointmentId },
+    data: { status: "CONFIRMED" },
+  });
+
+  return "CONFIRMED";
+}
+
+/**
+ * Refund a booking payment that completed after its booking lost the time to
+ * someone else, and let the customer know. Refunds the payment provider
+ * can't take straight away stay PENDING for an admin to finish.
+ */
+export async function refundUnbookedPayment(appointmentId: string, userId: string) {
+  console.error(`Paid booking ${appointmentId} overlaps another booking after its hold expired`);
+
+  const refund = await refundEscrow(appointmentId, userId).catch((err) => {
+    console.error("Failed to refund escrow:", err);
+    return null;
+  });
+
+  if (!refund?.success) {
+    console.error(`Booking ${appointmentId} needs refunding by an admin:`, refund?.error);
+  }
+
+  await notifySystem(
+    userId,
+    "Booking Not Confirmed",
+    "Your payment came through after your hold on this time ran out, and someone else has since booked it. We're refunding your payment; please book a new time.",
+    `/dashboard/bookings/${appointmentId}`
+  );
+}
+
+/**
+ * Release the held payment for an appointment: the provider's wallet is
+ * credited with their net earnings and the platform fee is booked to the fees
+ * ledger account. Safe to call more than once: an appointment is only ever
+ * settled once. Returns null when there is nothing to release (not paid
+ * through the platform, cancelled, disputed or already refunded).
+ *
+ * Pass `resolveDispute` when an admin releases a disputed payment.
+ */
+export async function releaseEscrow(
+  appointmentId: string,
+  options: { resolveDispute?: boolean } = {}
+) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: {
+      earning: true,
+      escrow: true,
+      service: {
+        select: { name: true, price: true, categoryId: true },
+      },
+      provider: {
+        select: {
+          shop: { select: { tax: true } },
+        },
+      },
+      payments: {
+        where: { status: "COMPLETED" },
+        orderBy: { completedAt: "asc" },
+        take: 1,
+      },
+    },
+  });
+
+  if (!appointment || ["PENDING", "CANCELLED"].includes(appointment.status)) {
+    return null;
+  }
+
+  if (appointment.earning) {
+    return appointment.earning;
+  }
+
+  const escrow = appointment.escrow;
+  const releasableFrom = options.resolveDispute ? "DISPUTED" : "HELD";
+
+  if (escrow ? escrow.status !== releasableFrom : appointment.status !== "COMPLETED") {
+    return null;
+  }
+
+  const payment = appointment.payments[0];
+  if (!payment || !appointment.service) {
+    return null;
+  }
+
+  const charge = chargeFor(
+    payment.metadata,
+    Number(appointment.service.price),
+    appointment.provider.shop?.tax
+  );
+
+  // Keep the rate the booking was paid under
+  const rate = escrow
+    ? Number(escrow.commissionRate)
+    : (await getCommissionRate(appointment.providerId, appointment.service.categoryId)).rate;
+  // Partial refunds shrink the escrow: pay out only what is left of it
+  const heldAmount = escrow ? Number(escrow.amount) : Number(payment.amount);
+  const earning = escrow
+    ? reduceEarning(
+        calculateEarning(charge, rate),
+        heldAmount / Number(payment.amount),
+        Number(escrow.netAmount)
+      )
+    : calculateEarning(charge, rate);
+  // Whatever the customer paid beyond the provider's gross is the booking fee
+  const bookingFee = roundToCents(heldAmount - earning.grossAmount);
+  const serviceName = appointment.service.name;
+
+  const lines: JournalLine[] = [
+    { side: "DEBIT", amount: heldAmount, account: "BOOKING_FUNDS" },
+    {
+      side: "CREDIT",
+      amount: earning.netAmount,
+      account: { walletUserId: appointment.providerId },
+      description: `Earnings for ${serviceName} (R${earning.grossAmount.toFixed(2)} less R${earning.feeAmount.toFixed(2)} platform fee)`,
+    },
+    {
+      side: "CREDIT",
+      amount: earning.feeAmount,
+      account: PLATFORM_FEES_ACCOUNT,
+      description: `Commission (${rate}%) on ${serviceName}`,
+    },
+    {
+      side: "CREDIT",
+      amount: bookingFee,
+      account: PLATFORM_FEES_ACCOUNT,
+      description: `Booking fee on ${serviceName}`,
+    },
+  ];
+
+  try {
+    const created = await prisma.$transaction(async (tx) => {
+      if (escrow) {
+        const released = await tx.escrow.updateMany({
+          where: { id: escrow.id, status: releasableFrom },
+          data: { status: "RELEASED", releasedAt: new Date() },
+        });
+
+        // Refunded or released by another request in the meantime
+        if (released.count === 0) {
+          return null;
+        }
+
+        await tx.wallet.update({
+          where: { userId: appointment.providerId },
+          data: { heldBalance: { decrement: escrow.netAmount } },
+        });
+      }
+
+      const record = await tx.providerEarning.create({
+        data: {
+          appointmentId,
+          providerId: appointment.providerId,
+          paymentId: payment.id,
+          ...earning,
+        },
+      });
+
+      // Release the held booking payment to the provider and the platform
+      const { transactions } = await postJournal(tx, {
+        description: `Settlement for ${serviceName}`,
+        reference: appointmentId,
+        lines: lines.filter((line) => line.amount > 0),
+      });
+
+      return tx.providerEarning.update({
+        where: { id: record.id },
+        data: { transactionId: transactions[0]?.id },
+      });
+    });
+
+    if (created) {
+      await notifyPaymentReceived(
+        appointment.providerId,
+        earning.netAmount,
+        serviceName,
+        payment.id
+      );
+    }
+
+    return created;
+  } catch (error) {
+    // Another request settled this appointment first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return prisma.providerEarning.findUnique({ where: { appointmentId } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refund what is still held for a booking after a cancellation: the whole
+ * payment, or what is left once a cancellation fee was taken out. Wallet
+ * payments, and card payments the customer asks to have refunded to their
+ * wallet, are credited straight away; card refunds go back through the
+ * payment provider.
+ */
+export async function refundEscrow(
+  appointmentId: string,
+  initiatedById: string,
+  method?: RefundMethod
+) {
+  const escrow = await prisma.escrow.findUnique({
+    where: { appointmentId },
+    include: { payment: true },
+  });
+
+  if (!escrow || !["HELD", "DISPUTED"].includes(escrow.status)) {
+    return null;
+  }
+
+  // Refunds still pending have already reserved their share of the payment
+  const refundable = Number(escrow.payment.amount) - Number(escrow.payment.refundedAmount);
+
+  return issueRefund({
+    paymentId: escrow.paymentId,
+    amount: roundToCents(Math.min(Number(escrow.amount), refundable)),
+    method,
+    reason: "Booking cancelled",
+    initiatedById,
+  });
+}
+
+/**
+ * Apply the booking's cancellation policy after the customer cancels late or
+ * does not show up. The fee comes out of the held payment and is paid to the
+ * provider, and the rest is refunded. Bookings that were not paid in advance
+ * are only charged, from the customer's wallet if it has enough in it, when the
+ * shop has opted in.
+ */
+export async function chargeCancellationFee(
+  appointmentId: string,
+  reason: "CANCELLED" | "NO_SHOW",
+  initiatedById: string,
+  method?: RefundMethod
+): Promise<{ fee: number; refund: RefundResult | null }> {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: {
+      escrow: true,
+      earning: true,
+      service: true,
+      provider: {
+        select: { shop: true },
+      },
+      payments: {
+        where: { status: { in: ["COMPLETED", "REFUNDED"] } },
+        take: 1,
+      },
+    },
+  });
+
+  if (!appointment || appointment.earning) {
+    return { fee: 0, refund: null };
+  }
+
+  const { service, escrow } = appointment;
+  const shop = appointment.provider.shop;
+  const policy = resolveCancellationPolicy(service, shop);
+
+  const held = escrow && ["HELD", "DISPUTED"].includes(escrow.status);
+  // Paid some other way (or already refunded): nothing we can collect from.
+  // Unpaid bookings are left alone unless the shop chose to charge them.
+  if (!held && (appointment.payments.length > 0 || !shop?.chargeUnpaidBookings)) {
+    return { fee: 0, refund: null };
+  }
+
+  const amount = getCancellationFeeBase(
+    held ? Number(escrow.amount) : null,
+    Number(service?.price || 0),
+    parseFloat(shop?.tax || "0")
+  );
+  const { fee, refund } = calculateCancellationFee(
+    policy,
+    amount,
+    reason,
+    getAppointmentStart(appointment.date, appointment.time),
+    appointment.cancelledAt || new Date()
+  );
+
+  if (fee <= 0) {
+    return {
+      fee: 0,
+      refund: held ? await refundEscrow(appointmentId, initiatedById, method) : null,
+    };
+  }
+
+  const serviceName = service?.name || "booking";
+  const description =
+    reason === "NO_SHOW" ? `No-show fee for ${serviceName}` : `Late cancellation fee for ${serviceName}`;
+  const rate = held
+    ? Number(escrow.commissionRate)
+    : (await getCommissionRate(appointment.providerId, service?.categoryId)).rate;
+  // Held funds split the fee as they split the payment; wallet charges pay commission
+  const providerShare = held
+    ? splitRefund(fee, amount, Number(escrow.netAmount)).providerShare
+    : roundToCents(fee - fee * (rate / 100));
+  const platformShare = roundToCents(fee - providerShare);
+
+  const lines: JournalLine[] = [
+    held
+      ? { side: "DEBIT", amount: fee, account: "BOOKING_FUNDS" }
+      : {
+          side: "DEBIT",
+          amount: fee,
+          account: { walletUserId: appointment.requesterId },
+          description,
+        },
+    {
+      side: "CREDIT",
+      amount: providerShare,
+      account: { walletUserId: appointment.providerId },
+      description,
+    },
+    {
+      side: "CREDIT",
+      amount: platformShare,
+      account: PLATFORM_FEES_ACCOUNT,
+      description: `Commission on ${description.toLowerCase()}`,
+    },
+  ];
+
+  try {
+    const charged = await prisma.$transaction(async (tx) => {
+      if (held) {
+        const captured = await tx.escrow.updateMany({
+          where: { id: escrow.id, status: { in: ["HELD", "DISPUTED"] } },
+          data: {
+            amount: { decrement: fee },
+            netAmount: { decrement: providerShare },
+            ...(refund <= 0 && { status: "RELEASED", releasedAt: new Date() }),
+          },
+        });
+
+        // Refunded or released by another request in the meantime
+        if (captured.count === 0) {
+          return false;
+        }
+
+        await tx.wallet.update({
+          where: { userId: appointment.providerId },
+          data: { heldBalance: { decrement: providerShare } },
+        });
+      }
+
+      const { transactions } = await postJournal(tx, {
+        description,
+        reference: appointmentId,
+        lines: lines.filter((line) => line.amount > 0),
+      });
+
+      await tx.providerEarning.create({
+        data: {
+          appointmentId,
+          providerId: appointment.providerId,
+          paymentId: held ? escrow.paymentId : undefined,
+          grossAmount: fee,
+          commissionRate: rate,
+          feeAmount: platformShare,
+          netAmount: providerShare,
+          transactionId: transactions.find((t) => t.type === "CREDIT")?.id,
+        },
+      });
+
+      await tx.appointment.update({
+        where: { id: appointmentId },
+        data: { cancellationFee: fee },
+      });
+
+      return true;
+    });
+
+    if (!charged) {
+      return { fee: 0, refund: null };
+    }
+  } catch (error) {
+    // The customer's wallet could not cover the fee
+    if (error instanceof LedgerError) {
+      console.error(`Could not charge cancellation fee for appointment ${appointmentId}:`, error.message);
+      return { fee: 0, refund: null };
+    }
+    // Another request charged this appointment first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { fee: 0, refund: null };
+    }
+    throw error;
+  }
+
+  await notifySystem(
+    appointment.requesterId,
+    reason === "NO_SHOW" ? "No-Show Fee Charged" : "Cancellation Fee Charged",
+    `R${fee.toFixed(2)} was charged for ${serviceName} under the provider's cancellation policy${
+      held && refund > 0 ? `. The remaining R${refund.toFixed(2)} is being refunded.` : "."
+    }`,
+    `/dashboard/bookings/${appointmentId}`
+  );
+  await notifySystem(
+    appointment.providerId,
+    reason === "NO_SHOW" ? "No-Show Fee Received" : "Cancellation Fee Received",
+    `R${providerShare.toFixed(2)} was added to your wallet: ${description.toLowerCase()}`,
+    "/dashboard/wallet"
+  );
+
+  if (!held || refund <= 0) {
+    return { fee, refund: null };
+  }
+
+  const refunded = await issueRefund({
+    paymentId: escrow.paymentId,
+    amount: refund,
+    method,
+    reason: reason === "NO_SHOW" ? "No-show (less no-show fee)" : "Booking cancelled (less cancellation fee)",
+    initiatedById,
+  });
+
+  // The rest stays held, and is never released now the fee is paid out
+  if (!refunded.success) {
+    console.error(
+      `Booking ${appointmentId} has R${refund.toFixed(2)} left to refund after its fee:`,
+      refunded.error
+    );
+  }
+
+  return { fee, refund: refunded };
+}
+
+/**
+ * Hold a payment back from automatic release while an admin looks into it
+ */
+export async function disputeEscrow(appointmentId: string, reason: string) {
+  const escrow = await prisma.escrow.findUnique({
+    where: { appointmentId },
+    include: {
+      appointment: {
+        include: {
+          service: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  if (!escrow) {
+    return null;
+  }
+
+  const updated = await prisma.escrow.updateMany({
+    where: { id: escrow.id, status: "HELD" },
+    data: { status: "DISPUTED", disputeReason: reason },
+  });
+
+  if (updated.count === 0) {
+    return null;
+  }
+
+  await notifySystem(
+    escrow.providerId,
+    "Booking Payment Disputed",
+    `The customer has disputed the payment for ${escrow.appointment.service?.name || "a booking"}. The funds stay on hold until it is resolved.`,
+    `/dashboard/bookings/${appointmentId}`
+  );
+
+  return prisma.escrow.findUnique({ where: { id: escrow.id } });
+}
+
+/**
+ * Release every held payment whose release date has passed. Cancelled or
+ * unconfirmed bookings are left alone: they are refunded, not released. So
+ * are bookings a cancellation fee was taken from, whose provider has been
+ * paid already; what is still held of those is owed back to the customer.
+ */
+export async function releaseDueEscrows(now: Date = new Date()) {
+  const due = await prisma.escrow.findMany({
+    where: {
+      status: "HELD",
+      releaseAfter: { lte: now },
+      appointment: {
+        status: { in: ["CONFIRMED", "COMPLETED", "NO_SHOW"] },
+        earning: { is: null },
+      },
+    },
+    select: { appointmentId: true },
+    take: 100,
+  });
+
+  let released = 0;
+  for (const { appointmentId } of due) {
+    try {
+      if (await releaseEscrow(appointmentId)) {
+        released++;
+      }
+    } catch (error) {
+      console.error(`Failed to release escrow for appointment ${appointmentId}:`, error);
+    }
+  }
+
+  return { due: due.length, released };
+}
@@ -35,6 +35,8 @@ export interface PaymentVerification {
   amount?: number;
   error?: string;
   providerData?: Record<string, unknown>;
+  // The provider couldn't be asked, so the real status is unknown
+  unverified?: boolean;
 }
 
 // Environment variables
@@ -44,6 +46,36 @@ export const PAYFAST_MERCHANT_ID = process.env.PAYFAST_MERCHANT_ID;
 export const PAYFAST_MERCHANT_KEY = process.env.PAYFAST_MERCHANT_KEY;
 export const PAYFAST_PASSPHRASE = process.env.PAYFAST_PASSPHRASE;
 export const PAYFAST_SANDBOX = process.env.PAYFAST_SANDBOX === "true";
+export const YOCO_WEBHOOK_SECRET = process.env.YOCO_WEBHOOK_SECRET;
+
+type PaymentStatus = PaymentVerification["status"];
+
+// Allowed forward moves for a payment. COMPLETED, FAILED, REFUNDED and
+// CANCELLED never move back to an earlier state.
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ["PROCESSING", "COMPLETED", "FAILED", "CANCELLED"],
+  PROCESSING: ["COMPLETED", "FAILED", "CANCELLED"],
+  COMPLETED: ["REFUNDED"],
+  FAILED: [],
+  REFUNDED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Check if a payment may move from one status to another
+ */
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Get the statuses a payment may be in to move to the given status
+ */
+export function getPaymentStatusesBefore(to: PaymentStatus): PaymentStatus[] {
+  return (Object.keys(PAYMENT_STATUS_TRANSITIONS) as PaymentStatus[]).filter((from) =>
+    canTransitionPayment(from, to)
+  );
+}
 
 /**
  * Check if a payment provider is configured
@@ -0,0 +1,307 @@
+import type { Prisma } from "@prisma/client";
+import { roundToCents } from "./pricing";
+
+/**
+ * Double-entry ledger. Every money movement is posted as a journal whose
+ * debits equal its credits. Wallets are ledger accounts too, so
+ * `Wallet.balance` is a cached total of its entries and can be reconciled.
+ *
+ * Accounts:
+ * - PAYMENT_CLEARING: money collected through Yoco/PayFast (debit-normal)
+ * - WALLET: what the platform owes a user
+ * - BOOKING_FUNDS: booking payments held until the appointment is completed
+ * - PLATFORM_SALES: revenue from marketplace orders
+ * - PLATFORM_FEES: commission and booking fees
+ * - PAYOUT: money paid out to users' bank accounts
+ * - OPENING_BALANCES: wallet money from before the ledger existed
+ */
+
+export type LedgerSide = "DEBIT" | "CREDIT";
+export type SystemAccount =
+  | "PLATFORM_FEES"
+  | "PLATFORM_SALES"
+  | "PAYMENT_CLEARING"
+  | "BOOKING_FUNDS"
+  | "PAYOUT"
+  | "OPENING_BALANCES";
+export type LedgerAccountKind = SystemAccount | "WALLET";
+
+export type TransactionType = "CREDIT" | "DEBIT" | "REFUND" | "WITHDRAWAL";
+
+export const SYSTEM_ACCOUNT_NAMES: Record<SystemAccount, string> = {
+  PLATFORM_FEES: "Platform fees",
+  PLATFORM_SALES: "Marketplace sales",
+  PAYMENT_CLEARING: "Payment clearing",
+  BOOKING_FUNDS: "Booking funds held",
+  PAYOUT: "Payouts to bank accounts",
+  OPENING_BALANCES: "Opening balances",
+};
+
+// Reference of the journal that opens a wallet's ledger account
+export const OPENING_BALANCE_REFERENCE = "opening-balance";
+
+export interface JournalLine {
+  side: LedgerSide;
+  amount: number;
+  // A system account, or the wallet of a user
+  account: SystemAccount | { walletUserId: string };
+  description?: string;
+  // Wallet lines only: the type of the Transaction row shown to the user
+  transactionType?: TransactionType;
+}
+
+export interface JournalInput {
+  description: string;
+  reference?: string;
+  lines: JournalLine[];
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+/**
+ * The side that increases an account's balance. Clearing holds money the
+ * platform has received, every other account is money owed or earned.
+ */
+export function normalSide(kind: LedgerAccountKind): LedgerSide {
+  return kind === "PAYMENT_CLEARING" ? "DEBIT" : "CREDIT";
+}
+
+/**
+ * Effect of an entry on an account's balance
+ */
+export function balanceDelta(kind: LedgerAccountKind, side: LedgerSide, amount: number): number {
+  return side === normalSide(kind) ? amount : -amount;
+}
+
+/**
+ * Balance of an account from the sums of its debit and credit entries
+ */
+export function balanceFromTotals(
+  kind: LedgerAccountKind,
+  totals: { debits: number; credits: number }
+): number {
+  return roundToCents(
+    normalSide(kind) === "DEBIT" ? totals.debits - totals.credits : totals.credits - totals.debits
+  );
+}
+
+/**
+ * Effect of a user-facing Transaction row on a wallet balance
+ */
+export function transactionDelta(type: TransactionType, amount: number): number {
+  return type === "CREDIT" || type === "REFUND" ? amount : -amount;
+}
+
+/**
+ * Check that a journal has positive amounts and that its debits equal its credits
+ */
+export function validateJournal(lines: JournalLine[]): string | null {
+  if (lines.length < 2) {
+    return "A journal needs at least two lines";
+  }
+
+  let debits = 0;
+  let credits = 0;
+
+  for (const line of lines) {
+    const cents = Math.round(line.amount * 100);
+    if (!Number.isFinite(cents) || cents <= 0) {
+      return "Journal amounts must be positive";
+    }
+    if (line.side === "DEBIT") {
+      debits += cents;
+    } else {
+      credits += cents;
+    }
+  }
+
+  if (debits !== credits) {
+    return `Journal is unbalanced: debits ${debits / 100} != credits ${credits / 100}`;
+  }
+
+  return null;
+}
+
+async function getSystemAccount(tx: Prisma.TransactionClient, code: SystemAccount) {
+  return tx.ledgerAccount.upsert({
+    where: { code },
+    create: {
+      code,
+      name: SYSTEM_ACCOUNT_NAMES[code],
+      type: code,
+    },
+    update: {},
+  });
+}
+
+async function getWalletAccount(tx: Prisma.TransactionClient, userId: string) {
+  const wallet = await tx.wallet.upsert({
+    where: { userId },
+    create: { userId, currency: "ZAR" },
+    update: {},
+  });
+
+  const account = await tx.ledgerAccount.upsert({
+    where: { walletId: wallet.id },
+    create: {
+      code: `WALLET:${wallet.id}`,
+      name: `Wallet ${wallet.id}`,
+      type: "WALLET",
+      walletId: wallet.id,
+      currency: wallet.currency,
+    },
+    update: {},
+  });
+
+  return { wallet, account };
+}
+
+/**
+ * Post a balanced journal inside a transaction. Updates the cached balance of
+ * each account, keeps `Wallet.balance` in step with its ledger account and
+ * writes the user-facing Transaction row for every wallet line. Throws a
+ * LedgerError when the journal is unbalanced or a wallet would go negative.
+ */
+export async function postJournal(tx: Prisma.TransactionClient, input: JournalInput) {
+  const invalid = validateJournal(input.lines);
+  if (invalid) {
+    throw new LedgerError(invalid);
+  }
+
+  const resolved = [];
+  for (const line of input.lines) {
+    const amount = roundToCents(line.amount);
+
+    if (typeof line.account === "string") {
+      const account = await getSystemAccount(tx, line.account);
+      resolved.push({ line, amount, account, wallet: null });
+    } else {
+      const { wallet, account } = await getWalletAccount(tx, line.account.walletUserId);
+      resolved.push({ line, amount, account, wallet });
+    }
+  }
+
+  const journal = await tx.ledgerJournal.create({
+    data: {
+      description: input.description,
+      reference: input.reference,
+      entries: {
+        create: resolved.map(({ line, amount, account }) => ({
+          accountId: account.id,
+          side: line.side,
+          amount,
+          description: line.description,
+        })),
+      },
+    },
+  });
+
+  const transactions = [];
+  for (const { line, amount, account, wallet } of resolved) {
+    const delta = balanceDelta(account.type, line.side, amount);
+
+    await tx.ledgerAccount.update({
+      where: { id: account.id },
+      data: { balance: { increment: delta } },
+    });
+
+    if (!wallet) {
+      continue;
+    }
+
+    // Never let a wallet go negative, even if two debits race
+    const updated = await tx.wallet.updateMany({
+      where: {
+        id: wallet.id,
+        ...(delta < 0 && { balance: { gte: -delta } }),
+      },
+      data: { balance: { increment: delta } },
+    });
+
+    if (updated.count === 0) {
+      throw new LedgerError("Insufficient wallet balance");
+    }
+
+    transactions.push(
+      await tx.transaction.create({
+        data: {
+          walletId: wallet.id,
+          amount,
+          type: line.transactionType || line.side,
+          description: line.description || input.description,
+          reference: input.reference,
+          journalId: journal.id,
+        },
+      })
+    );
+  }
+
+  return { journal, transactions };
+}
+
+/**
+ * Open the ledger account of a wallet that held money before the ledger
+ * existed. The difference between `Wallet.balance` and the wallet's entries is
+ * posted against OPENING_BALANCES. Neither `Wallet.balance` nor the Transaction
+ * history changes, since both already include that money. Returns null when
+ * the wallet has already been opened or its entries already add up.
+ */
+export async function postOpeningBalance(tx: Prisma.TransactionClient, userId: string) {
+  const { wallet, account } = await getWalletAccount(tx, userId);
+
+  const opened = await tx.ledgerEntry.findFirst({
+    where: { accountId: account.id, journal: { reference: OPENING_BALANCE_REFERENCE } },
+    select: { id: true },
+  });
+  if (opened) {
+    return null;
+  }
+
+  const sums = await tx.ledgerEntry.groupBy({
+    by: ["side"],
+    where: { accountId: account.id },
+    _sum: { amount: true },
+  });
+  const ledgerBalance = balanceFromTotals("WALLET", {
+    debits: Number(sums.find((row) => row.side === "DEBIT")?._sum.amount || 0),
+    credits: Number(sums.find((row) => row.side === "CREDIT")?._sum.amount || 0),
+  });
+  const difference = roundToCents(Number(wallet.balance) - ledgerBalance);
+  if (difference === 0) {
+    return null;
+  }
+
+  const amount = Math.abs(difference);
+  const walletSide: LedgerSide = difference > 0 ? "CREDIT" : "DEBIT";
+  const openingSide: LedgerSide = difference > 0 ? "DEBIT" : "CREDIT";
+  const opening = await getSystemAccount(tx, "OPENING_BALANCES");
+
+  const journal = await tx.ledgerJournal.create({
+    data: {
+      description: "Opening wallet balance",
+      reference: OPENING_BALANCE_REFERENCE,
+      entries: {
+        create: [
+          { accountId: account.id, side: walletSide, amount },
+          { accountId: opening.id, side: openingSide, amount },
+        ],
+      },
+    },
+  });
+
+  await tx.ledgerAccount.update({
+    where: { id: account.id },
+    data: { balance: { increment: balanceDelta("WALLET", walletSide, amount) } },
+  });
+  await tx.ledgerAccount.update({
+    where: { id: opening.id },
+    data: { balance: { increment: balanceDelta("OPENING_BALANCES", openingSide, amount) } },
+  });
+
+  return { journal, amount: difference };
+}
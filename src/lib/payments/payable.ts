@@ -0,0 +1,213 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { CHECKOUT_HOLD_MINUTES } from "@/lib/bookings/holds";
+import { AppointmentCharge, calculateAppointmentCharge } from "./pricing";
+
+export interface PayableTarget {
+  orderId?: string;
+  appointmentId?: string;
+}
+
+export interface PayableResult {
+  success: boolean;
+  amount?: number;
+  type?: "ORDER" | "APPOINTMENT";
+  description?: string;
+  charge?: AppointmentCharge;
+  error?: string;
+  status?: number;
+}
+
+export class AlreadyPaidError extends Error {
+  constructor(message: string = "This has already been paid or can no longer be paid") {
+    super(message);
+    this.name = "AlreadyPaidError";
+  }
+}
+
+// Orders still waiting to be paid
+const UNPAID_ORDER_STATUSES: OrderStatus[] = ["CART", "PENDING"];
+
+/**
+ * Whether a checkout for the order or appointment was started recently and
+ * may still complete. Older ones count as abandoned, so the customer can try
+ * again.
+ */
+async function hasPaymentInProgress(target: PayableTarget, now: Date = new Date()) {
+  const count = await prisma.payment.count({
+    where: {
+      orderId: target.orderId,
+      appointmentId: target.appointmentId,
+      status: { in: ["PENDING", "PROCESSING"] },
+      createdAt: { gt: new Date(now.getTime() - CHECKOUT_HOLD_MINUTES * 60 * 1000) },
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Work out the amount payable for an order or appointment on the server.
+ * The caller must own the order (or have requested the appointment), it must
+ * not already be paid and no other payment for it may be under way.
+ */
+export async function resolvePayableAmount(
+  userId: string,
+  target: PayableTarget
+): Promise<PayableResult> {
+  if (target.orderId && target.appointmentId) {
+    return {
+      success: false,
+      error: "A payment can be for an order or an appointment, not both",
+      status: 400,
+    };
+  }
+
+  if (target.orderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: target.orderId },
+      include: {
+        payments: {
+          where: { status: "COMPLETED" },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!order) {
+      return { success: false, error: "Order not found", status: 404 };
+    }
+
+    if (order.userId !== userId) {
+      return {
+        success: false,
+        error: "You can only pay for your own orders",
+        status: 403,
+      };
+    }
+
+    if (order.payments.length > 0 || !UNPAID_ORDER_STATUSES.includes(order.status)) {
+      return {
+        success: false,
+        error: "This order has already been paid or can no longer be paid",
+        status: 409,
+      };
+    }
+
+    if (await hasPaymentInProgress(target)) {
+      return {
+        success: false,
+        error: "A payment for this order is already in progress",
+        status: 409,
+      };
+    }
+
+    return {
+      success: true,
+      amount: Number(order.totalAmount),
+      type: "ORDER",
+      description: `Payment for order ${order.orderNumber}`,
+    };
+  }
+
+  if (target.appointmentId) {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: target.appointmentId },
+      include: {
+        service: {
+          select: { name: true, price: true },
+        },
+        provider: {
+          select: {
+            shop: { select: { tax: true } },
+          },
+        },
+        payments: {
+          where: { status: "COMPLETED" },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!appointment) {
+      return { success: false, error: "Appointment not found", status: 404 };
+    }
+
+    if (appointment.requesterId !== userId) {
+      return {
+        success: false,
+        error: "You can only pay for your own appointments",
+        status: 403,
+      };
+    }
+
+    if (
+      appointment.payments.length > 0 ||
+      appointment.paymentMode === "PAID" ||
+      appointment.status !== "PENDING"
+    ) {
+      return {
+        success: false,
+        error: "This appointment has already been paid or can no longer be paid",
+        status: 409,
+      };
+    }
+
+    if (await hasPaymentInProgress(target)) {
+      return {
+        success: false,
+        error: "A payment for this appointment is already in progress",
+        status: 409,
+      };
+    }
+
+    if (appointment.holdExpiresAt && appointment.holdExpiresAt < new Date()) {
+      return {
+        success: false,
+        error: "Your hold on this time slot has expired. Please book again.",
+        status: 409,
+      };
+    }
+
+    if (!appointment.service) {
+      return {
+        success: false,
+        error: "This appointment has no priced service",
+        status: 400,
+      };
+    }
+
+    const charge = calculateAppointmentCharge(
+      Number(appointment.service.price),
+      parseFloat(appointment.provider.shop?.tax || "0")
+    );
+
+    return {
+      success: true,
+      amount: charge.total,
+      type: "APPOINTMENT",
+      description: `Payment for ${appointment.service.name}`,
+      charge,
+    };
+  }
+
+  return {
+    success: false,
+    error: "An order or appointment is required",
+    status: 400,
+  };
+}
+
+/**
+ * Confirm a paid order inside the payment's transaction. Only an order still
+ * waiting to be paid is confirmed, so this returns false when another payment
+ * got there first or the order was cancelled meanwhile.
+ */
+export async function confirmPaidOrder(tx: Prisma.TransactionClient, orderId: string) {
+  const confirmed = await tx.order.updateMany({
+    where: { id: orderId, status: { in: UNPAID_ORDER_STATUSES } },
+    data: { status: "CONFIRMED" },
+  });
+
+  return confirmed.count > 0;
+}
@@ -0,0 +1,107 @@
+// Booking fee charged to customers on top of the service price (percentage)
+export const BOOKING_FEE_RATE = 8;
+
+export interface AppointmentCharge {
+  subtotal: number;
+  bookingFee: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Round a Rand amount to whole cents
+ */
+export function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Calculate what a customer pays for an appointment: service price,
+ * booking fee and the provider's tax rate (percentage)
+ */
+export function calculateAppointmentCharge(
+  servicePrice: number,
+  taxRate: number = 0
+): AppointmentCharge {
+  const subtotal = roundToCents(servicePrice);
+  const bookingFee = roundToCents(subtotal * (BOOKING_FEE_RATE / 100));
+  const tax = roundToCents(subtotal * ((Number.isFinite(taxRate) ? taxRate : 0) / 100));
+
+  return {
+    subtotal,
+    bookingFee,
+    tax,
+    total: roundToCents(subtotal + bookingFee + tax),
+  };
+}
+
+export interface EarningBreakdown {
+  grossAmount: number;
+  commissionRate: number;
+  feeAmount: number;
+  netAmount: number;
+}
+
+/**
+ * Split a provider's gross amount into the platform fee and their net earnings.
+ * Commission is charged on the service price only, never on the provider's tax.
+ */
+export function calculateEarning(
+  charge: Pick<AppointmentCharge, "subtotal" | "tax">,
+  commissionRate: number
+): EarningBreakdown {
+  const grossAmount = roundToCents(charge.subtotal + charge.tax);
+  const feeAmount = roundToCents(charge.subtotal * (commissionRate / 100));
+
+  return {
+    grossAmount,
+    commissionRate,
+    feeAmount,
+    netAmount: roundToCents(grossAmount - feeAmount),
+  };
+}
+
+/**
+ * What is left of an earning once part of the booking payment has been
+ * refunded or paid out early. `netAmount` is the provider's remaining share;
+ * the gross shrinks in proportion and the platform keeps the difference.
+ */
+export function reduceEarning(
+  earning: EarningBreakdown,
+  ratio: number,
+  netAmount: number
+): EarningBreakdown {
+  const grossAmount = roundToCents(earning.grossAmount * Math.min(Math.max(ratio, 0), 1));
+
+  return {
+    grossAmount,
+    commissionRate: earning.commissionRate,
+    feeAmount: roundToCents(grossAmount - netAmount),
+    netAmount,
+  };
+}
+
+/**
+ * Split a refund of part of a booking payment between the provider's share
+ * and the platform's, in proportion to what each received
+ */
+export function splitRefund(
+  refundAmount: number,
+  paymentAmount: number,
+  providerAmount: number
+): { providerShare: number; platformShare: number } {
+  const ratio = paymentAmount > 0 ? Math.min(refundAmount / paymentAmount, 1) : 0;
+  const providerShare = roundToCents(providerAmount * ratio);
+
+  return {
+    providerShare,
+    platformShare: roundToCents(refundAmount - providerShare),
+  };
+}
+
+/**
+ * Check whether a client-supplied amount matches the server-side amount
+ */
+export function amountsMatch(expected: number, actual: number): boolean {
+  return Math.round(expected * 100) === Math.round(actual * 100);
+}
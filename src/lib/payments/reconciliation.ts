@@ -0,0 +1,173 @@
+import { prisma } from "@/lib/prisma";
+import { roundToCents } from "./pricing";
+import { balanceFromTotals, LedgerAccountKind, transactionDelta } from "./ledger";
+
+export interface WalletReconciliation {
+  walletId: string;
+  user: {
+    id: string;
+    username: string;
+    email: string;
+  };
+  balance: number;
+  ledgerBalance: number;
+  transactionBalance: number;
+  heldBalance: number;
+  escrowBalance: number;
+  hasLedgerAccount: boolean;
+  matches: boolean;
+}
+
+export interface AccountReconciliation {
+  code: string;
+  name: string;
+  type: LedgerAccountKind;
+  balance: number;
+  ledgerBalance: number;
+  matches: boolean;
+}
+
+/**
+ * Compare every cached balance with the entries behind it: wallets against
+ * both their ledger account and their Transaction history, held funds against
+ * open escrows, system accounts against their entries, and every journal
+ * against itself.
+ */
+export async function buildReconciliationReport() {
+  const [wallets, accounts, entryTotals, transactionTotals, journalTotals, escrowTotals] =
+    await Promise.all([
+    prisma.wallet.findMany({
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            email: true,
+          },
+        },
+        ledgerAccount: {
+          select: { id: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.ledgerAccount.findMany({
+      where: { walletId: null },
+      orderBy: { code: "asc" },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["accountId", "side"],
+      _sum: { amount: true },
+    }),
+    prisma.transaction.groupBy({
+      by: ["walletId", "type"],
+      _sum: { amount: true },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["journalId", "side"],
+      _sum: { amount: true },
+    }),
+    prisma.escrow.groupBy({
+      by: ["providerId"],
+      where: { status: { in: ["HELD", "DISPUTED", "REFUND_PENDING"] } },
+      _sum: { netAmount: true },
+    }),
+  ]);
+
+  const totalsFor = (accountId: string) => {
+    const totals = { debits: 0, credits: 0 };
+    for (const row of entryTotals) {
+      if (row.accountId !== accountId) continue;
+      if (row.side === "DEBIT") {
+        totals.debits += Number(row._sum.amount || 0);
+      } else {
+        totals.credits += Number(row._sum.amount || 0);
+      }
+    }
+    return totals;
+  };
+
+  const walletReports: WalletReconciliation[] = wallets.map((wallet) => {
+    const balance = Number(wallet.balance);
+    const ledgerBalance = wallet.ledgerAccount
+      ? balanceFromTotals("WALLET", totalsFor(wallet.ledgerAccount.id))
+      : 0;
+    const transactionBalance = roundToCents(
+      transactionTotals
+        .filter((row) => row.walletId === wallet.id)
+        .reduce((sum, row) => sum + transactionDelta(row.type, Number(row._sum.amount || 0)), 0)
+    );
+
+    const heldBalance = Number(wallet.heldBalance);
+    const escrowBalance = Number(
+      escrowTotals.find((row) => row.providerId === wallet.userId)?._sum.netAmount || 0
+    );
+
+    return {
+      walletId: wallet.id,
+      user: wallet.user,
+      balance,
+      ledgerBalance,
+      transactionBalance,
+      heldBalance,
+      escrowBalance,
+      hasLedgerAccount: !!wallet.ledgerAccount,
+      matches:
+        Math.round(balance * 100) === Math.round(ledgerBalance * 100) &&
+        Math.round(balance * 100) === Math.round(transactionBalance * 100) &&
+        Math.round(heldBalance * 100) === Math.round(escrowBalance * 100),
+    };
+  });
+
+  const accountReports: AccountReconciliation[] = accounts.map((account) => {
+    const balance = Number(account.balance);
+    const ledgerBalance = balanceFromTotals(account.type, totalsFor(account.id));
+    return {
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      balance,
+      ledgerBalance,
+      matches: Math.round(balance * 100) === Math.round(ledgerBalance * 100),
+    };
+  });
+
+  // Journals whose debits and credits differ
+  const journalSides = new Map<string, number>();
+  for (const row of journalTotals) {
+    const cents = Math.round(Number(row._sum.amount || 0) * 100);
+    journalSides.set(
+      row.journalId,
+      (journalSides.get(row.journalId) || 0) + (row.side === "DEBIT" ? cents : -cents)
+    );
+  }
+  const unbalancedJournals = [...journalSides.entries()]
+    .filter(([, difference]) => difference !== 0)
+    .map(([journalId]) => journalId);
+
+  const totalDebits = roundToCents(
+    entryTotals
+      .filter((row) => row.side === "DEBIT")
+      .reduce((sum, row) => sum + Number(row._sum.amount || 0), 0)
+  );
+  const totalCredits = roundToCents(
+    entryTotals
+      .filter((row) => row.side === "CREDIT")
+      .reduce((sum, row) => sum + Number(row._sum.amount || 0), 0)
+  );
+
+  return {
+    summary: {
+      walletCount: walletReports.length,
+      mismatchedWallets: walletReports.filter((w) => !w.matches).length,
+      mismatchedAccounts: accountReports.filter((a) => !a.matches).length,
+      unbalancedJournals: unbalancedJournals.length,
+      totalDebits,
+      totalCredits,
+      balanced: Math.round(totalDebits * 100) === Math.round(totalCredits * 100),
+    },
+    wallets: walletReports,
+    accounts: accountReports,
+    unbalancedJournals,
+  };
+}
@@ -0,0 +1,495 @@
+import { Prisma, Refund } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notifyRefundIssued, notifySystem } from "@/lib/notifications";
+import { JournalLine, LedgerError, postJournal } from "./ledger";
+import { reduceEarning, roundToCents, splitRefund } from "./pricing";
+import { refundYocoPayment } from "./yoco";
+
+// How long after a booking is paid its provider may refund it themselves
+export const PROVIDER_REFUND_WINDOW_DAYS = parseInt(process.env.PROVIDER_REFUND_WINDOW_DAYS || "30");
+
+type RefundMethod = "ORIGINAL" | "WALLET";
+
+export interface RefundItem {
+  orderItemId: string;
+  quantity: number;
+}
+
+interface IssueRefundParams {
+  paymentId: string;
+  amount?: number; // Defaults to everything still refundable
+  method?: RefundMethod;
+  reason?: string;
+  items?: RefundItem[];
+  initiatedById: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refund?: Refund;
+  error?: string;
+  status?: number;
+}
+
+// Escrow statuses in which the booking money has not reached the provider yet
+const UNRELEASED_ESCROW = ["HELD", "DISPUTED", "REFUND_PENDING"];
+
+/**
+ * Start a full or partial refund. Wallet refunds complete straight away, Yoco
+ * refunds go through the Yoco refund API, and PayFast refunds stay PENDING
+ * until an admin confirms they were paid from the PayFast dashboard.
+ */
+export async function issueRefund(params: IssueRefundParams): Promise<RefundResult> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: params.paymentId },
+    include: {
+      escrow: true,
+      order: {
+        include: { items: true },
+      },
+      _count: {
+        select: { refunds: true },
+      },
+    },
+  });
+
+  if (!payment) {
+    return { success: false, error: "Payment not found", status: 404 };
+  }
+
+  if (payment.status !== "COMPLETED") {
+    return { success: false, error: "Only completed payments can be refunded", status: 400 };
+  }
+
+  if (payment.type === "WALLET_DEPOSIT") {
+    return {
+      success: false,
+      error: "Wallet deposits are withdrawn, not refunded",
+      status: 400,
+    };
+  }
+
+  const paymentAmount = Number(payment.amount);
+  const refundable = roundToCents(paymentAmount - Number(payment.refundedAmount));
+  const amount = roundToCents(params.amount ?? refundable);
+
+  if (amount <= 0 || amount > refundable) {
+    return {
+      success: false,
+      error: `You can refund at most R${refundable.toFixed(2)}`,
+      status: 400,
+    };
+  }
+
+  for (const item of params.items || []) {
+    const orderItem = payment.order?.items.find((i) => i.id === item.orderItemId);
+    if (!orderItem || item.quantity < 1 || item.quantity > orderItem.quantity - orderItem.refundedQuantity) {
+      return { success: false, error: "Invalid items to return to stock", status: 400 };
+    }
+  }
+
+  // Only card payments can go back to where they came from
+  const method: RefundMethod =
+    payment.provider === "YOCO" || payment.provider === "PAYFAST"
+      ? params.method || "ORIGINAL"
+      : "WALLET";
+
+  let refund: Refund | null;
+  try {
+    refund = await prisma.$transaction(async (tx) => {
+      // Reserve the amount so two refunds can never exceed the payment
+      const reserved = await tx.payment.updateMany({
+        where: {
+          id: payment.id,
+          status: "COMPLETED",
+          refundedAmount: { lte: roundToCents(paymentAmount - amount) },
+        },
+        data: { refundedAmount: { increment: amount } },
+      });
+
+      if (reserved.count === 0) {
+        return null;
+      }
+
+      // Keep a fully refunded booking from being released while it is pending
+      if (
+        method === "ORIGINAL" &&
+        amount === refundable &&
+        payment.escrow &&
+        ["HELD", "DISPUTED"].includes(payment.escrow.status)
+      ) {
+        await tx.escrow.update({
+          where: { id: payment.escrow.id },
+          data: { status: "REFUND_PENDING", refundMethod: method },
+        });
+      }
+
+      return tx.refund.create({
+        data: {
+          creditNoteNumber: `CN-${payment.id.substring(0, 8).toUpperCase()}-${payment._count.refunds + 1}`,
+          amount,
+          method,
+          reason: params.reason,
+          items: params.items ? JSON.parse(JSON.stringify(params.items)) : undefined,
+          paymentId: payment.id,
+          initiatedById: params.initiatedById,
+        },
+      });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      refund = null;
+    } else {
+      throw error;
+    }
+  }
+
+  if (!refund) {
+    return {
+      success: false,
+      error: "Another refund for this payment is in progress. Please try again.",
+      status: 409,
+    };
+  }
+
+  if (method === "WALLET") {
+    return completeRefund(refund.id);
+  }
+
+  if (payment.provider === "YOCO") {
+    const result = payment.providerRef
+      ? await refundYocoPayment(payment.providerRef, amount, refund.id)
+      : { success: false, error: "Payment has no Yoco reference", providerData: undefined };
+
+    if (!result.success) {
+      await failRefund(refund.id, result.error || "Yoco refund failed", result.providerData);
+      return { success: false, error: result.error || "Yoco refund failed", status: 502 };
+    }
+
+    return completeRefund(refund.id, {
+      providerRef: result.providerRef,
+      providerData: result.providerData,
+    });
+  }
+
+  // PayFast refunds are paid from the PayFast dashboard and confirmed by an admin
+  return { success: true, refund };
+}
+
+/**
+ * Give up on a pending refund and release its reservation on the payment
+ */
+export async function failRefund(refundId: string, reason: string, providerData?: unknown) {
+  return prisma.$transaction(async (tx) => {
+    const refund = await tx.refund.findUnique({
+      where: { id: refundId },
+      include: {
+        payment: { include: { escrow: true } },
+      },
+    });
+
+    if (!refund) {
+      return null;
+    }
+
+    const updated = await tx.refund.updateMany({
+      where: { id: refundId, status: "PENDING" },
+      data: {
+        status: "FAILED",
+        failureReason: reason,
+        providerData: providerData ? JSON.parse(JSON.stringify(providerData)) : undefined,
+      },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    await tx.payment.update({
+      where: { id: refund.paymentId },
+      data: { refundedAmount: { decrement: refund.amount } },
+    });
+
+    if (refund.payment.escrow?.status === "REFUND_PENDING") {
+      await tx.escrow.update({
+        where: { id: refund.payment.escrow.id },
+        data: {
+          status: refund.payment.escrow.disputeReason ? "DISPUTED" : "HELD",
+          refundMethod: null,
+        },
+      });
+    }
+
+    return tx.refund.findUnique({ where: { id: refundId } });
+  });
+}
+
+/**
+ * Complete a pending refund: post it to the ledger, shrink any escrow still
+ * holding the booking money (or the provider's earning once it is paid out),
+ * return items to stock and mark the payment and order REFUNDED once nothing
+ * is left.
+ */
+export async function completeRefund(
+  refundId: string,
+  details: { providerRef?: string; providerData?: unknown } = {}
+): Promise<RefundResult> {
+  let completed;
+  try {
+    completed = await prisma.$transaction(async (tx) => {
+      const updated = await tx.refund.updateMany({
+        where: { id: refundId, status: "PENDING" },
+        data: {
+          status: "COMPLETED",
+          completedAt: new Date(),
+          providerRef: details.providerRef,
+          providerData: details.providerData
+            ? JSON.parse(JSON.stringify(details.providerData))
+            : undefined,
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const refund = await tx.refund.findUniqueOrThrow({
+        where: { id: refundId },
+        include: {
+          payment: {
+            include: {
+              escrow: true,
+              appointment: {
+                include: {
+                  earning: true,
+                  service: { select: { name: true } },
+                },
+              },
+              order: {
+                include: { items: true },
+              },
+            },
+          },
+        },
+      });
+
+      const { payment } = refund;
+      const amount = Number(refund.amount);
+      const escrow = payment.escrow;
+      const earning = payment.appointment?.earning;
+      const lines: JournalLine[] = [];
+
+      // Take the money back from wherever it is now
+      if (escrow && UNRELEASED_ESCROW.includes(escrow.status)) {
+        const { providerShare } = splitRefund(
+          amount,
+          Number(escrow.amount),
+          Number(escrow.netAmount)
+        );
+        const remaining = roundToCents(Number(escrow.amount) - amount);
+
+        lines.push({ side: "DEBIT", amount, account: "BOOKING_FUNDS" });
+
+        await tx.escrow.update({
+          where: { id: escrow.id },
+          data: {
+            amount: { decrement: amount },
+            netAmount: { decrement: providerShare },
+            refundMethod: refund.method,
+            ...(remaining <= 0
+              ? { status: "REFUNDED", refundedAt: new Date() }
+              : escrow.status === "REFUND_PENDING" && { status: "HELD" }),
+          },
+        });
+
+        if (providerShare > 0) {
+          await tx.wallet.update({
+            where: { userId: escrow.providerId },
+            data: { heldBalance: { decrement: providerShare } },
+          });
+        }
+      } else if (earning) {
+        // Already paid out: claw back from the provider and the platform in
+        // proportion to what the earning still covers, and shrink it to match
+        const earlierRefunds = await tx.refund.aggregate({
+          where: { paymentId: payment.id, status: "COMPLETED", id: { not: refund.id } },
+          _sum: { amount: true },
+        });
+        const paidOut = roundToCents(
+          Number(payment.amount) - Number(earlierRefunds._sum.amount || 0)
+        );
+        const { providerShare, platformShare } = splitRefund(
+          amount,
+          paidOut,
+          Number(earning.netAmount)
+        );
+        const reduced = reduceEarning(
+          {
+            grossAmount: Number(earning.grossAmount),
+            commissionRate: Number(earning.commissionRate),
+            feeAmount: Number(earning.feeAmount),
+            netAmount: Number(earning.netAmount),
+          },
+          paidOut > 0 ? (paidOut - amount) / paidOut : 0,
+          roundToCents(Number(earning.netAmount) - providerShare)
+        );
+
+        await tx.providerEarning.update({
+          where: { id: earning.id },
+          data: {
+            grossAmount: reduced.grossAmount,
+            feeAmount: reduced.feeAmount,
+            netAmount: reduced.netAmount,
+          },
+        });
+
+        if (providerShare > 0) {
+          lines.push({
+            side: "DEBIT",
+            amount: providerShare,
+            account: { walletUserId: earning.providerId },
+            description: `Refund to customer for ${payment.appointment?.service?.name || "booking"}`,
+          });
+        }
+        if (platformShare > 0) {
+          lines.push({ side: "DEBIT", amount: platformShare, account: "PLATFORM_FEES" });
+        }
+      } else {
+        lines.push({
+          side: "DEBIT",
+          amount,
+          account: payment.appointmentId ? "BOOKING_FUNDS" : "PLATFORM_SALES",
+        });
+      }
+
+      // ...and send it to the customer
+      lines.push(
+        refund.method === "WALLET"
+          ? {
+              side: "CREDIT",
+              amount,
+              account: { walletUserId: payment.userId },
+              transactionType: "REFUND",
+            }
+          : { side: "CREDIT", amount, account: "PAYMENT_CLEARING" }
+      );
+
+      await postJournal(tx, {
+        description: `Refund ${refund.creditNoteNumber}${refund.reason ? `: ${refund.reason}` : ""}`,
+        reference: payment.id,
+        lines,
+      });
+
+      const completedTotal = await tx.refund.aggregate({
+        where: { paymentId: payment.id, status: "COMPLETED" },
+        _sum: { amount: true },
+      });
+      const fullyRefunded =
+        Math.round(Number(completedTotal._sum.amount || 0) * 100) >=
+        Math.round(Number(payment.amount) * 100);
+
+      if (fullyRefunded) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { status: "REFUNDED" },
+        });
+      }
+
+      // Return stock: the items named on the refund, or everything left on a full refund
+      if (payment.order) {
+        const items: RefundItem[] =
+          (refund.items as unknown as RefundItem[] | null) ||
+          (fullyRefunded
+            ? payment.order.items
+                .filter((item) => item.quantity > item.refundedQuantity)
+                .map((item) => ({
+                  orderItemId: item.id,
+                  quantity: item.quantity - item.refundedQuantity,
+                }))
+            : []);
+
+        for (const item of items) {
+          const orderItem = payment.order.items.find((i) => i.id === item.orderItemId);
+          if (!orderItem) continue;
+
+          await tx.orderItem.update({
+            where: { id: orderItem.id },
+            data: { refundedQuantity: { increment: item.quantity } },
+          });
+          await tx.product.update({
+            where: { id: orderItem.productId },
+            data: { quantity: { increment: item.quantity } },
+          });
+        }
+
+        if (fullyRefunded) {
+          await tx.order.update({
+            where: { id: payment.order.id },
+            data: { status: "REFUNDED" },
+          });
+        }
+
+        if (items.length > 0 && !refund.items) {
+          await tx.refund.update({
+            where: { id: refund.id },
+            data: { items: JSON.parse(JSON.stringify(items)) },
+          });
+        }
+      }
+
+      return refund;
+    });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      // The clawback could not be taken from the provider's wallet. If the
+      // provider has already paid the customer back, leave it for an admin.
+      if (details.providerRef) {
+        await prisma.refund.update({
+          where: { id: refundId },
+          data: {
+            providerRef: details.providerRef,
+            failureReason: `Refunded by payment provider but not booked: ${error.message}`,
+          },
+        });
+      } else {
+        await failRefund(refundId, error.message);
+      }
+      return { success: false, error: error.message, status: 400 };
+    }
+    throw error;
+  }
+
+  if (!completed) {
+    return { success: false, error: "Refund is not pending", status: 400 };
+  }
+
+  const { payment } = completed;
+  const amount = Number(completed.amount);
+  const itemName = payment.appointment?.service?.name || payment.description || "your order";
+  const link = payment.appointmentId
+    ? `/dashboard/bookings/${payment.appointmentId}`
+    : payment.orderId
+      ? `/dashboard/orders/${payment.orderId}`
+      : undefined;
+
+  await notifyRefundIssued(
+    payment.userId,
+    amount,
+    itemName,
+    completed.id,
+    completed.method === "WALLET",
+    link
+  );
+
+  if (payment.appointment) {
+    await notifySystem(
+      payment.appointment.providerId,
+      "Booking Refunded",
+      `R${amount.toFixed(2)} of the payment for ${itemName} was refunded to the customer (credit note ${completed.creditNoteNumber})`,
+      link
+    );
+  }
+
+  const refund = await prisma.refund.findUniqueOrThrow({ where: { id: refundId } });
+  return { success: true, refund };
+}
@@ -0,0 +1,15 @@
+// Days after the appointment date before held funds are released automatically
+export const ESCROW_RELEASE_DAYS = parseInt(process.env.ESCROW_RELEASE_DAYS || "3");
+
+/**
+ * When a held booking payment is released if nobody disputes it. Booking
+ * dates are stored as UTC midnight, so the days are counted in UTC.
+ */
+export function getEscrowReleaseDate(
+  appointmentDate: Date,
+  days: number = ESCROW_RELEASE_DAYS
+): Date {
+  const releaseAfter = new Date(appointmentDate);
+  releaseAfter.setUTCDate(releaseAfter.getUTCDate() + days);
+  return releaseAfter;
+}
@@ -0,0 +1,226 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { notifyPaymentReceived, notifyPaymentFailed } from "@/lib/notifications";
+import { syncAppointmentReminders } from "@/lib/bookings/reminders";
+import { getPaymentStatusesBefore, PaymentVerification } from "./index";
+import { postJournal } from "./ledger";
+import { confirmPaidBooking, PaidBookingResult, refundUnbookedPayment } from "./escrow";
+import { confirmPaidOrder } from "./payable";
+
+type PaymentStatus = PaymentVerification["status"];
+type EventProvider = "YOCO" | "PAYFAST";
+
+interface RecordPaymentEventParams {
+  provider: EventProvider;
+  eventId: string;
+  eventType?: string;
+  payload: unknown;
+  signatureValid: boolean;
+  paymentId?: string;
+}
+
+interface SettlePaymentParams {
+  paymentId: string;
+  status: PaymentStatus;
+  providerLabel: string;
+  providerRef?: string;
+  providerData?: unknown;
+  failureReason?: string;
+}
+
+/**
+ * Record a raw provider event. Returns `duplicate: true` when an event with the
+ * same provider event ID has already been processed, so retries are no-ops.
+ */
+export async function recordPaymentEvent(params: RecordPaymentEventParams) {
+  const data = {
+    provider: params.provider,
+    eventId: params.eventId,
+    eventType: params.eventType,
+    payload: JSON.parse(JSON.stringify(params.payload ?? {})),
+    signatureValid: params.signatureValid,
+    paymentId: params.paymentId,
+  };
+
+  try {
+    const event = await prisma.paymentEvent.create({ data });
+    return { event, duplicate: false };
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.paymentEvent.findUniqueOrThrow({
+    where: {
+      provider_eventId: {
+        provider: params.provider,
+        eventId: params.eventId,
+      },
+    },
+  });
+
+  // Events that failed part-way (or never finished) may be retried
+  if (existing.status === "PROCESSED" || existing.status === "IGNORED") {
+    return { event: existing, duplicate: true };
+  }
+
+  const event = await prisma.paymentEvent.update({
+    where: { id: existing.id },
+    data: { ...data, status: "RECEIVED", error: null },
+  });
+
+  return { event, duplicate: false };
+}
+
+/**
+ * Mark a recorded event as processed, ignored or failed
+ */
+export async function finishPaymentEvent(
+  id: string,
+  status: "PROCESSED" | "IGNORED" | "FAILED",
+  details: { paymentId?: string; error?: string } = {}
+) {
+  return prisma.paymentEvent.update({
+    where: { id },
+    data: {
+      status,
+      paymentId: details.paymentId,
+      error: details.error,
+      processedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Move a payment to a new status if the state machine allows it, and apply
+ * the side effects of completion (ledger posting, order/appointment
+ * confirmation) in the same transaction. Returns `transitioned: false` when
+ * the payment was already past that status, in which case nothing is done.
+ */
+export async function settlePayment(params: SettlePaymentParams) {
+  const { paymentId, status } = params;
+
+  // Whether the payment confirmed its order or booking
+  let outcome = "CONFIRMED" as PaidBookingResult;
+
+  const transitioned = await prisma.$transaction(async (tx) => {
+    const updated = await tx.payment.updateMany({
+      where: {
+        id: paymentId,
+        status: { in: getPaymentStatusesBefore(status) },
+      },
+      data: {
+        status,
+        providerRef: params.providerRef,
+        providerData: params.providerData
+          ? JSON.parse(JSON.stringify(params.providerData))
+          : undefined,
+        completedAt: status === "COMPLETED" ? new Date() : undefined,
+        failureReason: status === "FAILED" ? params.failureReason : undefined,
+      },
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    if (status !== "COMPLETED") {
+      return true;
+    }
+
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+
+    const amount = Number(payment.amount);
+
+    if (payment.type === "WALLET_DEPOSIT") {
+      await postJournal(tx, {
+        description: `Wallet deposit via ${params.providerLabel}`,
+        reference: payment.id,
+        lines: [
+          { side: "DEBIT", amount, account: "PAYMENT_CLEARING" },
+          { side: "CREDIT", amount, account: { walletUserId: payment.userId } },
+        ],
+      });
+    } else {
+      await postJournal(tx, {
+        description: `${params.providerLabel} payment${payment.description ? `: ${payment.description}` : ""}`,
+        reference: payment.id,
+        lines: [
+          { side: "DEBIT", amount, account: "PAYMENT_CLEARING" },
+          {
+            side: "CREDIT",
+            amount,
+            account: payment.appointmentId ? "BOOKING_FUNDS" : "PLATFORM_SALES",
+          },
+        ],
+      });
+
+      if (payment.orderId && !(await confirmPaidOrder(tx, payment.orderId))) {
+        outcome = "NOT_PAYABLE";
+      }
+
+      if (payment.appointmentId) {
+        outcome = await confirmPaidBooking(tx, payment.id, payment.appointmentId);
+      }
+    }
+
+    return true;
+  });
+
+  if (!transitioned) {
+    return { transitioned: false };
+  }
+
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      appointment: {
+        include: {
+          service: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (payment && outcome === "NOT_PAYABLE") {
+    // The provider has taken the money, so keep it on record rather than undo it
+    console.error(
+      `Payment ${payment.id} completed for an order or booking that was already paid or can no longer be paid, and needs refunding by an admin`
+    );
+  } else if (payment?.appointmentId && outcome === "UNBOOKED") {
+    await refundUnbookedPayment(payment.appointmentId, payment.userId);
+  } else if (payment && status === "COMPLETED") {
+    await notifyPaymentReceived(
+      payment.userId,
+      Number(payment.amount),
+      payment.type === "WALLET_DEPOSIT"
+        ? "Wallet Deposit"
+        : payment.appointment?.service?.name || "Order",
+      payment.id
+    );
+
+    if (payment.appointmentId) {
+      await syncAppointmentReminders(payment.appointmentId).catch((err) =>
+        console.error("Failed to schedule appointment reminders:", err)
+      );
+    }
+  } else if (payment && status === "FAILED") {
+    await notifyPaymentFailed(
+      payment.userId,
+      Number(payment.amount),
+      params.failureReason || "Payment failed"
+    );
+  }
+
+  return { transitioned: true };
+}
@@ -1,5 +1,7 @@
+import crypto from "crypto";
 import {
   YOCO_SECRET_KEY,
+  YOCO_WEBHOOK_SECRET,
   PaymentInitiation,
   PaymentResult,
   PaymentVerification,
@@ -7,6 +9,9 @@ import {
 
 const YOCO_API_URL = "https://online.yoco.com/v1";
 
+// Reject webhooks whose timestamp is more than this far from our clock
+const YOCO_WEBHOOK_TOLERANCE_SECONDS = 180;
+
 interface YocoCheckoutRequest {
   amount: number;
   currency: string;
@@ -22,6 +27,13 @@ interface YocoCheckoutResponse {
   status: string;
 }
 
+interface YocoRefundResponse {
+  id?: string;
+  refundId?: string;
+  status?: string;
+  message?: string;
+}
+
 interface YocoPaymentResponse {
   id: string;
   status: "pending" | "successful" | "failed";
@@ -91,7 +103,9 @@ export async function initiateYocoPayment(
 }
 
 /**
- * Verify a Yoco payment status
+ * Verify a Yoco payment status. When Yoco can't be reached or won't answer,
+ * the result is `unverified` and PENDING: only Yoco saying the checkout
+ * failed makes it FAILED.
  */
 export async function verifyYocoPayment(
   checkoutId: string
@@ -99,7 +113,8 @@ export async function verifyYocoPayment(
   if (!YOCO_SECRET_KEY) {
     return {
       success: false,
-      status: "FAILED",
+      status: "PENDING",
+      unverified: true,
       error: "Yoco is not configured",
     };
   }
@@ -115,8 +130,9 @@ export async function verifyYocoPayment(
     if (!response.ok) {
       return {
         success: false,
-        status: "FAILED",
-        error: "Failed to verify payment",
+        status: "PENDING",
+        unverified: true,
+        error: `Failed to verify payment (${response.status})`,
       };
     }
 
@@ -140,12 +156,66 @@ export async function verifyYocoPayment(
     console.error("Yoco payment verification error:", error);
     return {
       success: false,
-      status: "FAILED",
+      status: "PENDING",
+      unverified: true,
       error: error instanceof Error ? error.message : "Failed to verify payment",
     };
   }
 }
 
+/**
+ * Refund a completed Yoco checkout, in full or in part. The idempotency key
+ * makes retries of the same refund safe.
+ */
+export async function refundYocoPayment(
+  checkoutId: string,
+  amount: number,
+  idempotencyKey: string
+): Promise<PaymentResult> {
+  if (!YOCO_SECRET_KEY) {
+    return {
+      success: false,
+      error: "Yoco is not configured",
+    };
+  }
+
+  try {
+    const response = await fetch(`${YOCO_API_URL}/checkouts/${checkoutId}/refund`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${YOCO_SECRET_KEY}`,
+        "Idempotency-Key": idempotencyKey,
+      },
+      body: JSON.stringify({
+        amount: Math.round(amount * 100), // Yoco expects amount in cents
+      }),
+    });
+
+    const data: YocoRefundResponse = await response.json();
+
+    if (!response.ok || data.status === "failed") {
+      return {
+        success: false,
+        error: data.message || "Failed to refund Yoco payment",
+        providerData: data as unknown as Record<string, unknown>,
+      };
+    }
+
+    return {
+      success: true,
+      providerRef: data.refundId || data.id,
+      providerData: data as unknown as Record<string, unknown>,
+    };
+  } catch (error) {
+    console.error("Yoco refund error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to refund payment",
+    };
+  }
+}
+
 /**
  * Generate Yoco inline checkout configuration
  */
@@ -159,3 +229,49 @@ export function getYocoInlineConfig(
     currency,
   };
 }
+
+/**
+ * Verify a Yoco webhook signature. Yoco signs `${webhook-id}.${webhook-timestamp}.${rawBody}`
+ * with HMAC-SHA256 using the base64 part of the `whsec_` secret, and sends one or
+ * more space-separated `v1,<signature>` values in the webhook-signature header.
+ */
+export function verifyYocoWebhookSignature(
+  rawBody: string,
+  headers: {
+    id: string | null;
+    timestamp: string | null;
+    signature: string | null;
+  }
+): { valid: boolean; error?: string } {
+  if (!YOCO_WEBHOOK_SECRET) {
+    return { valid: false, error: "Yoco webhook secret is not configured" };
+  }
+
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    return { valid: false, error: "Missing webhook signature headers" };
+  }
+
+  const timestamp = parseInt(headers.timestamp, 10);
+  if (
+    Number.isNaN(timestamp) ||
+    Math.abs(Date.now() / 1000 - timestamp) > YOCO_WEBHOOK_TOLERANCE_SECONDS
+  ) {
+    return { valid: false, error: "Webhook timestamp is outside the allowed window" };
+  }
+
+  const secret = Buffer.from(YOCO_WEBHOOK_SECRET.replace(/^whsec_/, ""), "base64");
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${headers.id}.${headers.timestamp}.${rawBody}`)
+    .digest();
+
+  const valid = headers.signature.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) return false;
+
+    const received = Buffer.from(signature, "base64");
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+
+  return valid ? { valid: true } : { valid: false, error: "Invalid signature" };
+}
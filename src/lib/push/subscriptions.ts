@@ -0,0 +1,65 @@
+import { prisma } from "@/lib/prisma";
+import { isPushConfigured, sendWebPush } from "./webpush";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url?: string;
+  // Replaces an earlier notification with the same tag on the device
+  tag?: string;
+}
+
+/**
+ * Push a message to every device the user has subscribed. Subscriptions the
+ * push service reports as gone are deleted on the spot. Returns how many
+ * devices accepted the message.
+ */
+export async function sendPushToUser(userId: string, message: PushMessage, now: Date = new Date()) {
+  if (!isPushConfigured()) return 0;
+
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { userId, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    select: { id: true, endpoint: true, p256dh: true, auth: true },
+  });
+
+  const payload = JSON.stringify(message);
+  const results = await Promise.all(
+    subscriptions.map(async (subscription) => ({
+      id: subscription.id,
+      result: await sendWebPush(subscription, payload, { topic: message.tag }),
+    }))
+  );
+
+  const gone = results.filter((r) => r.result.gone).map((r) => r.id);
+  const delivered = results.filter((r) => r.result.success).map((r) => r.id);
+
+  for (const { result } of results) {
+    if (!result.success && !result.gone) {
+      console.error(`Push delivery failed (${result.statusCode ?? "no response"}):`, result.error);
+    }
+  }
+
+  await Promise.all([
+    gone.length > 0 && prisma.pushSubscription.deleteMany({ where: { id: { in: gone } } }),
+    delivered.length > 0 &&
+      prisma.pushSubscription.updateMany({
+        where: { id: { in: delivered } },
+        data: { lastUsedAt: now },
+      }),
+  ]);
+
+  return delivered.length;
+}
+
+/**
+ * Delete subscriptions past the expiry time their push service gave them.
+ * Ones the browser dropped without an expiry are deleted the first time a
+ * push to them is rejected.
+ */
+export async function pruneExpiredPushSubscriptions(now: Date = new Date()) {
+  const { count } = await prisma.pushSubscription.deleteMany({
+    where: { expiresAt: { lte: now } },
+  });
+
+  return { deleted: count };
+}
@@ -0,0 +1,228 @@
+import {
+  createCipheriv,
+  createECDH,
+  createHash,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "crypto";
+
+// Web Push (RFC 8030) with VAPID (RFC 8292) and aes128gcm payload
+// encryption (RFC 8291), on Node's crypto alone
+
+export const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || "";
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || "";
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:support@mzansimarket.co.za";
+
+// How long a push service keeps trying to deliver, in seconds
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+// Push services reject VAPID tokens valid for more than 24 hours
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+const RECORD_SIZE = 4096;
+
+// The push services browsers subscribe through. Only sending to these keeps a
+// made-up subscription from pointing our requests at internal hosts.
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com", // Chrome, Edge, Opera
+  "android.googleapis.com",
+  "updates.push.services.mozilla.com", // Firefox
+  "push.apple.com", // Safari
+  "notify.windows.com", // Legacy Edge
+];
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushResult {
+  success: boolean;
+  statusCode?: number;
+  // The browser dropped the subscription; it will never work again
+  gone?: boolean;
+  error?: string;
+}
+
+export function isPushConfigured() {
+  return !!VAPID_PUBLIC_KEY && !!VAPID_PRIVATE_KEY;
+}
+
+/**
+ * Whether a subscription endpoint is an https URL at a known push service
+ * (or one of its subdomains) on the default port
+ */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" || url.port !== "" || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some((service) => host === service || host.endsWith(`.${service}`));
+}
+
+/**
+ * A new VAPID key pair, base64url encoded as push services and browsers
+ * expect: the raw uncompressed public point and the raw private scalar
+ */
+export function generateVapidKeys() {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+
+  return {
+    publicKey: ecdh.getPublicKey().toString("base64url"),
+    // The scalar can come back short; keys are always 32 bytes
+    privateKey: Buffer.concat([Buffer.alloc(32), ecdh.getPrivateKey()]).subarray(-32).toString("base64url"),
+  };
+}
+
+/**
+ * The Authorization header value that identifies us to the push service at
+ * `endpoint`, signed with the VAPID private key
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: { publicKey: string; privateKey: string; subject: string },
+  now: Date = new Date()
+) {
+  const publicKey = Buffer.from(keys.publicKey, "base64url");
+  const privateKey = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+
+  const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })).toString("base64url");
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_SECONDS,
+      sub: keys.subject,
+    })
+  ).toString("base64url");
+
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  }).toString("base64url");
+
+  return `vapid t=${header}.${claims}.${signature}, k=${keys.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record. Only
+ * the browser holding the subscription's private key can read it.
+ */
+export function encryptPushPayload(payload: string, target: Pick<PushTarget, "p256dh" | "auth">) {
+  const clientPublicKey = Buffer.from(target.p256dh, "base64url");
+  const authSecret = Buffer.from(target.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), clientPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(
+    hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16)
+  );
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  // A single record, so the payload is followed by the last-record delimiter
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const encrypted = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    encrypted,
+  ]);
+}
+
+/**
+ * A Topic header for any tag. RFC 8030 only allows up to 32 URL-safe base64
+ * characters, so the tag is hashed down; equal tags still share a topic and
+ * replace each other while waiting at the push service.
+ */
+export function toPushTopic(tag: string): string {
+  return createHash("sha256").update(tag).digest("base64url").slice(0, 32);
+}
+
+/**
+ * Deliver one push message. A 404 or 410 from the push service means the
+ * subscription is gone for good and should be deleted.
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: string,
+  options: { ttl?: number; urgency?: "low" | "normal" | "high"; topic?: string } = {}
+): Promise<PushResult> {
+  if (!isPushConfigured()) {
+    return { success: false, error: "Push notifications are not configured" };
+  }
+
+  // Subscriptions saved before endpoints were checked can't be trusted either
+  if (!isPushServiceEndpoint(target.endpoint)) {
+    return { success: false, gone: true, error: "Not a known push service" };
+  }
+
+  try {
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: createVapidAuthorization(target.endpoint, {
+          publicKey: VAPID_PUBLIC_KEY,
+          privateKey: VAPID_PRIVATE_KEY,
+          subject: VAPID_SUBJECT,
+        }),
+        "Content-Type": "application/octet-stream",
+        "Content-Encoding": "aes128gcm",
+        TTL: String(options.ttl ?? PUSH_TTL_SECONDS),
+        Urgency: options.urgency ?? "normal",
+        ...(options.topic && { Topic: toPushTopic(options.topic) }),
+      },
+      body: encryptPushPayload(payload, target),
+    });
+
+    if (response.ok) {
+      return { success: true, statusCode: response.status };
+    }
+
+    return {
+      success: false,
+      statusCode: response.status,
+      gone: response.status === 404 || response.status === 410,
+      error: await response.text().catch(() => response.statusText),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Push request failed",
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { BackgroundJob, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { releaseDueEscrows } from "@/lib/payments/escrow";
+import { releaseExpiredHolds } from "@/lib/bookings/holds";
+import { expireWaitlistOffers, offerFreedSlots } from "@/lib/bookings/waitlist";
+import { REMINDER_JOB, ReminderPayload, sendDueReminder } from "@/lib/bookings/reminders";
+import {
+  NOTIFICATION_EMAIL_JOB,
+  NOTIFICATION_SMS_JOB,
+  QueuedEmailPayload,
+  QueuedSmsPayload,
+  sendQueuedEmail,
+  sendQueuedSms,
+} from "@/lib/notifications/dispatcher";
+import { sendDueDigests } from "@/lib/notifications/digest";
+import { pruneExpiredPushSubscriptions } from "@/lib/push/subscriptions";
+import { backfillConversations } from "@/lib/messaging/conversations";
+import {
+  claimJobs,
+  completeJob,
+  failJob,
+  pruneFinishedJobs,
+  recoverStaleJobs,
+} from "./queue";
+import { clearAbandonedCarts, expireFeaturedServices, expireReferrals } from "./housekeeping";
+import { getRecurringKey, getRecurringRunAt, RecurringJob } from "./schedule";
+
+type JobHandler = (payload: Prisma.JsonValue, job: BackgroundJob) => Promise<unknown>;
+
+export class UnknownJobError extends Error {
+  constructor(type: string) {
+    super(`No handler registered for job type "${type}"`);
+    this.name = "UnknownJobError";
+  }
+}
+
+export const jobHandlers: Record<string, JobHandler> = {
+  "escrow.release-due": () => releaseDueEscrows(),
+  "slots.release-expired-holds": () => releaseExpiredHolds(),
+  "waitlist.expire-offers": () => expireWaitlistOffers(),
+  "waitlist.offer-freed-slots": (payload) => {
+    const { providerId, date } = payload as { providerId: string; date: string };
+    return offerFreedSlots(providerId, date);
+  },
+  [REMINDER_JOB]: (payload) => sendDueReminder(payload as unknown as ReminderPayload),
+  [NOTIFICATION_EMAIL_JOB]: (payload) => sendQueuedEmail(payload as unknown as QueuedEmailPayload),
+  [NOTIFICATION_SMS_JOB]: (payload) => sendQueuedSms(payload as unknown as QueuedSmsPayload),
+  "notifications.send-digests": () => sendDueDigests(),
+  "push.prune-expired": () => pruneExpiredPushSubscriptions(),
+  "conversations.backfill": () => backfillConversations(),
+  "featured.expire": () => expireFeaturedServices(),
+  "referrals.expire": () => expireReferrals(),
+  "carts.clear-abandoned": () => clearAbandonedCarts(),
+  "jobs.recover-stale": () => recoverStaleJobs(),
+  "jobs.prune": () => pruneFinishedJobs(),
+};
+
+// Sweeps the worker runs on a timer. A failed run is not retried; the next
+// interval runs it again.
+export const recurringJobs: RecurringJob[] = [
+  { type: "slots.release-expired-holds", everyMinutes: 1 },
+  { type: "waitlist.expire-offers", everyMinutes: 1 },
+  { type: "jobs.recover-stale", everyMinutes: 5 },
+  { type: "conversations.backfill", everyMinutes: 5 },
+  { type: "notifications.send-digests", everyMinutes: 15 },
+  { type: "escrow.release-due", everyMinutes: 60 },
+  { type: "featured.expire", everyMinutes: 60 },
+  { type: "referrals.expire", everyMinutes: 24 * 60 },
+  { type: "carts.clear-abandoned", everyMinutes: 24 * 60 },
+  { type: "push.prune-expired", everyMinutes: 24 * 60 },
+  { type: "jobs.prune", everyMinutes: 24 * 60 },
+];
+
+/**
+ * Queue this interval's run of every recurring job. Safe to call from any
+ * number of workers: the interval key lets only the first one through.
+ */
+export async function enqueueRecurringJobs(now: Date = new Date()) {
+  const { count } = await prisma.backgroundJob.createMany({
+    data: recurringJobs.map((job) => ({
+      type: job.type,
+      key: getRecurringKey(job, now),
+      runAt: getRecurringRunAt(job, now),
+      maxAttempts: 1,
+    })),
+    skipDuplicates: true,
+  });
+
+  return { queued: count };
+}
+
+/**
+ * Claim due jobs and run them one after another. A failing job is put back
+ * with backoff; it never stops the rest of the batch.
+ */
+export async function runDueJobs(workerId: string, limit: number = 10) {
+  const jobs = await claimJobs(workerId, limit);
+  let completed = 0;
+  let failed = 0;
+
+  for (const job of jobs) {
+    try {
+      const handler = jobHandlers[job.type];
+      if (!handler) {
+        throw new UnknownJobError(job.type);
+      }
+
+      await handler(job.payload, job);
+      await completeJob(job.id);
+      completed++;
+    } catch (error) {
+      console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      await failJob(job, error);
+      failed++;
+    }
+  }
+
+  return { claimed: jobs.length, completed, failed };
+}
@@ -0,0 +1,79 @@
+import { prisma } from "@/lib/prisma";
+
+// Referrals that haven't turned into a booking by now are closed
+export const REFERRAL_EXPIRY_DAYS = parseInt(process.env.REFERRAL_EXPIRY_DAYS || "90");
+
+// Carts nobody has touched for this long are cleared out
+export const CART_EXPIRY_DAYS = parseInt(process.env.CART_EXPIRY_DAYS || "30");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Switch off featured placements whose paid days have run out. The featured
+ * listing already hides them; this keeps isActive honest for everything else.
+ */
+export async function expireFeaturedServices(now: Date = new Date()) {
+  const active = await prisma.featuredService.findMany({
+    where: { isActive: true, startTime: { lte: now } },
+    select: { id: true, startTime: true, days: true },
+  });
+
+  const ended = active
+    .filter((entry) => {
+      const endDate = new Date(entry.startTime);
+      endDate.setDate(endDate.getDate() + entry.days);
+      return endDate <= now;
+    })
+    .map((entry) => entry.id);
+
+  if (ended.length === 0) {
+    return { expired: 0 };
+  }
+
+  const { count } = await prisma.featuredService.updateMany({
+    where: { id: { in: ended }, isActive: true },
+    data: { isActive: false },
+  });
+
+  return { expired: count };
+}
+
+/**
+ * Close referrals that can no longer convert: their share link has expired
+ * or they are older than REFERRAL_EXPIRY_DAYS. Expired links that never
+ * brought anyone in are deleted.
+ */
+export async function expireReferrals(now: Date = new Date()) {
+  const { count: expired } = await prisma.referral.updateMany({
+    where: {
+      status: "PENDING",
+      OR: [
+        { share: { expiresAt: { lt: now } } },
+        { createdAt: { lt: new Date(now.getTime() - REFERRAL_EXPIRY_DAYS * DAY_MS) } },
+      ],
+    },
+    data: { status: "EXPIRED" },
+  });
+
+  const { count: sharesRemoved } = await prisma.serviceShare.deleteMany({
+    where: { expiresAt: { lt: now }, referrals: { none: {} } },
+  });
+
+  return { expired, sharesRemoved };
+}
+
+/**
+ * Delete carts that were abandoned. Cart items don't hold stock, so nothing
+ * needs to be given back.
+ */
+export async function clearAbandonedCarts(now: Date = new Date()) {
+  const { count } = await prisma.order.deleteMany({
+    where: {
+      status: "CART",
+      updatedAt: { lt: new Date(now.getTime() - CART_EXPIRY_DAYS * DAY_MS) },
+      payments: { none: {} },
+    },
+  });
+
+  return { cleared: count };
+}
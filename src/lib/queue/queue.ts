@@ -0,0 +1,171 @@
+import { BackgroundJob, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { describeJobError, getRetryAt } from "./schedule";
+
+// A RUNNING job whose worker has been quiet this long is assumed lost
+export const JOB_LOCK_TIMEOUT_MINUTES = parseInt(process.env.JOB_LOCK_TIMEOUT_MINUTES || "15");
+
+// Finished jobs are kept this long for the admin page
+export const JOB_RETENTION_DAYS = parseInt(process.env.JOB_RETENTION_DAYS || "14");
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  key?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Queue a job for the worker. With a `key`, a second enqueue of the same
+ * key is ignored and returns null.
+ */
+export async function enqueueJob(
+  type: string,
+  payload?: Prisma.InputJsonValue,
+  options: EnqueueOptions = {}
+) {
+  try {
+    return await prisma.backgroundJob.create({
+      data: {
+        type,
+        payload: payload ?? Prisma.JsonNull,
+        runAt: options.runAt ?? new Date(),
+        key: options.key,
+        maxAttempts: options.maxAttempts,
+      },
+    });
+  } catch (error) {
+    if (
+      options.key &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lock up to `limit` due jobs for one worker. SKIP LOCKED lets several
+ * workers poll the table without ever picking up the same job.
+ */
+export async function claimJobs(workerId: string, limit: number = 10): Promise<BackgroundJob[]> {
+  return prisma.$queryRaw<BackgroundJob[]>`
+    UPDATE "background_jobs"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "background_jobs"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+export async function completeJob(jobId: string) {
+  return prisma.backgroundJob.update({
+    where: { id: jobId },
+    data: {
+      status: "COMPLETED",
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+    },
+  });
+}
+
+/**
+ * Record a failed attempt. The job goes back in the queue with backoff, or
+ * to DEAD once it has used all its attempts.
+ */
+export async function failJob(job: BackgroundJob, error: unknown, now: Date = new Date()) {
+  const isDead = job.attempts >= job.maxAttempts;
+
+  return prisma.backgroundJob.update({
+    where: { id: job.id },
+    data: {
+      status: isDead ? "DEAD" : "PENDING",
+      runAt: isDead ? job.runAt : getRetryAt(job.attempts, now),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: describeJobError(error),
+    },
+  });
+}
+
+/**
+ * Put jobs back whose worker died mid-run. The lost run still counts as
+ * an attempt.
+ */
+export async function recoverStaleJobs(now: Date = new Date()) {
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MINUTES * 60 * 1000);
+  const lastError = "Worker stopped responding while running this job";
+
+  const dead = await prisma.backgroundJob.updateMany({
+    where: {
+      status: "RUNNING",
+      lockedAt: { lt: staleBefore },
+      attempts: { gte: prisma.backgroundJob.fields.maxAttempts },
+    },
+    data: { status: "DEAD", lockedAt: null, lockedBy: null, lastError },
+  });
+
+  const retried = await prisma.backgroundJob.updateMany({
+    where: { status: "RUNNING", lockedAt: { lt: staleBefore } },
+    data: { status: "PENDING", runAt: now, lockedAt: null, lockedBy: null, lastError },
+  });
+
+  return { dead: dead.count, retried: retried.count };
+}
+
+/**
+ * Give a dead or cancelled job a fresh set of attempts
+ */
+export async function retryJob(jobId: string) {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id: jobId, status: { in: ["DEAD", "CANCELLED"] } },
+    data: { status: "PENDING", attempts: 0, runAt: new Date() },
+  });
+
+  return count > 0;
+}
+
+export async function cancelJob(jobId: string) {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { id: jobId, status: "PENDING" },
+    data: { status: "CANCELLED" },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Drop pending jobs that are no longer wanted, e.g. a reminder for a
+ * booking that was cancelled. Their keys are freed so the same work can be
+ * queued again later.
+ */
+export async function cancelJobsByKey(keyPrefix: string) {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { status: "PENDING", key: { startsWith: keyPrefix } },
+    data: { status: "CANCELLED", key: null },
+  });
+
+  return count;
+}
+
+export async function pruneFinishedJobs(now: Date = new Date()) {
+  const before = new Date(now.getTime() - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.backgroundJob.deleteMany({
+    where: { status: { in: ["COMPLETED", "CANCELLED"] }, updatedAt: { lt: before } },
+  });
+
+  return { pruned: count };
+}
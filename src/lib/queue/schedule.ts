@@ -0,0 +1,53 @@
+// First retry waits this long; each further attempt doubles it
+export const RETRY_BASE_SECONDS = parseInt(process.env.JOB_RETRY_BASE_SECONDS || "30");
+
+// Longest a failed job waits before it is tried again
+export const RETRY_MAX_SECONDS = parseInt(process.env.JOB_RETRY_MAX_SECONDS || "21600");
+
+/**
+ * Backoff before the next attempt of a job that has failed `attempts` times:
+ * 30s, 1m, 2m, 4m... up to six hours
+ */
+export function getRetryDelay(
+  attempts: number,
+  baseSeconds: number = RETRY_BASE_SECONDS,
+  maxSeconds: number = RETRY_MAX_SECONDS
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(baseSeconds * 2 ** exponent, maxSeconds) * 1000;
+}
+
+export function getRetryAt(attempts: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + getRetryDelay(attempts));
+}
+
+export interface RecurringJob {
+  type: string;
+  everyMinutes: number;
+}
+
+/**
+ * Dedupe key for one run of a recurring job. Every worker that wakes up in
+ * the same interval computes the same key, so the run is only queued once.
+ */
+export function getRecurringKey(job: RecurringJob, now: Date = new Date()): string {
+  const interval = job.everyMinutes * 60 * 1000;
+  return `${job.type}:${Math.floor(now.getTime() / interval)}`;
+}
+
+/**
+ * Start of the interval a recurring run belongs to
+ */
+export function getRecurringRunAt(job: RecurringJob, now: Date = new Date()): Date {
+  const interval = job.everyMinutes * 60 * 1000;
+  return new Date(Math.floor(now.getTime() / interval) * interval);
+}
+
+/**
+ * Error text stored on the job, trimmed so a huge stack doesn't bloat the row
+ */
+export function describeJobError(error: unknown, maxLength: number = 4000): string {
+  const text =
+    error instanceof Error ? error.stack || `${error.name}: ${error.message}` : String(error);
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
@@ -0,0 +1,130 @@
+import { Client } from "pg";
+import { prisma } from "@/lib/prisma";
+import { RealtimeEvent, trimRealtimeEvent } from "./events";
+
+// Events go through Postgres NOTIFY so every web instance, and the worker,
+// reaches users connected to any other instance
+const CHANNEL = "realtime";
+
+// NOTIFY payloads must be under 8000 bytes
+const MAX_PAYLOAD_BYTES = 7900;
+
+const RECONNECT_DELAY_MS = 5000;
+
+type Listener = (event: RealtimeEvent) => void;
+
+interface Envelope {
+  userIds: string[];
+  event: RealtimeEvent;
+}
+
+const globalForRealtime = globalThis as unknown as {
+  realtimeListeners: Map<string, Set<Listener>> | undefined;
+  realtimeClient: Promise<Client> | null | undefined;
+};
+
+const listeners = (globalForRealtime.realtimeListeners ??= new Map());
+
+/**
+ * Send an event to everyone's open tabs. Never throws: a user who isn't
+ * connected catches up the next time they load the page.
+ */
+export async function publishRealtime(userIds: string[], event: RealtimeEvent) {
+  try {
+    let payload = JSON.stringify({ userIds, event } satisfies Envelope);
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      payload = JSON.stringify({ userIds, event: trimRealtimeEvent(event) } satisfies Envelope);
+    }
+
+    await prisma.$executeRaw`SELECT pg_notify(${CHANNEL}, ${payload})`;
+  } catch (error) {
+    console.error("Realtime publish failed:", error);
+  }
+}
+
+function deliver(payload: string) {
+  let envelope: Envelope;
+  try {
+    envelope = JSON.parse(payload);
+  } catch {
+    return;
+  }
+
+  for (const userId of envelope.userIds) {
+    listeners.get(userId)?.forEach((listener) => listener(envelope.event));
+  }
+}
+
+// One LISTEN connection per process, shared by every open stream
+function connect() {
+  if (globalForRealtime.realtimeClient) {
+    return globalForRealtime.realtimeClient;
+  }
+
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+
+  const reconnect = () => {
+    if (globalForRealtime.realtimeClient !== connecting) return;
+    globalForRealtime.realtimeClient = null;
+    client.end().catch(() => {});
+
+    setTimeout(() => {
+      if (listeners.size > 0) {
+        connect().catch((error) => console.error("Realtime reconnect failed:", error));
+      }
+    }, RECONNECT_DELAY_MS);
+  };
+
+  client.on("notification", (message) => {
+    if (message.channel === CHANNEL && message.payload) {
+      deliver(message.payload);
+    }
+  });
+  client.on("error", (error) => {
+    console.error("Realtime connection lost:", error);
+    reconnect();
+  });
+  client.on("end", reconnect);
+
+  const connecting = client
+    .connect()
+    .then(() => client.query(`LISTEN ${CHANNEL}`))
+    .then(() => client)
+    .catch((error) => {
+      reconnect();
+      throw error;
+    });
+
+  globalForRealtime.realtimeClient = connecting;
+  return connecting;
+}
+
+/**
+ * Call `listener` with every event published to `userId` until the returned
+ * function is called
+ */
+export async function subscribeRealtime(userId: string, listener: Listener) {
+  let userListeners = listeners.get(userId);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(userId, userListeners);
+  }
+  userListeners.add(listener);
+
+  const unsubscribe = () => {
+    const current = listeners.get(userId);
+    current?.delete(listener);
+    if (current?.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+
+  try {
+    await connect();
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+
+  return unsubscribe;
+}
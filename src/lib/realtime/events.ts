@@ -0,0 +1,74 @@
+export interface RealtimeMessage {
+  id: string;
+  conversationId: string | null;
+  senderId: string;
+  receiverId: string;
+  subject: string | null;
+  content: string;
+  status: string;
+  createdAt: string | Date;
+  sender: {
+    id: string;
+    username: string;
+    picture: string | null;
+  };
+  attachments?: {
+    id: string;
+    url: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+  }[];
+}
+
+export interface RealtimeNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  createdAt: string | Date;
+}
+
+// Events pushed to signed-in browsers over /api/realtime. Where a payload is
+// optional it may be dropped to fit the transport, and the client fetches it.
+export type RealtimeEvent =
+  | {
+      type: "message.new";
+      conversationId: string;
+      messageId: string;
+      senderId: string;
+      message?: RealtimeMessage;
+    }
+  | { type: "message.read"; conversationId: string; readerId: string; readAt: string }
+  | { type: "typing"; conversationId: string; userId: string }
+  // Something other than a new message changed the conversation's summary
+  | { type: "conversation.updated"; conversationId: string }
+  | { type: "notification.new"; notificationId: string; notification?: RealtimeNotification };
+
+/**
+ * One Server-Sent Events frame. JSON never contains a raw newline, so a
+ * single data line is enough.
+ */
+export function formatSseEvent(event: RealtimeEvent) {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * The same event without its optional payload
+ */
+export function trimRealtimeEvent(event: RealtimeEvent): RealtimeEvent {
+  switch (event.type) {
+    case "message.new":
+      return {
+        type: event.type,
+        conversationId: event.conversationId,
+        messageId: event.messageId,
+        senderId: event.senderId,
+      };
+    case "notification.new":
+      return { type: event.type, notificationId: event.notificationId };
+    default:
+      return event;
+  }
+}
@@ -0,0 +1,54 @@
+interface ReviewableAppointment {
+  status: string;
+  requesterId: string;
+  review: { id: string } | null;
+}
+
+interface ReviewableOrder {
+  status: string;
+  userId: string;
+  review: { id: string } | null;
+}
+
+/**
+ * Why `userId` can't review a booking, or null when they can: it has to be
+ * theirs, it has to be completed and it can't have been reviewed already
+ */
+export function getAppointmentReviewError(
+  appointment: ReviewableAppointment | null,
+  userId: string
+): string | null {
+  if (!appointment || appointment.requesterId !== userId) {
+    return "Booking not found";
+  }
+
+  if (appointment.status !== "COMPLETED") {
+    return "You can review a booking once it has been completed";
+  }
+
+  if (appointment.review) {
+    return "You have already reviewed this booking";
+  }
+
+  return null;
+}
+
+/**
+ * Why `userId` can't review an order, or null when they can: it has to be
+ * theirs, it has to be delivered and it can't have been reviewed already
+ */
+export function getOrderReviewError(order: ReviewableOrder | null, userId: string): string | null {
+  if (!order || order.userId !== userId) {
+    return "Order not found";
+  }
+
+  if (order.status !== "DELIVERED") {
+    return "You can review an order once it has been delivered";
+  }
+
+  if (order.review) {
+    return "You have already reviewed this order";
+  }
+
+  return null;
+}
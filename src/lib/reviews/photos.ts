@@ -0,0 +1,31 @@
+import { statOwnUpload, validateUpload } from "@/lib/uploads";
+import { ReviewError } from "./transactions";
+
+export const MAX_REVIEW_PHOTOS = 5;
+
+/**
+ * Check each photo is an image the reviewer uploaded for reviews, and read its
+ * size from the saved file
+ */
+export async function prepareReviewPhotos(senderId: string, urls: string[]) {
+  if (urls.length > MAX_REVIEW_PHOTOS) {
+    throw new ReviewError(`You can add up to ${MAX_REVIEW_PHOTOS} photos`);
+  }
+
+  return Promise.all(
+    [...new Set(urls)].map(async (url) => {
+      const file = await statOwnUpload(url, senderId, "review");
+
+      if (!file) {
+        throw new ReviewError("Photo not found");
+      }
+
+      const validationError = validateUpload({ type: file.mimeType, size: file.size }, "review");
+      if (validationError) {
+        throw new ReviewError(validationError);
+      }
+
+      return { url, size: file.size };
+    })
+  );
+}
@@ -0,0 +1,63 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getBayesianScore } from "./scoring";
+
+/**
+ * Averages of the verified reviews matching `where`, ready to store on a shop
+ * or service. Only verified reviews count, so anything left over from before
+ * reviews were tied to bookings doesn't move a rating.
+ */
+async function summarizeVerifiedReviews(where: Prisma.ReviewWhereInput) {
+  const stats = await prisma.review.aggregate({
+    where: { ...where, isVerified: true },
+    _avg: {
+      rating: true,
+      qualityRating: true,
+      punctualityRating: true,
+      valueRating: true,
+      communicationRating: true,
+    },
+    _count: { rating: true },
+  });
+
+  return {
+    rating: stats._avg.rating ?? 0,
+    totalReviews: stats._count.rating,
+    qualityRating: stats._avg.qualityRating,
+    punctualityRating: stats._avg.punctualityRating,
+    valueRating: stats._avg.valueRating,
+    communicationRating: stats._avg.communicationRating,
+    rankingScore: getBayesianScore(stats._avg.rating, stats._count.rating),
+  };
+}
+
+export async function refreshShopRating(providerId: string) {
+  await prisma.shop.updateMany({
+    where: { userId: providerId },
+    data: await summarizeVerifiedReviews({ receiverId: providerId }),
+  });
+}
+
+export async function refreshServiceRating(serviceId: string) {
+  await prisma.service.updateMany({
+    where: { id: serviceId },
+    data: await summarizeVerifiedReviews({ serviceId }),
+  });
+}
+
+/**
+ * Recompute the shop rating of a review's receiver and the rating of its
+ * service. Call after any review is created, changed or removed.
+ */
+export async function refreshReviewRatings(review: {
+  receiverId: string | null;
+  serviceId: string | null;
+}) {
+  if (review.receiverId) {
+    await refreshShopRating(review.receiverId);
+  }
+
+  if (review.serviceId) {
+    await refreshServiceRating(review.serviceId);
+  }
+}
@@ -0,0 +1,36 @@
+// The score a shop or service's reviews are pulled towards, and how many
+// reviews' worth of weight that pull carries. Shops and services without any
+// verified reviews aren't scored at all: they get 0 and rank last.
+export const RATING_PRIOR_MEAN = parseFloat(process.env.RATING_PRIOR_MEAN || "3.5");
+export const RATING_PRIOR_WEIGHT = parseInt(process.env.RATING_PRIOR_WEIGHT || "10");
+
+export const SUB_RATINGS = [
+  "qualityRating",
+  "punctualityRating",
+  "valueRating",
+  "communicationRating",
+] as const;
+
+export type SubRating = (typeof SUB_RATINGS)[number];
+
+export const SUB_RATING_LABELS: Record<SubRating, string> = {
+  qualityRating: "Quality",
+  punctualityRating: "Punctuality",
+  valueRating: "Value",
+  communicationRating: "Communication",
+};
+
+/**
+ * A rating pulled towards the prior mean until there are enough reviews to
+ * trust it, so one 5-star review doesn't outrank two hundred 4.8s
+ */
+export function getBayesianScore(
+  average: number | null,
+  count: number,
+  priorMean = RATING_PRIOR_MEAN,
+  priorWeight = RATING_PRIOR_WEIGHT
+) {
+  if (!average || count === 0) return 0;
+
+  return (priorMean * priorWeight + average * count) / (priorWeight + count);
+}
@@ -0,0 +1,26 @@
+export const REVIEW_SORTS = ["newest", "helpful", "rating"] as const;
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export function parseReviewSort(value: string | null): ReviewSort {
+  return REVIEW_SORTS.includes(value as ReviewSort) ? (value as ReviewSort) : "newest";
+}
+
+/**
+ * How to order reviews for a sort. Ties fall back to the newest first so
+ * pages stay stable.
+ */
+export function getReviewOrderBy(sort: ReviewSort) {
+  switch (sort) {
+    case "helpful":
+      return [
+        { helpfulCount: "desc" as const },
+        { unhelpfulCount: "asc" as const },
+        { createdAt: "desc" as const },
+      ];
+    case "rating":
+      return [{ rating: "desc" as const }, { createdAt: "desc" as const }];
+    default:
+      return [{ createdAt: "desc" as const }];
+  }
+}
@@ -0,0 +1,78 @@
+import { prisma } from "@/lib/prisma";
+import { getAppointmentReviewError, getOrderReviewError } from "./eligibility";
+
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+export interface ReviewTransactionInput {
+  appointmentId?: string;
+  orderId?: string;
+}
+
+// Who and what a review is about, taken from the booking or order it's for
+export interface ResolvedReviewTransaction {
+  receiverId: string | null;
+  serviceId: string | null;
+  appointmentId?: string;
+  orderId?: string;
+}
+
+/**
+ * Check `userId` can review a booking or order: it has to be theirs, it has to
+ * be finished and it can't have been reviewed already
+ */
+export async function resolveReviewTransaction(
+  userId: string,
+  input: ReviewTransactionInput
+): Promise<ResolvedReviewTransaction> {
+  if (input.appointmentId) {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: input.appointmentId },
+      select: {
+        id: true,
+        status: true,
+        requesterId: true,
+        providerId: true,
+        serviceId: true,
+        review: { select: { id: true } },
+      },
+    });
+
+    const error = getAppointmentReviewError(appointment, userId);
+    if (error) {
+      throw new ReviewError(error);
+    }
+
+    return {
+      receiverId: appointment.providerId,
+      serviceId: appointment.serviceId,
+      appointmentId: appointment.id,
+    };
+  }
+
+  if (input.orderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: input.orderId },
+      select: {
+        id: true,
+        status: true,
+        userId: true,
+        review: { select: { id: true } },
+      },
+    });
+
+    const error = getOrderReviewError(order, userId);
+    if (error) {
+      throw new ReviewError(error);
+    }
+
+    // Shop orders have no seller, so the review is of the store itself
+    return { receiverId: null, serviceId: null, orderId: order.id };
+  }
+
+  throw new ReviewError("Please choose a booking or order to review");
+}
@@ -0,0 +1,30 @@
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Record `userId`'s vote on a review, or take it back when `helpful` is null,
+ * and recount the review's votes
+ */
+export async function setReviewVote(reviewId: string, userId: string, helpful: boolean | null) {
+  return prisma.$transaction(async (tx) => {
+    if (helpful === null) {
+      await tx.reviewVote.deleteMany({ where: { reviewId, userId } });
+    } else {
+      await tx.reviewVote.upsert({
+        where: { reviewId_userId: { reviewId, userId } },
+        create: { reviewId, userId, helpful },
+        update: { helpful },
+      });
+    }
+
+    const [helpfulCount, unhelpfulCount] = await Promise.all([
+      tx.reviewVote.count({ where: { reviewId, helpful: true } }),
+      tx.reviewVote.count({ where: { reviewId, helpful: false } }),
+    ]);
+
+    return tx.review.update({
+      where: { id: reviewId },
+      data: { helpfulCount, unhelpfulCount },
+      select: { helpfulCount: true, unhelpfulCount: true },
+    });
+  });
+}
@@ -0,0 +1,44 @@
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Whether `blockerId` has blocked `userId`
+ */
+export async function hasBlocked(blockerId: string, userId: string) {
+  const block = await prisma.userBlock.findUnique({
+    where: { blockerId_blockedId: { blockerId, blockedId: userId } },
+    select: { id: true },
+  });
+
+  return !!block;
+}
+
+/**
+ * Whether either user has blocked the other
+ */
+export async function isBlockedEitherWay(userId: string, otherUserId: string) {
+  const count = await prisma.userBlock.count({
+    where: {
+      OR: [
+        { blockerId: userId, blockedId: otherUserId },
+        { blockerId: otherUserId, blockedId: userId },
+      ],
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Everyone `userId` has blocked or been blocked by, to leave out of their
+ * search results
+ */
+export async function getBlockedUserIds(userId: string | undefined) {
+  if (!userId) return [];
+
+  const blocks = await prisma.userBlock.findMany({
+    where: { OR: [{ blockerId: userId }, { blockedId: userId }] },
+    select: { blockerId: true, blockedId: true },
+  });
+
+  return blocks.map((block) => (block.blockerId === userId ? block.blockedId : block.blockerId));
+}
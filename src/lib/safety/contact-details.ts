@@ -0,0 +1,27 @@
+import { normalizePhoneNumber } from "@/lib/sms/phone";
+
+export type ContactDetailKind = "phone" | "link";
+
+// Runs of digits with the spaces, dots, dashes and brackets people put in
+// phone numbers. Each one is checked properly before it counts.
+const PHONE_CANDIDATE = /\+?\d[\d\s().-]{7,}\d/g;
+
+const LINK = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|me|ly|co|za|app|link|info|biz)\b/i;
+
+/**
+ * The kinds of off-platform contact details in a message, if any
+ */
+export function findContactDetails(text: string): ContactDetailKind[] {
+  const found: ContactDetailKind[] = [];
+
+  const candidates = text.match(PHONE_CANDIDATE) ?? [];
+  if (candidates.some((candidate) => normalizePhoneNumber(candidate))) {
+    found.push("phone");
+  }
+
+  if (LINK.test(text)) {
+    found.push("link");
+  }
+
+  return found;
+}
@@ -0,0 +1,75 @@
+import { prisma } from "@/lib/prisma";
+import { findContactDetails } from "./contact-details";
+
+// New conversations one user can start with people they've never messaged, per day
+export const FIRST_CONTACT_DAILY_LIMIT = parseInt(process.env.FIRST_CONTACT_DAILY_LIMIT || "10");
+
+// Accounts younger than this have messages with phone numbers or links flagged
+export const NEW_ACCOUNT_DAYS = parseInt(process.env.NEW_ACCOUNT_FLAG_DAYS || "7");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the first message in `conversation` is the two users' first
+ * contact. Bookings, orders and applications mean they already deal with
+ * each other.
+ */
+export async function isFirstContact(conversation: {
+  participantKey: string;
+  appointmentId: string | null;
+  orderId: string | null;
+  jobApplicationId: string | null;
+}) {
+  if (conversation.appointmentId || conversation.orderId || conversation.jobApplicationId) {
+    return false;
+  }
+
+  const earlier = await prisma.conversation.count({
+    where: { participantKey: conversation.participantKey, lastMessageAt: { not: null } },
+  });
+
+  return earlier === 0;
+}
+
+export async function hasReachedFirstContactLimit(senderId: string, now: Date = new Date()) {
+  const started = await prisma.conversation.count({
+    where: {
+      startedById: senderId,
+      isFirstContact: true,
+      startedAt: { gte: new Date(now.getTime() - DAY_MS) },
+    },
+  });
+
+  return started >= FIRST_CONTACT_DAILY_LIMIT;
+}
+
+/**
+ * Put a message in the admin report queue if a brand-new account used it to
+ * share a phone number or link. The message is still delivered. Never throws.
+ */
+export async function flagSuspiciousMessage(
+  message: { id: string; senderId: string; content: string },
+  sender: { createdAt: Date },
+  now: Date = new Date()
+) {
+  try {
+    if (now.getTime() - sender.createdAt.getTime() > NEW_ACCOUNT_DAYS * DAY_MS) return null;
+
+    const found = findContactDetails(message.content);
+    if (found.length === 0) return null;
+
+    const accountDays = Math.floor((now.getTime() - sender.createdAt.getTime()) / DAY_MS);
+
+    return await prisma.contentReport.create({
+      data: {
+        type: "SPAM",
+        description: `Flagged automatically: an account ${accountDays === 0 ? "created today" : `${accountDays} day(s) old`} shared ${found.map((kind) => (kind === "phone" ? "a phone number" : "a link")).join(" and ")} in a message.`,
+        reportedUserId: message.senderId,
+        reportedMessageId: message.id,
+      },
+    });
+  } catch (error) {
+    console.error("Error flagging message:", error);
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+import { appendFile } from "fs/promises";
+
+export interface SmsMessage {
+  to: string; // +27...
+  body: string;
+}
+
+export interface SmsResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SmsDriver {
+  name: string;
+  send(message: SmsMessage): Promise<SmsResult>;
+}
+
+/**
+ * Local development: print the message instead of sending it
+ */
+export function createConsoleDriver(): SmsDriver {
+  return {
+    name: "console",
+    async send({ to, body }) {
+      console.log(`SMS not sent (console driver). Would send to: ${to}`);
+      console.log(body);
+      return { success: true };
+    },
+  };
+}
+
+/**
+ * Local development and tests: append each message to a file as a line of
+ * JSON, so codes and texts can be read back
+ */
+export function createFileDriver(path: string): SmsDriver {
+  return {
+    name: "file",
+    async send({ to, body }) {
+      try {
+        await appendFile(path, JSON.stringify({ to, body, sentAt: new Date().toISOString() }) + "\n");
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Could not write SMS file",
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Any gateway that takes a JSON POST of { to, from, message } with a bearer
+ * token, and answers with an id for the message
+ */
+export function createHttpDriver(config: { url: string; token?: string; senderId?: string }): SmsDriver {
+  return {
+    name: "http",
+    async send({ to, body }) {
+      try {
+        const response = await fetch(config.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(config.token && { Authorization: `Bearer ${config.token}` }),
+          },
+          body: JSON.stringify({ to, from: config.senderId, message: body }),
+        });
+
+        if (!response.ok) {
+          return {
+            success: false,
+            error: `Gateway responded ${response.status}: ${await response.text().catch(() => "")}`,
+          };
+        }
+
+        const data = await response.json().catch(() => ({}));
+        return { success: true, messageId: data.id ?? data.messageId };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "SMS gateway request failed",
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import {
+  createConsoleDriver,
+  createFileDriver,
+  createHttpDriver,
+  SmsDriver,
+  SmsResult,
+} from "./drivers";
+import { normalizePhoneNumber } from "./phone";
+
+export type { SmsDriver, SmsMessage, SmsResult } from "./drivers";
+
+// Which driver sends texts: "console" (default), "file" or "http"
+const SMS_DRIVER = process.env.SMS_DRIVER || "console";
+const SMS_LOG_FILE = process.env.SMS_LOG_FILE || "sms-outbox.log";
+const SMS_GATEWAY_URL = process.env.SMS_GATEWAY_URL || "";
+const SMS_GATEWAY_TOKEN = process.env.SMS_GATEWAY_TOKEN;
+const SMS_SENDER_ID = process.env.SMS_SENDER_ID || "MzansiMkt";
+
+// To support another gateway, add its driver here and select it with SMS_DRIVER
+export const smsDrivers: Record<string, () => SmsDriver> = {
+  console: () => createConsoleDriver(),
+  file: () => createFileDriver(SMS_LOG_FILE),
+  http: () =>
+    createHttpDriver({ url: SMS_GATEWAY_URL, token: SMS_GATEWAY_TOKEN, senderId: SMS_SENDER_ID }),
+};
+
+let driver: SmsDriver | null = null;
+
+export function getSmsDriver() {
+  if (!driver) {
+    const create = smsDrivers[SMS_DRIVER];
+    if (!create) {
+      throw new Error(`Unknown SMS driver "${SMS_DRIVER}"`);
+    }
+    driver = create();
+  }
+
+  return driver;
+}
+
+/**
+ * Text a phone number through the configured driver. Never throws: a bad
+ * number or a gateway failure comes back as an unsuccessful result.
+ */
+export async function sendSms(to: string, body: string): Promise<SmsResult> {
+  const phone = normalizePhoneNumber(to);
+  if (!phone) {
+    return { success: false, error: "Invalid phone number" };
+  }
+
+  try {
+    const result = await getSmsDriver().send({ to: phone, body });
+    if (!result.success) {
+      console.error("SMS sending error:", result.error);
+    }
+    return result;
+  } catch (error) {
+    console.error("SMS sending error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "SMS sending failed",
+    };
+  }
+}
@@ -0,0 +1,33 @@
+const SITE_NAME = "Mzansi Market";
+const SITE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+// Texts are billed per 160 characters, so they stay short and link to the
+// details instead of spelling them out
+export const smsMessages = {
+  verificationCode: (code: string, validMinutes: number) =>
+    `${code} is your ${SITE_NAME} verification code. It expires in ${validMinutes} minutes. Never share it with anyone.`,
+
+  bookingConfirmed: (data: {
+    serviceName: string;
+    providerName: string;
+    date: string;
+    time: string;
+    bookingId: string;
+  }) =>
+    `${SITE_NAME}: ${data.serviceName} with ${data.providerName} on ${data.date} at ${data.time} is confirmed. ${SITE_URL}/dashboard/bookings/${data.bookingId}`,
+
+  appointmentReminder: (data: {
+    serviceName: string;
+    otherPartyName: string;
+    date: string;
+    time: string;
+    startsIn: string;
+    bookingId: string;
+    respondLink?: string;
+  }) =>
+    `${SITE_NAME} reminder: ${data.serviceName} with ${data.otherPartyName} in ${data.startsIn}, ${data.date} at ${data.time}. ${
+      data.respondLink
+        ? `Confirm or cancel: ${data.respondLink}`
+        : `${SITE_URL}/dashboard/bookings/${data.bookingId}`
+    }`,
+};
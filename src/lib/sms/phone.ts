@@ -0,0 +1,35 @@
+// South African mobile numbers start 06, 07 or 08 locally. Landlines can't
+// take SMS, so they're rejected.
+const SA_MOBILE = /^(?:\+27|0027|27|0)([6-8]\d{8})$/;
+
+// Any other country's number, already in international (E.164) form
+const INTERNATIONAL = /^\+(?!27)([1-9]\d{7,14})$/;
+
+/**
+ * "082 123 4567" -> "+27821234567", the form SMS gateways expect, or null if
+ * it can't be a mobile number
+ */
+export function normalizePhoneNumber(value: string | null | undefined): string | null {
+  const compact = value?.replace(/[\s\-().]/g, "") ?? "";
+
+  const local = compact.match(SA_MOBILE);
+  if (local) return `+27${local[1]}`;
+
+  const international = compact.match(INTERNATIONAL);
+  return international ? `+${international[1]}` : null;
+}
+
+/**
+ * Whether two ways of writing a number reach the same phone. A changed number
+ * has to be verified again before anything is texted to it.
+ */
+export function isSamePhoneNumber(a: string | null | undefined, b: string | null | undefined) {
+  return (normalizePhoneNumber(a) ?? a ?? null) === (normalizePhoneNumber(b) ?? b ?? null);
+}
+
+/**
+ * "+27821234567" -> "+27 *** *** 4567", for showing where a code was sent
+ */
+export function maskPhoneNumber(phone: string) {
+  return `${phone.slice(0, 3)} *** *** ${phone.slice(-4)}`;
+}
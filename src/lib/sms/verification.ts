@@ -0,0 +1,104 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { sendSms } from "./index";
+import { smsMessages } from "./messages";
+import { normalizePhoneNumber } from "./phone";
+
+const CODE_VALID_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+
+// Stops a user running up SMS costs by asking for code after code
+const RESEND_AFTER_SECONDS = 60;
+
+export class PhoneVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PhoneVerificationError";
+  }
+}
+
+function hashCode(userId: string, code: string) {
+  return createHash("sha256").update(`${userId}:${code}`).digest("hex");
+}
+
+/**
+ * Text a six-digit code to the number the user wants to verify. Any earlier
+ * code stops working.
+ */
+export async function sendPhoneVerificationCode(
+  userId: string,
+  phoneNumber: string,
+  now: Date = new Date()
+) {
+  const phone = normalizePhoneNumber(phoneNumber);
+  if (!phone) {
+    throw new PhoneVerificationError("Please enter a valid mobile number");
+  }
+
+  const previous = await prisma.phoneVerification.findUnique({
+    where: { userId },
+    select: { sentAt: true },
+  });
+  const waitSeconds = previous
+    ? Math.ceil(RESEND_AFTER_SECONDS - (now.getTime() - previous.sentAt.getTime()) / 1000)
+    : 0;
+  if (waitSeconds > 0) {
+    throw new PhoneVerificationError(`Please wait ${waitSeconds} seconds before asking for another code`);
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const data = {
+    phone,
+    codeHash: hashCode(userId, code),
+    attempts: 0,
+    sentAt: now,
+    expiresAt: new Date(now.getTime() + CODE_VALID_MINUTES * 60 * 1000),
+  };
+
+  await prisma.phoneVerification.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+
+  const result = await sendSms(phone, smsMessages.verificationCode(code, CODE_VALID_MINUTES));
+  if (!result.success) {
+    await prisma.phoneVerification.delete({ where: { userId } });
+    throw new PhoneVerificationError("We couldn't send a code to that number. Please try again.");
+  }
+
+  return { phone, expiresAt: data.expiresAt };
+}
+
+/**
+ * Check a code the user typed in. A match saves the number on their profile
+ * as verified; too many wrong guesses use the code up.
+ */
+export async function confirmPhoneVerificationCode(userId: string, code: string, now: Date = new Date()) {
+  const verification = await prisma.phoneVerification.findUnique({ where: { userId } });
+
+  if (!verification || verification.expiresAt <= now || verification.attempts >= MAX_ATTEMPTS) {
+    throw new PhoneVerificationError("This code has expired. Please ask for a new one.");
+  }
+
+  const expected = Buffer.from(verification.codeHash);
+  const received = Buffer.from(hashCode(userId, code.trim()));
+
+  if (!timingSafeEqual(expected, received)) {
+    await prisma.phoneVerification.update({
+      where: { userId },
+      data: { attempts: { increment: 1 } },
+    });
+    throw new PhoneVerificationError("That code is incorrect");
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { phone: verification.phone, phoneVerifiedAt: now },
+    }),
+    prisma.phoneVerification.delete({ where: { userId } }),
+  ]);
+
+  return { phone: verification.phone };
+}
@@ -0,0 +1,108 @@
+import path from "path";
+import { stat } from "fs/promises";
+
+// Allowed file types
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const ALLOWED_DOCUMENT_TYPES = ["application/pdf", "application/msword", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
+export const ALLOWED_ALL_TYPES = [...ALLOWED_IMAGE_TYPES, ...ALLOWED_DOCUMENT_TYPES];
+
+// Max file sizes
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Saved files take their extension from the checked type rather than the
+// uploaded name, so nothing is ever served as something it wasn't checked as
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+};
+
+export const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
+
+export function isImageType(mimeType: string) {
+  return ALLOWED_IMAGE_TYPES.includes(mimeType);
+}
+
+/**
+ * Which types an upload type accepts and how big they may be. Message
+ * attachments take documents too but keep images to the image limit.
+ */
+export function getUploadRules(uploadType: string, mimeType?: string) {
+  if (uploadType === "document" || uploadType === "job") {
+    return { allowedTypes: ALLOWED_ALL_TYPES, maxSize: MAX_DOCUMENT_SIZE };
+  }
+
+  if (uploadType === "message") {
+    return {
+      allowedTypes: ALLOWED_ALL_TYPES,
+      maxSize: mimeType && isImageType(mimeType) ? MAX_IMAGE_SIZE : MAX_DOCUMENT_SIZE,
+    };
+  }
+
+  return { allowedTypes: ALLOWED_IMAGE_TYPES, maxSize: MAX_IMAGE_SIZE };
+}
+
+/**
+ * Why a file can't be uploaded as `uploadType`, or null if it can
+ */
+export function validateUpload(file: { type: string; size: number }, uploadType: string) {
+  const { allowedTypes, maxSize } = getUploadRules(uploadType, file.type);
+
+  if (!allowedTypes.includes(file.type)) {
+    return `File type not allowed. Allowed types: ${allowedTypes.join(", ")}`;
+  }
+
+  if (file.size > maxSize) {
+    return `File too large. Maximum size: ${maxSize / (1024 * 1024)}MB`;
+  }
+
+  return null;
+}
+
+export function getUploadExtension(mimeType: string) {
+  return EXTENSIONS_BY_TYPE[mimeType] ?? "";
+}
+
+export function getMimeTypeFromFilename(filename: string) {
+  const ext = path.extname(filename).toLowerCase();
+  if (ext === ".jpeg") return "image/jpeg";
+  return Object.keys(EXTENSIONS_BY_TYPE).find((type) => EXTENSIONS_BY_TYPE[type] === ext) ?? null;
+}
+
+export function getUploadUrl(userId: string, uploadType: string, filename: string) {
+  return `/uploads/${userId}/${uploadType}/${filename}`;
+}
+
+/**
+ * The saved filename if `url` is something `userId` uploaded as `uploadType`,
+ * otherwise null
+ */
+export function parseOwnUploadUrl(url: string, userId: string, uploadType: string) {
+  const prefix = getUploadUrl(userId, uploadType, "");
+  if (!url.startsWith(prefix)) return null;
+
+  const filename = url.slice(prefix.length);
+  return /^[\w-]+\.[a-z]+$/i.test(filename) ? filename : null;
+}
+
+/**
+ * The real type and size of a file `userId` uploaded as `uploadType`, read
+ * from disk rather than trusted from the client. Null if `url` isn't theirs.
+ */
+export async function statOwnUpload(url: string, userId: string, uploadType: string) {
+  const storedName = parseOwnUploadUrl(url, userId, uploadType);
+  const mimeType = storedName && getMimeTypeFromFilename(storedName);
+
+  if (!storedName || !mimeType) return null;
+
+  const file = await stat(path.join(UPLOAD_DIR, userId, uploadType, storedName)).catch(() => null);
+
+  if (!file?.isFile()) return null;
+
+  return { storedName, mimeType, size: file.size };
+}
@@ -30,6 +30,20 @@ export function formatDate(date: Date | string): string {
   });
 }
 
+/**
+ * Format a booking date, e.g. "Monday, 15 January 2024". Booking dates are
+ * stored as UTC midnight, so they are read in UTC to keep the right day.
+ */
+export function formatBookingDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-ZA", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
 /**
  * Format date and time
  */
@@ -68,6 +82,15 @@ export function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + "...";
 }
 
+/**
+ * Format a file size in bytes for display
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Generate initials from name
  */
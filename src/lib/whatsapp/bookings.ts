@@ -0,0 +1,144 @@
+import { WhatsAppMessageKind } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getAppointmentStart } from "@/lib/payments/cancellation";
+import { describeReminderOffset } from "@/lib/bookings/calendar";
+import { createAppointmentActionToken } from "@/lib/bookings/reminders";
+import { formatBookingDate } from "@/lib/utils";
+import { whatsappMessages } from "./messages";
+import { sendWhatsAppMessage, WhatsAppError } from "./index";
+
+const SITE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+export const BOOKING_WHATSAPP_KINDS = ["BOOKING_CONFIRMATION", "BOOKING_REMINDER"] as const;
+
+export type BookingWhatsAppKind = (typeof BOOKING_WHATSAPP_KINDS)[number];
+
+async function getBooking(appointmentId: string) {
+  return prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: {
+      service: { select: { name: true } },
+      requester: { select: { id: true, username: true, phone: true } },
+      provider: {
+        select: {
+          id: true,
+          username: true,
+          shop: { select: { name: true, address: true, whatsappNotifications: true } },
+        },
+      },
+      whatsappMessages: {
+        select: { kind: true, sentAt: true },
+        orderBy: { sentAt: "desc" },
+      },
+    },
+  });
+}
+
+type Booking = NonNullable<Awaited<ReturnType<typeof getBooking>>>;
+
+// Time to the start in the largest whole unit: "3 days", "5 hours"
+function describeTimeUntil(start: Date, now: Date) {
+  const minutes = Math.max(1, Math.round((start.getTime() - now.getTime()) / 60000));
+  if (minutes >= 24 * 60) return describeReminderOffset(Math.round(minutes / (24 * 60)) * 24 * 60);
+  if (minutes >= 60) return describeReminderOffset(Math.round(minutes / 60) * 60);
+  return describeReminderOffset(minutes);
+}
+
+// Why a message can't be sent right now, or null if it can
+function getUnavailableReason(booking: Booking, kind: BookingWhatsAppKind, now: Date) {
+  if (booking.status !== "CONFIRMED") {
+    return "Only confirmed bookings can be messaged";
+  }
+  if (kind === "BOOKING_REMINDER" && getAppointmentStart(booking.date, booking.time) <= now) {
+    return "This booking has already started";
+  }
+  return null;
+}
+
+function composeBookingMessage(booking: Booking, kind: BookingWhatsAppKind, now: Date) {
+  const providerName = booking.provider.shop?.name || booking.provider.username;
+  const serviceName = booking.service?.name || "Your booking";
+  const address = booking.provider.shop?.address || booking.address || undefined;
+  const date = formatBookingDate(booking.date);
+
+  if (kind === "BOOKING_CONFIRMATION") {
+    return whatsappMessages.bookingConfirmation({
+      customerName: booking.requester.username,
+      serviceName,
+      providerName,
+      date,
+      time: booking.time,
+      address,
+      bookingId: booking.id,
+    });
+  }
+
+  return whatsappMessages.appointmentReminder({
+    recipientName: booking.requester.username,
+    otherPartyName: providerName,
+    serviceName,
+    date,
+    time: booking.time,
+    startsIn: describeTimeUntil(getAppointmentStart(booking.date, booking.time), now),
+    address,
+    bookingId: booking.id,
+    respondLink: `${SITE_URL}/reminders/${createAppointmentActionToken(booking.id, booking.requester.id)}`,
+  });
+}
+
+/**
+ * What the provider can send to the customer on WhatsApp for a booking, and
+ * when each message was last sent. Null if the booking doesn't exist.
+ */
+export async function getBookingWhatsAppStatus(appointmentId: string, now: Date = new Date()) {
+  const booking = await getBooking(appointmentId);
+  if (!booking) return null;
+
+  return {
+    providerId: booking.providerId,
+    enabled: booking.provider.shop?.whatsappNotifications ?? false,
+    hasCustomerPhone: !!booking.requester.phone,
+    messages: BOOKING_WHATSAPP_KINDS.map((kind) => {
+      const unavailableReason = getUnavailableReason(booking, kind, now);
+      return {
+        kind,
+        available: !unavailableReason,
+        unavailableReason,
+        preview: unavailableReason ? null : composeBookingMessage(booking, kind, now),
+        lastSentAt: booking.whatsappMessages.find((message) => message.kind === kind)?.sentAt ?? null,
+      };
+    }),
+  };
+}
+
+/**
+ * Build the message from the booking as it is now and send it from the
+ * provider to the customer. Callers check that the provider owns the booking.
+ */
+export async function sendBookingWhatsApp(
+  appointmentId: string,
+  kind: BookingWhatsAppKind,
+  now: Date = new Date()
+) {
+  const booking = await getBooking(appointmentId);
+  if (!booking) {
+    throw new WhatsAppError("Booking not found");
+  }
+
+  if (!booking.provider.shop?.whatsappNotifications) {
+    throw new WhatsAppError("Turn on WhatsApp messages in your shop settings first");
+  }
+
+  const unavailableReason = getUnavailableReason(booking, kind, now);
+  if (unavailableReason) {
+    throw new WhatsAppError(unavailableReason);
+  }
+
+  return sendWhatsAppMessage({
+    kind: WhatsAppMessageKind[kind],
+    senderId: booking.providerId,
+    to: booking.requester.phone,
+    body: composeBookingMessage(booking, kind, now),
+    appointmentId: booking.id,
+  });
+}
@@ -0,0 +1,34 @@
+import { createWhatsAppLink } from "./messages";
+
+export interface WhatsAppOutgoing {
+  to: string; // +27...
+  body: string;
+}
+
+export type WhatsAppDelivery =
+  // The sender still has to press send in their own WhatsApp
+  | { sent: false; link: string }
+  // Delivered by the driver itself, e.g. through a business API
+  | { sent: true; externalId?: string };
+
+export interface WhatsAppDriver {
+  name: string;
+  deliver(message: WhatsAppOutgoing): Promise<WhatsAppDelivery>;
+}
+
+/**
+ * No API access needed: hands back a wa.me link with the message typed in,
+ * for the sender to open and send from their own WhatsApp
+ */
+export function createLinkDriver(): WhatsAppDriver {
+  return {
+    name: "link",
+    async deliver({ to, body }) {
+      const link = createWhatsAppLink(to, body);
+      if (!link) {
+        throw new Error(`Can't make a WhatsApp link for ${to}`);
+      }
+      return { sent: false, link };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { WhatsAppMessageKind } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { normalizePhoneNumber } from "@/lib/sms/phone";
+import { createLinkDriver, WhatsAppDriver } from "./drivers";
+
+export type { WhatsAppDelivery, WhatsAppDriver, WhatsAppOutgoing } from "./drivers";
+
+// Which driver sends WhatsApp messages. Only "link" exists today; a business
+// API driver would be added below and selected with WHATSAPP_DRIVER.
+const WHATSAPP_DRIVER = process.env.WHATSAPP_DRIVER || "link";
+
+export const whatsappDrivers: Record<string, () => WhatsAppDriver> = {
+  link: () => createLinkDriver(),
+};
+
+let driver: WhatsAppDriver | null = null;
+
+export function getWhatsAppDriver() {
+  if (!driver) {
+    const create = whatsappDrivers[WHATSAPP_DRIVER];
+    if (!create) {
+      throw new Error(`Unknown WhatsApp driver "${WHATSAPP_DRIVER}"`);
+    }
+    driver = create();
+  }
+
+  return driver;
+}
+
+export class WhatsAppError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhatsAppError";
+  }
+}
+
+/**
+ * Send a message through the configured driver and record it against its
+ * booking or order. With the link driver nothing leaves until the sender
+ * opens the returned link.
+ */
+export async function sendWhatsAppMessage(input: {
+  kind: WhatsAppMessageKind;
+  senderId: string;
+  to: string | null | undefined;
+  body: string;
+  appointmentId?: string;
+  orderId?: string;
+}) {
+  const to = normalizePhoneNumber(input.to);
+  if (!to) {
+    throw new WhatsAppError("The customer hasn't added a mobile number we can use for WhatsApp");
+  }
+
+  const whatsapp = getWhatsAppDriver();
+  const delivery = await whatsapp.deliver({ to, body: input.body });
+
+  const message = await prisma.whatsAppMessage.create({
+    data: {
+      kind: input.kind,
+      to,
+      body: input.body,
+      driver: whatsapp.name,
+      externalId: "externalId" in delivery ? delivery.externalId : null,
+      senderId: input.senderId,
+      appointmentId: input.appointmentId,
+      orderId: input.orderId,
+    },
+  });
+
+  return { message, link: "link" in delivery ? delivery.link : null };
+}
@@ -0,0 +1,57 @@
+import type {
+  AppointmentReminderData,
+  BookingConfirmationData,
+  OrderConfirmationData,
+} from "@/lib/email";
+import { normalizePhoneNumber } from "@/lib/sms/phone";
+
+const SITE_URL = process.env.NEXTAUTH_URL || "http://localhost:3000";
+
+// Messages come from the provider's own WhatsApp, so they speak as the
+// business rather than as Mzansi Market. *text* is bold in WhatsApp.
+export const whatsappMessages = {
+  bookingConfirmation: (data: BookingConfirmationData) =>
+    [
+      `Hi ${data.customerName}, your booking with *${data.providerName}* is confirmed ✅`,
+      "",
+      `*Service:* ${data.serviceName}`,
+      `*Date:* ${data.date}`,
+      `*Time:* ${data.time}`,
+      ...(data.address ? [`*Where:* ${data.address}`] : []),
+      "",
+      `Booking details: ${SITE_URL}/dashboard/bookings/${data.bookingId}`,
+    ].join("\n"),
+
+  appointmentReminder: (data: AppointmentReminderData) =>
+    [
+      `Hi ${data.recipientName}, a reminder that your ${data.serviceName} booking with *${data.otherPartyName}* is in ${data.startsIn} ⏰`,
+      "",
+      `*When:* ${data.date} at ${data.time}`,
+      ...(data.address ? [`*Where:* ${data.address}`] : []),
+      "",
+      data.respondLink
+        ? `Please confirm you're coming, or cancel: ${data.respondLink}`
+        : `Booking details: ${SITE_URL}/dashboard/bookings/${data.bookingId}`,
+    ].join("\n"),
+
+  orderUpdate: (data: OrderConfirmationData & { status: string }) =>
+    [
+      `Hi ${data.customerName}, an update on your order: it is now *${data.status.toLowerCase()}* 📦`,
+      "",
+      ...data.items.map((item) => `${item.quantity} x ${item.name}`),
+      `*Total:* R ${data.total.toFixed(2)}`,
+      "",
+      `Order details: ${SITE_URL}/dashboard/orders/${data.orderId}`,
+    ].join("\n"),
+};
+
+/**
+ * A wa.me link that opens a chat with `phone` with `text` typed in, or null
+ * if the number can't be on WhatsApp
+ */
+export function createWhatsAppLink(phone: string | null | undefined, text: string) {
+  const number = normalizePhoneNumber(phone);
+  if (!number) return null;
+
+  return `https://wa.me/${number.slice(1)}?text=${encodeURIComponent(text)}`;
+}
@@ -0,0 +1,44 @@
+import { prisma } from "@/lib/prisma";
+import { whatsappMessages } from "./messages";
+import { sendWhatsAppMessage, WhatsAppError } from "./index";
+
+/**
+ * Tell the customer where their order is up to, from the order as it is now
+ */
+export async function sendOrderWhatsApp(orderId: string, senderId: string) {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      user: { select: { username: true, phone: true } },
+      items: { include: { product: { select: { name: true } } } },
+    },
+  });
+
+  if (!order) {
+    throw new WhatsAppError("Order not found");
+  }
+
+  if (order.status === "CART") {
+    throw new WhatsAppError("This order hasn't been placed yet");
+  }
+
+  const body = whatsappMessages.orderUpdate({
+    customerName: order.user.username,
+    orderId: order.id,
+    items: order.items.map((item) => ({
+      name: item.product.name,
+      quantity: item.quantity,
+      price: Number(item.price),
+    })),
+    total: Number(order.totalAmount),
+    status: order.status,
+  });
+
+  return sendWhatsAppMessage({
+    kind: "ORDER_UPDATE",
+    senderId,
+    to: order.user.phone,
+    body,
+    orderId: order.id,
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Background job worker. Runs next to the web app (see the `worker` service
+ * in docker-compose.yml) and works through the background_jobs table:
+ *
+ *   npm run worker
+ *
+ * Any number of workers can run at once; jobs are claimed with row locks.
+ */
+import os from "os";
+import { prisma } from "@/lib/prisma";
+import { enqueueRecurringJobs, runDueJobs } from "@/lib/queue/handlers";
+
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || "5000");
+const BATCH_SIZE = parseInt(process.env.WORKER_BATCH_SIZE || "10");
+const SCHEDULE_INTERVAL_MS = 60 * 1000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+
+let isStopping = false;
+let wakeUp: (() => void) | null = null;
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wakeUp = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+async function main() {
+  console.log(`Worker ${workerId} started`);
+  let lastScheduled = 0;
+
+  while (!isStopping) {
+    let isBacklogged = false;
+
+    try {
+      if (Date.now() - lastScheduled >= SCHEDULE_INTERVAL_MS) {
+        await enqueueRecurringJobs();
+        lastScheduled = Date.now();
+      }
+
+      const result = await runDueJobs(workerId, BATCH_SIZE);
+      if (result.claimed > 0) {
+        console.log(
+          `Ran ${result.claimed} job(s): ${result.completed} completed, ${result.failed} failed`
+        );
+      }
+
+      // A full batch means more is probably waiting, so go again straight away
+      isBacklogged = result.claimed === BATCH_SIZE;
+    } catch (error) {
+      console.error("Worker poll failed:", error);
+    }
+
+    if (!isBacklogged && !isStopping) {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  await prisma.$disconnect();
+  console.log(`Worker ${workerId} stopped`);
+}
+
+// Let the running batch finish so no job is left locked mid-run
+function stop(signal: string) {
+  console.log(`${signal} received, stopping after the current batch`);
+  isStopping = true;
+  wakeUp?.();
+}
+
+process.on("SIGTERM", () => stop("SIGTERM"));
+process.on("SIGINT", () => stop("SIGINT"));
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});